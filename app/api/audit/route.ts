@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { auditCsv } from "@/lib/audit/actions";
+import {
+  parseAuditParams,
+  queryAudit,
+  recordClientAction,
+  type ClientAuditInput,
+} from "@/lib/audit/log";
+import { jakartaDay } from "@/lib/daterange";
+
+// Entries shown per request unless `limit` says otherwise; the CSV has them all
+const DEFAULT_LIMIT = 200;
+
+// Filters: actor, action, kind, item, from, to (Jakarta days), q; newest first.
+// `format=csv` downloads every match instead of a page of JSON
+export async function GET(req: Request) {
+  const auth = await authorize("audit:view");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { searchParams } = new URL(req.url);
+  const items = await queryAudit(parseAuditParams(searchParams));
+  if (searchParams.get("format") === "csv") {
+    return new NextResponse(auditCsv(items), {
+      headers: {
+        "content-type": "text/csv; charset=utf-8",
+        "content-disposition": `attachment; filename="audit-${jakartaDay()}.csv"`,
+        "cache-control": "no-store",
+      },
+    });
+  }
+  const limit = Number(searchParams.get("limit")) || DEFAULT_LIMIT;
+  return NextResponse.json({ items: items.slice(0, limit), total: items.length });
+}
+
+// Caption generated or copied in the dashboard
+export async function POST(req: Request) {
+  const auth = await authorize("drafts:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = ((await req.json().catch(() => null)) ?? {}) as ClientAuditInput;
+  const result = await recordClientAction(auth.value, body);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  return NextResponse.json({ item: result.value }, { status: 201 });
+}
@@ -0,0 +1,22 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import { startSession } from "@/lib/auth/guard";
+import { authenticate, toPublic } from "@/lib/auth/users";
+
+// Checks username and password and sets the session cookie
+export async function POST(req: Request) {
+  const body = ((await req.json().catch(() => null)) ?? {}) as {
+    username?: string;
+    password?: string;
+  };
+  const result = await authenticate(body.username ?? "", body.password ?? "");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const user = result.value;
+  await recordAudit(user, {
+    action: "auth.login",
+    target: { kind: "user", id: user.id, label: user.username },
+  });
+  return startSession(NextResponse.json({ user: toPublic(user) }), user);
+}
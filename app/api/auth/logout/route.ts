@@ -0,0 +1,21 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import { currentUser, endSession } from "@/lib/auth/guard";
+import { revokeSessions } from "@/lib/auth/users";
+
+// Clears the session cookie; `{ "everywhere": true }` also ends the user's
+// sessions in other browsers
+export async function POST(req: Request) {
+  const body = ((await req.json().catch(() => null)) ?? {}) as { everywhere?: boolean };
+  const user = await currentUser();
+  if (user && body.everywhere) await revokeSessions(user.id);
+  // Without a valid session there is nobody to record
+  if (user) {
+    await recordAudit(user, {
+      action: "auth.logout",
+      target: { kind: "user", id: user.id, label: user.username },
+      note: body.everywhere ? "Semua perangkat" : undefined,
+    });
+  }
+  return endSession(NextResponse.json({ ok: true }));
+}
@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@/lib/auth/guard";
+import { needsSetup, toPublic } from "@/lib/auth/users";
+
+// The signed-in user (null without a valid session) and whether the first
+// admin account still has to be created
+export async function GET() {
+  const user = await currentUser();
+  return NextResponse.json({
+    user: user ? toPublic(user) : null,
+    // Personal calendar subscription token
+    feedToken: user?.feedToken ?? null,
+    setup: !user && (await needsSetup()),
+  });
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import { startSession } from "@/lib/auth/guard";
+import { setupAdmin, toPublic, type UserInput } from "@/lib/auth/users";
+
+// Creates the first admin account while there are no users, and signs it in
+export async function POST(req: Request) {
+  const body = ((await req.json().catch(() => null)) ?? {}) as UserInput;
+  const result = await setupAdmin(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const user = result.value;
+  await recordAudit(user, {
+    action: "auth.setup",
+    target: { kind: "user", id: user.id, label: user.username },
+    after: { username: user.username, name: user.name, role: user.role },
+  });
+  return startSession(NextResponse.json({ user: toPublic(user) }, { status: 201 }), user);
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import type { Briefing } from "@/lib/briefing/build";
+import { briefings, generateBriefing, rangeBriefingId } from "@/lib/briefing/daily";
+import { briefingFilename, briefingHtml, briefingPdf } from "@/lib/briefing/render";
+
+const FORMATS = ["json", "html", "pdf"];
+
+// One briefing: a stored one by `id`, or built now for `from`/`to` (ISO).
+// `format` json (default), html or pdf; html and pdf download as files.
+export async function GET(req: Request) {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { searchParams } = new URL(req.url);
+  const format = searchParams.get("format") ?? "json";
+  if (!FORMATS.includes(format)) {
+    return NextResponse.json({ error: "format harus json, html atau pdf" }, { status: 400 });
+  }
+
+  const id = searchParams.get("id");
+  let item: Briefing | undefined;
+  if (id) {
+    item = await briefings.get(id);
+    if (!item) {
+      return NextResponse.json({ error: `Laporan ${id} tidak ditemukan` }, { status: 404 });
+    }
+  } else {
+    const from = Date.parse(searchParams.get("from") ?? "");
+    const to = Date.parse(searchParams.get("to") ?? "");
+    if (Number.isNaN(from) || Number.isNaN(to) || from >= to) {
+      return NextResponse.json(
+        { error: "id, atau from dan to (ISO) dengan from < to, wajib diisi" },
+        { status: 400 }
+      );
+    }
+    const range = { from: new Date(from).toISOString(), to: new Date(to).toISOString() };
+    item = await generateBriefing(range, rangeBriefingId(range));
+  }
+
+  if (format === "json") return NextResponse.json({ item });
+  const pdf = format === "pdf";
+  const body = pdf ? new Uint8Array(briefingPdf(item)) : briefingHtml(item);
+  const filename = briefingFilename(item, pdf ? "pdf" : "html");
+  return new NextResponse(body, {
+    headers: {
+      "content-type": pdf ? "application/pdf" : "text/html; charset=utf-8",
+      "content-disposition": `attachment; filename="${filename}"`,
+      "cache-control": "no-store",
+    },
+  });
+}
@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { recordAudit } from "@/lib/audit/log";
+import { authorize } from "@/lib/auth/guard";
+import { listBriefings, runDailyBriefing } from "@/lib/briefing/daily";
+
+// Stored daily briefings, newest first (summaries only)
+export async function GET() {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  return NextResponse.json({ items: await listBriefings() });
+}
+
+// Rebuilds the latest daily brief now (the 24 hours up to its scheduled time)
+export async function POST() {
+  const auth = await authorize("briefing:run");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { briefing, inserted } = await runDailyBriefing();
+  await recordAudit(auth.value, {
+    action: "briefing.run",
+    target: { kind: "briefing", id: briefing.id, label: briefing.id },
+    after: { counts: briefing.counts },
+    note: inserted ? undefined : "Menggantikan laporan sebelumnya",
+  });
+  return NextResponse.json({ item: briefing });
+}
@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import {
+  draftSubject,
+  drafts,
+  editDraft,
+  transitionDraft,
+  type DraftAction,
+} from "@/lib/drafts";
+import { fail } from "@/lib/result";
+
+type DraftBody = {
+  action?: "edit" | DraftAction;
+  text?: unknown;
+  note?: string;
+};
+
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  const item = await drafts.get(id);
+  if (!item) {
+    return NextResponse.json({ error: `Draft ${id} tidak ditemukan` }, { status: 404 });
+  }
+  return NextResponse.json({ item });
+}
+
+// edit adds a version; submit/approve/return/posted move through the lifecycle
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as DraftBody;
+  // The signed-in user is the author of the edit, the reviewer or the poster
+  const review = body.action === "approve" || body.action === "return";
+  const auth = await authorize(review ? "drafts:approve" : "drafts:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const before = await drafts.get(id);
+  const result =
+    body.action === "edit"
+      ? await editDraft(id, body.text, auth.value)
+      : body.action
+      ? await transitionDraft(id, body.action, auth.value, body.note)
+      : fail(400, "action wajib diisi");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = result.value;
+  const fields = ({ text, status }: Partial<typeof item> = {}) => ({ text, status });
+  // Saving an unchanged text adds no version and is not logged either
+  if (body.action !== "edit" || item.text !== before?.text) {
+    await recordAudit(auth.value, {
+      action: `draft.${body.action}`,
+      target: { kind: "draft", id, label: item.subject?.title },
+      subject: draftSubject(item),
+      before: fields(before),
+      after: fields(item),
+      note: body.note?.trim(),
+    });
+  }
+  return NextResponse.json({ item });
+}
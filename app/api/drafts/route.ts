@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { createDraft, draftSubject, drafts, type NewDraft } from "@/lib/drafts";
+
+// ?status=draft|in-review|approved|posted (default all)
+export async function GET(req: Request) {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const status = new URL(req.url).searchParams.get("status");
+  const items = (await drafts.all())
+    .filter((d) => !status || d.status === status)
+    .sort((a, b) => +new Date(b.updatedAt) - +new Date(a.updatedAt));
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: Request) {
+  const auth = await authorize("drafts:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = ((await req.json().catch(() => null)) ?? {}) as NewDraft;
+  const result = await createDraft(body, auth.value);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = result.value;
+  await recordAudit(auth.value, {
+    action: "draft.create",
+    target: { kind: "draft", id: item.id, label: item.subject?.title },
+    subject: draftSubject(item),
+    after: { text: item.text, platform: item.platform, template: item.template },
+  });
+  return NextResponse.json({ item }, { status: 201 });
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { setEventLocation } from "@/lib/geo/locate";
+import { fail } from "@/lib/result";
+import { events } from "@/lib/store";
+
+type EventPatchBody = {
+  action?: "locate";
+  // Name, abbreviation or BPS code; null goes back to the gazetteer lookup
+  province?: string | null;
+  place?: string;
+};
+
+// Editor's map position for one event
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize("items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as EventPatchBody;
+  const before = await events.get(id);
+  const result =
+    body.action === "locate"
+      ? await setEventLocation(id, { ...body, by: auth.value.name })
+      : fail(400, "action harus locate");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = result.value;
+  await recordAudit(auth.value, {
+    action: "event.locate",
+    target: { kind: "event", id, label: item.title },
+    before: { geo: before?.geo },
+    after: { geo: item.geo },
+  });
+  return NextResponse.json({ item });
+}
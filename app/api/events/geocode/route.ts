@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { regeocodeStoredEvents } from "@/lib/geo/locate";
+
+// Re-runs the gazetteer lookup over every stored event without a manual position
+export async function POST() {
+  const auth = await authorize("items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { updated, unresolved } = await regeocodeStoredEvents();
+  await recordAudit(auth.value, {
+    action: "event.geocode",
+    target: { kind: "event", id: "*", label: "Semua event" },
+    after: { updated, unresolved },
+  });
+  return NextResponse.json({ updated, unresolved });
+}
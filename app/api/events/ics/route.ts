@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { currentUser } from "@/lib/auth/guard";
+import { userByFeedToken } from "@/lib/auth/users";
+import { filterFeedEvents, parseFeedParams } from "@/lib/calendar";
+import { toIcs } from "@/lib/ics";
+import { events } from "@/lib/store";
+
+// Event feed for calendar apps. Query parameters mirror the dashboard filters
+// (see lib/calendar.ts); `download=1` saves a file instead of serving a feed.
+// Subscriptions authenticate with the user's personal `token` instead of a session.
+export async function GET(req: Request) {
+  const url = new URL(req.url);
+  const token = url.searchParams.get("token");
+  if (token !== null && !(await userByFeedToken(token))) {
+    return NextResponse.json({ error: "Token kalender tidak valid" }, { status: 401 });
+  }
+  if (token === null && !(await currentUser())) {
+    return NextResponse.json({ error: "Silakan login terlebih dahulu" }, { status: 401 });
+  }
+  const params = parseFeedParams(url.searchParams);
+  const items = filterFeedEvents(await events.all(), params);
+  const name = params.onlyMinister ? "Agenda Menhub" : "Agenda Kemenhub";
+  const body = toIcs(items, { name, domain: url.hostname });
+  const headers: Record<string, string> = {
+    "content-type": "text/calendar; charset=utf-8",
+    "cache-control": "no-store",
+  };
+  if (url.searchParams.get("download") === "1") {
+    const period = params.from && params.to ? `_${params.from}_${params.to}` : "";
+    headers["content-disposition"] = `attachment; filename="agenda${period}.ics"`;
+  }
+  return new NextResponse(body, { headers });
+}
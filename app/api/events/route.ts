@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { geocodeEvents } from "@/lib/geo/locate";
+import { events, newId } from "@/lib/store";
+import { withCanonicalTags } from "@/lib/taxonomy/manage";
+import { parseEvent } from "@/lib/validate";
+import { notifyWatches } from "@/lib/watch/notify";
+
+export async function GET() {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const items = await events.all();
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: Request) {
+  const auth = await authorize("items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = await req.json().catch(() => null);
+  const parsed = parseEvent(body, newId("evt"));
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.errors.join("; ") }, { status: 400 });
+  }
+  const [item] = await withCanonicalTags(await geocodeEvents([parsed.value]));
+  await events.upsert([item]);
+  await notifyWatches({ events: [item] });
+  await recordAudit(auth.value, {
+    action: "event.create",
+    target: { kind: "event", id: item.id, label: item.title },
+    after: item,
+  });
+  return NextResponse.json({ item }, { status: 201 });
+}
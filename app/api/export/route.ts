@@ -0,0 +1,38 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import {
+  EXPORT_KINDS,
+  exportFiltered,
+  type ExportFormat,
+  type ExportKind,
+} from "@/lib/export/report";
+import { parseFilterParams } from "@/lib/filters";
+
+// File export of the filtered lists: `format` csv|xlsx|pdf, `kind` (repeatable,
+// default all three) plus the filter parameters of lib/filters.ts
+export async function GET(req: Request) {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { searchParams } = new URL(req.url);
+  const kinds = searchParams.getAll("kind");
+  const unknown = kinds.find((k) => !Object.hasOwn(EXPORT_KINDS, k));
+  if (unknown) {
+    return NextResponse.json({ error: `kind tidak dikenal: ${unknown}` }, { status: 400 });
+  }
+  const result = await exportFiltered(
+    (searchParams.get("format") ?? "") as ExportFormat,
+    kinds.length ? (kinds as ExportKind[]) : (Object.keys(EXPORT_KINDS) as ExportKind[]),
+    parseFilterParams(searchParams)
+  );
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const { body, contentType, filename } = result.value;
+  return new NextResponse(typeof body === "string" ? body : new Uint8Array(body), {
+    headers: {
+      "content-type": contentType,
+      "content-disposition": `attachment; filename="${filename}"`,
+      "cache-control": "no-store",
+    },
+  });
+}
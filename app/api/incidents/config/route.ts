@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import {
+  getIncidentConfig,
+  updateIncidentConfig,
+  type IncidentConfigInput,
+} from "@/lib/incidents/monitor";
+
+export async function GET() {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  return NextResponse.json({ item: await getIncidentConfig() });
+}
+
+// Updates the given keywords, thresholds or crisis mode; other fields stay
+export async function PATCH(req: Request) {
+  const auth = await authorize("incidents:configure");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = ((await req.json().catch(() => null)) ?? {}) as IncidentConfigInput;
+  const before = await getIncidentConfig();
+  const result = await updateIncidentConfig({ ...body, by: auth.value.name });
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  await recordAudit(auth.value, {
+    action: "setting.incidents",
+    target: { kind: "setting", id: before.id, label: "Monitor insiden" },
+    before,
+    after: result.value,
+  });
+  return NextResponse.json({ item: result.value });
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { incidentReport } from "@/lib/incidents/monitor";
+
+// Keyword and entity volumes with the current incident, if anything spikes
+export async function GET() {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  return NextResponse.json({ item: await incidentReport() });
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { ingestNewsFeeds } from "@/lib/ingest/rss";
+import { withWatches } from "@/lib/watch/notify";
+
+// Runs every configured RSS/Atom feed once and reports per-source counts
+export async function POST() {
+  const auth = await authorize("sources:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const results = await withWatches(ingestNewsFeeds);
+  const total = (key: "inserted" | "updated") => results.reduce((n, r) => n + r[key], 0);
+  await recordAudit(auth.value, {
+    action: "source.run",
+    target: { kind: "source", id: "*", label: "Semua feed berita" },
+    after: {
+      inserted: total("inserted"),
+      updated: total("updated"),
+      failed: results.filter((r) => r.error).map((r) => r.source),
+    },
+  });
+  return NextResponse.json({ results });
+}
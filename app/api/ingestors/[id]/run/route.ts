@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { findJob, runJob } from "@/lib/ingest/scheduler";
+
+// "Run now" for a single ingestor; responds once the run has finished
+export async function POST(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize("sources:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  const job = findJob(id);
+  if (!job) {
+    return NextResponse.json({ error: `Ingestor ${id} tidak dikenal` }, { status: 404 });
+  }
+  const item = await runJob(job);
+  await recordAudit(auth.value, {
+    action: "source.run",
+    target: { kind: "source", id, label: item.label },
+    after: { lastCounts: item.lastCounts, lastError: item.lastError },
+  });
+  return NextResponse.json({ item });
+}
@@ -0,0 +1,10 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { listIngestorStatus } from "@/lib/ingest/scheduler";
+
+export async function GET() {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const items = await listIngestorStatus();
+  return NextResponse.json({ items });
+}
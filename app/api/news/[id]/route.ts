@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { fail } from "@/lib/result";
+import { overrideTone } from "@/lib/sentiment/override";
+import { news } from "@/lib/store";
+
+type NewsPatchBody = {
+  action?: "tone";
+  // null clears the override
+  label?: string | null;
+};
+
+// Editor's tone label for one news item
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize("items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as NewsPatchBody;
+  const before = await news.get(id);
+  const result =
+    body.action === "tone"
+      ? await overrideTone(id, body.label ?? null, auth.value.name)
+      : fail(400, "action harus tone");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = result.value;
+  await recordAudit(auth.value, {
+    action: "news.tone",
+    target: { kind: "news", id, label: item.title },
+    before: { toneOverride: before?.toneOverride?.label },
+    after: { toneOverride: item.toneOverride?.label },
+  });
+  return NextResponse.json({ item });
+}
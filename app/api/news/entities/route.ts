@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { retagStoredNews } from "@/lib/entities/tagging";
+
+// Re-runs entity extraction over every stored news item
+export async function POST() {
+  const auth = await authorize("items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const updated = await retagStoredNews();
+  await recordAudit(auth.value, {
+    action: "news.retag",
+    target: { kind: "news", id: "*", label: "Semua berita" },
+    after: { updated },
+  });
+  return NextResponse.json({ updated });
+}
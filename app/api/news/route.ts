@@ -0,0 +1,34 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { tagNews } from "@/lib/entities/tagging";
+import { withSentiment } from "@/lib/sentiment/lexicon";
+import { news, newId } from "@/lib/store";
+import { parseNews } from "@/lib/validate";
+import { notifyWatches } from "@/lib/watch/notify";
+
+export async function GET() {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const items = await news.all();
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: Request) {
+  const auth = await authorize("items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = await req.json().catch(() => null);
+  const parsed = parseNews(body, newId("news"));
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.errors.join("; ") }, { status: 400 });
+  }
+  const [item] = await tagNews([withSentiment(parsed.value)]);
+  await news.upsert([item]);
+  await notifyWatches({ news: [item] });
+  await recordAudit(auth.value, {
+    action: "news.create",
+    target: { kind: "news", id: item.id, label: item.title },
+    after: item,
+  });
+  return NextResponse.json({ item }, { status: 201 });
+}
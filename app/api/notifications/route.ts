@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { listMatches, markMatchesRead, watches } from "@/lib/watch/manage";
+
+// Newest watch matches across all watches (read ones included) and the
+// signed-in user's unread count
+export async function GET(req: Request) {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const limit = Number(new URL(req.url).searchParams.get("limit")) || 30;
+  const names = new Map((await watches.all()).map((w) => [w.id, w.name]));
+  const unread = (await listMatches(auth.value.id, { unread: true })).length;
+  const items = (await listMatches(auth.value.id, { limit })).map((m) => ({
+    ...m,
+    watchName: names.get(m.watchId) ?? m.watchId,
+  }));
+  return NextResponse.json({ items, unread });
+}
+
+// Marks `ids` as read for the signed-in user, or every unread match without `ids`
+export async function PATCH(req: Request) {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = ((await req.json().catch(() => null)) ?? {}) as { ids?: unknown };
+  const ids = Array.isArray(body.ids) ? body.ids.map(String) : undefined;
+  return NextResponse.json({ read: await markMatchesRead(auth.value.id, { ids }) });
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { fail } from "@/lib/result";
+import {
+  acceptCandidate,
+  candidates,
+  rejectCandidate,
+  saveCandidate,
+  type CandidateEdits,
+} from "@/lib/quotes/queue";
+import { notifyWatches } from "@/lib/watch/notify";
+
+type ReviewBody = CandidateEdits & { action?: "save" | "accept" | "reject" };
+
+// Editor decision on one candidate: save edits, accept (creates the quote) or reject
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize("items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as ReviewBody;
+  const { action, ...edits } = body;
+  const before = await candidates.get(id);
+  const result =
+    action === "accept"
+      ? await acceptCandidate(id, edits)
+      : action === "reject"
+      ? await rejectCandidate(id)
+      : action === "save"
+      ? await saveCandidate(id, edits)
+      : fail(400, "action harus save, accept atau reject");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  // Accepting creates a quote, which watches may match
+  if ("quote" in result.value) await notifyWatches({ quotes: [result.value.quote] });
+  const quote = "quote" in result.value ? result.value.quote : undefined;
+  const candidate = "quote" in result.value ? result.value.candidate : result.value;
+  const fields = ({ text, speaker, context, status }: Partial<typeof candidate> = {}) => ({
+    text,
+    speaker,
+    context,
+    status,
+  });
+  await recordAudit(auth.value, {
+    action: `candidate.${action}`,
+    target: { kind: "candidate", id, label: candidate.text },
+    subject: quote && { kind: "quote", id: quote.id, label: quote.text },
+    before: fields(before),
+    after: fields(candidate),
+  });
+  return NextResponse.json({ item: result.value });
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { extractFromNews } from "@/lib/quotes/queue";
+
+// Re-scans every stored news item for direct speech
+export async function POST() {
+  const auth = await authorize("items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const added = await extractFromNews();
+  await recordAudit(auth.value, {
+    action: "candidate.extract",
+    target: { kind: "candidate", id: "*", label: "Semua berita" },
+    after: { added },
+  });
+  return NextResponse.json({ added });
+}
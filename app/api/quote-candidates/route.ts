@@ -0,0 +1,14 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { candidates } from "@/lib/quotes/queue";
+
+// ?status=pending|accepted|rejected (default pending)
+export async function GET(req: Request) {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const status = new URL(req.url).searchParams.get("status") ?? "pending";
+  const items = (await candidates.all())
+    .filter((c) => status === "all" || c.status === status)
+    .sort((a, b) => +new Date(b.date) - +new Date(a.date));
+  return NextResponse.json({ items });
+}
@@ -0,0 +1,52 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { fail } from "@/lib/result";
+import { addQuoteSource, removeQuoteSource, verifyQuote } from "@/lib/quotes/sources";
+import { quoteSources } from "@/lib/quotes/verification";
+import { quotes } from "@/lib/store";
+import type { QuoteItem } from "@/lib/types";
+
+type VerificationBody = {
+  action?: "add-source" | "remove-source" | "verify";
+  link?: unknown;
+  outlet?: unknown;
+};
+
+// Supporting sources and two-source sign-off for one quote
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as VerificationBody;
+  const auth = await authorize(body.action === "verify" ? "quotes:verify" : "items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const before = await quotes.get(id);
+  const result =
+    body.action === "add-source"
+      ? await addQuoteSource(id, body.link, body.outlet)
+      : body.action === "remove-source"
+      ? await removeQuoteSource(id, typeof body.link === "string" ? body.link : "")
+      : body.action === "verify"
+      ? await verifyQuote(id, auth.value.name)
+      : fail(400, "action harus add-source, remove-source atau verify");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = result.value;
+  // Sources are compared as links; the rest of the record only as status
+  const summary = (q?: QuoteItem) =>
+    q && {
+      sources: quoteSources(q).map((s) => s.link),
+      verification: q.verification,
+      verifiedBy: q.verifiedBy,
+    };
+  await recordAudit(auth.value, {
+    action: `quote.${body.action}`,
+    target: { kind: "quote", id, label: item.text },
+    before: summary(before),
+    after: summary(item),
+  });
+  return NextResponse.json({ item });
+}
@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { quotes, newId } from "@/lib/store";
+import { withCanonicalTags } from "@/lib/taxonomy/manage";
+import { parseQuote } from "@/lib/validate";
+import { notifyWatches } from "@/lib/watch/notify";
+
+export async function GET() {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const items = await quotes.all();
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: Request) {
+  const auth = await authorize("items:edit");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = await req.json().catch(() => null);
+  const parsed = parseQuote(body, newId("q"));
+  if (!parsed.ok) {
+    return NextResponse.json({ error: parsed.errors.join("; ") }, { status: 400 });
+  }
+  const [item] = await withCanonicalTags([parsed.value]);
+  await quotes.upsert([item]);
+  await notifyWatches({ quotes: [item] });
+  await recordAudit(auth.value, {
+    action: "quote.create",
+    target: { kind: "quote", id: item.id, label: item.text },
+    after: item,
+  });
+  return NextResponse.json({ item }, { status: 201 });
+}
@@ -0,0 +1,81 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit, recordTagRewrites } from "@/lib/audit/log";
+import { fail } from "@/lib/result";
+import {
+  deleteTag,
+  mergeTags,
+  renameTag,
+  taxonomy,
+  updateTag,
+  type TagInput,
+} from "@/lib/taxonomy/manage";
+import type { TagEntry } from "@/lib/types";
+
+type TagBody = TagInput & {
+  action?: "update" | "rename" | "merge";
+  into?: unknown;
+};
+
+// Category/synonym edits, or rename/merge which also rewrite stored items
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize("taxonomy:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as TagBody;
+  const before = await taxonomy.get(id);
+  const result =
+    body.action === "update"
+      ? await updateTag(id, body)
+      : body.action === "rename"
+      ? await renameTag(id, body.label)
+      : body.action === "merge"
+      ? await mergeTags(id, body.into)
+      : fail(400, "action harus update, rename atau merge");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const { item, rewritten, changes } =
+    "rewritten" in result.value
+      ? result.value
+      : { item: result.value, rewritten: undefined, changes: [] };
+  const fields = (t?: TagEntry) =>
+    t && { label: t.label, category: t.category, synonyms: t.synonyms };
+  const merged = body.action === "merge";
+  const action = `tag.${body.action}`;
+  await recordAudit(auth.value, {
+    action,
+    // A merge removes this tag; the entry keeps its old label
+    target: { kind: "tag", id, label: before?.label },
+    subject: merged ? { kind: "tag", id: item.id, label: item.label } : undefined,
+    before: fields(before),
+    // Items whose tags were rewritten, per kind; each also gets its own entry
+    after: { ...(merged ? { mergedInto: item.label } : fields(item)), rewritten },
+  });
+  const tag = { kind: "tag", id: item.id, label: item.label } as const;
+  await recordTagRewrites(auth.value, action, tag, changes);
+  return NextResponse.json(rewritten ? { item, rewritten } : { item });
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize("taxonomy:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  const before = await taxonomy.get(id);
+  const result = await deleteTag(id);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  await recordAudit(auth.value, {
+    action: "tag.delete",
+    target: { kind: "tag", id, label: before?.label },
+    before: before && { label: before.label, category: before.category },
+  });
+  return NextResponse.json(result.value);
+}
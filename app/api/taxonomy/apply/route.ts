@@ -0,0 +1,15 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit, recordTagRewrites } from "@/lib/audit/log";
+import { applyTaxonomy } from "@/lib/taxonomy/manage";
+
+// Re-applies synonym rules to every stored item
+export async function POST() {
+  const auth = await authorize("taxonomy:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { rewritten, changes } = await applyTaxonomy();
+  const target = { kind: "tag", id: "*", label: "Semua item" } as const;
+  await recordAudit(auth.value, { action: "tag.apply", target, after: { rewritten } });
+  await recordTagRewrites(auth.value, "tag.apply", target, changes);
+  return NextResponse.json({ rewritten });
+}
@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { createTag, taxonomy, type TagInput } from "@/lib/taxonomy/manage";
+
+export async function GET() {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const items = await taxonomy.all();
+  return NextResponse.json({ items });
+}
+
+export async function POST(req: Request) {
+  const auth = await authorize("taxonomy:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = ((await req.json().catch(() => null)) ?? {}) as TagInput;
+  const result = await createTag(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = result.value;
+  await recordAudit(auth.value, {
+    action: "tag.create",
+    target: { kind: "tag", id: item.id, label: item.label },
+    after: { label: item.label, category: item.category, synonyms: item.synonyms },
+  });
+  return NextResponse.json({ item }, { status: 201 });
+}
@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { authorize, startSession } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { fail } from "@/lib/result";
+import {
+  deleteUser,
+  resetFeedToken,
+  revokeSessions,
+  toPublic,
+  updateUser,
+  users,
+  type UserInput,
+} from "@/lib/auth/users";
+
+type UserBody = UserInput & { action?: "update" | "revoke" | "reset-feed" };
+
+// Edit name, role, status or password; end the user's sessions; or issue a
+// new calendar subscription token
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize("users:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as UserBody;
+  const { action, ...input } = body;
+  if (id === auth.value.id && input.enabled === false) {
+    return NextResponse.json({ error: "Tidak bisa menonaktifkan akun sendiri" }, { status: 409 });
+  }
+  const before = await users.get(id);
+  const result =
+    action === "update"
+      ? await updateUser(id, input)
+      : action === "revoke"
+      ? await revokeSessions(id)
+      : action === "reset-feed"
+      ? await resetFeedToken(id)
+      : fail(400, "action harus update, revoke atau reset-feed");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = toPublic(result.value);
+  // Public fields only; a new password is noted but never logged
+  await recordAudit(auth.value, {
+    action: `user.${action}`,
+    target: { kind: "user", id, label: item.username },
+    before: before && toPublic(before),
+    after: item,
+    note: action === "update" && input.password !== undefined ? "Kata sandi diganti" : undefined,
+  });
+  const res = NextResponse.json({ item });
+  // Editing yourself may end your own session; carry on with a fresh cookie
+  return id === auth.value.id ? startSession(res, result.value) : res;
+}
+
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize("users:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  if (id === auth.value.id) {
+    return NextResponse.json({ error: "Tidak bisa menghapus akun sendiri" }, { status: 409 });
+  }
+  const result = await deleteUser(id);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = toPublic(result.value);
+  await recordAudit(auth.value, {
+    action: "user.delete",
+    target: { kind: "user", id, label: item.username },
+    before: { username: item.username, name: item.name, role: item.role },
+  });
+  return NextResponse.json({ item });
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { createUser, listUsers, toPublic, type UserInput } from "@/lib/auth/users";
+
+export async function GET() {
+  const auth = await authorize("users:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  return NextResponse.json({ items: await listUsers() });
+}
+
+export async function POST(req: Request) {
+  const auth = await authorize("users:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = ((await req.json().catch(() => null)) ?? {}) as UserInput;
+  const result = await createUser(body);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = toPublic(result.value);
+  await recordAudit(auth.value, {
+    action: "user.create",
+    target: { kind: "user", id: item.id, label: item.username },
+    after: { username: item.username, name: item.name, role: item.role, enabled: item.enabled },
+  });
+  return NextResponse.json({ item }, { status: 201 });
+}
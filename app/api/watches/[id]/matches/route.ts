@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { listMatches, watches } from "@/lib/watch/manage";
+
+// Match history of one watch, newest first, with the signed-in user's read state
+export async function GET(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  if (!(await watches.get(id))) {
+    return NextResponse.json({ error: `Watch ${id} tidak ditemukan` }, { status: 404 });
+  }
+  return NextResponse.json({ items: await listMatches(auth.value.id, { watchId: id }) });
+}
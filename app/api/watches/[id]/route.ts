@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { fail, ok } from "@/lib/result";
+import {
+  deleteWatch,
+  markMatchesRead,
+  updateWatch,
+  watches,
+  type WatchInput,
+} from "@/lib/watch/manage";
+
+type WatchBody = WatchInput & { action?: "update" | "read" };
+
+// Edit the watch, or mark all of its matches as read
+export async function PATCH(
+  req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params;
+  const body = ((await req.json().catch(() => null)) ?? {}) as WatchBody;
+  const { action, ...input } = body;
+  // Read state is per account, so marking matches read is open to every signed-in user
+  const auth = await authorize(action === "read" ? undefined : "watches:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const before = await watches.get(id);
+  const result =
+    action === "update"
+      ? await updateWatch(id, input)
+      : action === "read"
+      ? ok({ read: await markMatchesRead(auth.value.id, { watchId: id }) })
+      : fail(400, "action harus update atau read");
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  if ("read" in result.value) return NextResponse.json(result.value);
+  const item = result.value;
+  await recordAudit(auth.value, {
+    action: "watch.update",
+    target: { kind: "watch", id, label: item.name },
+    before,
+    after: item,
+  });
+  return NextResponse.json({ item });
+}
+
+// Deletes the watch and its match history
+export async function DELETE(
+  _req: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await authorize("watches:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const { id } = await params;
+  const before = await watches.get(id);
+  const result = await deleteWatch(id);
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  await recordAudit(auth.value, {
+    action: "watch.delete",
+    target: { kind: "watch", id, label: before?.name },
+    before: before && { name: before.name, query: before.query },
+  });
+  return NextResponse.json(result.value);
+}
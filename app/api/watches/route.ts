@@ -0,0 +1,28 @@
+import { NextResponse } from "next/server";
+import { authorize } from "@/lib/auth/guard";
+import { recordAudit } from "@/lib/audit/log";
+import { createWatch, listWatches, type WatchInput } from "@/lib/watch/manage";
+
+// Watches with the signed-in user's unread and their total match counts
+export async function GET() {
+  const auth = await authorize();
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  return NextResponse.json({ items: await listWatches(auth.value.id) });
+}
+
+export async function POST(req: Request) {
+  const auth = await authorize("watches:manage");
+  if (!auth.ok) return NextResponse.json({ error: auth.error }, { status: auth.status });
+  const body = ((await req.json().catch(() => null)) ?? {}) as WatchInput;
+  const result = await createWatch({ ...body, by: auth.value.name });
+  if (!result.ok) {
+    return NextResponse.json({ error: result.error }, { status: result.status });
+  }
+  const item = result.value;
+  await recordAudit(auth.value, {
+    action: "watch.create",
+    target: { kind: "watch", id: item.id, label: item.name },
+    after: item,
+  });
+  return NextResponse.json({ item }, { status: 201 });
+}
@@ -0,0 +1,115 @@
+'use client';
+import React, { Suspense, useEffect, useState } from "react";
+import { useSearchParams } from "next/navigation";
+import { Card, classNames } from "@/components/ui";
+
+// =============================
+// Sign-in page. While no account exists it creates the first admin instead.
+// =============================
+
+// Only same-site paths; anything else goes to the dashboard
+const safeNext = (next: string | null) =>
+  next && next.startsWith("/") && !next.startsWith("//") ? next : "/";
+
+function LoginForm() {
+  const next = safeNext(useSearchParams().get("next"));
+  const [setup, setSetup] = useState(false);
+  const [username, setUsername] = useState("");
+  const [name, setName] = useState("");
+  const [password, setPassword] = useState("");
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  useEffect(() => {
+    fetch("/api/auth/session", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((body: { user: unknown; setup: boolean }) => {
+        if (body.user) window.location.href = next;
+        else setSetup(body.setup);
+      })
+      .catch(() => undefined);
+  }, [next]);
+
+  const submit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch(setup ? "/api/auth/setup" : "/api/auth/login", {
+        method: "POST",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(setup ? { username, name, password } : { username, password }),
+      });
+      const body = (await res.json().catch(() => ({}))) as { error?: string };
+      if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`);
+      // A full load so every component picks up the new session
+      window.location.href = next;
+    } catch (err) {
+      setError((err as Error).message);
+      setBusy(false);
+    }
+  };
+
+  const input = "w-full px-3 py-2 rounded-xl border border-slate-300 text-sm focus:outline-none";
+
+  return (
+    <form onSubmit={submit} className="space-y-3">
+      <div>
+        <div className="text-lg font-semibold">Command Center Kemenhub</div>
+        <div className="text-sm opacity-70">
+          {setup
+            ? "Belum ada akun. Buat akun admin pertama."
+            : "Masuk dengan akun yang diberikan admin."}
+        </div>
+      </div>
+      <input
+        className={input}
+        placeholder="Username"
+        autoComplete="username"
+        value={username}
+        onChange={(e) => setUsername(e.target.value)}
+      />
+      {setup && (
+        <input
+          className={input}
+          placeholder="Nama lengkap"
+          value={name}
+          onChange={(e) => setName(e.target.value)}
+        />
+      )}
+      <input
+        className={input}
+        type="password"
+        placeholder="Kata sandi"
+        autoComplete={setup ? "new-password" : "current-password"}
+        value={password}
+        onChange={(e) => setPassword(e.target.value)}
+      />
+      {error && <div className="text-sm text-red-600">{error}</div>}
+      <button
+        type="submit"
+        disabled={busy || !username || !password}
+        className={classNames(
+          "w-full px-3 py-2 rounded-xl bg-indigo-700 text-white hover:bg-indigo-800",
+          "disabled:opacity-50"
+        )}
+      >
+        {setup ? "Buat admin dan masuk" : "Masuk"}
+      </button>
+    </form>
+  );
+}
+
+export default function LoginPage() {
+  return (
+    <main className="min-h-screen grid place-items-center bg-slate-50 text-slate-900 p-4">
+      <div className="w-full max-w-sm">
+        <Card>
+          <Suspense>
+            <LoginForm />
+          </Suspense>
+        </Card>
+      </div>
+    </main>
+  );
+}
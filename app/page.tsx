@@ -1,309 +1,94 @@
 'use client';
-import React, { useMemo, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
+import type {
+  CaptionDraft,
+  CombinedItem,
+  EventItem,
+  NewsItem,
+  QuoteItem,
+  Tone,
+  Watch,
+} from "@/lib/types";
+import AnalyticsView from "@/components/AnalyticsView";
+import BriefingView from "@/components/BriefingView";
+import CrisisPanel from "@/components/CrisisPanel";
+import DateRangePicker from "@/components/DateRangePicker";
+import DraftsList, { DraftStatusBadge } from "@/components/DraftsList";
+import EntityGroups from "@/components/EntityGroups";
+import EventCalendar from "@/components/EventCalendar";
+import EventMap from "@/components/EventMap";
+import AuditLog from "@/components/AuditLog";
+import ExportMenu from "@/components/ExportMenu";
+import IncidentMonitorCard from "@/components/IncidentMonitorCard";
+import IngestorStatusCard from "@/components/IngestorStatusCard";
+import ItemHistory from "@/components/ItemHistory";
+import NewsTone from "@/components/NewsTone";
+import QueryInput from "@/components/QueryInput";
+import QuoteReviewQueue from "@/components/QuoteReviewQueue";
+import QuoteVerification, { VerificationBadge } from "@/components/QuoteVerification";
+import TagPanel from "@/components/TagPanel";
+import UserAdmin from "@/components/UserAdmin";
+import WatchList from "@/components/WatchList";
+import WatchNotifications from "@/components/WatchNotifications";
+import useIncidentReport from "@/components/useIncidentReport";
+import useSession from "@/components/useSession";
+import type { ClientAction } from "@/lib/audit/actions";
+import { ROLE_LABEL } from "@/lib/auth/roles";
+import {
+  PLATFORMS,
+  TEMPLATES,
+  captionLength,
+  eventSubject,
+  newsSubject,
+  quoteSubject,
+  renderCaption,
+  type CaptionSubject,
+  type PlatformId,
+} from "@/lib/caption";
+import { clusterNews } from "@/lib/cluster";
+import {
+  customRange,
+  formatRange,
+  jakartaDay,
+  presetRange,
+  previousRange,
+  type RangePreset,
+} from "@/lib/daterange";
+import {
+  EMPTY_TAG_FILTER,
+  describeTagFilter,
+  isTagFilterActive,
+  tagFacets,
+  type TagFilter,
+} from "@/lib/facets";
+import { filterEvents, filterNews, filterQuotes } from "@/lib/filters";
+import { formatDateTime, formatDay, zoneForLocation } from "@/lib/format";
+import { compileQuery, parseQuery, type QueryVocabulary } from "@/lib/query";
+import { buildSearchIndex, matchedTerms, runSearch, searchKey } from "@/lib/search";
+import { verificationOf } from "@/lib/quotes/verification";
+import { TONES, TONE_LABEL } from "@/lib/sentiment/lexicon";
+import {
+  Card,
+  Chip,
+  Empty,
+  Highlight,
+  SectionHeader,
+  StatBadge,
+  classNames,
+} from "@/components/ui";
 
 // =============================
 // Command Center Kemenhub - Prototype UI (Next.js/App Router compatible)
 // Tailwind CSS required. ASCII-only content to satisfy ESLint/react rules.
+// Data is served by the /api/events, /api/news and /api/quotes route handlers.
 // =============================
 
-// --- Sample seed data (mock) ---
-const NOW = new Date();
-const daysAgo = (n: number) => {
-  const d = new Date(NOW);
-  d.setDate(d.getDate() - n);
-  return d;
-};
-
-type EventItem = {
-  id: string;
-  title: string;
-  date: string;
-  location: string;
-  attendedByMinister: boolean;
-  source: string;
-  tags?: string[];
-  summary?: string;
-  link: string;
-};
-
-type NewsItem = {
-  id: string;
-  title: string;
-  source: string;
-  publishedAt: string;
-  link: string;
-  summary?: string;
-  entities?: string[];
-};
-
-type QuoteItem = {
-  id: string;
-  text: string;
-  speaker: string;
-  date: string;
-  context?: string;
-  link: string;
-  tags?: string[];
-};
-
-// Union helper to avoid any
-type CombinedItem = EventItem | NewsItem | QuoteItem;
-
-const sampleEvents: EventItem[] = [
-  {
-    id: "evt-001",
-    title: "Rapat Koordinasi Keselamatan Pelayaran",
-    date: daysAgo(0).toISOString(),
-    location: "Kemenhub, Jakarta",
-    attendedByMinister: true,
-    source: "dephub.go.id",
-    tags: ["Keselamatan", "Laut"],
-    summary:
-      "Menhub memimpin rakor dan menekankan zero accident di jalur pelayaran utama.",
-    link: "#",
-  },
-  {
-    id: "evt-002",
-    title: "Peresmian Terminal Tipe A",
-    date: daysAgo(2).toISOString(),
-    location: "Makassar, Sulsel",
-    attendedByMinister: true,
-    source: "IG @kemenhub151",
-    tags: ["Darat", "Infrastruktur"],
-    summary:
-      "Peresmian terminal baru untuk meningkatkan konektivitas antarkota di Sulawesi.",
-    link: "https://www.dephub.go.id/",
-  },
-  {
-    id: "evt-003",
-    title: "Diskusi Publik: Green Transportation",
-    date: daysAgo(5).toISOString(),
-    location: "Bandung, Jabar",
-    attendedByMinister: false,
-    source: "Siarkanews",
-    tags: ["Green", "Kebijakan"],
-    summary:
-      "Staf ahli Kemenhub mewakili Menhub membahas roadmap transportasi rendah emisi.",
-    link: "#",
-  },
-];
-
-const sampleNews: NewsItem[] = [
-  {
-    id: "news-101",
-    title:
-      "Menhub Dorong Integrasi Moda untuk Kurangi Kemacetan di Metropolitan",
-    source: "Antara",
-    publishedAt: daysAgo(0).toISOString(),
-    link: "https://www.antaranews.com/",
-    summary:
-      "Dalam keterangan pers, Menhub menyoroti pentingnya integrasi antarmoda dan tiket terusan.",
-    entities: ["Menteri Perhubungan", "Integrasi Moda", "Kemacetan"],
-  },
-  {
-    id: "news-102",
-    title: "Kemenhub Keluarkan Aturan Baru Keselamatan Penerbangan",
-    source: "Kompas",
-    publishedAt: daysAgo(1).toISOString(),
-    link: "#",
-    summary:
-      "Regulasi baru menekankan audit berkala dan peningkatan pelatihan bagi maskapai.",
-    entities: ["Kemenhub", "Penerbangan", "Regulasi"],
-  },
-  {
-    id: "news-103",
-    title: "Uji Coba Bus Listrik di 3 Kota Besar Diperluas",
-    source: "Tempo",
-    publishedAt: daysAgo(4).toISOString(),
-    link: "#",
-    summary:
-      "Pilot project bus listrik memasuki fase pengembangan infrastruktur pengisian daya.",
-    entities: ["Bus Listrik", "Perkotaan", "Emisi"],
-  },
-];
-
-const sampleQuotes: QuoteItem[] = [
-  {
-    id: "q-01",
-    text:
-      "Keselamatan adalah prioritas utama - tidak boleh ada kompromi di darat, laut, maupun udara.",
-    speaker: "Menteri Perhubungan",
-    date: daysAgo(0).toISOString(),
-    context:
-      "Pernyataan di rapat koordinasi keselamatan pelayaran, Jakarta.",
-    link: "#",
-    tags: ["Keselamatan", "Kebijakan"],
-  },
-  {
-    id: "q-02",
-    text:
-      "Integrasi antarmoda bukan pilihan, melainkan kebutuhan kota-kota besar Indonesia.",
-    speaker: "Menteri Perhubungan",
-    date: daysAgo(1).toISOString(),
-    context:
-      "Keterangan pers mengenai integrasi moda di wilayah metropolitan.",
-    link: "https://www.dephub.go.id/",
-    tags: ["Integrasi Moda", "Perkotaan"],
-  },
-  {
-    id: "q-03",
-    text:
-      "Transisi ke transportasi rendah emisi harus disertai skema pendanaan yang berkelanjutan.",
-    speaker: "Menteri Perhubungan",
-    date: daysAgo(6).toISOString(),
-    context: "Diskusi publik tentang green transportation.",
-    link: "#",
-    tags: ["Green", "Pendanaan"],
-  },
-];
-
-// Utilities
-const formatDate = (iso: string) => new Date(iso).toLocaleString();
-const classNames = (...c: Array<string | false | undefined>) =>
-  c.filter(Boolean).join(" ");
-
-function SectionHeader({
-  icon,
-  title,
-  right,
-}: {
-  icon?: React.ReactNode;
-  title: string;
-  right?: React.ReactNode;
-}) {
-  return (
-    <div className="flex items-center justify-between mb-3">
-      <div className="flex items-center gap-2">
-        {icon}
-        <h2 className="text-lg font-semibold">{title}</h2>
-      </div>
-      <div>{right}</div>
-    </div>
-  );
-}
-
-function Chip({
-  children,
-  active,
-  onClick,
-}: {
-  children: React.ReactNode;
-  active?: boolean;
-  onClick?: () => void;
-}) {
-  return (
-    <button
-      onClick={onClick}
-      className={classNames(
-        "px-2 py-1 rounded-md text-xs border transition-colors",
-        active
-          ? "bg-indigo-600 text-white border-indigo-600"
-          : "bg-white text-slate-700 border-slate-300 hover:bg-slate-50"
-      )}
-    >
-      {children}
-    </button>
-  );
-}
-
-function StatBadge({ children }: { children: React.ReactNode }) {
-  return (
-    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200">
-      {children}
-    </span>
-  );
-}
-
-function Card({ children, dark }: { children: React.ReactNode; dark?: boolean }) {
-  return (
-    <div
-      className={classNames(
-        "rounded-xl shadow-sm border p-4",
-        dark ? "bg-slate-800/70 border-slate-700" : "bg-white border-slate-200"
-      )}
-    >
-      {children}
-    </div>
-  );
-}
-
-function Empty({ msg }: { msg: string }) {
-  return (
-    <div className="text-center text-slate-500 border border-dashed rounded-xl p-6">
-      {msg}
-    </div>
-  );
-}
-
-// Filters
-function getMinDate(key: "24h" | "7d" | "30d" | "90d") {
-  const d = new Date();
-  const map: Record<string, number> = { "24h": 1, "7d": 7, "30d": 30, "90d": 90 };
-  d.setDate(d.getDate() - (map[key] ?? 7));
-  return d;
-}
-
-function filterEvents(
-  data: EventItem[],
-  {
-    minDate,
-    onlyMinister,
-    tag,
-    query,
-  }: { minDate: Date; onlyMinister: boolean; tag: string; query: string }
-) {
-  return data
-    .filter((e) => new Date(e.date) >= minDate)
-    .filter((e) => (onlyMinister ? e.attendedByMinister : true))
-    .filter((e) => (tag === "All" ? true : (e.tags || []).includes(tag)))
-    .filter((e) => {
-      if (!query) return true;
-      const hay = [
-        e.title,
-        e.location,
-        e.summary,
-        e.source,
-        ...(e.tags || []),
-      ]
-        .join(" ")
-        .toLowerCase();
-      return hay.includes(query.toLowerCase());
-    })
-    .sort((a, b) => +new Date(b.date) - +new Date(a.date));
-}
-
-function filterNews(
-  data: NewsItem[],
-  { minDate, tag, query }: { minDate: Date; tag: string; query: string }
-) {
-  return data
-    .filter((n) => new Date(n.publishedAt) >= minDate)
-    .filter((n) => (tag === "All" ? true : (n.entities || []).includes(tag)))
-    .filter((n) => {
-      if (!query) return true;
-      const hay = [n.title, n.summary, n.source, ...(n.entities || [])]
-        .join(" ")
-        .toLowerCase();
-      return hay.includes(query.toLowerCase());
-    })
-    .sort((a, b) => +new Date(b.publishedAt) - +new Date(a.publishedAt));
-}
-
-function filterQuotes(
-  data: QuoteItem[],
-  { minDate, tag, query }: { minDate: Date; tag: string; query: string }
-) {
-  return data
-    .filter((q) => new Date(q.date) >= minDate)
-    .filter((q) => (tag === "All" ? true : (q.tags || []).includes(tag)))
-    .filter((q) => {
-      if (!query) return true;
-      const hay = [q.text, q.context, q.speaker, ...(q.tags || [])]
-        .join(" ")
-        .toLowerCase();
-      return hay.includes(query.toLowerCase());
-    })
-    .sort((a, b) => +new Date(b.date) - +new Date(a.date));
+// "+3 (+50%)" relative to the previous period
+function formatChange(now: number, before: number) {
+  const diff = now - before;
+  if (diff === 0) return "tetap";
+  const sign = diff > 0 ? "+" : "";
+  return before ? `${sign}${diff} (${sign}${Math.round((diff / before) * 100)}%)` : `${sign}${diff}`;
 }
 
 // Clipboard helper
@@ -331,27 +116,105 @@ async function copyToClipboard(text: string) {
   }
 }
 
+// API helper
+async function fetchItems<T>(url: string): Promise<T[]> {
+  const res = await fetch(url, { cache: "no-store" });
+  if (!res.ok) throw new Error(`${url} - HTTP ${res.status}`);
+  const body = (await res.json()) as { items: T[] };
+  return body.items;
+}
+
+type Tab =
+  | "overview"
+  | "events"
+  | "calendar"
+  | "news"
+  | "quotes"
+  | "drafts"
+  | "analytics"
+  | "map"
+  | "briefing"
+  | "watch"
+  | "users"
+  | "audit";
+
 export default function DashboardPrototype() {
-  const [tab, setTab] = useState<"overview" | "events" | "news" | "quotes">(
-    "overview"
-  );
+  const [tab, setTab] = useState<Tab>("overview");
   const [query, setQuery] = useState("");
-  const [tag, setTag] = useState("All");
-  const [timeFilter, setTimeFilter] = useState<"24h" | "7d" | "30d" | "90d">(
-    "7d"
-  );
+  const [tagFilter, setTagFilter] = useState<TagFilter>(EMPTY_TAG_FILTER);
+  const [rangePreset, setRangePreset] = useState<RangePreset>("7d");
+  const [customFrom, setCustomFrom] = useState(() => jakartaDay(Date.now() - 6 * 864e5));
+  const [customTo, setCustomTo] = useState(() => jakartaDay());
+  const [compare, setCompare] = useState(false);
   const [onlyMinister, setOnlyMinister] = useState(true);
+  const [newsSort, setNewsSort] = useState<"latest" | "size">("latest");
+  const [tone, setTone] = useState<Tone | "all">("all");
   const [caption, setCaption] = useState("");
+  const [captionPick, setCaptionPick] = useState("");
+  const [platformId, setPlatformId] = useState<PlatformId>("instagram");
+  const [templateId, setTemplateId] = useState("ringkas");
+  // Draft the caption box is bound to; null until saved
+  const [activeDraft, setActiveDraft] = useState<CaptionDraft | null>(null);
+  const { user, can, logout } = useSession();
   const [toast, setToast] = useState("");
   const [asideOpen, setAsideOpen] = useState(false);
   const [tagsOpen, setTagsOpen] = useState(false);
   const [darkMode, setDarkMode] = useState(false);
+  const [events, setEvents] = useState<EventItem[]>([]);
+  const [news, setNews] = useState<NewsItem[]>([]);
+  const [quotes, setQuotes] = useState<QuoteItem[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState("");
+  const [reloadKey, setReloadKey] = useState(0);
+  // Bumped when watch matches were read so the header count refreshes
+  const [watchKey, setWatchKey] = useState(0);
+  const [incidentReport, reloadIncidents] = useIncidentReport(reloadKey);
+  // Terms of the incident whose crisis panel was hidden; a new incident shows again
+  const [dismissedIncident, setDismissedIncident] = useState("");
+  // Rolling presets ("7 hari") are anchored to the last data load
+  const [loadedAt, setLoadedAt] = useState(() => Date.now());
+
+  useEffect(() => {
+    let cancelled = false;
+    setLoading(true);
+    setLoadError("");
+    Promise.all([
+      fetchItems<EventItem>("/api/events"),
+      fetchItems<NewsItem>("/api/news"),
+      fetchItems<QuoteItem>("/api/quotes"),
+    ])
+      .then(([e, n, q]) => {
+        if (cancelled) return;
+        setEvents(e);
+        setNews(n);
+        setQuotes(q);
+        setLoadedAt(Date.now());
+      })
+      .catch((err: Error) => {
+        if (!cancelled) setLoadError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [reloadKey]);
 
-  const minDate = useMemo(() => getMinDate(timeFilter), [timeFilter]);
+  const incidentKey = incidentReport?.incident?.terms.join("|") ?? "";
+  const crisis = !!incidentReport?.crisis;
+
+  const range = useMemo(
+    () =>
+      rangePreset === "custom"
+        ? customRange(customFrom, customTo)
+        : presetRange(rangePreset, loadedAt),
+    [rangePreset, customFrom, customTo, loadedAt]
+  );
 
   const tagsUniverse = useMemo(() => {
     const set = new Set<string>(["All"]);
-    const all: CombinedItem[] = [...sampleEvents, ...sampleNews, ...sampleQuotes];
+    const all: CombinedItem[] = [...events, ...news, ...quotes];
     all.forEach((it) => {
       if ("tags" in it && Array.isArray((it as EventItem | QuoteItem).tags)) {
         (it as EventItem | QuoteItem).tags!.forEach((t) => set.add(t));
@@ -361,42 +224,267 @@ export default function DashboardPrototype() {
       }
     });
     return [...set];
-  }, []);
+  }, [events, news, quotes]);
+
+  const searchIndex = useMemo(
+    () => buildSearchIndex({ events, news, quotes }),
+    [events, news, quotes]
+  );
+  const parsedQuery = useMemo(() => parseQuery(query), [query]);
+  const match = useMemo(
+    () => compileQuery(parsedQuery.ast, searchIndex),
+    [parsedQuery, searchIndex]
+  );
+  // Ranking scores any positive word, so OR groups still sort by relevance
+  const hits = useMemo(
+    () => runSearch(searchIndex, parsedQuery.rankText, { requireAll: false }),
+    [searchIndex, parsedQuery]
+  );
+  const highlightTerms = useMemo(() => matchedTerms(hits), [hits]);
+  const queryVocabulary = useMemo<QueryVocabulary>(
+    () => ({
+      tag: tagsUniverse.filter((t) => t !== "All"),
+      source: [
+        ...new Set([
+          ...events.map((e) => e.source),
+          ...news.map((n) => n.source),
+          ...quotes.flatMap((q) => (q.sources ?? []).map((s) => s.outlet ?? "")),
+        ]),
+      ].filter(Boolean),
+      location: [...new Set(events.map((e) => e.location))].filter(Boolean),
+      minister: ["yes", "no"],
+    }),
+    [tagsUniverse, events, news, quotes]
+  );
 
   const filteredEvents = useMemo(
-    () => filterEvents(sampleEvents, { minDate, onlyMinister, tag, query }),
-    [minDate, onlyMinister, tag, query]
+    () => filterEvents(events, { range, onlyMinister, tags: tagFilter, match, hits }),
+    [events, range, onlyMinister, tagFilter, match, hits]
   );
   const filteredNews = useMemo(
-    () => filterNews(sampleNews, { minDate, tag, query }),
-    [minDate, tag, query]
+    () => filterNews(news, { range, tags: tagFilter, tone, match, hits }),
+    [news, range, tagFilter, tone, match, hits]
   );
+  // Same story from several outlets collapses into one cluster
+  const newsClusters = useMemo(() => {
+    const clusters = clusterNews(filteredNews);
+    if (newsSort === "size") {
+      return [...clusters].sort((a, b) => b.outlets.length - a.outlets.length);
+    }
+    if (!hits) return clusters;
+    // While searching, a cluster ranks by its best-matching article
+    const best = (c: (typeof clusters)[number]) =>
+      Math.max(
+        ...[c.primary, ...c.others].map((n) => hits.get(searchKey("news", n.id))?.score ?? 0)
+      );
+    return [...clusters].sort((a, b) => best(b) - best(a));
+  }, [filteredNews, newsSort, hits]);
   const filteredQuotes = useMemo(
-    () => filterQuotes(sampleQuotes, { minDate, tag, query }),
-    [minDate, tag, query]
+    () => filterQuotes(quotes, { range, tags: tagFilter, match, hits }),
+    [quotes, range, tagFilter, match, hits]
+  );
+  // The calendar pages through its own months and weeks
+  const calendarEvents = useMemo(
+    () => filterEvents(events, { onlyMinister, tags: tagFilter, match, hits }),
+    [events, onlyMinister, tagFilter, match, hits]
+  );
+  // Analytics and the map ignore the Minister toggle so attendance stays visible
+  const eventsAnyAttendance = useMemo(
+    () => filterEvents(events, { range, onlyMinister: false, tags: tagFilter, match, hits }),
+    [events, range, tagFilter, match, hits]
   );
+  // Items per tag across everything currently shown
+  const facets = useMemo(
+    () => tagFacets([...filteredEvents, ...filteredNews, ...filteredQuotes]),
+    [filteredEvents, filteredNews, filteredQuotes]
+  );
+
+  // Same filters over the previous period, for the comparison strip
+  const previous = useMemo(() => {
+    if (!compare) return null;
+    const prev = previousRange(range);
+    const tags = tagFilter;
+    const evs = filterEvents(events, { range: prev, onlyMinister, tags, match, hits: null });
+    return {
+      range: prev,
+      events: evs.length,
+      minister: evs.filter((e) => e.attendedByMinister).length,
+      news: filterNews(news, { range: prev, tags, tone, match, hits: null }).length,
+      quotes: filterQuotes(quotes, { range: prev, tags, match, hits: null }).length,
+    };
+  }, [compare, range, events, news, quotes, onlyMinister, tagFilter, tone, match]);
+
+  // Items a caption can be written about; unverified quotes are excluded
+  const captionSubjects = useMemo(() => {
+    const list: CaptionSubject[] = [
+      ...newsClusters.map((c) => newsSubject(c.primary)),
+      ...filteredEvents.map(eventSubject),
+      ...filteredQuotes
+        .filter((q) => verificationOf(q) === "verified")
+        .map(quoteSubject),
+    ];
+    return list;
+  }, [newsClusters, filteredEvents, filteredQuotes]);
+
+  // Falls back to the top news/event item, as the original stub did
+  const captionSubject =
+    captionSubjects.find((it) => `${it.kind}:${it.id}` === captionPick) ??
+    captionSubjects.find((it) => it.kind !== "quote");
+  const platform = PLATFORMS.find((p) => p.id === platformId) ?? PLATFORMS[0];
+  const templatesFor = (subject?: CaptionSubject) =>
+    TEMPLATES.filter((t) => !subject || t.kinds.includes(subject.kind));
+  const captionTemplate =
+    templatesFor(captionSubject).find((t) => t.id === templateId) ??
+    templatesFor(captionSubject)[0];
+
+  // Generating and copying never reach the API otherwise; the audit log is told here
+  const reportCaption = (
+    action: ClientAction,
+    subject: { kind: string; id: string; title: string } | undefined,
+    text: string,
+    template?: string,
+    draftId?: string
+  ) => {
+    if (!subject) return;
+    fetch("/api/audit", {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        action,
+        subject: { kind: subject.kind, id: subject.id, title: subject.title },
+        text,
+        platform: platform.id,
+        template,
+        draftId,
+      }),
+    }).catch(() => undefined);
+  };
+
+  const writeCaption = (subject: CaptionSubject, templateKey: string) => {
+    const template =
+      templatesFor(subject).find((t) => t.id === templateKey) ?? templatesFor(subject)[0];
+    const rendered = renderCaption(subject, template, platform);
+    setCaption(rendered.text);
+    setActiveDraft(null);
+    reportCaption("caption.generate", subject, rendered.text, template.id);
+    setToast(
+      rendered.warnings.length
+        ? `Caption dibuat - ${rendered.warnings.join("; ")}`
+        : "Caption dibuat"
+    );
+    setTimeout(() => setToast(""), 1800);
+  };
 
   const handleGenerateCaption = () => {
-    const top: EventItem | NewsItem | undefined =
-      (filteredNews[0] as NewsItem | undefined) ||
-      (filteredEvents[0] as EventItem | undefined);
-    if (!top) {
+    if (!captionSubject) {
       setToast("Tidak ada item untuk dijadikan caption");
       setTimeout(() => setToast(""), 1800);
       return;
     }
-    const title = top.title ?? "Pembaruan kegiatan hari ini";
-    const info = top.summary ?? top.source ?? "Info terbaru";
-    const base = `Menhub: ${title} - ${info}. #Kemenhub #Transportasi`;
-    setCaption(base);
-    setToast("Caption dibuat");
-    setTimeout(() => setToast(""), 1500);
+    writeCaption(captionSubject, captionTemplate.id);
+  };
+
+  // Only verified quotes may be quoted in a caption (Pedoman: 2 sumber)
+  const handleQuoteCaption = (q: QuoteItem) => {
+    if (verificationOf(q) !== "verified") {
+      setToast("Kutipan belum terverifikasi 2 sumber - tidak bisa dipakai");
+      setTimeout(() => setToast(""), 1800);
+      return;
+    }
+    setCaptionPick(`quote:${q.id}`);
+    setTemplateId("kutipan");
+    setTab("overview");
+    writeCaption(quoteSubject(q), "kutipan");
+  };
+
+  const handleSaveDraft = async () => {
+    if (!caption.trim()) return;
+    try {
+      const res = activeDraft
+        ? await fetch(`/api/drafts/${activeDraft.id}`, {
+            method: "PATCH",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({ action: "edit", text: caption }),
+          })
+        : await fetch("/api/drafts", {
+            method: "POST",
+            headers: { "content-type": "application/json" },
+            body: JSON.stringify({
+              text: caption,
+              platform: platform.id,
+              template: captionTemplate?.id,
+              subject: captionSubject && {
+                kind: captionSubject.kind,
+                id: captionSubject.id,
+                title: captionSubject.title,
+              },
+            }),
+          });
+      const body = (await res.json()) as { item?: CaptionDraft; error?: string };
+      if (!res.ok || !body.item) throw new Error(body.error ?? `HTTP ${res.status}`);
+      setActiveDraft(body.item);
+      setToast(activeDraft ? "Versi baru disimpan" : "Draft disimpan");
+    } catch (err) {
+      setToast(`Gagal menyimpan draft: ${(err as Error).message}`);
+    }
+    setTimeout(() => setToast(""), 1800);
+  };
+
+  const handleRetagNews = async () => {
+    try {
+      const res = await fetch("/api/news/entities", { method: "POST" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { updated: number };
+      setToast(`Entitas diperbarui pada ${body.updated} berita`);
+      if (body.updated) setReloadKey((k) => k + 1);
+    } catch (err) {
+      setToast(`Gagal memindai entitas: ${(err as Error).message}`);
+    }
+    setTimeout(() => setToast(""), 1800);
+  };
+
+  const handleOpenDraft = (d: CaptionDraft) => {
+    setActiveDraft(d);
+    setCaption(d.text);
+    if (PLATFORMS.some((p) => p.id === d.platform)) setPlatformId(d.platform as PlatformId);
+    if (d.subject) setCaptionPick(`${d.subject.kind}:${d.subject.id}`);
+    setTab("overview");
+  };
+
+  // "Siap diposting" only for the exact text an approver signed off
+  const captionApproved =
+    activeDraft?.status === "approved" && activeDraft.text === caption;
+
+  const handleQuoteChange = (q: QuoteItem) =>
+    setQuotes((prev) => prev.map((it) => (it.id === q.id ? q : it)));
+
+  const handleNewsChange = (n: NewsItem) =>
+    setNews((prev) => prev.map((it) => (it.id === n.id ? n : it)));
+
+  const handleEventChange = (e: EventItem) =>
+    setEvents((prev) => prev.map((it) => (it.id === e.id ? e : it)));
+
+  // The dashboard has no unlimited period; "all" watches open on the widest preset
+  const handleApplyWatch = (w: Watch) => {
+    setQuery(w.query);
+    setTagFilter(w.tags);
+    setRangePreset(w.period === "all" ? "90d" : w.period);
+    setOnlyMinister(w.onlyMinister);
+    setTone(w.tone);
+    setTab("overview");
   };
 
   const handleCopy = async () => {
     if (!caption) return;
     const ok = await copyToClipboard(caption);
     if (ok) {
+      reportCaption(
+        "caption.copy",
+        activeDraft?.subject ?? captionSubject,
+        caption,
+        activeDraft?.template ?? captionTemplate?.id,
+        activeDraft?.id
+      );
       setToast("Caption disalin ke clipboard");
     } else {
       setToast("Gagal menyalin clipboard. Pilih teks lalu Ctrl/Cmd+C.");
@@ -419,7 +507,7 @@ export default function DashboardPrototype() {
     id,
     label,
   }: {
-    id: "overview" | "events" | "news" | "quotes";
+    id: Tab;
     label: string;
   }) => (
     <button
@@ -477,47 +565,75 @@ export default function DashboardPrototype() {
               CC
             </div>
             <div>
-              <div className="font-semibold">Command Center Kemenhub</div>
-              <div className="text-xs opacity-70">Internal - Prototype UI</div>
+              <div className="font-semibold">
+                Command Center Kemenhub
+                {crisis && (
+                  <button
+                    onClick={() => setDismissedIncident("")}
+                    className={classNames(
+                      "ml-2 px-2 py-0.5 rounded-full text-xs font-semibold",
+                      "bg-red-600 text-white"
+                    )}
+                  >
+                    MODE KRISIS
+                  </button>
+                )}
+              </div>
+              <div className="text-xs opacity-70">
+                {user ? (
+                  <>
+                    {user.name} ({ROLE_LABEL[user.role]}) -{" "}
+                    <button className="underline" onClick={logout}>
+                      Keluar
+                    </button>
+                  </>
+                ) : (
+                  "Internal - Prototype UI"
+                )}
+              </div>
             </div>
           </div>
 
           <div className="flex flex-wrap gap-2 items-center">
-            <input
-              className={classNames(
-                "min-w-[140px] sm:min-w-[220px] md:min-w-[260px] w-full sm:w-auto px-3 py-2 rounded-xl border focus:outline-none",
-                darkMode
-                  ? "bg-slate-800 border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500"
-                  : "border-slate-300 focus:ring-2 focus:ring-indigo-600"
-              )}
-              placeholder="Cari event, berita, quote"
+            <QueryInput
               value={query}
-              onChange={(e) => setQuery(e.target.value)}
+              onChange={setQuery}
+              errors={parsedQuery.errors}
+              vocabulary={queryVocabulary}
+              dark={darkMode}
+            />
+            <DateRangePicker
+              preset={rangePreset}
+              onPreset={setRangePreset}
+              customFrom={customFrom}
+              customTo={customTo}
+              onCustom={(from, to) => {
+                setCustomFrom(from);
+                setCustomTo(to);
+              }}
+              range={range}
+              compare={compare}
+              onCompare={setCompare}
+              dark={darkMode}
             />
-            <select
-              className={classNames(
-                "px-3 py-2 rounded-xl border focus:outline-none",
-                darkMode
-                  ? "bg-slate-800 border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500"
-                  : "border-slate-300 focus:ring-2 focus:ring-indigo-600"
-              )}
-              value={timeFilter}
-              onChange={(e) =>
-                setTimeFilter(
-                  e.target.value as "24h" | "7d" | "30d" | "90d"
-                )
-              }
-            >
-              <option value="24h">24 jam</option>
-              <option value="7d">7 hari</option>
-              <option value="30d">30 hari</option>
-              <option value="90d">90 hari</option>
-            </select>
             <div className="flex flex-wrap gap-2">
               <TabButton id="overview" label="Overview" />
               <TabButton id="events" label="Events" />
+              <TabButton id="calendar" label="Kalender" />
               <TabButton id="news" label="News" />
               <TabButton id="quotes" label="Quotes" />
+              <TabButton id="drafts" label="Drafts" />
+              <TabButton id="analytics" label="Analytics" />
+              <TabButton id="map" label="Peta" />
+              <TabButton id="briefing" label="Laporan Harian" />
+              <TabButton id="watch" label="Watchlist" />
+              {can("users:manage") && <TabButton id="users" label="Pengguna" />}
+              {can("audit:view") && <TabButton id="audit" label="Audit" />}
+              <WatchNotifications
+                refreshKey={watchKey}
+                onOpenWatchlist={() => setTab("watch")}
+                dark={darkMode}
+              />
               <button
                 onClick={() => setAsideOpen(true)}
                 className={classNames(
@@ -536,6 +652,13 @@ export default function DashboardPrototype() {
 
       <main className="max-w-7xl mx-auto px-3 sm:px-4 py-5 grid grid-cols-12 gap-4 sm:gap-6">
         <section className="col-span-12 lg:col-span-8 space-y-4 sm:space-y-6">
+          {incidentReport && crisis && dismissedIncident !== incidentKey && (
+            <CrisisPanel
+              report={incidentReport}
+              onDismiss={() => setDismissedIncident(incidentKey)}
+              dark={darkMode}
+            />
+          )}
           <Card dark={darkMode}>
             <div className="flex flex-col md:flex-row md:flex-wrap items-start md:items-center gap-3">
               <div className="font-medium">Filter:</div>
@@ -553,7 +676,9 @@ export default function DashboardPrototype() {
                         : "bg-slate-100 border-slate-200"
                     )}
                   >
-                    {tag === "All" ? `All (${tagsUniverse.length - 1})` : tag}
+                    {isTagFilterActive(tagFilter)
+                      ? describeTagFilter(tagFilter)
+                      : `All (${tagsUniverse.length - 1})`}
                   </span>
                   <button
                     onClick={() => setTagsOpen(true)}
@@ -568,9 +693,87 @@ export default function DashboardPrototype() {
                   </button>
                 </div>
               </div>
+              <ExportMenu
+                filters={{ range, onlyMinister, tags: tagFilter, tone, query }}
+                counts={{
+                  events: filteredEvents.length,
+                  news: filteredNews.length,
+                  quotes: filteredQuotes.length,
+                }}
+                dark={darkMode}
+              />
             </div>
           </Card>
 
+          {loading && (
+            <Card dark={darkMode}>
+              <div className="text-sm opacity-80">Memuat data...</div>
+            </Card>
+          )}
+
+          {loadError && (
+            <Card dark={darkMode}>
+              <div className="flex flex-wrap items-center justify-between gap-2">
+                <div className="text-sm text-red-500">
+                  Gagal memuat data: {loadError}
+                </div>
+                <button
+                  onClick={() => setReloadKey((k) => k + 1)}
+                  className={classNames(
+                    "px-3 py-1.5 rounded-xl border text-sm",
+                    darkMode
+                      ? "border-slate-600 hover:bg-slate-800"
+                      : "border-slate-300 hover:bg-slate-50"
+                  )}
+                >
+                  Coba lagi
+                </button>
+              </div>
+            </Card>
+          )}
+
+          {previous && (
+            <Card dark={darkMode}>
+              <div className="text-xs opacity-70 mb-2">
+                {formatRange(range)} dibanding {formatRange(previous.range)}
+              </div>
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                {(
+                  [
+                    ["Events", filteredEvents.length, previous.events],
+                    [
+                      "Dihadiri Menhub",
+                      filteredEvents.filter((e) => e.attendedByMinister).length,
+                      previous.minister,
+                    ],
+                    ["Berita", filteredNews.length, previous.news],
+                    ["Quotes", filteredQuotes.length, previous.quotes],
+                  ] as const
+                ).map(([label, now, before]) => (
+                  <div key={label}>
+                    <div className="opacity-70">{label}</div>
+                    <div className="text-lg font-semibold">
+                      {now}{" "}
+                      <span
+                        className={classNames(
+                          "text-xs font-medium",
+                          now > before
+                            ? "text-emerald-600"
+                            : now < before
+                            ? "text-red-500"
+                            : "opacity-60"
+                        )}
+                      >
+                        {formatChange(now, before)}
+                      </span>
+                    </div>
+                    <div className="text-xs opacity-60">sebelumnya {before}</div>
+                  </div>
+                ))}
+              </div>
+            </Card>
+          )}
+
           {tab === "overview" && (
             <div className="grid md:grid-cols-2 gap-4 sm:gap-6">
               <Card dark={darkMode}>
@@ -602,14 +805,18 @@ export default function DashboardPrototype() {
                   {filteredEvents.slice(0, 4).map((e) => (
                     <div key={e.id} className="flex gap-3">
                       <div className="w-14 text-xs opacity-70">
-                        {new Date(e.date).toLocaleDateString()}
+                        {formatDay(e.date, zoneForLocation(e.location))}
                       </div>
                       <div className="flex-1">
-                        <div className="font-medium">{e.title}</div>
+                        <div className="font-medium">
+                          <Highlight text={e.title} terms={highlightTerms} />
+                        </div>
                         <div className="text-sm opacity-80">
                           {e.location} - {e.source}
                         </div>
-                        <div className="text-sm mt-1 opacity-90">{e.summary}</div>
+                        <div className="text-sm mt-1 opacity-90">
+                          <Highlight text={e.summary ?? ""} terms={highlightTerms} />
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -645,15 +852,22 @@ export default function DashboardPrototype() {
                   }
                 />
                 <div className="space-y-4">
-                  {filteredNews.slice(0, 4).map((n) => (
+                  {newsClusters.slice(0, 4).map(({ primary: n, outlets }) => (
                     <div key={n.id} className="flex gap-3">
                       <div className="w-14 text-xs opacity-70">
-                        {new Date(n.publishedAt).toLocaleDateString()}
+                        {formatDay(n.publishedAt)}
                       </div>
                       <div className="flex-1">
-                        <div className="font-medium">{n.title}</div>
-                        <div className="text-sm opacity-80">{n.source}</div>
-                        <div className="text-sm mt-1 opacity-90">{n.summary}</div>
+                        <div className="font-medium">
+                          <Highlight text={n.title} terms={highlightTerms} />
+                        </div>
+                        <div className="text-sm opacity-80 flex flex-wrap items-center gap-2">
+                          {n.source}
+                          {outlets.length > 1 && <StatBadge>{outlets.length} media</StatBadge>}
+                        </div>
+                        <div className="text-sm mt-1 opacity-90">
+                          <Highlight text={n.summary ?? ""} terms={highlightTerms} />
+                        </div>
                       </div>
                     </div>
                   ))}
@@ -697,10 +911,16 @@ export default function DashboardPrototype() {
                         darkMode ? "border-indigo-400/80" : "border-indigo-700/90"
                       )}
                     >
-                      <div className="italic">&quot;{q.text}&quot;</div>
-                      <div className="text-sm opacity-80">- {q.speaker}</div>
+                      <div className="italic">
+                        &quot;
+                        <Highlight text={q.text} terms={highlightTerms} />
+                        &quot;
+                      </div>
+                      <div className="text-sm opacity-80 flex flex-wrap items-center gap-2">
+                        - {q.speaker} <VerificationBadge quote={q} />
+                      </div>
                       <div className="text-xs opacity-70">
-                        {new Date(q.date).toLocaleDateString()} - {q.context}
+                        {formatDay(q.date)} - {q.context}
                       </div>
                     </blockquote>
                   ))}
@@ -710,63 +930,136 @@ export default function DashboardPrototype() {
                 </div>
               </Card>
 
-              <Card dark={darkMode}>
-                <SectionHeader
-                  icon={
-                    <span
-                      className={classNames(
-                        "w-2.5 h-2.5 rounded-full inline-block",
-                        darkMode ? "bg-amber-400" : "bg-amber-500"
-                      )}
-                    />
-                  }
-                  title="Generator Caption (Manual Stub)"
-                />
-                <div className="space-y-2">
-                  <div className="text-sm opacity-80">
-                    Ambil item teratas dari News atau Events setelah filter, lalu buat
-                    caption cepat.
-                  </div>
-                  <div className="flex flex-wrap gap-2">
-                    <button
-                      onClick={handleGenerateCaption}
+              {can("drafts:edit") && (
+                <Card dark={darkMode}>
+                  <SectionHeader
+                    icon={
+                      <span
+                        className={classNames(
+                          "w-2.5 h-2.5 rounded-full inline-block",
+                          darkMode ? "bg-amber-400" : "bg-amber-500"
+                        )}
+                      />
+                    }
+                    title="Generator Caption"
+                  />
+                  <div className="space-y-2">
+                    <div className="text-sm opacity-80">
+                      Pilih item, platform dan template. Tanggal dan tautan sumber selalu
+                      disertakan sesuai pedoman editorial.
+                    </div>
+                    <select
                       className={classNames(
-                        "px-3 py-2 rounded-xl",
+                        "w-full px-3 py-2 rounded-xl border text-sm focus:outline-none",
                         darkMode
-                          ? "bg-indigo-500 text-white hover:bg-indigo-600"
-                          : "bg-indigo-700 text-white hover:bg-indigo-800"
+                          ? "bg-slate-800 border-slate-600 text-slate-100"
+                          : "border-slate-300"
                       )}
+                      value={captionSubject ? `${captionSubject.kind}:${captionSubject.id}` : ""}
+                      onChange={(e) => setCaptionPick(e.target.value)}
                     >
-                      Generate
-                    </button>
-                    <button
-                      onClick={handleCopy}
-                      disabled={!caption}
+                      {(["news", "event", "quote"] as const).map((kind) => (
+                        <optgroup
+                          key={kind}
+                          label={kind === "news" ? "News" : kind === "event" ? "Events" : "Quotes (terverifikasi)"}
+                        >
+                          {captionSubjects
+                            .filter((it) => it.kind === kind)
+                            .map((it) => (
+                              <option key={it.id} value={`${it.kind}:${it.id}`}>
+                                {it.title.length > 80 ? `${it.title.slice(0, 80)}...` : it.title}
+                              </option>
+                            ))}
+                        </optgroup>
+                      ))}
+                    </select>
+                    <div className="flex flex-wrap gap-2">
+                      {PLATFORMS.map((p) => (
+                        <Chip key={p.id} active={p.id === platformId} onClick={() => setPlatformId(p.id)}>
+                          {p.label}
+                        </Chip>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      {templatesFor(captionSubject).map((t) => (
+                        <Chip
+                          key={t.id}
+                          active={t.id === captionTemplate.id}
+                          onClick={() => setTemplateId(t.id)}
+                        >
+                          {t.label}
+                        </Chip>
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-2">
+                      <button
+                        onClick={handleGenerateCaption}
+                        className={classNames(
+                          "px-3 py-2 rounded-xl",
+                          darkMode
+                            ? "bg-indigo-500 text-white hover:bg-indigo-600"
+                            : "bg-indigo-700 text-white hover:bg-indigo-800"
+                        )}
+                      >
+                        Generate
+                      </button>
+                      <button
+                        onClick={handleCopy}
+                        disabled={!caption}
+                        className={classNames(
+                          "px-3 py-2 rounded-xl border",
+                          darkMode
+                            ? "border-slate-600 hover:bg-slate-800"
+                            : "border-slate-300 hover:bg-slate-50",
+                          !caption && "opacity-50 cursor-not-allowed"
+                        )}
+                      >
+                        Copy
+                      </button>
+                      <button
+                        onClick={handleSaveDraft}
+                        disabled={!caption}
+                        className={classNames(
+                          "px-3 py-2 rounded-xl border",
+                          darkMode
+                            ? "border-slate-600 hover:bg-slate-800"
+                            : "border-slate-300 hover:bg-slate-50",
+                          !caption && "opacity-50 cursor-not-allowed"
+                        )}
+                      >
+                        {activeDraft ? "Simpan versi" : "Simpan draft"}
+                      </button>
+                      {captionApproved && <StatBadge>Siap diposting</StatBadge>}
+                      {activeDraft && !captionApproved && (
+                        <DraftStatusBadge
+                          status={activeDraft.text === caption ? activeDraft.status : "draft"}
+                        />
+                      )}
+                    </div>
+                    <textarea
                       className={classNames(
-                        "px-3 py-2 rounded-xl border",
+                        "w-full h-40 p-3 rounded-xl border focus:outline-none",
                         darkMode
-                          ? "border-slate-600 hover:bg-slate-800"
-                          : "border-slate-300 hover:bg-slate-50",
-                        !caption && "opacity-50 cursor-not-allowed"
+                          ? "bg-slate-800 border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500"
+                          : "border-slate-300 focus:ring-2 focus:ring-indigo-600"
+                      )}
+                      value={caption}
+                      onChange={(e) => setCaption(e.target.value)}
+                    />
+                    <div
+                      className={classNames(
+                        "text-xs text-right",
+                        captionLength(caption, platform) > platform.maxLength
+                          ? "text-red-500 font-medium"
+                          : "opacity-70"
                       )}
                     >
-                      Copy
-                    </button>
-                    {caption && <StatBadge>Siap diposting</StatBadge>}
+                      {captionLength(caption, platform)} / {platform.maxLength} karakter ({platform.label})
+                    </div>
+                    {toast && <div className="text-sm opacity-90">{toast}</div>}
                   </div>
-                  <textarea
-                    className={classNames(
-                      "w-full h-28 p-3 rounded-xl border focus:outline-none",
-                      darkMode
-                        ? "bg-slate-800 border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500"
-                        : "border-slate-300 focus:ring-2 focus:ring-indigo-600"
-                    )}
-                    value={caption}
-                    onChange={(e) => setCaption(e.target.value)}
-                  />
-                  {toast && <div className="text-sm opacity-90">{toast}</div>}
-                </div>
-              </Card>
+                </Card>
+              )}
             </div>
           )}
 
@@ -798,14 +1091,18 @@ export default function DashboardPrototype() {
                     className="py-3 flex flex-col sm:flex-row sm:items-start gap-3 sm:gap-4"
                   >
                     <div className="sm:w-40 text-xs opacity-70">
-                      {formatDate(e.date)}
+                      {formatDateTime(e.date, zoneForLocation(e.location))}
                     </div>
                     <div className="flex-1">
-                      <div className="font-medium">{e.title}</div>
+                      <div className="font-medium">
+                        <Highlight text={e.title} terms={highlightTerms} />
+                      </div>
                       <div className="text-sm opacity-80">
                         {e.location} - {e.source}
                       </div>
-                      <div className="text-sm mt-1 opacity-90">{e.summary}</div>
+                      <div className="text-sm mt-1 opacity-90">
+                        <Highlight text={e.summary ?? ""} terms={highlightTerms} />
+                      </div>
                       <div className="mt-2 flex flex-wrap gap-2">
                         {e.tags?.map((t) => (
                           <span
@@ -821,6 +1118,7 @@ export default function DashboardPrototype() {
                           </span>
                         ))}
                       </div>
+                      <ItemHistory kind="event" id={e.id} dark={darkMode} />
                     </div>
                     <div className="flex flex-row sm:flex-col gap-2 sm:items-end">
                       {e.attendedByMinister && (
@@ -871,7 +1169,34 @@ export default function DashboardPrototype() {
                 title="Berita Terbaru"
                 right={
                   <div className="text-sm flex items-center gap-2">
-                    <StatBadge>{filteredNews.length} item</StatBadge>
+                    <select
+                      className={classNames(
+                        "px-2 py-1 rounded-md text-xs border",
+                        darkMode ? "bg-slate-800 border-slate-600" : "border-slate-300"
+                      )}
+                      value={tone}
+                      onChange={(e) => setTone(e.target.value as Tone | "all")}
+                      aria-label="Filter nada pemberitaan"
+                    >
+                      <option value="all">Semua nada</option>
+                      {TONES.map((t) => (
+                        <option key={t} value={t}>
+                          {TONE_LABEL[t]}
+                        </option>
+                      ))}
+                    </select>
+                    {can("items:edit") && (
+                      <Chip onClick={handleRetagNews}>Pindai entitas</Chip>
+                    )}
+                    <Chip
+                      active={newsSort === "size"}
+                      onClick={() => setNewsSort(newsSort === "size" ? "latest" : "size")}
+                    >
+                      Cerita terbesar dulu
+                    </Chip>
+                    <StatBadge>
+                      {newsClusters.length} cerita / {filteredNews.length} item
+                    </StatBadge>
                   </div>
                 }
               />
@@ -879,33 +1204,57 @@ export default function DashboardPrototype() {
                 className="divide-y"
                 style={{ borderColor: darkMode ? "#334155" : "#e2e8f0" }}
               >
-                {filteredNews.map((n) => (
+                {newsClusters.map(({ primary: n, others, outlets }) => (
                   <div
                     key={n.id}
                     className="py-3 flex flex-col sm:flex-row sm:items-start gap-3 sm:gap-4"
                   >
                     <div className="sm:w-40 text-xs opacity-70">
-                      {formatDate(n.publishedAt)}
+                      {formatDateTime(n.publishedAt)}
                     </div>
                     <div className="flex-1">
-                      <div className="font-medium">{n.title}</div>
-                      <div className="text-sm opacity-80">{n.source}</div>
-                      <div className="text-sm mt-1 opacity-90">{n.summary}</div>
-                      <div className="mt-2 flex flex-wrap gap-2">
-                        {n.entities?.map((t) => (
-                          <span
-                            key={t}
-                            className={classNames(
-                              "px-2 py-0.5 rounded-full text-xs border",
-                              darkMode
-                                ? "bg-slate-700 border-slate-600"
-                                : "bg-slate-100 border-slate-200"
-                            )}
-                          >
-                            {t}
-                          </span>
-                        ))}
+                      <div className="font-medium">
+                        <Highlight text={n.title} terms={highlightTerms} />
                       </div>
+                      <div className="text-sm opacity-80 flex flex-wrap items-center gap-2">
+                        {n.source}
+                        <NewsTone item={n} onChange={handleNewsChange} />
+                        {outlets.length > 1 && <StatBadge>{outlets.length} media</StatBadge>}
+                      </div>
+                      <div className="text-sm mt-1 opacity-90">
+                        <Highlight text={n.summary ?? ""} terms={highlightTerms} />
+                      </div>
+                      {others.length > 0 && (
+                        <details className="mt-2 text-sm">
+                          <summary className="cursor-pointer select-none opacity-80">
+                            Juga diberitakan oleh {others.length} media lain
+                          </summary>
+                          <ul className="mt-1 ml-4 space-y-1">
+                            {others.map((o) => (
+                              <li key={o.id}>
+                                <a
+                                  href={o.link}
+                                  target={o.link === "#" ? undefined : "_blank"}
+                                  rel={o.link === "#" ? undefined : "noopener noreferrer"}
+                                  onClick={(ev) => handleLinkClick(ev, o.link)}
+                                  className={classNames(
+                                    darkMode
+                                      ? "text-indigo-300 hover:underline"
+                                      : "text-indigo-700 hover:underline"
+                                  )}
+                                >
+                                  {o.source}
+                                </a>{" "}
+                                <span className="opacity-70">
+                                  - {o.title} ({formatDateTime(o.publishedAt)})
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </details>
+                      )}
+                      <EntityGroups entities={n.entities} dark={darkMode} />
+                      <ItemHistory kind="news" id={n.id} dark={darkMode} />
                     </div>
                     <div className="flex flex-row sm:flex-col gap-2 sm:items-end">
                       <a
@@ -937,6 +1286,59 @@ export default function DashboardPrototype() {
             </Card>
           )}
 
+          {tab === "calendar" && (
+            <EventCalendar
+              events={calendarEvents}
+              onlyMinister={onlyMinister}
+              tags={tagFilter}
+              query={query}
+              dark={darkMode}
+            />
+          )}
+
+          {tab === "drafts" && <DraftsList dark={darkMode} onOpen={handleOpenDraft} />}
+
+          {tab === "analytics" && (
+            <AnalyticsView
+              events={eventsAnyAttendance}
+              news={filteredNews}
+              quotes={filteredQuotes}
+              range={range}
+              dark={darkMode}
+            />
+          )}
+
+          {tab === "map" && (
+            <EventMap
+              events={eventsAnyAttendance}
+              onChange={handleEventChange}
+              onRegeocoded={() => setReloadKey((k) => k + 1)}
+              dark={darkMode}
+            />
+          )}
+
+          {tab === "briefing" && <BriefingView range={range} dark={darkMode} />}
+
+          {tab === "users" && can("users:manage") && <UserAdmin dark={darkMode} />}
+
+          {tab === "audit" && can("audit:view") && <AuditLog dark={darkMode} />}
+
+          {tab === "watch" && (
+            <WatchList
+              current={{ query, tags: tagFilter, preset: rangePreset, onlyMinister, tone }}
+              onApply={handleApplyWatch}
+              onChange={() => setWatchKey((k) => k + 1)}
+              dark={darkMode}
+            />
+          )}
+
+          {tab === "quotes" && can("items:edit") && (
+            <QuoteReviewQueue
+              dark={darkMode}
+              onAccepted={() => setReloadKey((k) => k + 1)}
+            />
+          )}
+
           {tab === "quotes" && (
             <Card dark={darkMode}>
               <SectionHeader
@@ -959,10 +1361,16 @@ export default function DashboardPrototype() {
                 {filteredQuotes.map((q) => (
                   <Card key={q.id} dark={darkMode}>
                     <blockquote>
-                      <div className="italic text-base md:text-lg">&quot;{q.text}&quot;</div>
-                      <div className="text-sm opacity-80">- {q.speaker}</div>
+                      <div className="italic text-base md:text-lg">
+                        &quot;
+                        <Highlight text={q.text} terms={highlightTerms} />
+                        &quot;
+                      </div>
+                      <div className="text-sm opacity-80 flex flex-wrap items-center gap-2">
+                        - {q.speaker} <VerificationBadge quote={q} />
+                      </div>
                       <div className="text-xs opacity-70">
-                        {new Date(q.date).toLocaleDateString()} - {q.context}
+                        {formatDay(q.date)} - {q.context}
                       </div>
                       <div className="mt-3 flex flex-wrap gap-2">
                         {q.tags?.map((t) => (
@@ -998,6 +1406,30 @@ export default function DashboardPrototype() {
                           Buka sumber
                         </a>
                       </div>
+                      <button
+                        onClick={() => handleQuoteCaption(q)}
+                        disabled={verificationOf(q) !== "verified"}
+                        title={
+                          verificationOf(q) === "verified"
+                            ? "Buat caption dari kutipan ini"
+                            : "Verifikasi 2 sumber dulu"
+                        }
+                        className={classNames(
+                          "mt-2 px-2 py-1 rounded-md text-xs border",
+                          darkMode
+                            ? "border-slate-600 hover:bg-slate-700"
+                            : "border-slate-300 hover:bg-slate-50",
+                          verificationOf(q) !== "verified" && "opacity-50 cursor-not-allowed"
+                        )}
+                      >
+                        Pakai di caption
+                      </button>
+                      <QuoteVerification
+                        quote={q}
+                        dark={darkMode}
+                        onChange={handleQuoteChange}
+                      />
+                      <ItemHistory kind="quote" id={q.id} dark={darkMode} />
                     </blockquote>
                   </Card>
                 ))}
@@ -1009,30 +1441,16 @@ export default function DashboardPrototype() {
 
         <aside className="col-span-12 lg:col-span-4 space-y-4 sm:space-y-6 lg:sticky lg:top-20 self-start">
           <div className="hidden lg:block">
-            <Card dark={darkMode}>
-              <SectionHeader
-                icon={
-                  <span
-                    className={classNames(
-                      "w-2.5 h-2.5 rounded-full inline-block",
-                      darkMode ? "bg-amber-400" : "bg-amber-500"
-                    )}
-                  />
-                }
-                title="Status Ingestor"
-              />
-              <ul className="text-sm space-y-2">
-                <li>
-                  Agenda Resmi: <span className="text-emerald-500 font-medium">OK</span> - 30 menit lalu
-                </li>
-                <li>
-                  Media Sosial: <span className="text-emerald-500 font-medium">OK</span> - 28 menit lalu
-                </li>
-                <li>
-                  Portal Berita: <span className="text-amber-500 font-medium">Terjadwal</span> - 10 menit lagi
-                </li>
-              </ul>
-            </Card>
+            <IngestorStatusCard
+              dark={darkMode}
+              onRun={() => setReloadKey((k) => k + 1)}
+            />
+
+            <IncidentMonitorCard
+              report={incidentReport}
+              onChange={reloadIncidents}
+              dark={darkMode}
+            />
 
             <Card dark={darkMode}>
               <SectionHeader
@@ -1111,30 +1529,16 @@ export default function DashboardPrototype() {
                     Tutup
                   </button>
                 </div>
-                <Card dark={darkMode}>
-                  <SectionHeader
-                    icon={
-                      <span
-                        className={classNames(
-                          "w-2.5 h-2.5 rounded-full inline-block",
-                          darkMode ? "bg-amber-400" : "bg-amber-500"
-                        )}
-                      />
-                    }
-                    title="Status Ingestor"
-                  />
-                  <ul className="text-sm space-y-2">
-                    <li>
-                      Agenda Resmi: <span className="text-emerald-500 font-medium">OK</span> - 30 menit lalu
-                    </li>
-                    <li>
-                      Media Sosial: <span className="text-emerald-500 font-medium">OK</span> - 28 menit lalu
-                    </li>
-                    <li>
-                      Portal Berita: <span className="text-amber-500 font-medium">Terjadwal</span> - 10 menit lagi
-                    </li>
-                  </ul>
-                </Card>
+                <IngestorStatusCard
+                  dark={darkMode}
+                  onRun={() => setReloadKey((k) => k + 1)}
+                />
+                <div className="h-3" />
+                <IncidentMonitorCard
+                  report={incidentReport}
+                  onChange={reloadIncidents}
+                  dark={darkMode}
+                />
                 <div className="h-3" />
                 <Card dark={darkMode}>
                   <SectionHeader
@@ -1195,64 +1599,15 @@ export default function DashboardPrototype() {
       </main>
 
       {tagsOpen && (
-        <div className="fixed inset-0 z-40">
-          <div className="absolute inset-0 bg-black/30" onClick={() => setTagsOpen(false)} />
-          <div
-            className={classNames(
-              "absolute right-0 top-0 h-full w-96 max-w-[90%] shadow-2xl p-4 overflow-y-auto",
-              darkMode ? "bg-slate-800" : "bg-white"
-            )}
-          >
-            <div className="flex items-center justify-between mb-3">
-              <div>
-                <div className="font-semibold">Panel Tag</div>
-                <div className="text-xs opacity-70">
-                  Pilih satu untuk filter atau reset ke All
-                </div>
-              </div>
-              <button onClick={() => setTagsOpen(false)} className="text-sm opacity-80">
-                Tutup
-              </button>
-            </div>
-            <div className="grid grid-cols-2 sm:grid-cols-3 gap-2">
-              {tagsUniverse.map((t) => (
-                <button
-                  key={t}
-                  onClick={() => {
-                    setTag(t);
-                    setTagsOpen(false);
-                  }}
-                  className={classNames(
-                    "px-3 py-2 rounded-xl border text-sm",
-                    t === tag
-                      ? darkMode
-                        ? "bg-indigo-500 text-white border-indigo-500"
-                        : "bg-indigo-600 text-white border-indigo-600"
-                      : darkMode
-                      ? "bg-slate-800 text-slate-100 border-slate-600 hover:bg-slate-700"
-                      : "bg-white text-slate-700 border-slate-300 hover:bg-slate-50"
-                  )}
-                >
-                  {t}
-                </button>
-              ))}
-            </div>
-            <div className="mt-4">
-              <button
-                onClick={() => {
-                  setTag("All");
-                  setTagsOpen(false);
-                }}
-                className={classNames(
-                  "px-3 py-2 rounded-xl border text-sm",
-                  darkMode ? "bg-slate-800 border-slate-600" : "bg-white border-slate-300 hover:bg-slate-50"
-                )}
-              >
-                Reset ke All
-              </button>
-            </div>
-          </div>
-        </div>
+        <TagPanel
+          tags={tagsUniverse.filter((t) => t !== "All")}
+          facets={facets}
+          filter={tagFilter}
+          onChange={setTagFilter}
+          onClose={() => setTagsOpen(false)}
+          onItemsChanged={() => setReloadKey((k) => k + 1)}
+          dark={darkMode}
+        />
       )}
 
       {/* Simple toast (single) */}
@@ -1263,7 +1618,7 @@ export default function DashboardPrototype() {
       )}
 
       <footer className="max-w-7xl mx-auto px-3 sm:px-4 pb-10 text-xs opacity-70">
-        Prototype UI - Tidak terhubung ke data nyata. Integrasi backend diperlukan.
+        Prototype UI - Data dari penyimpanan lokal (folder data/) melalui /api.
       </footer>
     </div>
   );
@@ -0,0 +1,136 @@
+'use client';
+import React, { useEffect, useMemo, useState } from "react";
+import { computeAnalytics, type Counted } from "@/lib/analytics";
+import { formatRange, jakartaDay, type DateRange } from "@/lib/daterange";
+import type { EventItem, NewsItem, QuoteItem, TagEntry } from "@/lib/types";
+import { ChartCard, HorizontalBars, ShareDonut, StackedColumns } from "./charts";
+
+// =============================
+// Analytics tab: volume per day, sources, tags, modes, Minister attendance
+// and quotes per speaker, over the lists the other tabs show.
+// =============================
+
+const COLORS = { events: "#4f46e5", news: "#0ea5e9", quotes: "#f59e0b", tags: "#10b981" };
+
+// "2026-10-19" -> "19/10"
+const shortDay = (day: string) => `${day.slice(8, 10)}/${day.slice(5, 7)}`;
+
+const countedCsv = (label: string, data: Counted) => ({
+  header: [label, "jumlah"],
+  rows: data.map(([k, n]) => [k, n]),
+});
+
+export default function AnalyticsView({
+  events,
+  news,
+  quotes,
+  range,
+  dark,
+}: {
+  events: EventItem[];
+  news: NewsItem[];
+  quotes: QuoteItem[];
+  range: DateRange;
+  dark?: boolean;
+}) {
+  // Transport modes come from the taxonomy (category "mode")
+  const [modes, setModes] = useState<string[]>([]);
+
+  useEffect(() => {
+    fetch("/api/taxonomy", { cache: "no-store" })
+      .then((res) => (res.ok ? res.json() : { items: [] }))
+      .then((body: { items: TagEntry[] }) =>
+        setModes(body.items.filter((e) => e.category === "mode").map((e) => e.label))
+      )
+      .catch(() => setModes([]));
+  }, []);
+
+  const stats = useMemo(
+    () => computeAnalytics({ events, news, quotes }, range, modes),
+    [events, news, quotes, range, modes]
+  );
+  // File names carry the period so exports from different days don't collide
+  const suffix = `${jakartaDay(range.from)}_${jakartaDay(+new Date(range.to) - 1)}`;
+
+  return (
+    <div className="space-y-4">
+      <div className="text-sm opacity-70">
+        Periode {formatRange(range)}. Grafik mengikuti pencarian, filter tag dan periode yang
+        aktif; filter &quot;Hanya acara dihadiri Menhub&quot; tidak dipakai agar porsi kehadiran
+        Menteri tetap bermakna.
+      </div>
+      <ChartCard
+        title="Volume per hari"
+        filename={`volume-harian_${suffix}`}
+        csv={{
+          header: ["tanggal", "event", "berita", "quote"],
+          rows: stats.daily.map((d) => [d.day, d.events, d.news, d.quotes]),
+        }}
+        dark={dark}
+      >
+        <StackedColumns
+          rows={stats.daily}
+          labelKey="day"
+          formatLabel={shortDay}
+          series={[
+            { key: "events", label: "Event", color: COLORS.events },
+            { key: "news", label: "Berita", color: COLORS.news },
+            { key: "quotes", label: "Quote", color: COLORS.quotes },
+          ]}
+          dark={dark}
+        />
+      </ChartCard>
+      <div className="grid gap-4 md:grid-cols-2">
+        <ChartCard
+          title="Per sumber"
+          filename={`per-sumber_${suffix}`}
+          csv={countedCsv("sumber", stats.bySource)}
+          dark={dark}
+        >
+          <HorizontalBars data={stats.bySource} color={COLORS.news} dark={dark} />
+        </ChartCard>
+        <ChartCard
+          title="Tag dan entitas teratas"
+          filename={`tag-teratas_${suffix}`}
+          csv={countedCsv("tag", stats.topTags)}
+          dark={dark}
+        >
+          <HorizontalBars data={stats.topTags} color={COLORS.tags} dark={dark} />
+        </ChartCard>
+        <ChartCard
+          title="Per moda"
+          filename={`per-moda_${suffix}`}
+          csv={countedCsv("moda", stats.byMode)}
+          dark={dark}
+        >
+          <HorizontalBars data={stats.byMode} color={COLORS.events} dark={dark} />
+        </ChartCard>
+        <ChartCard
+          title="Kehadiran Menteri"
+          filename={`kehadiran-menteri_${suffix}`}
+          csv={{
+            header: ["dihadiri menteri", "total event"],
+            rows: [[stats.minister.attended, stats.minister.total]],
+          }}
+          dark={dark}
+        >
+          <ShareDonut
+            part={stats.minister.attended}
+            total={stats.minister.total}
+            color={COLORS.events}
+            caption="dihadiri Menteri Perhubungan"
+            dark={dark}
+          />
+        </ChartCard>
+        <ChartCard
+          title="Quote per pembicara"
+          filename={`quote-per-pembicara_${suffix}`}
+          csv={countedCsv("pembicara", stats.bySpeaker)}
+          dark={dark}
+        >
+          <HorizontalBars data={stats.bySpeaker} color={COLORS.quotes} dark={dark} />
+        </ChartCard>
+      </div>
+    </div>
+  );
+}
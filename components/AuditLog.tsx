@@ -0,0 +1,207 @@
+'use client';
+import React, { useCallback, useEffect, useState } from "react";
+import {
+  AUDIT_ACTIONS,
+  AUDIT_KIND_LABEL,
+  auditLabel,
+  formatAuditValue,
+} from "@/lib/audit/actions";
+import { ROLE_LABEL } from "@/lib/auth/roles";
+import { formatDateTime } from "@/lib/format";
+import type { AuditEntry, AuditRef } from "@/lib/types";
+import { Card, Chip, Empty, SectionHeader, StatBadge, classNames } from "./ui";
+
+// =============================
+// "Audit" tab: who did what to which item, with filters and a CSV download
+// of every matching entry from /api/audit.
+// =============================
+
+const EMPTY_FILTERS = { actor: "", action: "", kind: "", from: "", to: "", q: "" };
+
+type Filters = typeof EMPTY_FILTERS;
+
+const ACTION_OPTIONS = Object.entries(AUDIT_ACTIONS).sort((a, b) => a[1].localeCompare(b[1]));
+
+const describeRef = (ref: AuditRef) =>
+  `${AUDIT_KIND_LABEL[ref.kind]}: ${ref.id === "*" ? ref.label : ref.label || ref.id}`;
+
+// Before -> after per changed field
+function Changes({ entry }: { entry: AuditEntry }) {
+  const keys = [
+    ...new Set([...Object.keys(entry.before ?? {}), ...Object.keys(entry.after ?? {})]),
+  ];
+  if (keys.length === 0) return <span className="opacity-50">-</span>;
+  return (
+    <ul className="space-y-0.5">
+      {keys.map((k) => (
+        <li key={k} className="break-words">
+          <span className="opacity-70">{k}:</span>{" "}
+          {entry.before && k in entry.before && (
+            <>
+              <span className="line-through opacity-70">
+                {formatAuditValue(entry.before[k])}
+              </span>{" "}
+              &rarr;{" "}
+            </>
+          )}
+          {formatAuditValue(entry.after?.[k])}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function AuditLog({ dark }: { dark?: boolean }) {
+  const [filters, setFilters] = useState<Filters>(EMPTY_FILTERS);
+  const [items, setItems] = useState<AuditEntry[]>([]);
+  const [total, setTotal] = useState(0);
+  const [message, setMessage] = useState("");
+
+  const params = new URLSearchParams(
+    Object.entries(filters).filter(([, v]) => v.trim())
+  ).toString();
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/audit?${params}`, { cache: "no-store" });
+      const body = (await res.json()) as { items?: AuditEntry[]; total?: number; error?: string };
+      if (!res.ok || !body.items) throw new Error(body.error ?? `HTTP ${res.status}`);
+      setItems(body.items);
+      setTotal(body.total ?? body.items.length);
+      setMessage("");
+    } catch (err) {
+      setMessage(`Gagal memuat log audit: ${(err as Error).message}`);
+    }
+  }, [params]);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const set = (key: keyof Filters) => (
+    e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>
+  ) => setFilters({ ...filters, [key]: e.target.value });
+
+  const input = classNames(
+    "px-2 py-1 rounded-md text-sm border",
+    dark ? "bg-slate-900 border-slate-600" : "bg-white border-slate-300"
+  );
+
+  return (
+    <Card dark={dark}>
+      <SectionHeader
+        title="Log Audit"
+        right={
+          <div className="text-sm flex items-center gap-2">
+            <Chip onClick={load}>Muat ulang</Chip>
+            <a
+              href={`/api/audit?${params}${params ? "&" : ""}format=csv`}
+              className={classNames(
+                "px-2 py-1 rounded-md text-xs border",
+                dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+              )}
+            >
+              Unduh CSV
+            </a>
+            <StatBadge>
+              {items.length < total ? `${items.length} dari ${total}` : total} entri
+            </StatBadge>
+          </div>
+        }
+      />
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        <input
+          className={input}
+          placeholder="Pengguna"
+          value={filters.actor}
+          onChange={set("actor")}
+        />
+        <select className={input} value={filters.action} onChange={set("action")}>
+          <option value="">Semua aksi</option>
+          {ACTION_OPTIONS.map(([id, label]) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <select className={input} value={filters.kind} onChange={set("kind")}>
+          <option value="">Semua jenis</option>
+          {Object.entries(AUDIT_KIND_LABEL).map(([id, label]) => (
+            <option key={id} value={id}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <input
+          className={input}
+          type="date"
+          aria-label="Dari tanggal"
+          value={filters.from}
+          onChange={set("from")}
+        />
+        <input
+          className={input}
+          type="date"
+          aria-label="Sampai tanggal"
+          value={filters.to}
+          onChange={set("to")}
+        />
+        <input
+          className={input}
+          placeholder="Cari item atau nilai"
+          value={filters.q}
+          onChange={set("q")}
+        />
+        {params && <Chip onClick={() => setFilters(EMPTY_FILTERS)}>Reset</Chip>}
+      </div>
+      {message && <div className="text-sm text-red-500 mb-2">{message}</div>}
+      {items.length === 0 ? (
+        <Empty msg="Belum ada entri yang cocok." />
+      ) : (
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs opacity-60 text-left">
+                <th className="font-normal py-1 pr-3">Waktu (WIB)</th>
+                <th className="font-normal py-1 pr-3">Pengguna</th>
+                <th className="font-normal py-1 pr-3">Aksi</th>
+                <th className="font-normal py-1 pr-3">Item</th>
+                <th className="font-normal py-1">Perubahan</th>
+              </tr>
+            </thead>
+            <tbody
+              className={classNames("divide-y", dark ? "divide-slate-700" : "divide-slate-200")}
+            >
+              {items.map((e) => (
+                <tr key={e.id} className="align-top">
+                  <td className="py-2 pr-3 whitespace-nowrap text-xs opacity-80">
+                    {formatDateTime(e.at)}
+                  </td>
+                  <td className="py-2 pr-3">
+                    {e.actor.name}
+                    <div className="text-xs opacity-60">{ROLE_LABEL[e.actor.role]}</div>
+                  </td>
+                  <td className="py-2 pr-3">
+                    {auditLabel(e.action)}
+                    {e.note && <div className="text-xs opacity-70">{e.note}</div>}
+                  </td>
+                  <td className="py-2 pr-3 max-w-xs">
+                    <div className="line-clamp-2">{describeRef(e.target)}</div>
+                    {e.subject && (
+                      <div className="text-xs opacity-70 line-clamp-1">
+                        {describeRef(e.subject)}
+                      </div>
+                    )}
+                  </td>
+                  <td className="py-2 text-xs max-w-md">
+                    <Changes entry={e} />
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </Card>
+  );
+}
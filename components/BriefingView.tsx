@@ -0,0 +1,330 @@
+'use client';
+import React, { useCallback, useEffect, useState } from "react";
+import type {
+  Briefing,
+  BriefingEvent,
+  BriefingQuote,
+  BriefingStory,
+} from "@/lib/briefing/build";
+import type { BriefingSummary } from "@/lib/briefing/daily";
+import { formatRange, type DateRange } from "@/lib/daterange";
+import { formatDateTime, zoneForLocation } from "@/lib/format";
+import { VERIFICATION_LABEL } from "@/lib/quotes/verification";
+import { TONE_LABEL, TONES } from "@/lib/sentiment/lexicon";
+import type { Tone } from "@/lib/types";
+import { Card, Empty, SectionHeader, StatBadge, classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// Laporan Harian tab: the stored morning briefs (built daily by the
+// scheduler) or a brief for the period selected in the header, with HTML and
+// PDF downloads of the same content.
+// =============================
+
+// Source value for "build from the header period"
+const ACTIVE_RANGE = "";
+
+const TONE_CLASS: Record<Tone, string> = {
+  positive: "bg-emerald-100 text-emerald-800 border-emerald-200",
+  neutral: "bg-slate-100 text-slate-700 border-slate-200",
+  negative: "bg-rose-100 text-rose-800 border-rose-200",
+};
+
+function ToneBadge({ tone, children }: { tone: Tone; children?: React.ReactNode }) {
+  return (
+    <span
+      className={classNames(
+        "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border",
+        TONE_CLASS[tone]
+      )}
+    >
+      {children ?? TONE_LABEL[tone]}
+    </span>
+  );
+}
+
+const itemLink = (title: string, link: string) =>
+  link && link !== "#" ? (
+    <a href={link} target="_blank" rel="noreferrer" className="hover:underline">
+      {title}
+    </a>
+  ) : (
+    title
+  );
+
+function EventLine({ e }: { e: BriefingEvent }) {
+  return (
+    <li>
+      <span className="opacity-70">{formatDateTime(e.date, zoneForLocation(e.location))}</span>{" "}
+      {itemLink(e.title, e.link)} <span className="opacity-70">- {e.location}</span>{" "}
+      {e.attendedByMinister && <StatBadge>Menhub hadir</StatBadge>}
+    </li>
+  );
+}
+
+function StoryLine({ s }: { s: BriefingStory }) {
+  return (
+    <li>
+      {itemLink(s.title, s.link)}{" "}
+      <span className="opacity-70">
+        - {s.outlets.join(", ")}
+        {s.reports > s.outlets.length && ` (${s.reports} laporan)`}
+      </span>{" "}
+      <ToneBadge tone={s.tone} />
+    </li>
+  );
+}
+
+function QuoteLine({ q }: { q: BriefingQuote }) {
+  return (
+    <li>
+      <span className="italic">&ldquo;{q.text}&rdquo;</span>{" "}
+      <span className="opacity-70">
+        - {q.speaker}, {formatDateTime(q.date)} ({VERIFICATION_LABEL[q.verification]})
+      </span>
+    </li>
+  );
+}
+
+function Part({
+  title,
+  empty,
+  children,
+}: {
+  title: string;
+  empty: string;
+  children: React.ReactNode[];
+}) {
+  return (
+    <div>
+      <h3 className="font-semibold mb-1">{title}</h3>
+      {children.length ? (
+        <ul className="text-sm space-y-1 list-disc ml-5">{children}</ul>
+      ) : (
+        <div className="text-sm opacity-60">{empty}</div>
+      )}
+    </div>
+  );
+}
+
+export default function BriefingView({ range, dark }: { range: DateRange; dark?: boolean }) {
+  const { can } = useSession();
+  const [stored, setStored] = useState<BriefingSummary[]>([]);
+  const [source, setSource] = useState<string | null>(null);
+  const [item, setItem] = useState<Briefing | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const loadList = useCallback(async () => {
+    try {
+      const res = await fetch("/api/briefing", { cache: "no-store" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { items: BriefingSummary[] };
+      setStored(body.items);
+      // Open the latest stored brief first
+      setSource((s) => s ?? body.items[0]?.id ?? ACTIVE_RANGE);
+    } catch (err) {
+      setMessage(`Gagal memuat daftar laporan: ${(err as Error).message}`);
+      setSource((s) => s ?? ACTIVE_RANGE);
+    }
+  }, []);
+
+  useEffect(() => {
+    loadList();
+  }, [loadList]);
+
+  const params = new URLSearchParams(
+    source ? { id: source } : { from: range.from, to: range.to }
+  ).toString();
+
+  useEffect(() => {
+    if (source === null) return;
+    let cancelled = false;
+    setBusy(true);
+    fetch(`/api/briefing/report?${params}`, { cache: "no-store" })
+      .then(async (res) => {
+        const body = (await res.json()) as { item?: Briefing; error?: string };
+        if (!res.ok || !body.item) throw new Error(body.error ?? `HTTP ${res.status}`);
+        if (!cancelled) {
+          setItem(body.item);
+          setMessage("");
+        }
+      })
+      .catch((err) => !cancelled && setMessage(`Gagal memuat laporan: ${err.message}`))
+      .finally(() => !cancelled && setBusy(false));
+    return () => {
+      cancelled = true;
+    };
+  }, [source, params]);
+
+  const generate = async () => {
+    setBusy(true);
+    try {
+      const res = await fetch("/api/briefing", { method: "POST" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { item: Briefing };
+      await loadList();
+      setSource(body.item.id);
+      setItem(body.item);
+      setMessage(`Laporan harian sampai ${formatDateTime(body.item.range.to)} dibuat ulang.`);
+    } catch (err) {
+      setMessage(`Gagal membuat laporan: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const button = classNames(
+    "px-2 py-1 rounded-md text-xs border",
+    dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card dark={dark}>
+        <SectionHeader
+          title="Laporan Harian"
+          right={
+            <div className="flex flex-wrap items-center gap-2">
+              <select
+                value={source ?? ACTIVE_RANGE}
+                onChange={(e) => setSource(e.target.value)}
+                className={classNames(
+                  "px-2 py-1 rounded-md text-xs border",
+                  dark ? "bg-slate-800 border-slate-600" : "bg-white border-slate-300"
+                )}
+              >
+                {stored.map((b) => (
+                  <option key={b.id} value={b.id}>
+                    {formatDateTime(b.range.to)} ({b.counts.news} berita)
+                  </option>
+                ))}
+                <option value={ACTIVE_RANGE}>Periode aktif: {formatRange(range)}</option>
+              </select>
+              {can("briefing:run") && (
+                <button className={button} onClick={generate} disabled={busy}>
+                  Buat ulang laporan harian
+                </button>
+              )}
+              <a className={button} href={`/api/briefing/report?${params}&format=html`}>
+                Unduh HTML
+              </a>
+              <a className={button} href={`/api/briefing/report?${params}&format=pdf`}>
+                Unduh PDF
+              </a>
+            </div>
+          }
+        />
+        <div className="text-xs opacity-70">
+          Laporan 24 jam terakhir dibuat otomatis setiap pagi sebelum 06.00 WIB (lihat Status
+          Ingestor). Pilih &quot;Periode aktif&quot; untuk laporan periode di header.
+        </div>
+        {message && <div className="text-xs mt-2">{message}</div>}
+      </Card>
+
+      {!item ? (
+        <Empty msg={busy ? "Memuat laporan..." : "Belum ada laporan."} />
+      ) : (
+        <>
+          <Card dark={dark}>
+            <SectionHeader
+              title={`Periode ${formatRange(item.range)}`}
+              right={
+                <span className="text-xs opacity-70">
+                  Dibuat {formatDateTime(item.generatedAt)}
+                </span>
+              }
+            />
+            <div className="flex flex-wrap items-center gap-4 text-sm">
+              <span>
+                <b>{item.counts.events}</b> event
+              </span>
+              <span>
+                <b>{item.counts.news}</b> berita ({item.counts.stories} isu)
+              </span>
+              <span>
+                <b>{item.counts.quotes}</b> quote
+              </span>
+              <span className="flex items-center gap-1">
+                Tone:
+                {TONES.map((t) => (
+                  <ToneBadge key={t} tone={t}>
+                    {TONE_LABEL[t]} {item.tone[t]}
+                  </ToneBadge>
+                ))}
+              </span>
+            </div>
+          </Card>
+
+          <div className="grid md:grid-cols-2 gap-4">
+            <Card dark={dark}>
+              <div className="space-y-4">
+                <Part title="Kegiatan Menteri" empty="Tidak ada kegiatan Menteri tercatat.">
+                  {item.ministerEvents.map((e) => (
+                    <EventLine key={e.id} e={e} />
+                  ))}
+                </Part>
+                <Part title="Agenda Mendatang" empty="Belum ada agenda.">
+                  {item.agenda.map((e) => (
+                    <EventLine key={e.id} e={e} />
+                  ))}
+                </Part>
+              </div>
+            </Card>
+            <Card dark={dark}>
+              <div className="space-y-4">
+                <Part title="Berita Utama" empty="Tidak ada berita pada periode ini.">
+                  {item.topStories.map((s) => (
+                    <StoryLine key={s.id} s={s} />
+                  ))}
+                </Part>
+                <Part title="Kutipan Kunci" empty="Tidak ada quote pada periode ini.">
+                  {item.keyQuotes.map((q) => (
+                    <QuoteLine key={q.id} q={q} />
+                  ))}
+                </Part>
+              </div>
+            </Card>
+          </div>
+
+          <Card dark={dark}>
+            <SectionHeader title="Per Moda" />
+            {item.sections.length === 0 ? (
+              <Empty msg="Tidak ada item pada periode ini." />
+            ) : (
+              <div className="grid md:grid-cols-2 gap-4">
+                {item.sections.map((s) => (
+                  <div
+                    key={s.mode}
+                    className={classNames(
+                      "rounded-lg border p-3",
+                      dark ? "border-slate-700" : "border-slate-200"
+                    )}
+                  >
+                    <div className="font-semibold">{s.mode}</div>
+                    {s.topics.length > 0 && (
+                      <div className="text-xs opacity-70 mb-1">
+                        Topik: {s.topics.map(([t, n]) => `${t} (${n})`).join(", ")}
+                      </div>
+                    )}
+                    <ul className="text-sm space-y-1 list-disc ml-5">
+                      {s.events.map((e) => (
+                        <EventLine key={e.id} e={e} />
+                      ))}
+                      {s.stories.map((st) => (
+                        <StoryLine key={st.id} s={st} />
+                      ))}
+                      {s.quotes.map((q) => (
+                        <QuoteLine key={q.id} q={q} />
+                      ))}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </Card>
+        </>
+      )}
+    </div>
+  );
+}
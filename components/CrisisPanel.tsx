@@ -0,0 +1,140 @@
+'use client';
+import React from "react";
+import { formatDateTime, formatTime } from "@/lib/format";
+import type { IncidentReport, TimelineEntry } from "@/lib/incidents/detect";
+import { classNames } from "./ui";
+
+// =============================
+// Crisis layout block pinned above the tabs while an incident spikes: the
+// spiking keywords and entities, the incident's coverage, a timeline and the
+// related official statements. Hidden per incident with "Sembunyikan".
+// =============================
+
+const KIND_LABEL: Record<TimelineEntry["kind"], string> = {
+  news: "Berita",
+  event: "Agenda",
+  quote: "Pernyataan",
+};
+
+const MAX_ITEMS = 8;
+
+function EntryLink({ entry }: { entry: TimelineEntry }) {
+  return entry.link && entry.link !== "#" ? (
+    <a href={entry.link} target="_blank" rel="noreferrer" className="hover:underline">
+      {entry.title}
+    </a>
+  ) : (
+    <>{entry.title}</>
+  );
+}
+
+export default function CrisisPanel({
+  report,
+  onDismiss,
+  dark,
+}: {
+  report: IncidentReport;
+  onDismiss: () => void;
+  dark?: boolean;
+}) {
+  const incident = report.incident;
+  if (!incident) return null;
+  const spikes = [...report.keywords.filter((k) => k.spike), ...report.entities];
+  const box = classNames(
+    "rounded-lg border p-3",
+    dark ? "border-red-900 bg-slate-900/60" : "border-red-200 bg-white"
+  );
+
+  return (
+    <div
+      className={classNames(
+        "rounded-xl border-2 p-4 space-y-3",
+        dark ? "bg-red-950/40 border-red-700" : "bg-red-50 border-red-400"
+      )}
+    >
+      <div className="flex flex-wrap items-start justify-between gap-2">
+        <div>
+          <div className="text-lg font-semibold text-red-600">
+            Mode Krisis: {incident.terms.join(", ")}
+          </div>
+          <div className="text-xs opacity-70">
+            Lonjakan pemberitaan dalam {report.config.windowHours} jam terakhir dibanding
+            rata-rata {report.config.baselineDays} hari sebelumnya. Diperbarui{" "}
+            {formatTime(report.generatedAt)} WIB.
+          </div>
+        </div>
+        <button className="text-xs underline opacity-80" onClick={onDismiss}>
+          Sembunyikan
+        </button>
+      </div>
+
+      <div className="flex flex-wrap gap-2">
+        {spikes.map((s) => (
+          <span
+            key={`${s.kind}:${s.term}`}
+            className="px-2 py-0.5 rounded-full text-xs font-medium bg-red-600 text-white"
+          >
+            {s.term}: {s.count} item (rata-rata {s.mean}, z {s.z})
+          </span>
+        ))}
+      </div>
+
+      <div className="grid gap-3 md:grid-cols-2">
+        <div className={box}>
+          <div className="font-medium text-sm mb-1">Berita insiden</div>
+          <ul className="text-sm space-y-1">
+            {incident.items.slice(0, MAX_ITEMS).map((n) => (
+              <li key={n.id}>
+                <EntryLink entry={n} />{" "}
+                <span className="text-xs opacity-60">
+                  - {n.source}, {formatDateTime(n.at)}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {incident.items.length > MAX_ITEMS && (
+            <div className="text-xs opacity-60 mt-1">
+              +{incident.items.length - MAX_ITEMS} berita lainnya
+            </div>
+          )}
+        </div>
+
+        <div className={box}>
+          <div className="font-medium text-sm mb-1">Pernyataan resmi terkait</div>
+          {incident.statements.length === 0 ? (
+            <div className="text-xs opacity-60">
+              Belum ada kutipan atau agenda resmi terkait insiden ini.
+            </div>
+          ) : (
+            <ul className="text-sm space-y-1">
+              {incident.statements.slice(0, MAX_ITEMS).map((s) => (
+                <li key={`${s.kind}:${s.id}`}>
+                  <span className="text-xs opacity-60">{KIND_LABEL[s.kind]}</span>{" "}
+                  <EntryLink entry={s} />{" "}
+                  <span className="text-xs opacity-60">
+                    - {s.source}, {formatDateTime(s.at)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+
+      <details className={box}>
+        <summary className="cursor-pointer select-none font-medium text-sm">
+          Timeline {report.config.timelineHours} jam ({incident.timeline.length} item)
+        </summary>
+        <ol className="mt-2 text-sm space-y-1 border-l-2 border-red-300 pl-3">
+          {incident.timeline.map((t) => (
+            <li key={`${t.kind}:${t.id}`}>
+              <span className="text-xs font-mono opacity-70">{formatDateTime(t.at)}</span>{" "}
+              <span className="text-xs opacity-60">{KIND_LABEL[t.kind]}</span>{" "}
+              <EntryLink entry={t} />
+            </li>
+          ))}
+        </ol>
+      </details>
+    </div>
+  );
+}
@@ -0,0 +1,81 @@
+'use client';
+import React from "react";
+import { RANGE_PRESETS, formatRange, type DateRange, type RangePreset } from "@/lib/daterange";
+import { classNames } from "./ui";
+
+// =============================
+// Header period selector: presets, custom from/to days (WIB) and the
+// "compare with previous period" toggle.
+// =============================
+
+export default function DateRangePicker({
+  preset,
+  onPreset,
+  customFrom,
+  customTo,
+  onCustom,
+  range,
+  compare,
+  onCompare,
+  dark,
+}: {
+  preset: RangePreset;
+  onPreset: (p: RangePreset) => void;
+  // "YYYY-MM-DD", both inclusive
+  customFrom: string;
+  customTo: string;
+  onCustom: (from: string, to: string) => void;
+  range: DateRange;
+  compare: boolean;
+  onCompare: (on: boolean) => void;
+  dark?: boolean;
+}) {
+  const fieldClass = classNames(
+    "px-3 py-2 rounded-xl border focus:outline-none",
+    dark
+      ? "bg-slate-800 border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500"
+      : "border-slate-300 focus:ring-2 focus:ring-indigo-600"
+  );
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      <select
+        className={fieldClass}
+        value={preset}
+        onChange={(e) => onPreset(e.target.value as RangePreset)}
+        title={formatRange(range)}
+      >
+        {RANGE_PRESETS.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.label}
+          </option>
+        ))}
+      </select>
+      {preset === "custom" && (
+        <>
+          <input
+            type="date"
+            className={fieldClass}
+            value={customFrom}
+            max={customTo}
+            onChange={(e) => e.target.value && onCustom(e.target.value, customTo)}
+            aria-label="Dari tanggal"
+          />
+          <span className="text-sm opacity-70">s.d.</span>
+          <input
+            type="date"
+            className={fieldClass}
+            value={customTo}
+            min={customFrom}
+            onChange={(e) => e.target.value && onCustom(customFrom, e.target.value)}
+            aria-label="Sampai tanggal"
+          />
+        </>
+      )}
+      <label className="flex items-center gap-1 text-sm">
+        <input type="checkbox" checked={compare} onChange={(e) => onCompare(e.target.checked)} />
+        Bandingkan
+      </label>
+    </div>
+  );
+}
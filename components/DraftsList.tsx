@@ -0,0 +1,207 @@
+'use client';
+import React, { useCallback, useEffect, useState } from "react";
+import { formatDateTime } from "@/lib/format";
+import type { CaptionDraft, DraftStatus } from "@/lib/types";
+import { Card, Chip, Empty, SectionHeader, StatBadge, classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// Caption drafts list: lifecycle actions, version history and transition log.
+// =============================
+
+export const DRAFT_STATUS_LABEL: Record<DraftStatus, string> = {
+  draft: "Draft",
+  "in-review": "Dalam review",
+  approved: "Disetujui",
+  posted: "Diposting",
+};
+
+const STATUS_CLASS: Record<DraftStatus, string> = {
+  draft: "bg-slate-100 text-slate-700 border-slate-200",
+  "in-review": "bg-indigo-100 text-indigo-800 border-indigo-200",
+  approved: "bg-emerald-100 text-emerald-800 border-emerald-200",
+  posted: "bg-amber-100 text-amber-800 border-amber-200",
+};
+
+export function DraftStatusBadge({ status }: { status: DraftStatus }) {
+  return (
+    <span
+      className={classNames(
+        "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border",
+        STATUS_CLASS[status]
+      )}
+    >
+      {DRAFT_STATUS_LABEL[status]}
+    </span>
+  );
+}
+
+// Buttons offered per status: [action, label]
+const ACTIONS: Record<DraftStatus, Array<[string, string]>> = {
+  draft: [["submit", "Ajukan review"]],
+  "in-review": [
+    ["approve", "Setujui"],
+    ["return", "Kembalikan"],
+  ],
+  approved: [
+    ["posted", "Tandai diposting"],
+    ["return", "Kembalikan"],
+  ],
+  posted: [],
+};
+
+export default function DraftsList({
+  dark,
+  onOpen,
+}: {
+  dark?: boolean;
+  // Load a draft into the caption generator
+  onOpen: (d: CaptionDraft) => void;
+}) {
+  const [items, setItems] = useState<CaptionDraft[]>([]);
+  const [filter, setFilter] = useState<DraftStatus | "all">("all");
+  const { can } = useSession();
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/drafts", { cache: "no-store" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { items: CaptionDraft[] };
+      setItems(body.items);
+    } catch (err) {
+      setMessage(`Gagal memuat draft: ${(err as Error).message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const act = async (id: string, action: string) => {
+    setBusy(id);
+    setMessage("");
+    try {
+      const res = await fetch(`/api/drafts/${id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ action }),
+      });
+      const body = (await res.json()) as { item?: CaptionDraft; error?: string };
+      if (!res.ok || !body.item) throw new Error(body.error ?? `HTTP ${res.status}`);
+      const updated = body.item;
+      setItems((prev) => prev.map((d) => (d.id === id ? updated : d)));
+    } catch (err) {
+      setMessage(`Gagal: ${(err as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  // Reviews need an approver; the rest of the lifecycle is editors' work
+  const allowed = (action: string) =>
+    can(action === "approve" || action === "return" ? "drafts:approve" : "drafts:edit");
+
+  const shown = items.filter((d) => filter === "all" || d.status === filter);
+
+  return (
+    <Card dark={dark}>
+      <SectionHeader
+        icon={
+          <span
+            className={classNames(
+              "w-2.5 h-2.5 rounded-full inline-block",
+              dark ? "bg-indigo-400" : "bg-indigo-700"
+            )}
+          />
+        }
+        title="Draft Caption"
+        right={
+          <div className="text-sm flex items-center gap-2">
+            <StatBadge>{shown.length} draft</StatBadge>
+          </div>
+        }
+      />
+      <div className="flex flex-wrap items-center gap-2 mb-3">
+        {(["all", "draft", "in-review", "approved", "posted"] as const).map((s) => (
+          <Chip key={s} active={filter === s} onClick={() => setFilter(s)}>
+            {s === "all" ? "Semua" : DRAFT_STATUS_LABEL[s]}
+          </Chip>
+        ))}
+      </div>
+      {message && <div className="text-sm text-red-500 mb-2">{message}</div>}
+      <div className="divide-y" style={{ borderColor: dark ? "#334155" : "#e2e8f0" }}>
+        {shown.map((d) => (
+          <div key={d.id} className="py-3 space-y-2">
+            <div className="flex flex-wrap items-center gap-2 text-xs">
+              <DraftStatusBadge status={d.status} />
+              <span className="opacity-70">
+                {d.platform} - oleh {d.author} - {formatDateTime(d.updatedAt)}
+              </span>
+              {d.approvedBy && (
+                <span className="opacity-70">- disetujui {d.approvedBy}</span>
+              )}
+            </div>
+            {d.subject && <div className="text-xs opacity-70">Item: {d.subject.title}</div>}
+            <div className="text-sm whitespace-pre-line">{d.text}</div>
+            <div className="flex flex-wrap gap-2">
+              <button
+                onClick={() => onOpen(d)}
+                className={classNames(
+                  "px-2 py-1 rounded-md text-xs border",
+                  dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+                )}
+              >
+                Buka di generator
+              </button>
+              {ACTIONS[d.status].filter(([action]) => allowed(action)).map(([action, label]) => (
+                <button
+                  key={action}
+                  onClick={() => act(d.id, action)}
+                  disabled={busy === d.id}
+                  className={classNames(
+                    "px-2 py-1 rounded-md text-xs text-white",
+                    action === "return"
+                      ? "bg-slate-500 hover:bg-slate-600"
+                      : dark
+                      ? "bg-indigo-500 hover:bg-indigo-600"
+                      : "bg-indigo-700 hover:bg-indigo-800",
+                    busy === d.id && "opacity-50 cursor-not-allowed"
+                  )}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <details className="text-xs">
+              <summary className="cursor-pointer select-none opacity-80">
+                Riwayat ({d.versions.length} versi, {d.transitions.length} perubahan status)
+              </summary>
+              <ol className="mt-1 ml-4 list-decimal space-y-1">
+                {d.versions.map((v, i) => (
+                  <li key={i}>
+                    <span className="opacity-70">
+                      {v.author}, {formatDateTime(v.at)}:
+                    </span>{" "}
+                    <span className="whitespace-pre-line">{v.text}</span>
+                  </li>
+                ))}
+              </ol>
+              <ul className="mt-2 ml-4 list-disc space-y-0.5">
+                {d.transitions.map((t, i) => (
+                  <li key={i}>
+                    {DRAFT_STATUS_LABEL[t.from]} -&gt; {DRAFT_STATUS_LABEL[t.to]} oleh {t.by},{" "}
+                    {formatDateTime(t.at)}
+                    {t.note && ` (${t.note})`}
+                  </li>
+                ))}
+              </ul>
+            </details>
+          </div>
+        ))}
+        {shown.length === 0 && <Empty msg="Belum ada draft caption." />}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,41 @@
+'use client';
+import React from "react";
+import { groupEntities } from "@/lib/entities/extract";
+import type { EntityType } from "@/lib/types";
+import { classNames } from "./ui";
+
+// =============================
+// News entities grouped by type (tokoh, organisasi, lokasi, topik).
+// =============================
+
+const TYPE_STYLE: Record<EntityType, { light: string; dark: string }> = {
+  person: { light: "bg-amber-50 border-amber-200", dark: "bg-amber-900/40 border-amber-700" },
+  organization: { light: "bg-sky-50 border-sky-200", dark: "bg-sky-900/40 border-sky-700" },
+  place: { light: "bg-emerald-50 border-emerald-200", dark: "bg-emerald-900/40 border-emerald-700" },
+  topic: { light: "bg-slate-100 border-slate-200", dark: "bg-slate-700 border-slate-600" },
+};
+
+export default function EntityGroups({ entities, dark }: { entities?: string[]; dark?: boolean }) {
+  const groups = groupEntities(entities ?? []);
+  if (groups.length === 0) return null;
+  return (
+    <div className="mt-2 flex flex-wrap gap-x-4 gap-y-1">
+      {groups.map((g) => (
+        <div key={g.type} className="flex flex-wrap items-center gap-1">
+          <span className="text-xs opacity-60">{g.label}:</span>
+          {g.names.map((name) => (
+            <span
+              key={name}
+              className={classNames(
+                "px-2 py-0.5 rounded-full text-xs border",
+                dark ? TYPE_STYLE[g.type].dark : TYPE_STYLE[g.type].light
+              )}
+            >
+              {name}
+            </span>
+          ))}
+        </div>
+      ))}
+    </div>
+  );
+}
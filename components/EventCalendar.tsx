@@ -0,0 +1,242 @@
+'use client';
+import React, { useMemo, useState } from "react";
+import {
+  calendarDays,
+  calendarRange,
+  eventsByDay,
+  FEED_DAYS_AHEAD,
+  FEED_DAYS_BACK,
+  feedSearchParams,
+  shiftAnchor,
+  type CalendarView,
+} from "@/lib/calendar";
+import { addDays, formatRange, jakartaDay } from "@/lib/daterange";
+import type { TagFilter } from "@/lib/facets";
+import { formatDateTime, formatTime, zoneForLocation } from "@/lib/format";
+import type { EventItem } from "@/lib/types";
+import { Card, Chip, SectionHeader, StatBadge, classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// Calendar tab: month and week views of events, the Minister's in amber.
+// The calendar pages through its own months/weeks (past or upcoming) while
+// search, tag and Minister filters still apply. Exports the visible period
+// as .ics and offers a subscription URL with the same filters.
+// =============================
+
+const WEEKDAYS = ["Sen", "Sel", "Rab", "Kam", "Jum", "Sab", "Min"];
+// Month cells list this many events before "+n lagi"
+const MONTH_CELL_LIMIT = 3;
+
+// "Oktober 2026"
+const monthLabel = (day: string) =>
+  new Date(`${day}T00:00:00Z`).toLocaleDateString("id-ID", {
+    month: "long",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+export default function EventCalendar({
+  events,
+  onlyMinister,
+  tags,
+  query,
+  dark,
+}: {
+  // Already filtered by search, tags and the Minister toggle, not by period
+  events: EventItem[];
+  onlyMinister: boolean;
+  tags: TagFilter;
+  query: string;
+  dark?: boolean;
+}) {
+  const [view, setView] = useState<CalendarView>("month");
+  const [anchor, setAnchor] = useState(() => jakartaDay());
+  const [selected, setSelected] = useState<EventItem | null>(null);
+  const [feedOpen, setFeedOpen] = useState(false);
+  const { feedToken } = useSession();
+
+  const today = jakartaDay();
+  const days = useMemo(() => calendarDays(view, anchor), [view, anchor]);
+  const byDay = useMemo(() => eventsByDay(events), [events]);
+  const range = calendarRange(view, anchor);
+  const month = anchor.slice(0, 7);
+  const visible = days.flatMap((d) => byDay.get(d) ?? []);
+
+  const filters = { onlyMinister, tags, q: query };
+  const downloadHref = `/api/events/ics?${feedSearchParams({
+    ...filters,
+    from: jakartaDay(range.from),
+    to: addDays(jakartaDay(range.to), -1),
+  })}&download=1`;
+  // Calendar apps cannot sign in, so the subscription carries a personal token
+  const feedUrl =
+    typeof window === "undefined"
+      ? ""
+      : `${window.location.origin}/api/events/ics?${feedSearchParams(filters)}` +
+        (feedToken ? `&token=${feedToken}` : "");
+
+  const navButton = classNames(
+    "px-2 py-1 rounded-md text-xs border",
+    dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card dark={dark}>
+        <SectionHeader
+          title={view === "month" ? monthLabel(`${month}-01`) : formatRange(range)}
+          right={
+            <div className="flex flex-wrap items-center gap-2">
+              <Chip active={view === "month"} onClick={() => setView("month")}>
+                Bulan
+              </Chip>
+              <Chip active={view === "week"} onClick={() => setView("week")}>
+                Minggu
+              </Chip>
+              <button
+                className={navButton}
+                onClick={() => setAnchor(shiftAnchor(view, anchor, -1))}
+              >
+                &lsaquo;
+              </button>
+              <button className={navButton} onClick={() => setAnchor(today)}>
+                Hari ini
+              </button>
+              <button
+                className={navButton}
+                onClick={() => setAnchor(shiftAnchor(view, anchor, 1))}
+              >
+                &rsaquo;
+              </button>
+              <a className={navButton} href={downloadHref}>
+                Unduh .ics
+              </a>
+              <button className={navButton} onClick={() => setFeedOpen(!feedOpen)}>
+                Langganan
+              </button>
+            </div>
+          }
+        />
+        {feedOpen && (
+          <div className="mb-3 text-xs space-y-1">
+            <div className="opacity-70">
+              Tambahkan URL ini sebagai kalender langganan (Google Calendar: &quot;Dari URL&quot;).
+              Feed memakai filter pencarian, tag dan Menteri yang aktif, dengan rentang{" "}
+              {FEED_DAYS_BACK} hari ke belakang sampai {FEED_DAYS_AHEAD} hari ke depan. URL ini
+              pribadi; minta admin membuat token baru bila tersebar.
+            </div>
+            <div className="flex gap-2">
+              <input
+                readOnly
+                value={feedUrl}
+                onFocus={(e) => e.target.select()}
+                className={classNames(
+                  "flex-1 px-2 py-1 rounded-md border font-mono",
+                  dark ? "bg-slate-900 border-slate-600" : "bg-white border-slate-300"
+                )}
+              />
+              <a className={navButton} href={feedUrl.replace(/^https?:/, "webcal:")}>
+                Buka di aplikasi kalender
+              </a>
+            </div>
+          </div>
+        )}
+        <div className="text-xs opacity-70 mb-2">
+          {visible.length} event; {visible.filter((e) => e.attendedByMinister).length} dihadiri
+          Menteri. Periode di header tidak berlaku di sini; pakai navigasi bulan/minggu.
+        </div>
+        <div className="grid grid-cols-7 gap-px text-xs">
+          {WEEKDAYS.map((d) => (
+            <div key={d} className="px-1 py-1 font-semibold opacity-70">
+              {d}
+            </div>
+          ))}
+          {days.map((day) => {
+            const items = byDay.get(day) ?? [];
+            const shown = view === "month" ? items.slice(0, MONTH_CELL_LIMIT) : items;
+            return (
+              <div
+                key={day}
+                className={classNames(
+                  "rounded-md border p-1 space-y-1",
+                  view === "month" ? "min-h-24" : "min-h-64",
+                  dark ? "border-slate-700" : "border-slate-200",
+                  view === "month" && !day.startsWith(month) && "opacity-40",
+                  day === today && "ring-2 ring-indigo-500"
+                )}
+              >
+                <div className="font-medium">{Number(day.slice(8, 10))}</div>
+                {shown.map((e) => (
+                  <button
+                    key={e.id}
+                    onClick={() => setSelected(e)}
+                    title={`${e.title} - ${e.location}`}
+                    className={classNames(
+                      "block w-full text-left rounded px-1 py-0.5 truncate",
+                      e.attendedByMinister
+                        ? "bg-amber-100 text-amber-900 border border-amber-300"
+                        : dark
+                          ? "bg-slate-700"
+                          : "bg-slate-100",
+                      selected?.id === e.id && "ring-1 ring-indigo-500"
+                    )}
+                  >
+                    {formatTime(e.date)} {e.title}
+                    {view === "week" && <div className="opacity-70 truncate">{e.location}</div>}
+                  </button>
+                ))}
+                {items.length > shown.length && (
+                  <button
+                    className="text-indigo-600 underline"
+                    onClick={() => {
+                      setView("week");
+                      setAnchor(day);
+                    }}
+                  >
+                    +{items.length - shown.length} lagi
+                  </button>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </Card>
+      {selected && (
+        <Card dark={dark}>
+          <SectionHeader
+            title={selected.title}
+            right={
+              <button className="text-xs underline" onClick={() => setSelected(null)}>
+                Tutup
+              </button>
+            }
+          />
+          <div className="text-sm space-y-1">
+            <div>
+              {formatDateTime(selected.date, zoneForLocation(selected.location))} &middot;{" "}
+              {selected.location}{" "}
+              {selected.attendedByMinister && <StatBadge>Menhub hadir</StatBadge>}
+              {selected.date > new Date().toISOString() && (
+                <span className="ml-1 text-xs text-indigo-600">Akan datang</span>
+              )}
+            </div>
+            {selected.summary && <p className="opacity-80">{selected.summary}</p>}
+            <div className="text-xs opacity-70">
+              Sumber: {selected.source}
+              {selected.link !== "#" && (
+                <>
+                  {" "}
+                  &middot;{" "}
+                  <a className="underline" href={selected.link} target="_blank" rel="noreferrer">
+                    Buka
+                  </a>
+                </>
+              )}
+            </div>
+          </div>
+        </Card>
+      )}
+    </div>
+  );
+}
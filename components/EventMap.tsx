@@ -0,0 +1,480 @@
+'use client';
+import React, { useMemo, useState } from "react";
+import { formatDay } from "@/lib/format";
+import { PROVINCES, REGENCIES } from "@/lib/geo/gazetteer";
+import { geoOf } from "@/lib/geo/geocode";
+import type { EventItem, GeoPoint } from "@/lib/types";
+import { ChartCard, chartTheme } from "./charts";
+import { Card, Empty, SectionHeader, classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// Map tab: event markers on a plain lon/lat projection, events per province
+// as a tile-grid choropleth (no boundary data is bundled), and the events
+// the gazetteer could not place, with a form to place them by hand.
+// =============================
+
+const FONT = "ui-sans-serif, system-ui, sans-serif";
+const COLORS = { minister: "#f59e0b", other: "#64748b", fill: "#4f46e5" };
+
+// Equirectangular frame around the archipelago
+const BOUNDS = { west: 94, east: 142, north: 6.5, south: -11.5 };
+const SCALE = 20;
+const MAP_W = (BOUNDS.east - BOUNDS.west) * SCALE;
+const MAP_H = (BOUNDS.north - BOUNDS.south) * SCALE;
+const project = (lat: number, lon: number) => ({
+  x: (lon - BOUNDS.west) * SCALE,
+  y: (BOUNDS.north - lat) * SCALE,
+});
+
+type Located = { event: EventItem; geo: GeoPoint };
+type Spot = { key: string; geo: GeoPoint; items: EventItem[]; attended: number };
+
+const PROVINCE_OPTIONS = [...PROVINCES].sort((a, b) => a.name.localeCompare(b.name));
+
+export default function EventMap({
+  events,
+  onChange,
+  onRegeocoded,
+  dark,
+}: {
+  events: EventItem[];
+  onChange: (e: EventItem) => void;
+  // Called after stored events were re-geocoded, to reload them
+  onRegeocoded: () => void;
+  dark?: boolean;
+}) {
+  const { can } = useSession();
+  const [selected, setSelected] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const regeocode = async () => {
+    setBusy(true);
+    setMessage("");
+    try {
+      const res = await fetch("/api/events/geocode", { method: "POST" });
+      const body = (await res.json()) as { updated?: number; unresolved?: number; error?: string };
+      if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`);
+      setMessage(`${body.updated} event diperbarui, ${body.unresolved} belum dikenali`);
+      onRegeocoded();
+    } catch (err) {
+      setMessage(`Gagal: ${(err as Error).message}`);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const { located, unresolved } = useMemo(() => {
+    const located: Located[] = [];
+    const unresolved: EventItem[] = [];
+    events.forEach((event) => {
+      const geo = geoOf(event);
+      if (geo) located.push({ event, geo });
+      else unresolved.push(event);
+    });
+    return { located, unresolved };
+  }, [events]);
+
+  // Events at the same coordinates share one marker
+  const spots = useMemo(() => {
+    const map = new Map<string, Spot>();
+    located.forEach(({ event, geo }) => {
+      const key = `${geo.lat},${geo.lon}`;
+      const spot = map.get(key) ?? { key, geo, items: [], attended: 0 };
+      spot.items.push(event);
+      if (event.attendedByMinister) spot.attended++;
+      map.set(key, spot);
+    });
+    return [...map.values()].sort((a, b) => b.items.length - a.items.length);
+  }, [located]);
+
+  const perProvince = useMemo(() => {
+    const counts = new Map<string, number>();
+    located.forEach(({ geo }) => counts.set(geo.province, (counts.get(geo.province) ?? 0) + 1));
+    return counts;
+  }, [located]);
+
+  const spot = spots.find((s) => s.key === selected);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        <span className="opacity-70">
+          {located.length} dari {events.length} event terpetakan. Peta mengikuti pencarian, filter
+          tag dan periode yang aktif; penanda kuning berarti dihadiri Menteri.
+        </span>
+        {can("items:edit") && (
+          <button
+            className="px-2 py-1 rounded-md text-xs border border-slate-300 disabled:opacity-50"
+            disabled={busy}
+            onClick={regeocode}
+          >
+            {busy ? "Memindai..." : "Pindai ulang lokasi"}
+          </button>
+        )}
+        {message && <span className="text-xs opacity-70">{message}</span>}
+      </div>
+      <ChartCard
+        title="Peta event"
+        filename="peta-event"
+        csv={{
+          header: ["lokasi", "provinsi", "lat", "lon", "event", "dihadiri menteri"],
+          rows: spots.map((s) => [
+            s.geo.place ?? "",
+            s.geo.province,
+            s.geo.lat,
+            s.geo.lon,
+            s.items.length,
+            s.attended,
+          ]),
+        }}
+        dark={dark}
+      >
+        <MarkerMap spots={spots} selected={selected} onSelect={setSelected} dark={dark} />
+      </ChartCard>
+      {spot && (
+        <Card dark={dark}>
+          <SectionHeader
+            title={`${spot.geo.place ?? spot.geo.province} (${spot.items.length})`}
+            right={
+              <button className="text-xs underline" onClick={() => setSelected(null)}>
+                Tutup
+              </button>
+            }
+          />
+          <ul className="space-y-3">
+            {spot.items.map((e) => (
+              <EventRow key={e.id} event={e} onChange={onChange} dark={dark} />
+            ))}
+          </ul>
+        </Card>
+      )}
+      <div className="grid gap-4 md:grid-cols-2">
+        <ChartCard
+          title="Event per provinsi"
+          filename="event-per-provinsi"
+          csv={{
+            header: ["provinsi", "event"],
+            rows: PROVINCE_OPTIONS.map((p) => [p.name, perProvince.get(p.name) ?? 0]),
+          }}
+          dark={dark}
+        >
+          <ProvinceTiles counts={perProvince} dark={dark} />
+        </ChartCard>
+        <Card dark={dark}>
+          <SectionHeader title={`Lokasi belum dikenali (${unresolved.length})`} />
+          {unresolved.length === 0 ? (
+            <Empty msg="Semua event sudah punya lokasi di peta." />
+          ) : (
+            <ul className="space-y-3">
+              {unresolved.map((e) => (
+                <EventRow key={e.id} event={e} onChange={onChange} dark={dark} editing />
+              ))}
+            </ul>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function MarkerMap({
+  spots,
+  selected,
+  onSelect,
+  dark,
+}: {
+  spots: Spot[];
+  selected: string | null;
+  onSelect: (key: string) => void;
+  dark?: boolean;
+}) {
+  const theme = chartTheme(dark);
+  const meridians = [95, 100, 105, 110, 115, 120, 125, 130, 135, 140];
+  const parallels = [5, 0, -5, -10];
+  return (
+    <svg viewBox={`0 0 ${MAP_W} ${MAP_H}`} className="w-full h-auto" fontFamily={FONT}>
+      {meridians.map((lon) => (
+        <g key={`m${lon}`}>
+          <line
+            x1={project(0, lon).x}
+            x2={project(0, lon).x}
+            y1={0}
+            y2={MAP_H}
+            stroke={theme.grid}
+          />
+          <text x={project(0, lon).x + 2} y={MAP_H - 4} fontSize={9} fill={theme.muted}>
+            {lon}&deg;BT
+          </text>
+        </g>
+      ))}
+      {parallels.map((lat) => (
+        <g key={`p${lat}`}>
+          <line
+            x1={0}
+            x2={MAP_W}
+            y1={project(lat, 0).y}
+            y2={project(lat, 0).y}
+            stroke={theme.grid}
+            strokeDasharray={lat === 0 ? undefined : "4 4"}
+          />
+          <text x={2} y={project(lat, 0).y - 2} fontSize={9} fill={theme.muted}>
+            {lat === 0 ? "0" : `${Math.abs(lat)}\u00b0${lat > 0 ? "LU" : "LS"}`}
+          </text>
+        </g>
+      ))}
+      {/* Province labels stand in for coastlines */}
+      {PROVINCES.map((p) => {
+        const { x, y } = project(p.lat, p.lon);
+        return (
+          <text key={p.id} x={x} y={y} fontSize={9} textAnchor="middle" fill={theme.muted}>
+            {p.abbr}
+          </text>
+        );
+      })}
+      {spots.map((s) => {
+        const { x, y } = project(s.geo.lat, s.geo.lon);
+        const r = 4 + Math.sqrt(s.items.length) * 3;
+        return (
+          <g key={s.key} onClick={() => onSelect(s.key)} style={{ cursor: "pointer" }}>
+            <circle
+              cx={x}
+              cy={y}
+              r={r}
+              fill={s.attended ? COLORS.minister : COLORS.other}
+              fillOpacity={0.8}
+              stroke={s.key === selected ? theme.text : theme.background}
+              strokeWidth={s.key === selected ? 2 : 1}
+            >
+              <title>
+                {`${s.geo.place ?? s.geo.province}: ${s.items.length} event, ` +
+                  `${s.attended} dihadiri Menteri`}
+              </title>
+            </circle>
+            {s.items.length > 1 && (
+              <text
+                x={x}
+                y={y + 3}
+                fontSize={9}
+                fontWeight={600}
+                textAnchor="middle"
+                fill="#ffffff"
+                pointerEvents="none"
+              >
+                {s.items.length}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {[
+        { color: COLORS.minister, label: "Dihadiri Menteri" },
+        { color: COLORS.other, label: "Tanpa Menteri" },
+      ].map((l, i) => (
+        <g key={l.label} transform={`translate(${MAP_W - 250 + i * 125}, 10)`}>
+          <circle cx={5} cy={5} r={5} fill={l.color} />
+          <text x={14} y={9} fontSize={11} fill={theme.text}>
+            {l.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+// One tile per province at its `tile` position; darker means more events
+function ProvinceTiles({ counts, dark }: { counts: Map<string, number>; dark?: boolean }) {
+  const theme = chartTheme(dark);
+  const size = 34;
+  const gap = 3;
+  const cols = Math.max(...PROVINCES.map((p) => p.tile[0])) + 1;
+  const rows = Math.max(...PROVINCES.map((p) => p.tile[1])) + 1;
+  const max = Math.max(1, ...counts.values());
+  return (
+    <svg
+      viewBox={`0 0 ${cols * (size + gap)} ${rows * (size + gap) + 24}`}
+      className="w-full h-auto"
+      fontFamily={FONT}
+    >
+      {PROVINCES.map((p) => {
+        const n = counts.get(p.name) ?? 0;
+        const [col, row] = p.tile;
+        return (
+          <g key={p.id} transform={`translate(${col * (size + gap)}, ${row * (size + gap)})`}>
+            <rect width={size} height={size} rx={4} fill={theme.grid} />
+            {n > 0 && (
+              <rect
+                width={size}
+                height={size}
+                rx={4}
+                fill={COLORS.fill}
+                fillOpacity={0.2 + 0.8 * (n / max)}
+              />
+            )}
+            <title>{`${p.name}: ${n} event`}</title>
+            <text
+              x={size / 2}
+              y={14}
+              fontSize={7}
+              textAnchor="middle"
+              fill={n / max > 0.5 ? "#ffffff" : theme.text}
+            >
+              {p.abbr}
+            </text>
+            <text
+              x={size / 2}
+              y={27}
+              fontSize={10}
+              fontWeight={600}
+              textAnchor="middle"
+              fill={n / max > 0.5 ? "#ffffff" : theme.text}
+            >
+              {n}
+            </text>
+          </g>
+        );
+      })}
+      <text x={0} y={rows * (size + gap) + 14} fontSize={10} fill={theme.muted}>
+        {`Skala: 0 sampai ${max} event per provinsi`}
+      </text>
+    </svg>
+  );
+}
+
+// Event line with its resolved position and the correction form
+function EventRow({
+  event,
+  onChange,
+  editing = false,
+  dark,
+}: {
+  event: EventItem;
+  onChange: (e: EventItem) => void;
+  editing?: boolean;
+  dark?: boolean;
+}) {
+  const { can } = useSession();
+  const [open, setOpen] = useState(editing);
+  const geo = geoOf(event);
+  return (
+    <li className="text-sm">
+      <div className="font-medium">{event.title}</div>
+      <div className="text-xs opacity-70">
+        {formatDay(event.date)} &middot; {event.location || "tanpa lokasi"}
+        {geo && (
+          <>
+            {" "}
+            &rarr; {[geo.place, geo.province].filter(Boolean).join(", ")}
+            {geo.source === "manual" && ` (diatur ${geo.by ?? "editor"})`}
+          </>
+        )}
+        {!editing && can("items:edit") && (
+          <button className="ml-2 underline" onClick={() => setOpen(!open)}>
+            {open ? "Batal" : "Ubah lokasi"}
+          </button>
+        )}
+      </div>
+      {open && can("items:edit") && (
+        <LocationForm
+          event={event}
+          onSaved={(e) => {
+            onChange(e);
+            if (!editing) setOpen(false);
+          }}
+          dark={dark}
+        />
+      )}
+    </li>
+  );
+}
+
+function LocationForm({
+  event,
+  onSaved,
+  dark,
+}: {
+  event: EventItem;
+  onSaved: (e: EventItem) => void;
+  dark?: boolean;
+}) {
+  const current = event.geo && PROVINCES.find((p) => p.name === event.geo?.province);
+  const [province, setProvince] = useState(current?.id ?? "");
+  const [place, setPlace] = useState(event.geo?.place ?? "");
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const places = REGENCIES.filter((r) => r.province === province);
+  const inputClass = classNames(
+    "px-2 py-1 rounded-md border text-xs",
+    dark ? "bg-slate-900 border-slate-600" : "bg-white border-slate-300"
+  );
+
+  const send = async (body: { province: string | null; place?: string }) => {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/events/${event.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ action: "locate", ...body }),
+      });
+      const data = (await res.json()) as { item?: EventItem; error?: string };
+      if (!res.ok || !data.item) throw new Error(data.error ?? `HTTP ${res.status}`);
+      onSaved(data.item);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="mt-1 flex flex-wrap items-center gap-2">
+      <select
+        className={inputClass}
+        value={province}
+        onChange={(e) => {
+          setProvince(e.target.value);
+          setPlace("");
+        }}
+      >
+        <option value="">Pilih provinsi</option>
+        {PROVINCE_OPTIONS.map((p) => (
+          <option key={p.id} value={p.id}>
+            {p.name}
+          </option>
+        ))}
+      </select>
+      <select
+        className={inputClass}
+        value={place}
+        disabled={!province}
+        onChange={(e) => setPlace(e.target.value)}
+      >
+        <option value="">Seluruh provinsi</option>
+        {places.map((r) => (
+          <option key={r.name} value={r.name}>
+            {r.name}
+          </option>
+        ))}
+      </select>
+      <button
+        className="px-2 py-1 rounded-md text-xs bg-indigo-600 text-white disabled:opacity-50"
+        disabled={busy || !province}
+        onClick={() => send({ province, place: place || undefined })}
+      >
+        Simpan
+      </button>
+      {event.geo?.source === "manual" && (
+        <button
+          className="text-xs underline"
+          disabled={busy}
+          onClick={() => send({ province: null })}
+        >
+          Kembalikan otomatis
+        </button>
+      )}
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </div>
+  );
+}
@@ -0,0 +1,93 @@
+'use client';
+import React, { useState } from "react";
+import type { ExportFormat, ExportKind } from "@/lib/export/report";
+import { filterSearchParams, type DashboardFilters } from "@/lib/filters";
+import { classNames } from "./ui";
+
+// =============================
+// Filter bar export: the lists the tabs currently show as CSV, XLSX or PDF.
+// Files are built by /api/export from the same filters, so the browser only
+// follows a download link.
+// =============================
+
+const KINDS: Array<{ id: ExportKind; label: string }> = [
+  { id: "events", label: "Event" },
+  { id: "news", label: "Berita" },
+  { id: "quotes", label: "Quote" },
+];
+
+const FORMATS: Array<{ id: ExportFormat; label: string }> = [
+  { id: "csv", label: "CSV" },
+  { id: "xlsx", label: "XLSX" },
+  { id: "pdf", label: "PDF" },
+];
+
+export default function ExportMenu({
+  filters,
+  counts,
+  dark,
+}: {
+  filters: DashboardFilters;
+  counts: Record<ExportKind, number>;
+  dark?: boolean;
+}) {
+  const [open, setOpen] = useState(false);
+  const [kinds, setKinds] = useState<ExportKind[]>(["events", "news", "quotes"]);
+
+  const toggle = (k: ExportKind) =>
+    setKinds((prev) => (prev.includes(k) ? prev.filter((x) => x !== k) : [...prev, k]));
+
+  const href = (format: ExportFormat) => {
+    const sp = filterSearchParams(filters);
+    sp.set("format", format);
+    kinds.forEach((k) => sp.append("kind", k));
+    return `/api/export?${sp}`;
+  };
+
+  const buttonClass = classNames(
+    "px-2 py-1 rounded-md text-xs border",
+    dark ? "bg-slate-800 border-slate-600" : "bg-white border-slate-300 hover:bg-slate-50"
+  );
+
+  return (
+    <div className="relative">
+      <button className={buttonClass} onClick={() => setOpen(!open)}>
+        Ekspor
+      </button>
+      {open && (
+        <div
+          className={classNames(
+            "absolute z-20 mt-2 w-64 rounded-xl border shadow-lg p-3 space-y-2 text-sm",
+            dark ? "bg-slate-800 border-slate-600" : "bg-white border-slate-200"
+          )}
+        >
+          <div className="text-xs opacity-70">Data sesuai filter, pencarian dan periode aktif.</div>
+          {KINDS.map((k) => (
+            <label key={k.id} className="flex items-center gap-2">
+              <input type="checkbox" checked={kinds.includes(k.id)} onChange={() => toggle(k.id)} />
+              {k.label} ({counts[k.id]})
+            </label>
+          ))}
+          <div className="flex gap-2 pt-1">
+            {FORMATS.map((f) => {
+              // CSV is a single table
+              const disabled = kinds.length === 0 || (f.id === "csv" && kinds.length !== 1);
+              return disabled ? (
+                <span key={f.id} className={classNames(buttonClass, "opacity-40")}>
+                  {f.label}
+                </span>
+              ) : (
+                <a key={f.id} className={buttonClass} href={href(f.id)} download>
+                  {f.label}
+                </a>
+              );
+            })}
+          </div>
+          {kinds.length > 1 && (
+            <div className="text-xs opacity-70">CSV: pilih satu jenis data saja.</div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
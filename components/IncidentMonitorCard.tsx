@@ -0,0 +1,209 @@
+'use client';
+import React, { useState } from "react";
+import { relativeTime } from "@/lib/format";
+import type { IncidentReport } from "@/lib/incidents/detect";
+import type { IncidentConfig } from "@/lib/types";
+import { Card, SectionHeader, classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// "Monitor Insiden" card: per-keyword volume in the current window against
+// its baseline, plus the detector settings (keywords, thresholds, crisis
+// mode) saved through /api/incidents/config.
+// =============================
+
+type NumberField = "windowHours" | "baselineDays" | "minCount" | "zThreshold" | "timelineHours";
+
+const FIELDS: Array<{ id: NumberField; label: string; step: number }> = [
+  { id: "windowHours", label: "Jendela (jam)", step: 1 },
+  { id: "baselineDays", label: "Baseline (hari)", step: 1 },
+  { id: "minCount", label: "Jumlah minimum", step: 1 },
+  { id: "zThreshold", label: "Ambang z", step: 0.5 },
+  { id: "timelineHours", label: "Timeline (jam)", step: 1 },
+];
+
+const MAX_ROWS = 6;
+
+function Settings({
+  config,
+  onSaved,
+  dark,
+}: {
+  config: IncidentConfig;
+  onSaved: () => void;
+  dark?: boolean;
+}) {
+  const [keywords, setKeywords] = useState(config.keywords.join("\n"));
+  const [values, setValues] = useState<Record<NumberField, string>>(
+    () =>
+      Object.fromEntries(FIELDS.map((f) => [f.id, String(config[f.id])])) as Record<
+        NumberField,
+        string
+      >
+  );
+  const [crisisMode, setCrisisMode] = useState(config.crisisMode);
+  const [message, setMessage] = useState("");
+
+  const input = classNames(
+    "px-2 py-1 rounded-md text-sm border w-full",
+    dark ? "bg-slate-900 border-slate-600" : "bg-white border-slate-300"
+  );
+
+  const save = async () => {
+    const res = await fetch("/api/incidents/config", {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        keywords,
+        ...Object.fromEntries(FIELDS.map((f) => [f.id, Number(values[f.id])])),
+        crisisMode,
+      }),
+    });
+    const body = (await res.json().catch(() => ({}))) as { error?: string };
+    setMessage(res.ok ? "Pengaturan disimpan." : body.error ?? `HTTP ${res.status}`);
+    if (res.ok) onSaved();
+  };
+
+  return (
+    <div className="mt-2 space-y-2 text-sm">
+      <label className="block">
+        <span className="text-xs opacity-70">Kata kunci (satu per baris)</span>
+        <textarea
+          className={input}
+          rows={5}
+          value={keywords}
+          onChange={(e) => setKeywords(e.target.value)}
+        />
+      </label>
+      <div className="grid grid-cols-2 gap-2">
+        {FIELDS.map((f) => (
+          <label key={f.id} className="block">
+            <span className="text-xs opacity-70">{f.label}</span>
+            <input
+              type="number"
+              min={0}
+              step={f.step}
+              className={input}
+              value={values[f.id]}
+              onChange={(e) => setValues({ ...values, [f.id]: e.target.value })}
+            />
+          </label>
+        ))}
+        <label className="block">
+          <span className="text-xs opacity-70">Mode krisis</span>
+          <select
+            className={input}
+            value={crisisMode}
+            onChange={(e) => setCrisisMode(e.target.value as IncidentConfig["crisisMode"])}
+          >
+            <option value="auto">Otomatis</option>
+            <option value="off">Mati</option>
+          </select>
+        </label>
+      </div>
+      <button
+        className={classNames(
+          "px-2 py-1 rounded-md text-xs border",
+          dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+        )}
+        onClick={save}
+      >
+        Simpan pengaturan
+      </button>
+      {message && <div className="text-xs">{message}</div>}
+      {config.updatedAt && (
+        <div className="text-xs opacity-60">
+          Diubah {relativeTime(config.updatedAt)}
+          {config.updatedBy && ` oleh ${config.updatedBy}`}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function IncidentMonitorCard({
+  report,
+  onChange,
+  dark,
+}: {
+  report: IncidentReport | null;
+  // Called after the settings were saved so the report is recomputed
+  onChange: () => void;
+  dark?: boolean;
+}) {
+  const { can } = useSession();
+  const [showAll, setShowAll] = useState(false);
+
+  const rows = report ? (showAll ? report.keywords : report.keywords.slice(0, MAX_ROWS)) : [];
+
+  return (
+    <Card dark={dark}>
+      <SectionHeader
+        icon={
+          <span
+            className={classNames(
+              "w-2.5 h-2.5 rounded-full inline-block",
+              report?.incident ? "bg-red-500" : dark ? "bg-emerald-400" : "bg-emerald-500"
+            )}
+          />
+        }
+        title="Monitor Insiden"
+      />
+      {!report ? (
+        <div className="text-xs opacity-60">Memuat...</div>
+      ) : (
+        <>
+          <div className="text-xs opacity-70 mb-2">
+            {report.incident
+              ? `Lonjakan terdeteksi: ${report.incident.terms.join(", ")}`
+              : "Tidak ada lonjakan."}{" "}
+            Jendela {report.config.windowHours} jam vs baseline {report.config.baselineDays} hari.
+            {report.incident && report.config.crisisMode === "off" && " Mode krisis dimatikan."}
+          </div>
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-xs opacity-60 text-left">
+                <th className="font-normal">Kata kunci</th>
+                <th className="font-normal text-right">Jendela</th>
+                <th className="font-normal text-right">Rata-rata</th>
+                <th className="font-normal text-right">z</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map((k) => (
+                <tr key={k.term} className={classNames(k.spike && "text-red-600 font-semibold")}>
+                  <td>{k.term}</td>
+                  <td className="text-right">{k.count}</td>
+                  <td className="text-right">{k.mean}</td>
+                  <td className="text-right">{k.z}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          {report.keywords.length > MAX_ROWS && (
+            <button
+              className="text-xs text-indigo-600 underline"
+              onClick={() => setShowAll(!showAll)}
+            >
+              {showAll ? "Ringkas" : `Semua ${report.keywords.length} kata kunci`}
+            </button>
+          )}
+          {can("incidents:configure") && (
+            <details className="mt-2">
+              <summary className="cursor-pointer select-none font-medium text-sm">
+                Pengaturan
+              </summary>
+              <Settings
+                // Remounts the form when the stored config changes
+                key={report.config.updatedAt ?? "default"}
+                config={report.config}
+                onSaved={onChange}
+                dark={dark}
+              />
+            </details>
+          )}
+        </>
+      )}
+    </Card>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+import React, { useCallback, useEffect, useState } from "react";
+import { relativeTime } from "@/lib/format";
+import type { IngestorHealth, IngestorStatus } from "@/lib/types";
+import { Card, SectionHeader, classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// Live "Status Ingestor" card backed by /api/ingestors.
+// Polls while mounted; each source has a "Jalankan" (run now) button.
+// =============================
+
+const POLL_MS = 30 * 1000;
+
+const HEALTH_LABEL: Record<IngestorHealth, string> = {
+  never: "Belum jalan",
+  running: "Berjalan",
+  ok: "OK",
+  failing: "Gagal",
+  down: "Down",
+};
+
+const HEALTH_CLASS: Record<IngestorHealth, string> = {
+  never: "text-slate-400",
+  running: "text-indigo-500",
+  ok: "text-emerald-500",
+  failing: "text-amber-500",
+  down: "text-red-500",
+};
+
+export default function IngestorStatusCard({
+  dark,
+  onRun,
+}: {
+  dark?: boolean;
+  // Called after a manual run so the page can reload its lists
+  onRun?: () => void;
+}) {
+  const [items, setItems] = useState<IngestorStatus[]>([]);
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState<string | null>(null);
+  const { can } = useSession();
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/ingestors", { cache: "no-store" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { items: IngestorStatus[] };
+      setItems(body.items);
+      setError("");
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load]);
+
+  const runNow = async (id: string) => {
+    setBusy(id);
+    try {
+      const res = await fetch(`/api/ingestors/${id}/run`, { method: "POST" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { item: IngestorStatus };
+      setItems((prev) => prev.map((it) => (it.id === id ? body.item : it)));
+      onRun?.();
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Card dark={dark}>
+      <SectionHeader
+        icon={
+          <span
+            className={classNames(
+              "w-2.5 h-2.5 rounded-full inline-block",
+              dark ? "bg-amber-400" : "bg-amber-500"
+            )}
+          />
+        }
+        title="Status Ingestor"
+      />
+      {error && (
+        <div className="text-xs text-red-500 mb-2">Gagal memuat status: {error}</div>
+      )}
+      <ul className="text-sm space-y-3">
+        {items.map((it) => (
+          <li key={it.id}>
+            <div className="flex items-start justify-between gap-2">
+              <div>
+                {it.label}:{" "}
+                <span className={classNames("font-medium", HEALTH_CLASS[it.health])}>
+                  {HEALTH_LABEL[it.health]}
+                </span>
+                {it.lastRunAt && <> - {relativeTime(it.lastRunAt)}</>}
+              </div>
+              {can("sources:manage") && (
+                <button
+                  onClick={() => runNow(it.id)}
+                  disabled={it.running || busy === it.id}
+                  className={classNames(
+                    "px-2 py-0.5 rounded-md text-xs border shrink-0",
+                    dark
+                      ? "border-slate-600 hover:bg-slate-700"
+                      : "border-slate-300 hover:bg-slate-50",
+                    (it.running || busy === it.id) && "opacity-50 cursor-not-allowed"
+                  )}
+                >
+                  {busy === it.id ? "..." : "Jalankan"}
+                </button>
+              )}
+            </div>
+            <div className="text-xs opacity-70">
+              {it.lastCounts &&
+                `${it.lastCounts.fetched} item (${it.lastCounts.inserted} baru) - ${
+                  it.lastDurationMs ?? 0
+                } ms`}
+              {it.nextRunAt && ` - berikutnya ${relativeTime(it.nextRunAt)}`}
+              {it.dailyAt
+                ? ` - setiap hari ${it.dailyAt} WIB`
+                : ` - tiap ${it.intervalMinutes} menit`}
+            </div>
+            {it.lastWarnings && it.lastWarnings.length > 0 && (
+              <details className="text-xs mt-1 text-amber-500">
+                <summary className="cursor-pointer select-none">
+                  {it.lastWarnings.length} entri gagal diparse
+                </summary>
+                <ul className="list-disc ml-5 mt-1 space-y-0.5">
+                  {it.lastWarnings.map((w) => (
+                    <li key={w}>{w}</li>
+                  ))}
+                </ul>
+              </details>
+            )}
+            {it.lastError && (
+              <div
+                className={classNames(
+                  "text-xs mt-1",
+                  it.health === "down" ? "text-red-500" : "text-amber-500"
+                )}
+              >
+                {it.consecutiveFailures}x gagal berturut-turut: {it.lastError}
+              </div>
+            )}
+          </li>
+        ))}
+        {items.length === 0 && !error && (
+          <li className="opacity-70">Memuat status...</li>
+        )}
+      </ul>
+    </Card>
+  );
+}
@@ -0,0 +1,83 @@
+'use client';
+import React, { useState } from "react";
+import { auditLabel, formatAuditFields } from "@/lib/audit/actions";
+import { formatDateTime } from "@/lib/format";
+import type { AuditEntry, AuditRef } from "@/lib/types";
+import { classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// "Riwayat" on event, news and quote cards: the item's audit entries, loaded
+// from /api/audit when the block is opened.
+// =============================
+
+const LIMIT = 50;
+
+export default function ItemHistory({
+  kind,
+  id,
+  dark,
+}: {
+  kind: AuditRef["kind"];
+  id: string;
+  dark?: boolean;
+}) {
+  const { can } = useSession();
+  const [items, setItems] = useState<AuditEntry[] | null>(null);
+  const [error, setError] = useState("");
+
+  if (!can("audit:view")) return null;
+
+  // Reloaded on every open so edits made meanwhile show up
+  const load = async () => {
+    setError("");
+    try {
+      const sp = new URLSearchParams({ kind, item: id, limit: String(LIMIT) });
+      const res = await fetch(`/api/audit?${sp}`, { cache: "no-store" });
+      const body = (await res.json()) as { items?: AuditEntry[]; error?: string };
+      if (!res.ok || !body.items) throw new Error(body.error ?? `HTTP ${res.status}`);
+      setItems(body.items);
+    } catch (err) {
+      setError(`Gagal memuat riwayat: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <details
+      className="mt-2 text-xs"
+      onToggle={(e) => {
+        if ((e.currentTarget as HTMLDetailsElement).open) load();
+      }}
+    >
+      <summary className="cursor-pointer select-none opacity-70">Riwayat</summary>
+      {error && <div className="mt-1 text-red-500">{error}</div>}
+      {items && items.length === 0 && <div className="mt-1 opacity-70">Belum ada catatan.</div>}
+      {items && items.length > 0 && (
+        <ol
+          className={classNames(
+            "mt-1 space-y-1 border-l-2 pl-2",
+            dark ? "border-slate-600" : "border-slate-200"
+          )}
+        >
+          {items.map((e) => {
+            const before = formatAuditFields(e.before);
+            const after = formatAuditFields(e.after);
+            return (
+              <li key={e.id}>
+                <span className="opacity-70">{formatDateTime(e.at)}</span>{" "}
+                <span className="font-medium">{e.actor.name}</span> {auditLabel(e.action)}
+                {e.note && <span className="opacity-70"> - {e.note}</span>}
+                {(before || after) && (
+                  <div className="opacity-70 break-words">
+                    {before && <>{before} &rarr; </>}
+                    {after || "-"}
+                  </div>
+                )}
+              </li>
+            );
+          })}
+        </ol>
+      )}
+    </details>
+  );
+}
@@ -0,0 +1,91 @@
+'use client';
+import React, { useState } from "react";
+import { formatDateTime } from "@/lib/format";
+import { TONES, TONE_LABEL, classifyNews, toneOf } from "@/lib/sentiment/lexicon";
+import type { NewsItem, Tone } from "@/lib/types";
+import { classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// Tone badge on news cards. Clicking it lets an editor set the label by hand;
+// "Otomatis" drops the override and falls back to the lexicon score.
+// =============================
+
+const TONE_CLASS: Record<Tone, string> = {
+  positive: "bg-emerald-100 text-emerald-800 border-emerald-200",
+  neutral: "bg-slate-100 text-slate-700 border-slate-200",
+  negative: "bg-red-100 text-red-700 border-red-200",
+};
+
+export default function NewsTone({
+  item,
+  onChange,
+}: {
+  item: NewsItem;
+  onChange: (n: NewsItem) => void;
+}) {
+  const { can } = useSession();
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState("");
+  const tone = toneOf(item);
+  const computed = item.sentiment ?? classifyNews(item);
+
+  const send = async (label: Tone | null) => {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/news/${item.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({ action: "tone", label }),
+      });
+      const body = (await res.json()) as { item?: NewsItem; error?: string };
+      if (!res.ok || !body.item) throw new Error(body.error ?? `HTTP ${res.status}`);
+      onChange(body.item);
+      setOpen(false);
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <span className="inline-flex items-center gap-1">
+      <button
+        onClick={() => can("items:edit") && setOpen(!open)}
+        className={classNames(
+          "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border",
+          TONE_CLASS[tone]
+        )}
+        title={
+          item.toneOverride
+            ? `Diubah oleh ${item.toneOverride.by}, ${formatDateTime(item.toneOverride.at)}` +
+              ` (otomatis: ${TONE_LABEL[computed.label]} ${computed.score})`
+            : `Skor leksikon ${computed.score}` +
+              (can("items:edit") ? "; klik untuk mengubah" : "")
+        }
+      >
+        {TONE_LABEL[tone]}
+        {item.toneOverride && " *"}
+      </button>
+      {open && (
+        <select
+          className="px-1 py-0.5 rounded border text-xs border-slate-300 text-slate-900"
+          value={item.toneOverride?.label ?? ""}
+          disabled={busy}
+          onChange={(e) => send(e.target.value ? (e.target.value as Tone) : null)}
+        >
+          <option value="">Otomatis ({TONE_LABEL[computed.label]})</option>
+          {TONES.map((t) => (
+            <option key={t} value={t}>
+              {TONE_LABEL[t]}
+            </option>
+          ))}
+        </select>
+      )}
+      {error && <span className="text-xs text-red-500">{error}</span>}
+    </span>
+  );
+}
@@ -0,0 +1,110 @@
+'use client';
+import React, { useMemo, useState } from "react";
+import {
+  QUERY_FIELDS,
+  suggestQuery,
+  type QueryError,
+  type QueryVocabulary,
+} from "@/lib/query";
+import { classNames } from "./ui";
+
+// =============================
+// Header search box with query syntax: autocomplete for field names and known
+// values, and syntax errors shown inline under the input.
+// =============================
+
+export default function QueryInput({
+  value,
+  onChange,
+  errors,
+  vocabulary,
+  dark,
+}: {
+  value: string;
+  onChange: (v: string) => void;
+  errors: QueryError[];
+  vocabulary: QueryVocabulary;
+  dark?: boolean;
+}) {
+  const [focused, setFocused] = useState(false);
+  const [active, setActive] = useState(0);
+  const suggestions = useMemo(() => suggestQuery(value, vocabulary), [value, vocabulary]);
+  const open = focused && suggestions.length > 0;
+
+  const apply = (next: string) => {
+    onChange(next);
+    setActive(0);
+  };
+
+  const onKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (!open) return;
+    if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+      e.preventDefault();
+      const step = e.key === "ArrowDown" ? 1 : -1;
+      setActive((i) => (i + step + suggestions.length) % suggestions.length);
+    } else if (e.key === "Tab" || e.key === "Enter") {
+      e.preventDefault();
+      apply(suggestions[Math.min(active, suggestions.length - 1)].value);
+    } else if (e.key === "Escape") {
+      setFocused(false);
+    }
+  };
+
+  return (
+    <div className="relative w-full sm:w-auto">
+      <input
+        className={classNames(
+          "min-w-[140px] sm:min-w-[220px] md:min-w-[260px] w-full sm:w-auto px-3 py-2 rounded-xl border focus:outline-none",
+          dark
+            ? "bg-slate-800 border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500"
+            : "border-slate-300 focus:ring-2 focus:ring-indigo-600",
+          errors.length > 0 && "border-red-400"
+        )}
+        placeholder="Cari event, berita, quote (coba tag: atau source:)"
+        title={`Operator: ${Object.keys(QUERY_FIELDS)
+          .map((f) => `${f}:`)
+          .join(" ")} -kata "frasa" (a OR b)`}
+        value={value}
+        onChange={(e) => apply(e.target.value)}
+        onFocus={() => setFocused(true)}
+        // Delay so a click on a suggestion lands first
+        onBlur={() => setTimeout(() => setFocused(false), 150)}
+        onKeyDown={onKeyDown}
+        spellCheck={false}
+      />
+      {open && (
+        <ul
+          className={classNames(
+            "absolute z-30 mt-1 w-full min-w-[220px] rounded-xl border shadow-lg text-sm overflow-hidden",
+            dark ? "bg-slate-800 border-slate-600" : "bg-white border-slate-200"
+          )}
+        >
+          {suggestions.map((s, i) => (
+            <li key={s.label}>
+              <button
+                onMouseDown={(e) => e.preventDefault()}
+                onClick={() => apply(s.value)}
+                className={classNames(
+                  "w-full text-left px-3 py-1.5 flex justify-between gap-2",
+                  i === active && (dark ? "bg-slate-700" : "bg-indigo-50")
+                )}
+              >
+                <span className="font-mono">{s.label}</span>
+                {s.hint && <span className="opacity-60 text-xs">{s.hint}</span>}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      {errors.length > 0 && (
+        <div className="mt-1 text-xs text-red-500">
+          {errors.map((e) => (
+            <div key={`${e.start}-${e.message}`}>
+              {e.message} <span className="opacity-70">(kolom {e.start + 1})</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
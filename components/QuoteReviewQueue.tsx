@@ -0,0 +1,223 @@
+'use client';
+import React, { useCallback, useEffect, useState } from "react";
+import { formatDay } from "@/lib/format";
+import type { QuoteCandidate } from "@/lib/types";
+import { Card, Empty, SectionHeader, StatBadge, classNames } from "./ui";
+
+// =============================
+// Review queue for quote candidates extracted from news.
+// Editors can fix text/speaker/context, add tags, then accept or reject.
+// =============================
+
+type Draft = { text: string; speaker: string; context: string; tags: string };
+
+const toDraft = (c: QuoteCandidate): Draft => ({
+  text: c.text,
+  speaker: c.speaker,
+  context: c.context ?? "",
+  tags: "",
+});
+
+export default function QuoteReviewQueue({
+  dark,
+  onAccepted,
+}: {
+  dark?: boolean;
+  // Called after a quote is accepted so the Quotes list can reload
+  onAccepted?: () => void;
+}) {
+  const [items, setItems] = useState<QuoteCandidate[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [busy, setBusy] = useState<string | null>(null);
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/quote-candidates?status=pending", { cache: "no-store" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { items: QuoteCandidate[] };
+      setItems(body.items);
+      setDrafts(Object.fromEntries(body.items.map((c) => [c.id, toDraft(c)])));
+    } catch (err) {
+      setMessage(`Gagal memuat antrian: ${(err as Error).message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const setField = (id: string, field: keyof Draft, value: string) =>
+    setDrafts((prev) => ({ ...prev, [id]: { ...prev[id], [field]: value } }));
+
+  const decide = async (id: string, action: "save" | "accept" | "reject") => {
+    const d = drafts[id];
+    setBusy(id);
+    try {
+      const res = await fetch(`/api/quote-candidates/${id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify({
+          action,
+          text: d.text,
+          speaker: d.speaker,
+          context: d.context,
+          tags: d.tags
+            .split(",")
+            .map((t) => t.trim())
+            .filter(Boolean),
+        }),
+      });
+      const body = (await res.json()) as { error?: string };
+      if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`);
+      if (action === "save") {
+        setMessage("Perubahan disimpan");
+      } else {
+        setItems((prev) => prev.filter((c) => c.id !== id));
+        setMessage(action === "accept" ? "Kutipan diterima" : "Kandidat ditolak");
+        if (action === "accept") onAccepted?.();
+      }
+    } catch (err) {
+      setMessage(`Gagal: ${(err as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const runExtract = async () => {
+    setBusy("extract");
+    try {
+      const res = await fetch("/api/quote-candidates/extract", { method: "POST" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { added: number };
+      setMessage(`${body.added} kandidat baru`);
+      await load();
+    } catch (err) {
+      setMessage(`Gagal ekstraksi: ${(err as Error).message}`);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const inputClass = classNames(
+    "w-full px-2 py-1 rounded-lg border text-sm focus:outline-none",
+    dark
+      ? "bg-slate-800 border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500"
+      : "border-slate-300 focus:ring-2 focus:ring-indigo-600"
+  );
+
+  return (
+    <Card dark={dark}>
+      <SectionHeader
+        icon={
+          <span
+            className={classNames(
+              "w-2.5 h-2.5 rounded-full inline-block",
+              dark ? "bg-amber-400" : "bg-amber-500"
+            )}
+          />
+        }
+        title="Antrian Review Kutipan"
+        right={
+          <div className="text-sm flex items-center gap-2">
+            <button
+              onClick={runExtract}
+              disabled={busy === "extract"}
+              className={classNames(
+                "px-2 py-1 rounded-md text-xs border",
+                dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+              )}
+            >
+              Pindai berita
+            </button>
+            <StatBadge>{items.length} menunggu</StatBadge>
+          </div>
+        }
+      />
+      {message && <div className="text-sm opacity-80 mb-2">{message}</div>}
+      <div className="space-y-4">
+        {items.map((c) => {
+          const d = drafts[c.id] ?? toDraft(c);
+          return (
+            <div
+              key={c.id}
+              className={classNames(
+                "rounded-xl border p-3 space-y-2",
+                dark ? "border-slate-700" : "border-slate-200"
+              )}
+            >
+              <textarea
+                className={classNames(inputClass, "h-20 italic")}
+                value={d.text}
+                onChange={(e) => setField(c.id, "text", e.target.value)}
+              />
+              <div className="grid sm:grid-cols-2 gap-2">
+                <input
+                  className={inputClass}
+                  placeholder="Pembicara"
+                  value={d.speaker}
+                  onChange={(e) => setField(c.id, "speaker", e.target.value)}
+                />
+                <input
+                  className={inputClass}
+                  placeholder="Tag (pisahkan dengan koma)"
+                  value={d.tags}
+                  onChange={(e) => setField(c.id, "tags", e.target.value)}
+                />
+              </div>
+              <input
+                className={inputClass}
+                placeholder="Konteks"
+                value={d.context}
+                onChange={(e) => setField(c.id, "context", e.target.value)}
+              />
+              <div className="flex flex-wrap items-center gap-2 text-xs">
+                <span className="opacity-70">
+                  {formatDay(c.date)} -{" "}
+                  <a
+                    href={c.link}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className={dark ? "text-indigo-300 hover:underline" : "text-indigo-700 hover:underline"}
+                  >
+                    {c.source}
+                  </a>
+                </span>
+                <div className="ml-auto flex gap-2">
+                  <button
+                    onClick={() => decide(c.id, "save")}
+                    disabled={busy === c.id}
+                    className={classNames(
+                      "px-2 py-1 rounded-md border",
+                      dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+                    )}
+                  >
+                    Simpan
+                  </button>
+                  <button
+                    onClick={() => decide(c.id, "reject")}
+                    disabled={busy === c.id}
+                    className="px-2 py-1 rounded-md border border-red-300 text-red-600 hover:bg-red-50"
+                  >
+                    Tolak
+                  </button>
+                  <button
+                    onClick={() => decide(c.id, "accept")}
+                    disabled={busy === c.id}
+                    className={classNames(
+                      "px-2 py-1 rounded-md text-white",
+                      dark ? "bg-indigo-500 hover:bg-indigo-600" : "bg-indigo-700 hover:bg-indigo-800"
+                    )}
+                  >
+                    Terima
+                  </button>
+                </div>
+              </div>
+            </div>
+          );
+        })}
+        {items.length === 0 && <Empty msg="Tidak ada kandidat kutipan yang menunggu review." />}
+      </div>
+    </Card>
+  );
+}
@@ -0,0 +1,188 @@
+'use client';
+import React, { useState } from "react";
+import { formatDateTime } from "@/lib/format";
+import {
+  REQUIRED_SOURCES,
+  VERIFICATION_LABEL,
+  canVerify,
+  distinctSourceCount,
+  quoteSources,
+  verificationOf,
+} from "@/lib/quotes/verification";
+import type { QuoteItem, VerificationStatus } from "@/lib/types";
+import { classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// Two-source verification panel shown on every quote card.
+// The verifier name is remembered in the browser for the next sign-off.
+// =============================
+
+const STATUS_CLASS: Record<VerificationStatus, string> = {
+  unverified: "bg-red-100 text-red-700 border-red-200",
+  "one-source": "bg-amber-100 text-amber-800 border-amber-200",
+  verified: "bg-emerald-100 text-emerald-800 border-emerald-200",
+};
+
+export function VerificationBadge({ quote }: { quote: QuoteItem }) {
+  const status = verificationOf(quote);
+  const count = distinctSourceCount(quoteSources(quote));
+  const label =
+    status !== "verified" && count >= REQUIRED_SOURCES
+      ? `${count} sumber - menunggu verifikasi`
+      : VERIFICATION_LABEL[status];
+  return (
+    <span
+      className={classNames(
+        "inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium border",
+        STATUS_CLASS[status]
+      )}
+      title={
+        quote.verifiedBy && quote.verifiedAt
+          ? `Diverifikasi oleh ${quote.verifiedBy}, ${formatDateTime(quote.verifiedAt)}`
+          : `Kutipan langsung butuh ${REQUIRED_SOURCES} sumber terverifikasi`
+      }
+    >
+      {label}
+    </span>
+  );
+}
+
+export default function QuoteVerification({
+  quote,
+  dark,
+  onChange,
+}: {
+  quote: QuoteItem;
+  dark?: boolean;
+  onChange: (q: QuoteItem) => void;
+}) {
+  const [link, setLink] = useState("");
+  const [outlet, setOutlet] = useState("");
+  const { can } = useSession();
+  const [error, setError] = useState("");
+  const [busy, setBusy] = useState(false);
+
+  const send = async (payload: Record<string, string>) => {
+    setBusy(true);
+    setError("");
+    try {
+      const res = await fetch(`/api/quotes/${quote.id}`, {
+        method: "PATCH",
+        headers: { "content-type": "application/json" },
+        body: JSON.stringify(payload),
+      });
+      const body = (await res.json()) as { item?: QuoteItem; error?: string };
+      if (!res.ok || !body.item) throw new Error(body.error ?? `HTTP ${res.status}`);
+      onChange(body.item);
+      return true;
+    } catch (err) {
+      setError((err as Error).message);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const addSource = async () => {
+    if (await send({ action: "add-source", link, outlet })) {
+      setLink("");
+      setOutlet("");
+    }
+  };
+
+  const verify = () => send({ action: "verify" });
+
+  const sources = quoteSources(quote);
+  const inputClass = classNames(
+    "px-2 py-1 rounded-lg border text-xs focus:outline-none",
+    dark
+      ? "bg-slate-800 border-slate-600 text-slate-100 focus:ring-2 focus:ring-indigo-500"
+      : "border-slate-300 focus:ring-2 focus:ring-indigo-600"
+  );
+
+  return (
+    <details className="mt-3 text-xs">
+      <summary className="cursor-pointer select-none opacity-80">
+        Sumber ({sources.length}) dan verifikasi
+      </summary>
+      <ul className="mt-2 space-y-1">
+        {sources.map((s) => (
+          <li key={s.link} className="flex items-center gap-2">
+            <a
+              href={s.link}
+              target="_blank"
+              rel="noopener noreferrer"
+              className={dark ? "text-indigo-300 hover:underline" : "text-indigo-700 hover:underline"}
+            >
+              {s.outlet || s.link}
+            </a>
+            {can("items:edit") && (
+              <button
+                onClick={() => send({ action: "remove-source", link: s.link })}
+                disabled={busy}
+                className="opacity-60 hover:opacity-100"
+                title="Hapus sumber"
+              >
+                x
+              </button>
+            )}
+          </li>
+        ))}
+        {sources.length === 0 && <li className="opacity-70">Belum ada sumber.</li>}
+      </ul>
+      {can("items:edit") && (
+        <div className="mt-2 flex flex-wrap gap-2">
+          <input
+            className={classNames(inputClass, "flex-1 min-w-[140px]")}
+            placeholder="https://... (sumber pendukung)"
+            value={link}
+            onChange={(e) => setLink(e.target.value)}
+          />
+          <input
+            className={classNames(inputClass, "w-28")}
+            placeholder="Media"
+            value={outlet}
+            onChange={(e) => setOutlet(e.target.value)}
+          />
+          <button
+            onClick={addSource}
+            disabled={busy || !link}
+            className={classNames(
+              "px-2 py-1 rounded-md border",
+              dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50",
+              (busy || !link) && "opacity-50 cursor-not-allowed"
+            )}
+          >
+            Tambah
+          </button>
+        </div>
+      )}
+      {quote.verifiedBy && quote.verifiedAt ? (
+        <div className="mt-2 opacity-80">
+          Diverifikasi oleh {quote.verifiedBy} - {formatDateTime(quote.verifiedAt)}
+        </div>
+      ) : can("quotes:verify") ? (
+        <div className="mt-2 flex flex-wrap items-center gap-2">
+          <button
+            onClick={verify}
+            disabled={busy || !canVerify(quote)}
+            title={
+              canVerify(quote)
+                ? "Tandai kutipan sudah diverifikasi"
+                : `Tambahkan minimal ${REQUIRED_SOURCES} sumber dari media berbeda`
+            }
+            className={classNames(
+              "px-2 py-1 rounded-md text-white",
+              dark ? "bg-emerald-600 hover:bg-emerald-700" : "bg-emerald-700 hover:bg-emerald-800",
+              (busy || !canVerify(quote)) && "opacity-50 cursor-not-allowed"
+            )}
+          >
+            Verifikasi
+          </button>
+        </div>
+      ) : null}
+      {error && <div className="mt-1 text-red-500">{error}</div>}
+    </details>
+  );
+}
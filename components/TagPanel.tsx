@@ -0,0 +1,161 @@
+'use client';
+import React, { useState } from "react";
+import { EMPTY_TAG_FILTER, cycleTag, type TagFilter } from "@/lib/facets";
+import TaxonomyManager from "./TaxonomyManager";
+import { classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// "Kelola Tag" side panel. The filter view is a multi-select with AND/OR,
+// exclusion, and the number of items per tag in the current filtered set;
+// the manage view edits the persisted taxonomy.
+// =============================
+
+export default function TagPanel({
+  tags,
+  facets,
+  filter,
+  onChange,
+  onClose,
+  onItemsChanged,
+  dark,
+}: {
+  // Every known tag/entity
+  tags: string[];
+  // Counts over the currently filtered items
+  facets: Array<[string, number]>;
+  filter: TagFilter;
+  onChange: (f: TagFilter) => void;
+  onClose: () => void;
+  // Rename/merge rewrote stored items
+  onItemsChanged: () => void;
+  dark?: boolean;
+}) {
+  const { can } = useSession();
+  const [view, setView] = useState<"filter" | "manage">("filter");
+  const counts = new Map(facets);
+  // Tags present in the current results first, busiest on top
+  const ordered = [
+    ...facets.map(([t]) => t),
+    ...tags.filter((t) => !counts.has(t)).sort((a, b) => a.localeCompare(b)),
+  ];
+  const max = facets[0]?.[1] ?? 0;
+
+  const toggle = (active: boolean, label: string, onClick: () => void) => (
+    <button
+      key={label}
+      onClick={onClick}
+      className={classNames(
+        "px-2 py-1 text-xs border first:rounded-l-md last:rounded-r-md",
+        active
+          ? "bg-indigo-600 text-white border-indigo-600"
+          : dark
+          ? "border-slate-600 hover:bg-slate-700"
+          : "border-slate-300 hover:bg-slate-50"
+      )}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="fixed inset-0 z-40">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div
+        className={classNames(
+          "absolute right-0 top-0 h-full w-96 max-w-[90%] shadow-2xl p-4 overflow-y-auto",
+          dark ? "bg-slate-800" : "bg-white"
+        )}
+      >
+        <div className="flex items-center justify-between mb-3">
+          <div>
+            <div className="font-semibold">Panel Tag</div>
+            <div className="text-xs opacity-70">
+              {view === "filter"
+                ? "Klik sekali untuk memilih, dua kali untuk mengecualikan"
+                : "Kategori, sinonim, ganti nama dan gabung tag"}
+            </div>
+          </div>
+          <button onClick={onClose} className="text-sm opacity-80">
+            Tutup
+          </button>
+        </div>
+        <div className="flex mb-3">
+          {toggle(view === "filter", "Filter", () => setView("filter"))}
+          {can("taxonomy:manage") &&
+            toggle(view === "manage", "Kelola taksonomi", () => setView("manage"))}
+        </div>
+        {view === "manage" ? (
+          <TaxonomyManager tags={tags} dark={dark} onItemsChanged={onItemsChanged} />
+        ) : (
+          <>
+            <div className="flex items-center gap-2 mb-3 text-sm">
+              <span className="opacity-80">Cocokkan:</span>
+              <div className="flex">
+                {toggle(filter.mode === "or", "Salah satu (OR)", () => onChange({ ...filter, mode: "or" }))}
+                {toggle(filter.mode === "and", "Semua (AND)", () => onChange({ ...filter, mode: "and" }))}
+              </div>
+            </div>
+            <div className="space-y-1">
+              {ordered.map((t) => {
+                const count = counts.get(t) ?? 0;
+                const state = filter.include.includes(t)
+                  ? "include"
+                  : filter.exclude.includes(t)
+                  ? "exclude"
+                  : "none";
+                return (
+                  <button
+                    key={t}
+                    onClick={() => onChange(cycleTag(filter, t))}
+                    className={classNames(
+                      "w-full px-3 py-2 rounded-xl border text-sm text-left relative overflow-hidden",
+                      state === "include"
+                        ? "bg-indigo-600 text-white border-indigo-600"
+                        : state === "exclude"
+                        ? "bg-red-50 text-red-700 border-red-300 line-through"
+                        : dark
+                        ? "bg-slate-800 text-slate-100 border-slate-600 hover:bg-slate-700"
+                        : "bg-white text-slate-700 border-slate-300 hover:bg-slate-50",
+                      count === 0 && state === "none" && "opacity-50"
+                    )}
+                  >
+                    {/* Bar proportional to the tag's share of the results */}
+                    {state === "none" && max > 0 && (
+                      <span
+                        className={classNames(
+                          "absolute inset-y-0 left-0",
+                          dark ? "bg-indigo-400/20" : "bg-indigo-100"
+                        )}
+                        style={{ width: `${(count / max) * 100}%` }}
+                      />
+                    )}
+                    <span className="relative flex justify-between gap-2">
+                      <span>
+                        {state === "exclude" && "- "}
+                        {t}
+                      </span>
+                      <span className="tabular-nums opacity-80">{count}</span>
+                    </span>
+                  </button>
+                );
+              })}
+              {ordered.length === 0 && <div className="text-sm opacity-70">Belum ada tag.</div>}
+            </div>
+            <div className="mt-4">
+              <button
+                onClick={() => onChange(EMPTY_TAG_FILTER)}
+                className={classNames(
+                  "px-3 py-2 rounded-xl border text-sm",
+                  dark ? "bg-slate-800 border-slate-600" : "bg-white border-slate-300 hover:bg-slate-50"
+                )}
+              >
+                Reset ke All
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+}
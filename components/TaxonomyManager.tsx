@@ -0,0 +1,301 @@
+'use client';
+import React, { useCallback, useEffect, useState } from "react";
+import { TAG_CATEGORIES, entryFor } from "@/lib/taxonomy/synonyms";
+import type { TagCategory, TagEntry } from "@/lib/types";
+import { classNames } from "./ui";
+
+// =============================
+// Tag taxonomy management: categories, synonyms, rename and merge.
+// Rename/merge rewrite stored items, so the dashboard reloads afterwards.
+// =============================
+
+type Row = { label: string; category: TagCategory; synonyms: string; into: string };
+
+const toRow = (e: TagEntry): Row => ({
+  label: e.label,
+  category: e.category,
+  synonyms: e.synonyms.join(", "),
+  into: "",
+});
+
+const splitList = (s: string) =>
+  s
+    .split(",")
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+const CATEGORY_IDS = Object.keys(TAG_CATEGORIES) as TagCategory[];
+
+export default function TaxonomyManager({
+  tags,
+  dark,
+  onItemsChanged,
+}: {
+  // Tags and entities currently found on items
+  tags: string[];
+  dark?: boolean;
+  onItemsChanged: () => void;
+}) {
+  const [entries, setEntries] = useState<TagEntry[]>([]);
+  const [editing, setEditing] = useState<string | null>(null);
+  const [row, setRow] = useState<Row | null>(null);
+  const [draft, setDraft] = useState<Row>({ label: "", category: "policy", synonyms: "", into: "" });
+  const [busy, setBusy] = useState(false);
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/taxonomy", { cache: "no-store" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { items: TagEntry[] };
+      setEntries(body.items);
+    } catch (err) {
+      setMessage(`Gagal memuat taksonomi: ${(err as Error).message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const send = async (url: string, method: string, payload?: object) => {
+    setBusy(true);
+    setMessage("");
+    try {
+      const res = await fetch(url, {
+        method,
+        headers: { "content-type": "application/json" },
+        body: payload ? JSON.stringify(payload) : undefined,
+      });
+      const body = (await res.json()) as {
+        error?: string;
+        rewritten?: { events: number; news: number; quotes: number };
+      };
+      if (!res.ok) throw new Error(body.error ?? `HTTP ${res.status}`);
+      if (body.rewritten) {
+        const { events, news, quotes } = body.rewritten;
+        setMessage(`Diperbarui: ${events} event, ${news} berita, ${quotes} quote`);
+        onItemsChanged();
+      }
+      await load();
+      return true;
+    } catch (err) {
+      setMessage(`Gagal: ${(err as Error).message}`);
+      return false;
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const startEdit = (e: TagEntry) => {
+    setEditing(e.id);
+    setRow(toRow(e));
+  };
+
+  const save = async (e: TagEntry) => {
+    if (!row) return;
+    const url = `/api/taxonomy/${e.id}`;
+    let done = await send(url, "PATCH", {
+      action: "update",
+      category: row.category,
+      synonyms: splitList(row.synonyms),
+    });
+    if (done && row.label.trim() && row.label.trim() !== e.label) {
+      done = await send(url, "PATCH", { action: "rename", label: row.label });
+    }
+    if (done) setEditing(null);
+  };
+
+  const create = async (label: string, category: TagCategory, synonyms: string[] = []) => {
+    if (await send("/api/taxonomy", "POST", { label, category, synonyms })) {
+      setDraft({ label: "", category, synonyms: "", into: "" });
+    }
+  };
+
+  const unregistered = tags.filter((t) => !entryFor(t, entries));
+  const inputClass = classNames(
+    "px-2 py-1 rounded-lg border text-xs focus:outline-none",
+    dark ? "bg-slate-800 border-slate-600 text-slate-100" : "border-slate-300"
+  );
+  const buttonClass = classNames(
+    "px-2 py-1 rounded-md text-xs border",
+    dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50",
+    busy && "opacity-50 cursor-not-allowed"
+  );
+
+  return (
+    <div className="space-y-4 text-sm">
+      {message && <div className="text-xs opacity-80">{message}</div>}
+
+      {CATEGORY_IDS.map((cat) => {
+        const list = entries.filter((e) => e.category === cat);
+        if (list.length === 0) return null;
+        return (
+          <div key={cat}>
+            <div className="font-medium mb-1">{TAG_CATEGORIES[cat]}</div>
+            <ul className="space-y-1">
+              {list.map((e) =>
+                editing === e.id && row ? (
+                  <li
+                    key={e.id}
+                    className={classNames(
+                      "rounded-xl border p-2 space-y-2",
+                      dark ? "border-slate-600" : "border-slate-300"
+                    )}
+                  >
+                    <div className="flex gap-2">
+                      <input
+                        className={classNames(inputClass, "flex-1")}
+                        value={row.label}
+                        onChange={(ev) => setRow({ ...row, label: ev.target.value })}
+                        aria-label="Nama tag"
+                      />
+                      <select
+                        className={inputClass}
+                        value={row.category}
+                        onChange={(ev) => setRow({ ...row, category: ev.target.value as TagCategory })}
+                      >
+                        {CATEGORY_IDS.map((c) => (
+                          <option key={c} value={c}>
+                            {TAG_CATEGORIES[c]}
+                          </option>
+                        ))}
+                      </select>
+                    </div>
+                    <input
+                      className={classNames(inputClass, "w-full")}
+                      placeholder="Sinonim, pisahkan dengan koma"
+                      value={row.synonyms}
+                      onChange={(ev) => setRow({ ...row, synonyms: ev.target.value })}
+                    />
+                    <div className="flex flex-wrap gap-2">
+                      <button className={buttonClass} disabled={busy} onClick={() => save(e)}>
+                        Simpan
+                      </button>
+                      <button className={buttonClass} onClick={() => setEditing(null)}>
+                        Batal
+                      </button>
+                      <select
+                        className={inputClass}
+                        value={row.into}
+                        onChange={(ev) => setRow({ ...row, into: ev.target.value })}
+                      >
+                        <option value="">Gabungkan ke...</option>
+                        {entries
+                          .filter((o) => o.id !== e.id)
+                          .map((o) => (
+                            <option key={o.id} value={o.id}>
+                              {o.label}
+                            </option>
+                          ))}
+                      </select>
+                      <button
+                        className={buttonClass}
+                        disabled={busy || !row.into}
+                        onClick={async () => {
+                          if (await send(`/api/taxonomy/${e.id}`, "PATCH", { action: "merge", into: row.into })) {
+                            setEditing(null);
+                          }
+                        }}
+                      >
+                        Gabungkan
+                      </button>
+                      <button
+                        className={classNames(buttonClass, "text-red-600 border-red-300")}
+                        disabled={busy}
+                        onClick={async () => {
+                          if (await send(`/api/taxonomy/${e.id}`, "DELETE")) setEditing(null);
+                        }}
+                      >
+                        Hapus
+                      </button>
+                    </div>
+                  </li>
+                ) : (
+                  <li key={e.id}>
+                    <button
+                      onClick={() => startEdit(e)}
+                      className={classNames(
+                        "w-full text-left px-3 py-1.5 rounded-xl border",
+                        dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-200 hover:bg-slate-50"
+                      )}
+                    >
+                      <span className="font-medium">{e.label}</span>
+                      {e.synonyms.length > 0 && (
+                        <span className="text-xs opacity-60"> = {e.synonyms.join(", ")}</span>
+                      )}
+                    </button>
+                  </li>
+                )
+              )}
+            </ul>
+          </div>
+        );
+      })}
+
+      {unregistered.length > 0 && (
+        <div>
+          <div className="font-medium mb-1">Belum terdaftar</div>
+          <div className="flex flex-wrap gap-1">
+            {unregistered.map((t) => (
+              <button
+                key={t}
+                className={buttonClass}
+                disabled={busy}
+                title="Tambahkan ke taksonomi"
+                onClick={() => setDraft({ ...draft, label: t })}
+              >
+                + {t}
+              </button>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className={classNames("rounded-xl border p-2 space-y-2", dark ? "border-slate-600" : "border-slate-300")}>
+        <div className="font-medium">Tag baru</div>
+        <div className="flex gap-2">
+          <input
+            className={classNames(inputClass, "flex-1")}
+            placeholder="Nama tag"
+            value={draft.label}
+            onChange={(ev) => setDraft({ ...draft, label: ev.target.value })}
+          />
+          <select
+            className={inputClass}
+            value={draft.category}
+            onChange={(ev) => setDraft({ ...draft, category: ev.target.value as TagCategory })}
+          >
+            {CATEGORY_IDS.map((c) => (
+              <option key={c} value={c}>
+                {TAG_CATEGORIES[c]}
+              </option>
+            ))}
+          </select>
+        </div>
+        <input
+          className={classNames(inputClass, "w-full")}
+          placeholder="Sinonim, pisahkan dengan koma"
+          value={draft.synonyms}
+          onChange={(ev) => setDraft({ ...draft, synonyms: ev.target.value })}
+        />
+        <button
+          className={buttonClass}
+          disabled={busy || !draft.label.trim()}
+          onClick={() => create(draft.label, draft.category, splitList(draft.synonyms))}
+        >
+          Tambah
+        </button>
+      </div>
+
+      <button
+        className={buttonClass}
+        disabled={busy}
+        title="Terapkan aturan sinonim ke semua event, berita dan quote yang tersimpan"
+        onClick={() => send("/api/taxonomy/apply", "POST")}
+      >
+        Terapkan sinonim ke semua item
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,230 @@
+'use client';
+import React, { useCallback, useEffect, useState } from "react";
+import { ROLES, ROLE_LABEL } from "@/lib/auth/roles";
+import type { PublicUser } from "@/lib/auth/users";
+import { formatDateTime } from "@/lib/format";
+import type { Role } from "@/lib/types";
+import { Card, Empty, SectionHeader, StatBadge, classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// "Pengguna" tab (admins only): create accounts, change role, name and
+// password, disable accounts and end their sessions.
+// =============================
+
+const ROLE_HINT: Record<Role, string> = {
+  viewer: "melihat dashboard, ekspor dan laporan",
+  editor: "menambah dan mengoreksi item, menulis caption, watchlist, log audit",
+  approver: "menyetujui caption, verifikasi kutipan, taksonomi, monitor insiden",
+  admin: "menjalankan ingestor dan mengelola pengguna",
+};
+
+export default function UserAdmin({ dark }: { dark?: boolean }) {
+  const { user: me } = useSession();
+  const [items, setItems] = useState<PublicUser[]>([]);
+  const [form, setForm] = useState({ username: "", name: "", role: "viewer", password: "" });
+  const [passwords, setPasswords] = useState<Record<string, string>>({});
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/users", { cache: "no-store" });
+      const body = (await res.json()) as { items?: PublicUser[]; error?: string };
+      if (!res.ok || !body.items) throw new Error(body.error ?? `HTTP ${res.status}`);
+      setItems(body.items);
+    } catch (err) {
+      setMessage(`Gagal memuat pengguna: ${(err as Error).message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const send = async (url: string, method: string, payload?: object) => {
+    const res = await fetch(url, {
+      method,
+      headers: { "content-type": "application/json" },
+      body: payload ? JSON.stringify(payload) : undefined,
+    });
+    const body = (await res.json().catch(() => ({}))) as { error?: string };
+    if (!res.ok) {
+      setMessage(body.error ?? `HTTP ${res.status}`);
+      return false;
+    }
+    setMessage("");
+    await load();
+    return true;
+  };
+
+  const create = async () => {
+    if (await send("/api/users", "POST", form)) {
+      setMessage(`Akun ${form.username} dibuat.`);
+      setForm({ username: "", name: "", role: "viewer", password: "" });
+    }
+  };
+
+  const update = (id: string, input: object) =>
+    send(`/api/users/${id}`, "PATCH", { action: "update", ...input });
+
+  const input = classNames(
+    "px-2 py-1 rounded-md text-sm border",
+    dark ? "bg-slate-900 border-slate-600" : "bg-white border-slate-300"
+  );
+  const button = classNames(
+    "px-2 py-1 rounded-md text-xs border",
+    dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+  );
+
+  return (
+    <div className="space-y-4">
+      <Card dark={dark}>
+        <SectionHeader title="Tambah Pengguna" />
+        <div className="flex flex-wrap items-center gap-2">
+          <input
+            className={input}
+            placeholder="Username"
+            value={form.username}
+            onChange={(e) => setForm({ ...form, username: e.target.value })}
+          />
+          <input
+            className={input}
+            placeholder="Nama lengkap"
+            value={form.name}
+            onChange={(e) => setForm({ ...form, name: e.target.value })}
+          />
+          <select
+            className={input}
+            value={form.role}
+            onChange={(e) => setForm({ ...form, role: e.target.value })}
+          >
+            {ROLES.map((r) => (
+              <option key={r} value={r}>
+                {ROLE_LABEL[r]}
+              </option>
+            ))}
+          </select>
+          <input
+            className={input}
+            type="password"
+            placeholder="Kata sandi awal"
+            value={form.password}
+            onChange={(e) => setForm({ ...form, password: e.target.value })}
+          />
+          <button className={button} onClick={create} disabled={!form.username.trim()}>
+            Tambah
+          </button>
+        </div>
+        <ul className="mt-3 text-xs opacity-70 space-y-0.5">
+          {ROLES.map((r) => (
+            <li key={r}>
+              <span className="font-medium">{ROLE_LABEL[r]}</span>: {ROLE_HINT[r]}
+              {r !== "viewer" && ", ditambah hak peran sebelumnya"}
+            </li>
+          ))}
+        </ul>
+        {message && <div className="text-xs mt-2">{message}</div>}
+      </Card>
+
+      <Card dark={dark}>
+        <SectionHeader title="Pengguna" right={<StatBadge>{items.length} akun</StatBadge>} />
+        {items.length === 0 ? (
+          <Empty msg="Belum ada pengguna." />
+        ) : (
+          <div className="space-y-3">
+            {items.map((u) => (
+              <div
+                key={u.id}
+                className={classNames(
+                  "rounded-lg border p-3 space-y-2",
+                  dark ? "border-slate-700" : "border-slate-200",
+                  !u.enabled && "opacity-60"
+                )}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <div>
+                    <span className="font-semibold">{u.name}</span>{" "}
+                    <span className="text-xs opacity-70">@{u.username}</span>
+                    {u.id === me?.id && <span className="text-xs opacity-70"> (Anda)</span>}
+                    <div className="text-xs opacity-70">
+                      {u.enabled ? "Aktif" : "Nonaktif"}
+                      {u.lastLoginAt
+                        ? ` - login terakhir ${formatDateTime(u.lastLoginAt)}`
+                        : " - belum pernah login"}
+                    </div>
+                  </div>
+                  <select
+                    className={input}
+                    value={u.role}
+                    onChange={(e) => update(u.id, { role: e.target.value })}
+                  >
+                    {ROLES.map((r) => (
+                      <option key={r} value={r}>
+                        {ROLE_LABEL[r]}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+                <div className="flex flex-wrap items-center gap-2">
+                  <input
+                    className={input}
+                    type="password"
+                    placeholder="Kata sandi baru"
+                    value={passwords[u.id] ?? ""}
+                    onChange={(e) => setPasswords({ ...passwords, [u.id]: e.target.value })}
+                  />
+                  <button
+                    className={button}
+                    disabled={!passwords[u.id]}
+                    onClick={async () => {
+                      if (await update(u.id, { password: passwords[u.id] })) {
+                        setPasswords({ ...passwords, [u.id]: "" });
+                        setMessage(`Kata sandi ${u.username} diganti.`);
+                      }
+                    }}
+                  >
+                    Ganti sandi
+                  </button>
+                  {u.id !== me?.id && (
+                    <>
+                      <button
+                        className={button}
+                        onClick={() => update(u.id, { enabled: !u.enabled })}
+                      >
+                        {u.enabled ? "Nonaktifkan" : "Aktifkan"}
+                      </button>
+                      <button
+                        className={button}
+                        onClick={() => send(`/api/users/${u.id}`, "PATCH", { action: "revoke" })}
+                      >
+                        Akhiri sesi
+                      </button>
+                      <button
+                        className={button}
+                        onClick={() => {
+                          if (confirm(`Hapus akun ${u.username}?`)) {
+                            send(`/api/users/${u.id}`, "DELETE");
+                          }
+                        }}
+                      >
+                        Hapus
+                      </button>
+                    </>
+                  )}
+                  <button
+                    className={button}
+                    onClick={() =>
+                      send(`/api/users/${u.id}`, "PATCH", { action: "reset-feed" })
+                    }
+                  >
+                    Token kalender baru
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
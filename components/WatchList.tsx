@@ -0,0 +1,269 @@
+'use client';
+import React, { useCallback, useEffect, useState } from "react";
+import type { RangePreset } from "@/lib/daterange";
+import type { TagFilter } from "@/lib/facets";
+import { formatDateTime, relativeTime } from "@/lib/format";
+import type { Tone, Watch, WatchMatch, WatchPeriod } from "@/lib/types";
+import type { MatchView, WatchSummary } from "@/lib/watch/manage";
+import { WATCH_PERIODS, describeWatch } from "@/lib/watch/match";
+import { Card, Empty, SectionHeader, StatBadge, classNames } from "./ui";
+import useSession from "./useSession";
+
+// =============================
+// Watchlist tab: saves the current search, tags, period and Minister/tone
+// toggles as a named watch, and lists each watch's unread count and match
+// history. Matches are recorded on the server when new items are ingested.
+// =============================
+
+const KIND_LABEL: Record<WatchMatch["kind"], string> = {
+  event: "Event",
+  news: "Berita",
+  quote: "Quote",
+};
+
+export type CurrentFilters = {
+  query: string;
+  tags: TagFilter;
+  preset: RangePreset;
+  onlyMinister: boolean;
+  tone: Tone | "all";
+};
+
+function MatchHistory({ watch, onRead }: { watch: WatchSummary; onRead: () => void }) {
+  const [items, setItems] = useState<MatchView[] | null>(null);
+
+  useEffect(() => {
+    fetch(`/api/watches/${watch.id}/matches`, { cache: "no-store" })
+      .then((res) => res.json())
+      .then((body: { items?: MatchView[] }) => setItems(body.items ?? []))
+      .catch(() => setItems([]));
+  }, [watch.id, watch.total, watch.unread]);
+
+  if (!items) return <div className="text-xs opacity-60">Memuat...</div>;
+  if (!items.length) return <div className="text-xs opacity-60">Belum ada item yang cocok.</div>;
+  return (
+    <div className="space-y-1">
+      {watch.unread > 0 && (
+        <button className="text-xs text-indigo-600 underline" onClick={onRead}>
+          Tandai semua dibaca
+        </button>
+      )}
+      <ul className="text-sm space-y-1">
+        {items.map((m) => (
+          <li key={m.id} className={classNames(!m.read && "font-medium")}>
+            <span className="text-xs opacity-60">{KIND_LABEL[m.kind]}</span>{" "}
+            {m.link && m.link !== "#" ? (
+              <a href={m.link} target="_blank" rel="noreferrer" className="hover:underline">
+                {m.title}
+              </a>
+            ) : (
+              m.title
+            )}{" "}
+            <span className="text-xs opacity-60">
+              - {formatDateTime(m.date)}, masuk {relativeTime(m.matchedAt)}
+              {m.webhook && (m.webhook.ok ? ", webhook terkirim" : `, webhook gagal`)}
+            </span>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
+
+export default function WatchList({
+  current,
+  onApply,
+  onChange,
+  dark,
+}: {
+  current: CurrentFilters;
+  // Loads a watch's filters into the filter bar
+  onApply: (w: Watch) => void;
+  // Called after changes that affect unread counts
+  onChange?: () => void;
+  dark?: boolean;
+}) {
+  const [items, setItems] = useState<WatchSummary[]>([]);
+  const [open, setOpen] = useState<string | null>(null);
+  const [name, setName] = useState("");
+  const [period, setPeriod] = useState<WatchPeriod>(
+    current.preset === "custom" ? "all" : current.preset
+  );
+  const [webhook, setWebhook] = useState("");
+  const { can } = useSession();
+  const [message, setMessage] = useState("");
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/watches", { cache: "no-store" });
+      if (!res.ok) throw new Error(`HTTP ${res.status}`);
+      const body = (await res.json()) as { items: WatchSummary[] };
+      setItems(body.items);
+    } catch (err) {
+      setMessage(`Gagal memuat watch: ${(err as Error).message}`);
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+  }, [load]);
+
+  const send = async (url: string, method: string, payload?: object) => {
+    const res = await fetch(url, {
+      method,
+      headers: { "content-type": "application/json" },
+      body: payload ? JSON.stringify(payload) : undefined,
+    });
+    const body = (await res.json().catch(() => ({}))) as { error?: string };
+    if (!res.ok) {
+      setMessage(body.error ?? `HTTP ${res.status}`);
+      return false;
+    }
+    setMessage("");
+    await load();
+    onChange?.();
+    return true;
+  };
+
+  const save = async () => {
+    const created = await send("/api/watches", "POST", {
+      name,
+      query: current.query,
+      tags: current.tags,
+      period,
+      onlyMinister: current.onlyMinister,
+      tone: current.tone,
+      webhookUrl: webhook,
+    });
+    if (created) {
+      setName("");
+      setWebhook("");
+      setMessage("Watch disimpan. Item baru yang cocok akan muncul sebagai notifikasi.");
+    }
+  };
+
+  const input = classNames(
+    "px-2 py-1 rounded-md text-sm border",
+    dark ? "bg-slate-900 border-slate-600" : "bg-white border-slate-300"
+  );
+  const button = classNames(
+    "px-2 py-1 rounded-md text-xs border",
+    dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+  );
+
+  return (
+    <div className="space-y-4">
+      {can("watches:manage") && (
+        <Card dark={dark}>
+          <SectionHeader title="Simpan Pencarian" />
+          <div className="text-xs opacity-70 mb-2">
+            Filter aktif: {describeWatch({ ...current, period })}. Ubah pencarian, tag, toggle
+            Menteri atau tone di dashboard, lalu simpan di sini.
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <input
+              className={input}
+              placeholder="Nama, mis. Kecelakaan kapal"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+            />
+            <select
+              className={input}
+              value={period}
+              onChange={(e) => setPeriod(e.target.value as WatchPeriod)}
+            >
+              {WATCH_PERIODS.map((p) => (
+                <option key={p.id} value={p.id}>
+                  {p.label}
+                </option>
+              ))}
+            </select>
+            <input
+              className={classNames(input, "flex-1 min-w-48")}
+              placeholder="Webhook (opsional), mis. https://..."
+              value={webhook}
+              onChange={(e) => setWebhook(e.target.value)}
+            />
+            <button className={button} onClick={save} disabled={!name.trim()}>
+              Simpan watch
+            </button>
+          </div>
+          {message && <div className="text-xs mt-2">{message}</div>}
+        </Card>
+      )}
+
+      <Card dark={dark}>
+        <SectionHeader title="Watchlist" />
+        {items.length === 0 ? (
+          <Empty msg="Belum ada watch." />
+        ) : (
+          <div className="space-y-3">
+            {items.map((w) => (
+              <div
+                key={w.id}
+                className={classNames(
+                  "rounded-lg border p-3",
+                  dark ? "border-slate-700" : "border-slate-200",
+                  !w.enabled && "opacity-60"
+                )}
+              >
+                <div className="flex flex-wrap items-center justify-between gap-2">
+                  <button
+                    className="text-left"
+                    onClick={() => setOpen(open === w.id ? null : w.id)}
+                  >
+                    <span className="font-semibold">{w.name}</span>{" "}
+                    {w.unread > 0 && <StatBadge>{w.unread} baru</StatBadge>}
+                    <div className="text-xs opacity-70">
+                      {describeWatch(w)} - {w.total} cocok
+                      {w.lastMatchAt && `, terakhir ${relativeTime(w.lastMatchAt)}`}
+                      {w.webhookUrl && " - webhook aktif"}
+                    </div>
+                  </button>
+                  <div className="flex flex-wrap gap-2">
+                    <button className={button} onClick={() => onApply(w)}>
+                      Terapkan
+                    </button>
+                    {can("watches:manage") && (
+                      <>
+                        <button
+                          className={button}
+                          onClick={() =>
+                            send(`/api/watches/${w.id}`, "PATCH", {
+                              action: "update",
+                              enabled: !w.enabled,
+                            })
+                          }
+                        >
+                          {w.enabled ? "Jeda" : "Aktifkan"}
+                        </button>
+                        <button
+                          className={button}
+                          onClick={() => {
+                            if (confirm(`Hapus watch "${w.name}" beserta riwayatnya?`)) {
+                              send(`/api/watches/${w.id}`, "DELETE");
+                            }
+                          }}
+                        >
+                          Hapus
+                        </button>
+                      </>
+                    )}
+                  </div>
+                </div>
+                {open === w.id && (
+                  <div className="mt-2">
+                    <MatchHistory
+                      watch={w}
+                      onRead={() => send(`/api/watches/${w.id}`, "PATCH", { action: "read" })}
+                    />
+                  </div>
+                )}
+              </div>
+            ))}
+          </div>
+        )}
+      </Card>
+    </div>
+  );
+}
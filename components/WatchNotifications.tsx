@@ -0,0 +1,124 @@
+'use client';
+import React, { useCallback, useEffect, useState } from "react";
+import { relativeTime } from "@/lib/format";
+import type { MatchView } from "@/lib/watch/manage";
+import { classNames } from "./ui";
+
+// =============================
+// Header notifications: newest watch matches with the unread count, polled
+// from /api/notifications. Opening a match marks it read for this user only.
+// =============================
+
+const POLL_MS = 60 * 1000;
+
+type Notification = MatchView & { watchName: string };
+
+export default function WatchNotifications({
+  refreshKey,
+  onOpenWatchlist,
+  dark,
+}: {
+  // Bumped by the page when the watchlist changed read state
+  refreshKey?: number;
+  onOpenWatchlist: () => void;
+  dark?: boolean;
+}) {
+  const [items, setItems] = useState<Notification[]>([]);
+  const [unread, setUnread] = useState(0);
+  const [open, setOpen] = useState(false);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/notifications", { cache: "no-store" });
+      if (!res.ok) return;
+      const body = (await res.json()) as { items: Notification[]; unread: number };
+      setItems(body.items);
+      setUnread(body.unread);
+    } catch {
+      // Keep the last state; the next poll retries
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load, refreshKey]);
+
+  const markRead = async (ids?: string[]) => {
+    await fetch("/api/notifications", {
+      method: "PATCH",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify(ids ? { ids } : {}),
+    });
+    load();
+  };
+
+  return (
+    <div className="relative">
+      <button
+        onClick={() => setOpen(!open)}
+        className={classNames(
+          "px-3 py-2 rounded-full text-sm border",
+          dark
+            ? "bg-slate-800 border-slate-600 text-slate-100"
+            : "bg-white border-slate-300 hover:bg-slate-50"
+        )}
+      >
+        Notifikasi
+        {unread > 0 && (
+          <span className="ml-1 px-1.5 rounded-full text-xs font-semibold bg-rose-600 text-white">
+            {unread}
+          </span>
+        )}
+      </button>
+      {open && (
+        <div
+          className={classNames(
+            "absolute right-0 z-30 mt-2 w-80 max-h-96 overflow-y-auto rounded-xl border shadow-lg",
+            "p-3 space-y-2 text-sm",
+            dark ? "bg-slate-800 border-slate-600" : "bg-white border-slate-200"
+          )}
+        >
+          <div className="flex items-center justify-between text-xs">
+            <button className="text-indigo-600 underline" onClick={onOpenWatchlist}>
+              Kelola watchlist
+            </button>
+            {unread > 0 && (
+              <button className="text-indigo-600 underline" onClick={() => markRead()}>
+                Tandai semua dibaca
+              </button>
+            )}
+          </div>
+          {items.length === 0 && (
+            <div className="text-xs opacity-60">
+              Belum ada notifikasi. Simpan pencarian sebagai watch di tab Watchlist.
+            </div>
+          )}
+          {items.map((m) => (
+            <div key={m.id} className={classNames(!m.read && "font-medium")}>
+              <div className="text-xs opacity-60">
+                {m.watchName} - {relativeTime(m.matchedAt)}
+              </div>
+              {m.link && m.link !== "#" ? (
+                <a
+                  href={m.link}
+                  target="_blank"
+                  rel="noreferrer"
+                  className="hover:underline"
+                  onClick={() => !m.read && markRead([m.id])}
+                >
+                  {m.title}
+                </a>
+              ) : (
+                <button className="text-left" onClick={() => !m.read && markRead([m.id])}>
+                  {m.title}
+                </button>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,264 @@
+'use client';
+import React, { useRef, useState } from "react";
+import type { CsvCell } from "@/lib/csv";
+import { downloadBlob, downloadCsv, svgToPng } from "./download";
+import { Card, SectionHeader, classNames } from "./ui";
+
+// =============================
+// Dependency-free SVG charts for the Analytics tab. Colors and fonts are
+// set as attributes (not Tailwind classes) so PNG export looks the same.
+// =============================
+
+export type ChartTheme = { text: string; muted: string; grid: string; background: string };
+
+export const chartTheme = (dark?: boolean): ChartTheme =>
+  dark
+    ? { text: "#e2e8f0", muted: "#94a3b8", grid: "#334155", background: "#1e293b" }
+    : { text: "#0f172a", muted: "#64748b", grid: "#e2e8f0", background: "#ffffff" };
+
+const FONT = "ui-sans-serif, system-ui, sans-serif";
+
+// Card with PNG (from the SVG inside) and CSV download buttons
+export function ChartCard({
+  title,
+  filename,
+  csv,
+  dark,
+  children,
+}: {
+  title: string;
+  // Without extension
+  filename: string;
+  csv: { header: string[]; rows: CsvCell[][] };
+  dark?: boolean;
+  children: React.ReactNode;
+}) {
+  const ref = useRef<HTMLDivElement>(null);
+  const [error, setError] = useState("");
+  const buttonClass = classNames(
+    "px-2 py-1 rounded-md text-xs border",
+    dark ? "border-slate-600 hover:bg-slate-700" : "border-slate-300 hover:bg-slate-50"
+  );
+
+  const exportPng = async () => {
+    const svg = ref.current?.querySelector("svg");
+    if (!svg) return;
+    setError("");
+    try {
+      downloadBlob(await svgToPng(svg, chartTheme(dark).background), `${filename}.png`);
+    } catch (err) {
+      setError(`Gagal ekspor PNG: ${(err as Error).message}`);
+    }
+  };
+
+  return (
+    <Card dark={dark}>
+      <SectionHeader
+        title={title}
+        right={
+          <div className="flex gap-2">
+            <button className={buttonClass} onClick={exportPng}>
+              PNG
+            </button>
+            <button
+              className={buttonClass}
+              onClick={() => downloadCsv(`${filename}.csv`, csv.header, csv.rows)}
+            >
+              CSV
+            </button>
+          </div>
+        }
+      />
+      {error && <div className="text-xs text-red-500 mb-2">{error}</div>}
+      <div ref={ref}>{children}</div>
+    </Card>
+  );
+}
+
+export type Series = { key: string; label: string; color: string };
+
+// Stacked columns, one per row (e.g. per day)
+export function StackedColumns<T extends { [k: string]: string | number }>({
+  rows,
+  labelKey,
+  series,
+  formatLabel = String,
+  dark,
+}: {
+  rows: T[];
+  labelKey: keyof T;
+  series: Series[];
+  formatLabel?: (v: string) => string;
+  dark?: boolean;
+}) {
+  const theme = chartTheme(dark);
+  const width = 720;
+  const height = 240;
+  const pad = { top: 28, right: 8, bottom: 28, left: 32 };
+  const plotW = width - pad.left - pad.right;
+  const plotH = height - pad.top - pad.bottom;
+  const totals = rows.map((r) => series.reduce((n, s) => n + Number(r[s.key] ?? 0), 0));
+  const max = Math.max(1, ...totals);
+  const step = plotW / Math.max(1, rows.length);
+  const barW = Math.max(2, step * 0.7);
+  // Roughly eight axis labels whatever the period length
+  const labelEvery = Math.max(1, Math.ceil(rows.length / 8));
+  const y = (v: number) => pad.top + plotH - (v / max) * plotH;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" fontFamily={FONT}>
+      {[0, 0.5, 1].map((f) => (
+        <g key={f}>
+          <line
+            x1={pad.left}
+            x2={width - pad.right}
+            y1={y(max * f)}
+            y2={y(max * f)}
+            stroke={theme.grid}
+          />
+          <text
+            x={pad.left - 4}
+            y={y(max * f) + 4}
+            fontSize={10}
+            textAnchor="end"
+            fill={theme.muted}
+          >
+            {Math.round(max * f)}
+          </text>
+        </g>
+      ))}
+      {rows.map((r, i) => {
+        let acc = 0;
+        const x = pad.left + i * step + (step - barW) / 2;
+        return (
+          <g key={String(r[labelKey])}>
+            {series.map((s) => {
+              const v = Number(r[s.key] ?? 0);
+              const top = y(acc + v);
+              const h = y(acc) - top;
+              acc += v;
+              return v > 0 ? (
+                <rect key={s.key} x={x} y={top} width={barW} height={h} fill={s.color}>
+                  <title>{`${formatLabel(String(r[labelKey]))} - ${s.label}: ${v}`}</title>
+                </rect>
+              ) : null;
+            })}
+            {i % labelEvery === 0 && (
+              <text
+                x={x + barW / 2}
+                y={height - 10}
+                fontSize={10}
+                textAnchor="middle"
+                fill={theme.muted}
+              >
+                {formatLabel(String(r[labelKey]))}
+              </text>
+            )}
+          </g>
+        );
+      })}
+      {series.map((s, i) => (
+        <g key={s.key} transform={`translate(${pad.left + i * 90}, 8)`}>
+          <rect width={10} height={10} fill={s.color} rx={2} />
+          <text x={14} y={9} fontSize={11} fill={theme.text}>
+            {s.label}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+// Horizontal bars with the label left and the count right
+export function HorizontalBars({
+  data,
+  color,
+  dark,
+}: {
+  data: Array<[label: string, count: number]>;
+  color: string;
+  dark?: boolean;
+}) {
+  const theme = chartTheme(dark);
+  const width = 480;
+  const row = 22;
+  const labelW = 170;
+  const countW = 36;
+  const height = Math.max(1, data.length) * row + 4;
+  const max = Math.max(1, ...data.map(([, n]) => n));
+  const barMax = width - labelW - countW;
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" fontFamily={FONT}>
+      {data.length === 0 && (
+        <text x={0} y={16} fontSize={12} fill={theme.muted}>
+          Tidak ada data
+        </text>
+      )}
+      {data.map(([label, n], i) => (
+        <g key={label} transform={`translate(0, ${i * row + 2})`}>
+          <text x={labelW - 8} y={14} fontSize={11} textAnchor="end" fill={theme.text}>
+            {label.length > 26 ? `${label.slice(0, 25)}...` : label}
+          </text>
+          <rect
+            x={labelW}
+            y={3}
+            width={Math.max(2, (n / max) * barMax)}
+            height={row - 8}
+            rx={3}
+            fill={color}
+          >
+            <title>{`${label}: ${n}`}</title>
+          </rect>
+          <text x={labelW + (n / max) * barMax + 6} y={14} fontSize={11} fill={theme.muted}>
+            {n}
+          </text>
+        </g>
+      ))}
+    </svg>
+  );
+}
+
+// Donut showing part of a whole, with the percentage in the middle
+export function ShareDonut({
+  part,
+  total,
+  color,
+  caption,
+  dark,
+}: {
+  part: number;
+  total: number;
+  color: string;
+  caption: string;
+  dark?: boolean;
+}) {
+  const theme = chartTheme(dark);
+  const r = 60;
+  const circumference = 2 * Math.PI * r;
+  const share = total ? part / total : 0;
+  return (
+    <svg viewBox="0 0 320 170" className="w-full h-auto max-w-sm" fontFamily={FONT}>
+      <g transform="translate(85, 85)">
+        <circle r={r} fill="none" stroke={theme.grid} strokeWidth={22} />
+        <circle
+          r={r}
+          fill="none"
+          stroke={color}
+          strokeWidth={22}
+          strokeDasharray={`${share * circumference} ${circumference}`}
+          transform="rotate(-90)"
+        />
+        <text y={6} fontSize={22} fontWeight={600} textAnchor="middle" fill={theme.text}>
+          {Math.round(share * 100)}%
+        </text>
+      </g>
+      <text x={170} y={78} fontSize={13} fill={theme.text}>
+        {part} dari {total} event
+      </text>
+      <text x={170} y={98} fontSize={11} fill={theme.muted}>
+        {caption}
+      </text>
+    </svg>
+  );
+}
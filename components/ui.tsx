@@ -0,0 +1,99 @@
+// =============================
+// Shared UI primitives for the dashboard (Tailwind).
+// =============================
+
+import React from "react";
+import { highlightSegments } from "@/lib/search";
+
+export const classNames = (...c: Array<string | false | undefined>) =>
+  c.filter(Boolean).join(" ");
+
+export function SectionHeader({
+  icon,
+  title,
+  right,
+}: {
+  icon?: React.ReactNode;
+  title: string;
+  right?: React.ReactNode;
+}) {
+  return (
+    <div className="flex items-center justify-between mb-3">
+      <div className="flex items-center gap-2">
+        {icon}
+        <h2 className="text-lg font-semibold">{title}</h2>
+      </div>
+      <div>{right}</div>
+    </div>
+  );
+}
+
+export function Chip({
+  children,
+  active,
+  onClick,
+}: {
+  children: React.ReactNode;
+  active?: boolean;
+  onClick?: () => void;
+}) {
+  return (
+    <button
+      onClick={onClick}
+      className={classNames(
+        "px-2 py-1 rounded-md text-xs border transition-colors",
+        active
+          ? "bg-indigo-600 text-white border-indigo-600"
+          : "bg-white text-slate-700 border-slate-300 hover:bg-slate-50"
+      )}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function StatBadge({ children }: { children: React.ReactNode }) {
+  return (
+    <span className="inline-flex items-center gap-1 px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800 border border-amber-200">
+      {children}
+    </span>
+  );
+}
+
+export function Card({ children, dark }: { children: React.ReactNode; dark?: boolean }) {
+  return (
+    <div
+      className={classNames(
+        "rounded-xl shadow-sm border p-4",
+        dark ? "bg-slate-800/70 border-slate-700" : "bg-white border-slate-200"
+      )}
+    >
+      {children}
+    </div>
+  );
+}
+
+export function Empty({ msg }: { msg: string }) {
+  return (
+    <div className="text-center text-slate-500 border border-dashed rounded-xl p-6">
+      {msg}
+    </div>
+  );
+}
+
+// Marks words matching the current search (by stem)
+export function Highlight({ text, terms }: { text: string; terms: string[] }) {
+  return (
+    <>
+      {highlightSegments(text, terms).map((seg, i) =>
+        seg.match ? (
+          <mark key={i} className="bg-yellow-200 text-slate-900 rounded px-0.5">
+            {seg.text}
+          </mark>
+        ) : (
+          <React.Fragment key={i}>{seg.text}</React.Fragment>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,28 @@
+'use client';
+import { useCallback, useEffect, useState } from "react";
+import type { IncidentReport } from "@/lib/incidents/detect";
+
+const POLL_MS = 60 * 1000;
+
+// Latest /api/incidents report, polled and reloaded when `reloadKey` changes
+export default function useIncidentReport(reloadKey?: number) {
+  const [report, setReport] = useState<IncidentReport | null>(null);
+
+  const load = useCallback(async () => {
+    try {
+      const res = await fetch("/api/incidents", { cache: "no-store" });
+      if (!res.ok) return;
+      setReport(((await res.json()) as { item: IncidentReport }).item);
+    } catch {
+      // Keep the last report; the next poll retries
+    }
+  }, []);
+
+  useEffect(() => {
+    load();
+    const timer = setInterval(load, POLL_MS);
+    return () => clearInterval(timer);
+  }, [load, reloadKey]);
+
+  return [report, load] as const;
+}
@@ -0,0 +1,60 @@
+'use client';
+import React, { createContext, useCallback, useContext, useEffect, useState } from "react";
+import type { PublicUser } from "@/lib/auth/users";
+import { can as roleCan, type Permission } from "@/lib/auth/roles";
+
+// =============================
+// Signed-in user for client components, loaded once from /api/auth/session.
+// Permissions here only hide controls; the API checks them again.
+// =============================
+
+type Session = {
+  user: PublicUser | null;
+  // Personal calendar subscription token
+  feedToken: string | null;
+  loading: boolean;
+  can: (permission: Permission) => boolean;
+  logout: () => Promise<void>;
+};
+
+const SessionContext = createContext<Session>({
+  user: null,
+  feedToken: null,
+  loading: true,
+  can: () => false,
+  logout: async () => undefined,
+});
+
+export function SessionProvider({ children }: { children: React.ReactNode }) {
+  const [user, setUser] = useState<PublicUser | null>(null);
+  const [feedToken, setFeedToken] = useState<string | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetch("/api/auth/session", { cache: "no-store" })
+      .then((res) => res.json())
+      .then((body: { user: PublicUser | null; feedToken: string | null }) => {
+        setUser(body.user);
+        setFeedToken(body.feedToken);
+      })
+      .catch(() => setUser(null))
+      .finally(() => setLoading(false));
+  }, []);
+
+  const can = useCallback((permission: Permission) => roleCan(user?.role, permission), [user]);
+
+  const logout = useCallback(async () => {
+    await fetch("/api/auth/logout", { method: "POST" }).catch(() => undefined);
+    window.location.href = "/login";
+  }, []);
+
+  return (
+    <SessionContext.Provider value={{ user, feedToken, loading, can, logout }}>
+      {children}
+    </SessionContext.Provider>
+  );
+}
+
+export default function useSession() {
+  return useContext(SessionContext);
+}
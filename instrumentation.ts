@@ -0,0 +1,7 @@
+// Starts the ingest scheduler once per Node.js server process
+export async function register() {
+  if (process.env.NEXT_RUNTIME === "nodejs") {
+    const { startScheduler } = await import("./lib/ingest/scheduler");
+    startScheduler();
+  }
+}
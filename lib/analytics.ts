@@ -0,0 +1,81 @@
+// =============================
+// Aggregates for the Analytics tab (pure; client and server safe).
+// Inputs are the already filtered lists, so every chart follows the same
+// query, tag and period filters as the Events/News/Quotes tabs.
+// =============================
+
+import { daysInRange, jakartaDay, type DateRange } from "./daterange";
+import { tagFacets, tagsOf } from "./facets";
+import type { CombinedItem, EventItem, NewsItem, QuoteItem } from "./types";
+
+export type Counted = Array<[label: string, count: number]>;
+
+export type DailyVolume = { day: string; events: number; news: number; quotes: number };
+
+export type Analytics = {
+  daily: DailyVolume[];
+  bySource: Counted;
+  topTags: Counted;
+  byMode: Counted;
+  minister: { attended: number; total: number };
+  bySpeaker: Counted;
+};
+
+export const TOP_LIMIT = 10;
+
+// Largest first, ties alphabetical
+export function countBy<T>(items: T[], key: (item: T) => string | undefined): Counted {
+  const counts = new Map<string, number>();
+  items.forEach((it) => {
+    const k = key(it)?.trim();
+    if (k) counts.set(k, (counts.get(k) ?? 0) + 1);
+  });
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+export function dailyVolume(
+  { events, news, quotes }: { events: EventItem[]; news: NewsItem[]; quotes: QuoteItem[] },
+  range: DateRange
+): DailyVolume[] {
+  const rows = new Map(
+    daysInRange(range).map((day) => [day, { day, events: 0, news: 0, quotes: 0 }])
+  );
+  const add = (iso: string, kind: "events" | "news" | "quotes") => {
+    const row = rows.get(jakartaDay(iso));
+    if (row) row[kind]++;
+  };
+  events.forEach((e) => add(e.date, "events"));
+  news.forEach((n) => add(n.publishedAt, "news"));
+  quotes.forEach((q) => add(q.date, "quotes"));
+  return [...rows.values()];
+}
+
+// Items per transport mode; `modes` are the taxonomy labels of category "mode"
+export function modeCounts(items: CombinedItem[], modes: string[]): Counted {
+  return modes
+    .map((m): [string, number] => [m, items.filter((it) => tagsOf(it).includes(m)).length])
+    .filter(([, n]) => n > 0)
+    .sort((a, b) => b[1] - a[1]);
+}
+
+export function computeAnalytics(
+  data: { events: EventItem[]; news: NewsItem[]; quotes: QuoteItem[] },
+  range: DateRange,
+  modes: string[] = []
+): Analytics {
+  const { events, news, quotes } = data;
+  const all: CombinedItem[] = [...events, ...news, ...quotes];
+  // Quotes have no outlet of their own
+  const sourced: Array<EventItem | NewsItem> = [...events, ...news];
+  return {
+    daily: dailyVolume(data, range),
+    bySource: countBy(sourced, (it) => it.source).slice(0, TOP_LIMIT),
+    topTags: tagFacets(all).slice(0, TOP_LIMIT),
+    byMode: modeCounts(all, modes),
+    minister: {
+      attended: events.filter((e) => e.attendedByMinister).length,
+      total: events.length,
+    },
+    bySpeaker: countBy(quotes, (q) => q.speaker).slice(0, TOP_LIMIT),
+  };
+}
@@ -0,0 +1,141 @@
+// =============================
+// Audit log vocabulary and formatting (pure; client and server safe).
+// Actions are "<kind>.<verb>"; the log viewer, item histories and the CSV
+// export all describe them with the labels below.
+// =============================
+
+import { toCsv } from "../csv";
+import type { AuditEntry, AuditRef } from "../types";
+
+export const AUDIT_ACTIONS: Record<string, string> = {
+  "caption.generate": "Membuat caption",
+  "caption.copy": "Menyalin caption",
+  "draft.create": "Menyimpan draft caption",
+  "draft.edit": "Mengubah draft caption",
+  "draft.submit": "Mengajukan caption",
+  "draft.approve": "Menyetujui caption",
+  "draft.return": "Mengembalikan caption",
+  "draft.posted": "Menandai caption terposting",
+  "event.create": "Menambah event",
+  "event.locate": "Mengubah lokasi event",
+  "event.geocode": "Geocode ulang semua event",
+  "news.create": "Menambah berita",
+  "news.tone": "Mengubah tone berita",
+  "news.retag": "Memindai ulang entitas berita",
+  "quote.create": "Menambah kutipan",
+  "quote.add-source": "Menambah sumber kutipan",
+  "quote.remove-source": "Menghapus sumber kutipan",
+  "quote.verify": "Memverifikasi kutipan",
+  "candidate.save": "Mengubah kandidat kutipan",
+  "candidate.accept": "Menerima kandidat kutipan",
+  "candidate.reject": "Menolak kandidat kutipan",
+  "candidate.extract": "Memindai ulang kandidat kutipan",
+  "tag.create": "Menambah tag",
+  "tag.update": "Mengubah tag",
+  "tag.rename": "Mengganti nama tag",
+  "tag.merge": "Menggabungkan tag",
+  "tag.delete": "Menghapus tag",
+  "tag.apply": "Menerapkan ulang taksonomi",
+  "source.run": "Menjalankan ingestor",
+  "watch.create": "Menambah watch",
+  "watch.update": "Mengubah watch",
+  "watch.delete": "Menghapus watch",
+  "setting.incidents": "Mengubah monitor insiden",
+  "user.create": "Menambah pengguna",
+  "user.update": "Mengubah pengguna",
+  "user.revoke": "Mengakhiri sesi pengguna",
+  "user.reset-feed": "Mengganti token kalender",
+  "user.delete": "Menghapus pengguna",
+  "auth.setup": "Membuat admin pertama",
+  "auth.login": "Masuk",
+  "auth.logout": "Keluar",
+  "briefing.run": "Membuat ulang laporan harian",
+};
+
+export const AUDIT_KIND_LABEL: Record<AuditRef["kind"], string> = {
+  event: "Event",
+  news: "Berita",
+  quote: "Kutipan",
+  candidate: "Kandidat kutipan",
+  draft: "Draft caption",
+  tag: "Tag",
+  watch: "Watch",
+  source: "Sumber",
+  setting: "Pengaturan",
+  user: "Pengguna",
+  briefing: "Laporan harian",
+};
+
+// Actions the dashboard reports itself; everything else is recorded by the API
+export const CLIENT_ACTIONS = ["caption.generate", "caption.copy"] as const;
+
+export type ClientAction = (typeof CLIENT_ACTIONS)[number];
+
+export const auditLabel = (action: string) => AUDIT_ACTIONS[action] ?? action;
+
+// Bookkeeping fields that change on every write and say nothing about the edit
+const VOLATILE = new Set(["updatedAt", "updatedBy"]);
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+// Top-level fields that differ between two versions of a record, each side
+// holding only those fields; a missing record counts as empty
+export function changedFields(before?: object | null, after?: object | null) {
+  const a = (before ?? {}) as Record<string, unknown>;
+  const b = (after ?? {}) as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(a), ...Object.keys(b)])].filter(
+    (k) => !VOLATILE.has(k) && !same(a[k], b[k])
+  );
+  const pick = (r: Record<string, unknown>) =>
+    Object.fromEntries(keys.filter((k) => r[k] !== undefined).map((k) => [k, r[k]]));
+  return { before: pick(a), after: pick(b) };
+}
+
+// One-line rendering of a before/after value for tables and CSV
+export function formatAuditValue(value: unknown): string {
+  if (value === undefined || value === null || value === "") return "-";
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.every((v) => typeof v !== "object")) {
+    return value.join(", ");
+  }
+  return JSON.stringify(value);
+}
+
+// "field: value; field: value"
+export const formatAuditFields = (fields?: Record<string, unknown>) =>
+  Object.entries(fields ?? {})
+    .map(([k, v]) => `${k}: ${formatAuditValue(v)}`)
+    .join("; ");
+
+export function auditCsv(entries: AuditEntry[]) {
+  return toCsv(
+    [
+      "Waktu",
+      "Pengguna",
+      "Peran",
+      "Aksi",
+      "Kode aksi",
+      "Jenis",
+      "ID",
+      "Item",
+      "Terkait",
+      "Sebelum",
+      "Sesudah",
+      "Catatan",
+    ],
+    entries.map((e) => [
+      e.at,
+      e.actor.name,
+      e.actor.role,
+      auditLabel(e.action),
+      e.action,
+      AUDIT_KIND_LABEL[e.target.kind],
+      e.target.id,
+      e.target.label,
+      e.subject && `${AUDIT_KIND_LABEL[e.subject.kind]} ${e.subject.id}`,
+      formatAuditFields(e.before),
+      formatAuditFields(e.after),
+      e.note,
+    ])
+  );
+}
@@ -0,0 +1,65 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { User } from "../types";
+
+const actor: User = {
+  id: "usr-admin",
+  username: "admin",
+  name: "Admin",
+  role: "admin",
+  enabled: true,
+  passwordHash: "",
+  sessionVersion: 0,
+  feedToken: "",
+  createdAt: "2026-10-19T00:00:00.000Z",
+  updatedAt: "2026-10-19T00:00:00.000Z",
+};
+
+async function load() {
+  vi.stubEnv("CC_DATA_DIR", mkdtempSync(path.join(tmpdir(), "cc-audit-")));
+  vi.resetModules();
+  const log = await import("./log");
+  const manage = await import("../taxonomy/manage");
+  const store = await import("../store");
+  return { ...log, ...manage, events: store.events };
+}
+
+describe("audit log", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("records every item a tag merge rewrote in that item's history", async () => {
+    const { events, mergeTags, queryAudit, recordTagRewrites } = await load();
+    const [first] = await events.all();
+    await events.update(first.id, (e) => ({ ...e, tags: ["Maritim", "Green"] }));
+
+    const result = await mergeTags("tag-green", "tag-kebijakan");
+    if (!result.ok) throw new Error(result.error);
+    const { item, changes } = result.value;
+    expect(changes).toContainEqual({
+      kind: "event",
+      id: first.id,
+      title: first.title,
+      field: "tags",
+      before: ["Maritim", "Green"],
+      after: ["Maritim", "Kebijakan"],
+    });
+    await recordTagRewrites(actor, "tag.merge", { kind: "tag", id: item.id }, changes);
+
+    const [entry] = await queryAudit({ kind: "event", item: first.id });
+    expect(entry).toMatchObject({
+      action: "tag.merge",
+      target: { kind: "event", id: first.id },
+      subject: { kind: "tag", id: "tag-kebijakan" },
+      before: { tags: ["Maritim", "Green"] },
+      after: { tags: ["Maritim", "Kebijakan"] },
+    });
+    expect(await queryAudit({ kind: "tag", item: "tag-kebijakan" })).toHaveLength(
+      changes.length
+    );
+  });
+});
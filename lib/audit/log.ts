@@ -0,0 +1,180 @@
+// =============================
+// Append-only audit log of editorial actions (server only).
+// Routes record an entry after a change succeeds, with the signed-in user as
+// the actor and only the fields that changed. The log is private to this
+// module and stored as JSON lines that are only ever appended to.
+// =============================
+
+import { addDays, startOfJakartaDay } from "../daterange";
+import { fail, ok, type Result } from "../result";
+import { createLog, newId } from "../store";
+import type { TagRewrite } from "../taxonomy/manage";
+import type { AuditEntry, AuditRef, User } from "../types";
+import {
+  CLIENT_ACTIONS,
+  auditLabel,
+  changedFields,
+  formatAuditFields,
+  type ClientAction,
+} from "./actions";
+
+const log = createLog<AuditEntry>("audit");
+
+export type AuditInput = {
+  action: string;
+  target: AuditRef;
+  subject?: AuditRef;
+  // Whole records or partial ones; only the fields that differ are kept
+  before?: object | null;
+  after?: object | null;
+  note?: string;
+};
+
+export async function recordAudit(actor: User, input: AuditInput): Promise<AuditEntry> {
+  const { before, after } = changedFields(input.before, input.after);
+  const entry: AuditEntry = {
+    id: newId("audit"),
+    at: new Date().toISOString(),
+    actor: { id: actor.id, name: actor.name, role: actor.role },
+    action: input.action,
+    target: input.target,
+    ...(input.subject ? { subject: input.subject } : {}),
+    ...(Object.keys(before).length ? { before } : {}),
+    ...(Object.keys(after).length ? { after } : {}),
+    ...(input.note ? { note: input.note } : {}),
+  };
+  return log.append(entry);
+}
+
+// Renames, merges and re-applied synonym rules rewrite many items: each one
+// gets its own entry with the tag as subject, so it shows in the item's history
+export async function recordTagRewrites(
+  actor: User,
+  action: string,
+  tag: AuditRef,
+  changes: TagRewrite[]
+) {
+  for (const c of changes) {
+    await recordAudit(actor, {
+      action,
+      target: { kind: c.kind, id: c.id, label: c.title },
+      subject: tag,
+      before: { [c.field]: c.before },
+      after: { [c.field]: c.after },
+    });
+  }
+}
+
+// Caption generation and copying happen in the browser, which reports them here
+export type ClientAuditInput = {
+  action?: string;
+  subject?: { kind?: string; id?: string; title?: string };
+  text?: string;
+  platform?: string;
+  template?: string;
+  // Saved draft the caption box is bound to, if any
+  draftId?: string;
+};
+
+const SUBJECT_KINDS = ["event", "news", "quote"];
+
+// Longest caption text kept in an entry
+const MAX_TEXT = 5000;
+
+export async function recordClientAction(
+  actor: User,
+  input: ClientAuditInput
+): Promise<Result<AuditEntry>> {
+  if (!CLIENT_ACTIONS.includes(input.action as ClientAction)) {
+    return fail(400, `action harus ${CLIENT_ACTIONS.join(" atau ")}`);
+  }
+  const { kind, id, title } = input.subject ?? {};
+  if (!kind || !SUBJECT_KINDS.includes(kind) || !id) {
+    return fail(400, "subject harus event, berita atau kutipan");
+  }
+  if (!input.text?.trim()) return fail(400, "Teks caption kosong");
+  const subject = { kind, id, label: title } as AuditRef;
+  return ok(
+    await recordAudit(actor, {
+      action: input.action as string,
+      target: input.draftId ? { kind: "draft", id: input.draftId, label: title } : subject,
+      subject: input.draftId ? subject : undefined,
+      after: {
+        text: input.text.slice(0, MAX_TEXT),
+        platform: input.platform,
+        template: input.template,
+      },
+    })
+  );
+}
+
+export type AuditFilters = {
+  // User id, or part of the display name
+  actor?: string;
+  // Exact action ("quote.verify") or a whole kind of actions ("quote")
+  action?: string;
+  kind?: AuditRef["kind"];
+  // With `kind`, entries about that item: as target or as caption subject
+  item?: string;
+  // Jakarta days, both inclusive
+  from?: string;
+  to?: string;
+  // Free text over labels, notes and changed values
+  q?: string;
+};
+
+const DAY = /^\d{4}-\d{2}-\d{2}$/;
+
+export function parseAuditParams(sp: URLSearchParams): AuditFilters {
+  const get = (key: string) => sp.get(key)?.trim() || undefined;
+  const day = (key: string) => {
+    const value = get(key);
+    return value && DAY.test(value) ? value : undefined;
+  };
+  return {
+    actor: get("actor"),
+    action: get("action"),
+    kind: get("kind") as AuditRef["kind"] | undefined,
+    item: get("item"),
+    from: day("from"),
+    to: day("to"),
+    q: get("q")?.toLowerCase(),
+  };
+}
+
+const refMatches = (ref: AuditRef | undefined, f: AuditFilters) =>
+  !!ref && (!f.kind || ref.kind === f.kind) && (!f.item || ref.id === f.item);
+
+function matches(e: AuditEntry, f: AuditFilters) {
+  if (f.actor) {
+    const actor = f.actor.toLowerCase();
+    if (e.actor.id !== f.actor && !e.actor.name.toLowerCase().includes(actor)) return false;
+  }
+  if (f.action && e.action !== f.action && !e.action.startsWith(`${f.action}.`)) return false;
+  if ((f.kind || f.item) && !refMatches(e.target, f) && !refMatches(e.subject, f)) return false;
+  const t = +new Date(e.at);
+  if (f.from && t < startOfJakartaDay(f.from)) return false;
+  if (f.to && t >= startOfJakartaDay(addDays(f.to, 1))) return false;
+  if (f.q) {
+    const text = [
+      e.actor.name,
+      auditLabel(e.action),
+      e.target.label,
+      e.subject?.label,
+      e.note,
+      formatAuditFields(e.before),
+      formatAuditFields(e.after),
+    ]
+      .join(" ")
+      .toLowerCase();
+    if (!text.includes(f.q)) return false;
+  }
+  return true;
+}
+
+// Matching entries, newest first
+export async function queryAudit(filters: AuditFilters = {}): Promise<AuditEntry[]> {
+  return (await log.all())
+    .filter((e) => matches(e, filters))
+    .sort((a, b) => b.at.localeCompare(a.at));
+}
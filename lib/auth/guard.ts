@@ -0,0 +1,44 @@
+// =============================
+// Route-level access checks (server only).
+// Every API route starts with `authorize`: reads only need a current session,
+// changes a permission. The user it returns is the acting person recorded on
+// drafts, quotes, tone labels and settings.
+// =============================
+
+import { cookies } from "next/headers";
+import type { NextResponse } from "next/server";
+import { fail, ok, type Result } from "../result";
+import type { User } from "../types";
+import { ROLE_LABEL, can, type Permission } from "./roles";
+import { SESSION_COOKIE, sessionCookieOptions, signSession, verifySession } from "./session";
+import { users } from "./users";
+
+// The signed-in user, if the session cookie is valid and still current
+export async function currentUser(): Promise<User | undefined> {
+  const session = await verifySession((await cookies()).get(SESSION_COOKIE)?.value);
+  if (!session) return undefined;
+  const user = await users.get(session.sub);
+  if (!user?.enabled || user.sessionVersion !== session.v) return undefined;
+  return user;
+}
+
+export async function authorize(permission?: Permission): Promise<Result<User>> {
+  const user = await currentUser();
+  if (!user) return fail(401, "Silakan login terlebih dahulu");
+  if (permission && !can(user.role, permission)) {
+    return fail(403, `Peran ${ROLE_LABEL[user.role]} tidak diizinkan untuk tindakan ini`);
+  }
+  return ok(user);
+}
+
+// Attaches a fresh session cookie for `user` to the response
+export async function startSession(res: NextResponse, user: User) {
+  const token = await signSession({ sub: user.id, role: user.role, v: user.sessionVersion });
+  res.cookies.set(SESSION_COOKIE, token, sessionCookieOptions());
+  return res;
+}
+
+export function endSession(res: NextResponse) {
+  res.cookies.set(SESSION_COOKIE, "", sessionCookieOptions(0));
+  return res;
+}
@@ -0,0 +1,27 @@
+// =============================
+// Password hashing (server only).
+// Stored as `scrypt$<salt>$<hash>`, both hex, with Node's default scrypt cost.
+// =============================
+
+import { randomBytes, scrypt, timingSafeEqual } from "crypto";
+
+const KEY_LENGTH = 64;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const derive = (password: string, salt: string) =>
+  new Promise<Buffer>((resolve, reject) =>
+    scrypt(password, salt, KEY_LENGTH, (err, key) => (err ? reject(err) : resolve(key)))
+  );
+
+export async function hashPassword(password: string) {
+  const salt = randomBytes(16).toString("hex");
+  return `scrypt$${salt}$${(await derive(password, salt)).toString("hex")}`;
+}
+
+export async function verifyPassword(password: string, stored: string) {
+  const [scheme, salt, hash] = stored.split("$");
+  if (scheme !== "scrypt" || !salt || !hash) return false;
+  const expected = Buffer.from(hash, "hex");
+  const actual = await derive(password, salt);
+  return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
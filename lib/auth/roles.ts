@@ -0,0 +1,44 @@
+// =============================
+// Roles and permissions (pure; client and server safe).
+// Roles are ordered; a permission names the lowest role that has it. The
+// server checks permissions in every route that changes data, the dashboard
+// only uses them to hide what the user cannot do.
+// =============================
+
+import type { Role } from "../types";
+
+export const ROLES: Role[] = ["viewer", "editor", "approver", "admin"];
+
+export const ROLE_LABEL: Record<Role, string> = {
+  viewer: "Pembaca",
+  editor: "Editor",
+  approver: "Penyetuju",
+  admin: "Admin",
+};
+
+export const PERMISSIONS = {
+  // Add items, tone/location/source edits, quote review queue, tagging
+  "items:edit": "editor",
+  // Write captions: create, edit, submit for review, mark as posted
+  "drafts:edit": "editor",
+  // Approve or return captions in review
+  "drafts:approve": "approver",
+  // Two-source sign-off on quotes
+  "quotes:verify": "approver",
+  "watches:manage": "editor",
+  "briefing:run": "editor",
+  "taxonomy:manage": "approver",
+  "incidents:configure": "approver",
+  // Audit log viewer, item histories and the CSV export of the log
+  "audit:view": "editor",
+  // Run ingestors and imports
+  "sources:manage": "admin",
+  "users:manage": "admin",
+} as const satisfies Record<string, Role>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const can = (role: Role | undefined, permission: Permission) =>
+  !!role && ROLES.indexOf(role) >= ROLES.indexOf(PERMISSIONS[permission]);
@@ -0,0 +1,94 @@
+// =============================
+// Signed session cookies (edge and server safe; Web Crypto only).
+// The cookie holds `payload.signature`, both base64url, signed with HMAC-SHA256
+// under CC_SESSION_SECRET. middleware.ts only checks the signature and expiry;
+// routes that change data also check the user record (lib/auth/guard.ts), so
+// disabling a user or bumping their session version stops their edits at once.
+// =============================
+
+import type { Role } from "../types";
+
+export const SESSION_COOKIE = "cc_session";
+export const SESSION_TTL_SECONDS = 12 * 60 * 60;
+
+export type SessionPayload = {
+  // User id
+  sub: string;
+  role: Role;
+  // User's sessionVersion when the cookie was issued
+  v: number;
+  // Expiry, seconds since the epoch
+  exp: number;
+};
+
+// Used when CC_SESSION_SECRET is unset outside production
+const DEV_SECRET = "kemenhub-cc-dev-secret";
+
+function secret() {
+  const value = process.env.CC_SESSION_SECRET;
+  if (value) return value;
+  if (process.env.NODE_ENV === "production") {
+    throw new Error("CC_SESSION_SECRET wajib diisi di production");
+  }
+  return DEV_SECRET;
+}
+
+const encoder = new TextEncoder();
+
+function toBase64Url(bytes: Uint8Array) {
+  let bin = "";
+  bytes.forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+function fromBase64Url(text: string) {
+  const bin = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+  return Uint8Array.from(bin, (c) => c.charCodeAt(0));
+}
+
+const hmacKey = () =>
+  crypto.subtle.importKey(
+    "raw",
+    encoder.encode(secret()),
+    { name: "HMAC", hash: "SHA-256" },
+    false,
+    ["sign", "verify"]
+  );
+
+export async function signSession(payload: Omit<SessionPayload, "exp">, now = Date.now()) {
+  const full: SessionPayload = { ...payload, exp: Math.floor(now / 1000) + SESSION_TTL_SECONDS };
+  const body = toBase64Url(encoder.encode(JSON.stringify(full)));
+  const sig = await crypto.subtle.sign("HMAC", await hmacKey(), encoder.encode(body));
+  return `${body}.${toBase64Url(new Uint8Array(sig))}`;
+}
+
+// The payload of a valid, unexpired cookie; null otherwise
+export async function verifySession(
+  token: string | undefined,
+  now = Date.now()
+): Promise<SessionPayload | null> {
+  const [body, sig] = token?.split(".") ?? [];
+  if (!body || !sig) return null;
+  try {
+    const valid = await crypto.subtle.verify(
+      "HMAC",
+      await hmacKey(),
+      fromBase64Url(sig),
+      encoder.encode(body)
+    );
+    if (!valid) return null;
+    const payload = JSON.parse(new TextDecoder().decode(fromBase64Url(body))) as SessionPayload;
+    return payload.exp * 1000 > now ? payload : null;
+  } catch {
+    return null;
+  }
+}
+
+// Cookie attributes shared by login and logout
+export const sessionCookieOptions = (maxAge = SESSION_TTL_SECONDS) => ({
+  httpOnly: true,
+  sameSite: "lax" as const,
+  secure: process.env.NODE_ENV === "production",
+  path: "/",
+  maxAge,
+});
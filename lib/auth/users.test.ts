@@ -0,0 +1,114 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+const PASSWORD = "rahasia-panjang";
+
+async function load() {
+  vi.stubEnv("CC_DATA_DIR", mkdtempSync(path.join(tmpdir(), "cc-users-")));
+  vi.resetModules();
+  const mod = await import("./users");
+  const create = async (username: string, role = "admin") => {
+    const result = await mod.createUser({ username, role, password: PASSWORD });
+    if (!result.ok) throw new Error(result.error);
+    return result.value;
+  };
+  return { ...mod, create };
+}
+
+describe("users", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("creates the first admin once, even when setup is sent twice at once", async () => {
+    const { setupAdmin, users } = await load();
+    const results = await Promise.all([
+      setupAdmin({ username: "admin", password: PASSWORD }),
+      setupAdmin({ username: "kedua", password: PASSWORD }),
+    ]);
+    expect(results.map((r) => (r.ok ? 201 : r.status)).sort()).toEqual([201, 409]);
+    expect(await users.all()).toHaveLength(1);
+    expect((await users.all())[0]).toMatchObject({ role: "admin", enabled: true });
+  });
+
+  it("validates new accounts", async () => {
+    const { create, createUser } = await load();
+    await create("ani", "editor");
+    expect(await createUser({ username: "Ani", password: PASSWORD })).toMatchObject({
+      status: 409,
+    });
+    expect(await createUser({ username: "a", password: PASSWORD })).toMatchObject({ status: 400 });
+    expect(await createUser({ username: "budi", password: "pendek" })).toMatchObject({
+      status: 400,
+    });
+    expect(await createUser({ username: "budi", role: "root", password: PASSWORD })).toMatchObject(
+      { status: 400 }
+    );
+  });
+
+  it("never deletes the last active admin, even with two deletes at once", async () => {
+    const { create, deleteUser, users } = await load();
+    const a = await create("admin1");
+    const b = await create("admin2");
+    await create("ani", "editor");
+    const results = await Promise.all([deleteUser(a.id), deleteUser(b.id)]);
+    expect(results.filter((r) => r.ok)).toHaveLength(1);
+    expect(results.find((r) => !r.ok)).toMatchObject({ status: 409 });
+    expect((await users.all()).filter((u) => u.role === "admin")).toHaveLength(1);
+  });
+
+  it("never demotes or disables the last active admin", async () => {
+    const { create, updateUser } = await load();
+    const admin = await create("admin");
+    expect(await updateUser(admin.id, { role: "editor" })).toMatchObject({ status: 409 });
+    expect(await updateUser(admin.id, { enabled: false })).toMatchObject({ status: 409 });
+    const other = await create("admin2");
+    expect(await updateUser(admin.id, { role: "editor" })).toMatchObject({ ok: true });
+    expect(await updateUser(other.id, { enabled: false })).toMatchObject({ status: 409 });
+  });
+
+  it("ends sessions on a role change or a new password, not on a rename", async () => {
+    const { create, updateUser } = await load();
+    await create("admin");
+    const ani = await create("ani", "editor");
+    const renamed = await updateUser(ani.id, { name: "Ani S." });
+    expect(renamed).toMatchObject({ ok: true, value: { sessionVersion: 1 } });
+    const promoted = await updateUser(ani.id, { role: "approver" });
+    expect(promoted).toMatchObject({ ok: true, value: { sessionVersion: 2 } });
+    const reset = await updateUser(ani.id, { password: "kata-sandi-baru" });
+    expect(reset).toMatchObject({ ok: true, value: { sessionVersion: 3 } });
+  });
+
+  it("authenticates with the same answer for unknown users and wrong passwords", async () => {
+    const { authenticate, create, updateUser } = await load();
+    await create("admin");
+    const ani = await create("ani", "editor");
+    expect(await authenticate("nobody", PASSWORD)).toMatchObject({ status: 401 });
+    expect(await authenticate("ani", "salah-sandi")).toMatchObject({ status: 401 });
+    const ok = await authenticate(" ANI ", PASSWORD);
+    expect(ok).toMatchObject({ ok: true });
+    expect(ok.ok && ok.value.lastLoginAt).toBeTruthy();
+    await updateUser(ani.id, { enabled: false });
+    expect(await authenticate("ani", PASSWORD)).toMatchObject({ status: 403 });
+  });
+
+  it("accepts a calendar feed token only from an enabled account, until it is reset", async () => {
+    const { create, resetFeedToken, updateUser, userByFeedToken } = await load();
+    await create("admin");
+    const ani = await create("ani", "viewer");
+    expect((await userByFeedToken(ani.feedToken))?.id).toBe(ani.id);
+    expect(await userByFeedToken("")).toBeUndefined();
+    expect(await userByFeedToken("token-palsu")).toBeUndefined();
+
+    const reset = await resetFeedToken(ani.id);
+    if (!reset.ok) throw new Error(reset.error);
+    expect(await userByFeedToken(ani.feedToken)).toBeUndefined();
+    expect((await userByFeedToken(reset.value.feedToken))?.id).toBe(ani.id);
+
+    await updateUser(ani.id, { enabled: false });
+    expect(await userByFeedToken(reset.value.feedToken)).toBeUndefined();
+  });
+});
@@ -0,0 +1,193 @@
+// =============================
+// Local user accounts (server only).
+// The first account is created through the setup form while the store is
+// empty and is always an admin. There is always at least one enabled admin:
+// the last one cannot be disabled, demoted or deleted.
+// =============================
+
+import { randomBytes } from "crypto";
+import { fail, ok, type Result } from "../result";
+import { createCollection, newId } from "../store";
+import type { User } from "../types";
+import { MIN_PASSWORD_LENGTH, hashPassword, verifyPassword } from "./password";
+import { isRole } from "./roles";
+
+export const users = createCollection<User>("users");
+
+// What the browser gets to see
+export type PublicUser = Omit<User, "passwordHash" | "sessionVersion" | "feedToken">;
+
+export type UserInput = {
+  username?: string;
+  name?: string;
+  role?: string;
+  password?: string;
+  enabled?: boolean;
+};
+
+export const toPublic = (u: User): PublicUser => ({
+  id: u.id,
+  username: u.username,
+  name: u.name,
+  role: u.role,
+  enabled: u.enabled,
+  createdAt: u.createdAt,
+  updatedAt: u.updatedAt,
+  lastLoginAt: u.lastLoginAt,
+});
+
+const USERNAME = /^[a-z0-9._-]{3,32}$/;
+
+const newFeedToken = () => randomBytes(24).toString("hex");
+
+const isActiveAdmin = (u: User) => u.role === "admin" && u.enabled;
+
+export async function needsSetup() {
+  return (await users.all()).length === 0;
+}
+
+function checkPassword(password: string | undefined): Result<string> {
+  if (!password || password.length < MIN_PASSWORD_LENGTH) {
+    return fail(400, `Kata sandi minimal ${MIN_PASSWORD_LENGTH} karakter`);
+  }
+  return ok(password);
+}
+
+// `check` runs under the lock against every stored account, so two requests
+// can neither take the same username nor both pass the first-account check
+async function insertUser(
+  input: UserInput,
+  check?: (all: User[]) => Result<unknown>
+): Promise<Result<User>> {
+  const username = input.username?.trim().toLowerCase() ?? "";
+  if (!USERNAME.test(username)) {
+    return fail(400, "Username 3-32 karakter: huruf kecil, angka, titik, - atau _");
+  }
+  const role = input.role ?? "viewer";
+  if (!isRole(role)) return fail(400, "Peran tidak dikenal");
+  const password = checkPassword(input.password);
+  if (!password.ok) return password;
+  const passwordHash = await hashPassword(password.value);
+  const id = newId("user");
+  const now = new Date().toISOString();
+  return users.change(id, (_, all) => {
+    const checked = check?.(all);
+    if (checked && !checked.ok) return checked;
+    if (all.some((u) => u.username === username)) {
+      return fail(409, `Username ${username} sudah dipakai`);
+    }
+    return ok({
+      id,
+      username,
+      name: input.name?.trim() || username,
+      role,
+      passwordHash,
+      enabled: input.enabled ?? true,
+      sessionVersion: 1,
+      feedToken: newFeedToken(),
+      createdAt: now,
+      updatedAt: now,
+    });
+  });
+}
+
+export async function createUser(input: UserInput): Promise<Result<User>> {
+  return insertUser(input);
+}
+
+// The first account; refused once any user exists
+export async function setupAdmin(input: UserInput): Promise<Result<User>> {
+  if (!(await needsSetup())) return fail(409, "Akun admin sudah dibuat");
+  return insertUser({ ...input, role: "admin", enabled: true }, (all) =>
+    all.length ? fail(409, "Akun admin sudah dibuat") : ok(all)
+  );
+}
+
+export async function updateUser(id: string, input: UserInput): Promise<Result<User>> {
+  if (input.role !== undefined && !isRole(input.role)) return fail(400, "Peran tidak dikenal");
+  let passwordHash: string | undefined;
+  if (input.password !== undefined) {
+    const password = checkPassword(input.password);
+    if (!password.ok) return password;
+    passwordHash = await hashPassword(password.value);
+  }
+  // The last-admin check and the write share the lock, so two admins can't
+  // demote each other at the same time
+  return users.change(id, (current, all) => {
+    if (!current) return fail(404, `Pengguna ${id} tidak ditemukan`);
+    const next: User = {
+      ...current,
+      name: input.name === undefined ? current.name : input.name.trim() || current.username,
+      role: (input.role as User["role"] | undefined) ?? current.role,
+      enabled: input.enabled ?? current.enabled,
+      passwordHash: passwordHash ?? current.passwordHash,
+    };
+    if (isActiveAdmin(current) && !isActiveAdmin(next)) {
+      if (all.filter(isActiveAdmin).length <= 1) {
+        return fail(409, "Harus ada minimal satu admin aktif");
+      }
+    }
+    // Sessions carry the role and end with a new password or when disabled
+    const revoke =
+      passwordHash !== undefined || next.role !== current.role || next.enabled !== current.enabled;
+    return ok({
+      ...next,
+      sessionVersion: revoke ? current.sessionVersion + 1 : current.sessionVersion,
+      updatedAt: new Date().toISOString(),
+    });
+  });
+}
+
+// Ends every session of the user, e.g. after a lost device
+export async function revokeSessions(id: string): Promise<Result<User>> {
+  const updated = await users.update(id, (u) => ({
+    ...u,
+    sessionVersion: u.sessionVersion + 1,
+    updatedAt: new Date().toISOString(),
+  }));
+  return updated ? ok(updated) : fail(404, `Pengguna ${id} tidak ditemukan`);
+}
+
+// A new calendar subscription URL; the old one stops working
+export async function resetFeedToken(id: string): Promise<Result<User>> {
+  const updated = await users.update(id, (u) => ({ ...u, feedToken: newFeedToken() }));
+  return updated ? ok(updated) : fail(404, `Pengguna ${id} tidak ditemukan`);
+}
+
+export async function deleteUser(id: string): Promise<Result<User>> {
+  // Checked and removed under the lock, so two deletes can't take the last
+  // two admins at once
+  return users.removeChecked(id, (current, all) => {
+    if (!current) return fail(404, `Pengguna ${id} tidak ditemukan`);
+    if (isActiveAdmin(current) && all.filter(isActiveAdmin).length <= 1) {
+      return fail(409, "Harus ada minimal satu admin aktif");
+    }
+    return ok(current);
+  });
+}
+
+export async function listUsers(): Promise<PublicUser[]> {
+  return (await users.all())
+    .map(toPublic)
+    .sort((a, b) => a.username.localeCompare(b.username));
+}
+
+// Same message for unknown users and wrong passwords
+export async function authenticate(username: string, password: string): Promise<Result<User>> {
+  const user = (await users.all()).find((u) => u.username === username.trim().toLowerCase());
+  if (!user || !(await verifyPassword(password, user.passwordHash))) {
+    return fail(401, "Username atau kata sandi salah");
+  }
+  if (!user.enabled) return fail(403, "Akun dinonaktifkan");
+  // Only the login time is written, so an edit made meanwhile is kept
+  const updated = await users.update(user.id, (u) => ({
+    ...u,
+    lastLoginAt: new Date().toISOString(),
+  }));
+  return updated ? ok(updated) : fail(401, "Username atau kata sandi salah");
+}
+
+export async function userByFeedToken(token: string) {
+  if (!token) return undefined;
+  return (await users.all()).find((u) => u.enabled && u.feedToken === token);
+}
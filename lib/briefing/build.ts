@@ -0,0 +1,202 @@
+// =============================
+// "Laporan Harian" media briefing (pure; client and server safe).
+// Summarizes one period: the Minister's events, top stories, key quotes and
+// coverage tone, then the same material grouped by transport mode with the
+// topics each mode was covered under, and the agenda right after the period.
+// A briefing is a snapshot: it copies the fields it shows, so a stored
+// briefing reads the same after items are edited or re-ingested.
+// =============================
+
+import { countBy, type Counted } from "../analytics";
+import { clusterNews } from "../cluster";
+import { inRange, type DateRange } from "../daterange";
+import { tagFacets, tagsOf } from "../facets";
+import { verificationOf } from "../quotes/verification";
+import { TONES, toneOf } from "../sentiment/lexicon";
+import type {
+  CombinedItem,
+  EventItem,
+  NewsItem,
+  QuoteItem,
+  Tone,
+  VerificationStatus,
+} from "../types";
+
+export type BriefingEvent = Pick<
+  EventItem,
+  "id" | "title" | "date" | "location" | "attendedByMinister" | "link"
+>;
+
+export type BriefingStory = {
+  id: string;
+  title: string;
+  link: string;
+  publishedAt: string;
+  // Outlets covering the story, first report's outlet first
+  outlets: string[];
+  reports: number;
+  tone: Tone;
+};
+
+export type BriefingQuote = Pick<QuoteItem, "id" | "text" | "speaker" | "date" | "link"> & {
+  verification: VerificationStatus;
+};
+
+export type BriefingSection = {
+  // Taxonomy label of the mode, or GENERAL_SECTION
+  mode: string;
+  // Other tags and entities of the section's items, most frequent first
+  topics: Counted;
+  events: BriefingEvent[];
+  stories: BriefingStory[];
+  quotes: BriefingQuote[];
+};
+
+export type Briefing = {
+  id: string;
+  range: DateRange;
+  generatedAt: string;
+  counts: { events: number; news: number; quotes: number; stories: number };
+  tone: Record<Tone, number>;
+  ministerEvents: BriefingEvent[];
+  topStories: BriefingStory[];
+  keyQuotes: BriefingQuote[];
+  sections: BriefingSection[];
+  agenda: BriefingEvent[];
+};
+
+// Items without a mode tag
+export const GENERAL_SECTION = "Umum";
+
+export const TOP_STORIES = 5;
+export const KEY_QUOTES = 5;
+const SECTION_STORIES = 3;
+const SECTION_QUOTES = 2;
+const SECTION_TOPICS = 5;
+// Agenda covers the days right after the period
+export const AGENDA_DAYS = 3;
+
+const VERIFICATION_RANK: Record<VerificationStatus, number> = {
+  verified: 2,
+  "one-source": 1,
+  unverified: 0,
+};
+
+const byDate = (a: { date: string }, b: { date: string }) => +new Date(a.date) - +new Date(b.date);
+
+const eventOf = (e: EventItem): BriefingEvent => ({
+  id: e.id,
+  title: e.title,
+  date: e.date,
+  location: e.location,
+  attendedByMinister: e.attendedByMinister,
+  link: e.link,
+});
+
+const quoteOf = (q: QuoteItem): BriefingQuote => ({
+  id: q.id,
+  text: q.text,
+  speaker: q.speaker,
+  date: q.date,
+  link: q.link,
+  verification: verificationOf(q),
+});
+
+// Verified quotes first, then newest
+const rankQuotes = (list: QuoteItem[]) =>
+  list
+    .map(quoteOf)
+    .sort(
+      (a, b) =>
+        VERIFICATION_RANK[b.verification] - VERIFICATION_RANK[a.verification] ||
+        +new Date(b.date) - +new Date(a.date)
+    );
+
+export function buildBriefing(
+  data: { events: EventItem[]; news: NewsItem[]; quotes: QuoteItem[] },
+  range: DateRange,
+  opts: { id: string; modes: string[]; now?: Date }
+): Briefing {
+  const events = data.events.filter((e) => inRange(e.date, range)).sort(byDate);
+  const news = data.news.filter((n) => inRange(n.publishedAt, range));
+  const quotes = data.quotes.filter((q) => inRange(q.date, range));
+
+  // Stories covered by the most outlets lead; ties go to the larger and then newer story
+  const clusters = clusterNews(news).sort(
+    (a, b) =>
+      b.outlets.length - a.outlets.length ||
+      b.others.length - a.others.length ||
+      +new Date(b.latestAt) - +new Date(a.latestAt)
+  );
+  // Each story keeps its reports alongside for grouping by mode
+  const stories = clusters.map((c): { story: BriefingStory; items: NewsItem[] } => ({
+    story: {
+      id: c.id,
+      title: c.primary.title,
+      link: c.primary.link,
+      publishedAt: c.primary.publishedAt,
+      outlets: c.outlets,
+      reports: c.others.length + 1,
+      tone: toneOf(c.primary),
+    },
+    items: [c.primary, ...c.others],
+  }));
+
+  const modesOf = (tags: string[]) => {
+    const found = opts.modes.filter((m) => tags.includes(m));
+    return found.length ? found : [GENERAL_SECTION];
+  };
+  const inSection = (mode: string, item: CombinedItem) => modesOf(tagsOf(item)).includes(mode);
+
+  const sections = [...opts.modes, GENERAL_SECTION]
+    .map((mode): BriefingSection => {
+      const sectionEvents = events.filter((e) => inSection(mode, e));
+      // A story belongs to every mode any of its reports is tagged with
+      const sectionStories = stories.filter((s) => s.items.some((n) => inSection(mode, n)));
+      const sectionQuotes = quotes.filter((q) => inSection(mode, q));
+      const items: CombinedItem[] = [
+        ...sectionEvents,
+        ...sectionStories.flatMap((s) => s.items),
+        ...sectionQuotes,
+      ];
+      return {
+        mode,
+        topics: tagFacets(items)
+          .filter(([tag]) => !opts.modes.includes(tag))
+          .slice(0, SECTION_TOPICS),
+        events: sectionEvents.map(eventOf),
+        stories: sectionStories.slice(0, SECTION_STORIES).map((s) => s.story),
+        quotes: rankQuotes(sectionQuotes).slice(0, SECTION_QUOTES),
+      };
+    })
+    .filter((s) => s.events.length || s.stories.length || s.quotes.length);
+
+  const tone = Object.fromEntries(TONES.map((t) => [t, 0])) as Record<Tone, number>;
+  countBy(news, toneOf).forEach(([t, n]) => (tone[t as Tone] = n));
+
+  const agendaRange = {
+    from: range.to,
+    to: new Date(+new Date(range.to) + AGENDA_DAYS * 24 * 60 * 60 * 1000).toISOString(),
+  };
+
+  return {
+    id: opts.id,
+    range,
+    generatedAt: (opts.now ?? new Date()).toISOString(),
+    counts: {
+      events: events.length,
+      news: news.length,
+      quotes: quotes.length,
+      stories: stories.length,
+    },
+    tone,
+    ministerEvents: events.filter((e) => e.attendedByMinister).map(eventOf),
+    topStories: stories.slice(0, TOP_STORIES).map((s) => s.story),
+    keyQuotes: rankQuotes(quotes).slice(0, KEY_QUOTES),
+    sections,
+    agenda: data.events
+      .filter((e) => inRange(e.date, agendaRange))
+      .sort(byDate)
+      .map(eventOf),
+  };
+}
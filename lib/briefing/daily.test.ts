@@ -0,0 +1,25 @@
+import { describe, expect, it } from "vitest";
+import { briefingSlot, dailyBriefingId } from "./daily";
+
+const at = (iso: string) => new Date(iso);
+
+describe("briefingSlot", () => {
+  it("anchors a run after the scheduled time to that morning", () => {
+    // 14:00 WIB on 20 Oct
+    const slot = briefingSlot(at("2026-10-20T07:00:00Z"), "05:30");
+    expect(slot.toISOString()).toBe("2026-10-19T22:30:00.000Z");
+    expect(dailyBriefingId(slot)).toBe("harian-2026-10-20");
+  });
+
+  it("keeps the scheduled run itself on its own slot", () => {
+    const slot = briefingSlot(at("2026-10-19T22:30:00Z"), "05:30");
+    expect(slot.toISOString()).toBe("2026-10-19T22:30:00.000Z");
+  });
+
+  it("anchors a run before the scheduled time to the previous day", () => {
+    // 03:00 WIB on 20 Oct
+    const slot = briefingSlot(at("2026-10-19T20:00:00Z"), "05:30");
+    expect(slot.toISOString()).toBe("2026-10-18T22:30:00.000Z");
+    expect(dailyBriefingId(slot)).toBe("harian-2026-10-19");
+  });
+});
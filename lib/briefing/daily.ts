@@ -0,0 +1,64 @@
+// =============================
+// Stored briefings and the daily run (server only).
+// The "briefing" job (lib/ingest/jobs.ts) runs once a day so the morning
+// brief for the last 24 hours is ready before the 06:00 WIB meeting. Briefings
+// for other periods are built on request and not stored.
+// =============================
+
+import { jakartaDay, presetRange, startOfJakartaDay, type DateRange } from "../daterange";
+import { createCollection, events, news, quotes } from "../store";
+import { taxonomy } from "../taxonomy/manage";
+import { buildBriefing, type Briefing } from "./build";
+
+export const briefings = createCollection<Briefing>("briefings");
+
+export type BriefingSummary = Pick<Briefing, "id" | "range" | "generatedAt" | "counts">;
+
+// CC_BRIEFING_AT=05:30; invalid values fall back to the default
+const timeOfDay = (value: string | undefined, fallback: string) => {
+  const m = /^([01]?\d|2[0-3]):([0-5]\d)$/.exec(value?.trim() ?? "");
+  return m ? `${m[1].padStart(2, "0")}:${m[2]}` : fallback;
+};
+
+// Scheduled time of the daily brief, "HH:MM" WIB
+export const BRIEFING_AT = timeOfDay(process.env.CC_BRIEFING_AT, "05:30");
+
+// Latest scheduled time at or before `now`: the brief a run at `now` stands for
+export function briefingSlot(now: Date, at = BRIEFING_AT) {
+  const [h, m] = at.split(":").map(Number);
+  const slot = startOfJakartaDay(jakartaDay(now)) + (h * 60 + m) * 60 * 1000;
+  return new Date(slot <= +now ? slot : slot - 24 * 60 * 60 * 1000);
+}
+
+// "harian-2026-10-20" for the daily brief, "periode-2026-10-13_2026-10-19" otherwise
+export const dailyBriefingId = (slot: Date) => `harian-${jakartaDay(slot)}`;
+export const rangeBriefingId = (range: DateRange) =>
+  `periode-${jakartaDay(range.from)}_${jakartaDay(+new Date(range.to) - 1)}`;
+
+export async function generateBriefing(range: DateRange, id: string, now = new Date()) {
+  const modes = (await taxonomy.all()).filter((t) => t.category === "mode").map((t) => t.label);
+  return buildBriefing(
+    { events: await events.all(), news: await news.all(), quotes: await quotes.all() },
+    range,
+    { id, modes, now }
+  );
+}
+
+// Builds and stores the brief for the 24 hours up to the latest scheduled
+// time, whenever it runs: a late or manual rerun rebuilds that day's brief
+// over the same period instead of shifting it to the time of the click
+export async function runDailyBriefing(now = new Date()) {
+  const slot = briefingSlot(now);
+  const id = dailyBriefingId(slot);
+  const existed = Boolean(await briefings.get(id));
+  const briefing = await briefings.put(
+    await generateBriefing(presetRange("24h", +slot), id, now)
+  );
+  return { briefing, inserted: !existed };
+}
+
+export async function listBriefings(): Promise<BriefingSummary[]> {
+  return (await briefings.all())
+    .map(({ id, range, generatedAt, counts }) => ({ id, range, generatedAt, counts }))
+    .sort((a, b) => b.range.to.localeCompare(a.range.to));
+}
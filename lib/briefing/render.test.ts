@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import type { Briefing, BriefingStory } from "./build";
+import { briefingHtml } from "./render";
+
+const story = (id: string, link: string): BriefingStory => ({
+  id,
+  title: `Berita ${id}`,
+  link,
+  publishedAt: "2026-10-19T02:00:00.000Z",
+  outlets: ["antaranews.com"],
+  reports: 1,
+  tone: "neutral",
+});
+
+const briefing = (stories: BriefingStory[]): Briefing => ({
+  id: "harian-2026-10-20",
+  range: { from: "2026-10-18T22:30:00.000Z", to: "2026-10-19T22:30:00.000Z" },
+  generatedAt: "2026-10-19T22:30:00.000Z",
+  counts: { events: 0, news: stories.length, quotes: 0, stories: stories.length },
+  tone: { positive: 0, neutral: stories.length, negative: 0 },
+  ministerEvents: [],
+  topStories: stories,
+  keyQuotes: [],
+  sections: [],
+  agenda: [],
+});
+
+describe("briefingHtml", () => {
+  it("links http(s) sources and shows anything else as plain text", () => {
+    const html = briefingHtml(
+      briefing([
+        story("a", "https://antaranews.com/berita/1"),
+        story("b", "javascript:alert(1)"),
+        story("c", "#"),
+      ])
+    );
+    expect(html).toContain('<a href="https://antaranews.com/berita/1">Berita a</a>');
+    expect(html).not.toContain("javascript:");
+    expect(html).toContain("Berita b");
+    expect(html).not.toMatch(/<a href="#">/);
+  });
+});
@@ -0,0 +1,189 @@
+// =============================
+// Downloadable "Laporan Harian" as a standalone HTML page or a PDF (server only).
+// Both follow the order of the in-app page: summary, the Minister's events,
+// top stories, key quotes, one part per transport mode, upcoming agenda.
+// =============================
+
+import { formatRange } from "../daterange";
+import { toPdf, type PdfBlock, type PdfColumn } from "../export/pdf";
+import { formatDateTime, zoneForLocation } from "../format";
+import { isHttpUrl } from "../ingest/text";
+import { VERIFICATION_LABEL } from "../quotes/verification";
+import { TONE_LABEL, TONES } from "../sentiment/lexicon";
+import type { Briefing, BriefingEvent, BriefingQuote, BriefingStory } from "./build";
+
+export const BRIEFING_TITLE = "Laporan Harian Kemenhub";
+
+export const briefingFilename = (b: Briefing, format: "html" | "pdf") =>
+  `laporan-${b.id}.${format}`;
+
+const eventTime = (e: BriefingEvent) => formatDateTime(e.date, zoneForLocation(e.location));
+
+const toneLine = (b: Briefing) =>
+  TONES.map((t) => `${TONE_LABEL[t]} ${b.tone[t]}`).join(", ");
+
+const countLine = (b: Briefing) =>
+  `${b.counts.events} event, ${b.counts.news} berita (${b.counts.stories} isu), ` +
+  `${b.counts.quotes} quote`;
+
+const outletLine = (s: BriefingStory) =>
+  `${s.outlets.join(", ")}${s.reports > s.outlets.length ? ` (${s.reports} laporan)` : ""}`;
+
+// =============================
+// HTML
+// =============================
+
+const esc = (s: string) =>
+  s
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// Stored links predate validation, so anything but http(s) renders as plain text
+const link = (text: string, href: string) =>
+  isHttpUrl(href) ? `<a href="${esc(href)}">${esc(text)}</a>` : esc(text);
+
+const htmlList = (items: string[], empty: string) =>
+  items.length
+    ? `<ul>${items.map((i) => `<li>${i}</li>`).join("")}</ul>`
+    : `<p class="muted">${esc(empty)}</p>`;
+
+const htmlEvent = (e: BriefingEvent) =>
+  `<span class="muted">${esc(eventTime(e))}</span> ${link(e.title, e.link)}` +
+  ` <span class="muted">- ${esc(e.location)}</span>` +
+  (e.attendedByMinister ? ` <span class="badge">Menhub hadir</span>` : "");
+
+const htmlStory = (s: BriefingStory) =>
+  `${link(s.title, s.link)} <span class="muted">- ${esc(outletLine(s))}</span>` +
+  ` <span class="tone tone-${s.tone}">${TONE_LABEL[s.tone]}</span>`;
+
+const htmlQuote = (q: BriefingQuote) =>
+  `<q>${esc(q.text)}</q> <span class="muted">- ${esc(q.speaker)}, ` +
+  `${esc(formatDateTime(q.date))} (${VERIFICATION_LABEL[q.verification]})</span>`;
+
+const STYLE = `
+body{font-family:system-ui,Segoe UI,Helvetica,Arial,sans-serif;color:#0f172a;
+max-width:860px;margin:32px auto;padding:0 16px;line-height:1.5}
+h1{margin-bottom:4px}h2{border-bottom:1px solid #e2e8f0;padding-bottom:4px;margin-top:28px}
+h3{margin-bottom:4px}li{margin:4px 0}a{color:#4338ca}.muted{color:#64748b}
+.badge{background:#fef3c7;color:#92400e;border-radius:9999px;padding:0 8px;font-size:12px}
+.tone{border-radius:9999px;padding:0 8px;font-size:12px;background:#f1f5f9}
+.tone-positive{background:#d1fae5;color:#065f46}.tone-negative{background:#fee2e2;color:#991b1b}
+@media print{a{color:inherit;text-decoration:none}}`;
+
+export function briefingHtml(b: Briefing) {
+  const sections = b.sections.map(
+    (s) =>
+      `<h3>${esc(s.mode)}</h3>` +
+      (s.topics.length
+        ? `<p class="muted">Topik: ${esc(s.topics.map(([t, n]) => `${t} (${n})`).join(", "))}</p>`
+        : "") +
+      htmlList(
+        [...s.events.map(htmlEvent), ...s.stories.map(htmlStory), ...s.quotes.map(htmlQuote)],
+        "-"
+      )
+  );
+  const body = [
+    `<h1>${BRIEFING_TITLE}</h1>`,
+    `<p class="muted">Periode ${esc(formatRange(b.range))} (WIB) - ` +
+      `dibuat ${esc(formatDateTime(b.generatedAt))}</p>`,
+    `<h2>Ringkasan</h2>`,
+    `<p>${esc(countLine(b))}.<br>Tone berita: ${esc(toneLine(b))}.</p>`,
+    `<h2>Kegiatan Menteri</h2>`,
+    htmlList(b.ministerEvents.map(htmlEvent), "Tidak ada kegiatan Menteri tercatat."),
+    `<h2>Berita Utama</h2>`,
+    htmlList(b.topStories.map(htmlStory), "Tidak ada berita pada periode ini."),
+    `<h2>Kutipan Kunci</h2>`,
+    htmlList(b.keyQuotes.map(htmlQuote), "Tidak ada quote pada periode ini."),
+    `<h2>Per Moda</h2>`,
+    sections.join("") || `<p class="muted">-</p>`,
+    `<h2>Agenda Mendatang</h2>`,
+    htmlList(b.agenda.map(htmlEvent), "Belum ada agenda."),
+  ].join("\n");
+  return (
+    `<!DOCTYPE html>\n<html lang="id"><head><meta charset="utf-8">` +
+    `<title>${BRIEFING_TITLE} - ${esc(formatRange(b.range))}</title>` +
+    `<style>${STYLE}</style></head><body>\n${body}\n</body></html>\n`
+  );
+}
+
+// =============================
+// PDF
+// =============================
+
+const eventRows = (list: BriefingEvent[]) =>
+  list.map((e) => [eventTime(e), e.title, e.location, e.attendedByMinister ? "Hadir" : "-"]);
+
+const EVENT_COLUMNS: PdfColumn[] = [
+  { label: "Waktu", width: 18 },
+  { label: "Kegiatan", width: 46 },
+  { label: "Lokasi", width: 24 },
+  { label: "Menhub", width: 10 },
+];
+
+const storyRows = (list: BriefingStory[]) =>
+  list.map((s) => [s.title, outletLine(s), TONE_LABEL[s.tone]]);
+
+const STORY_COLUMNS: PdfColumn[] = [
+  { label: "Berita", width: 56 },
+  { label: "Media", width: 30 },
+  { label: "Tone", width: 10 },
+];
+
+const quoteRows = (list: BriefingQuote[]) =>
+  list.map((q) => [`"${q.text}"`, q.speaker, VERIFICATION_LABEL[q.verification]]);
+
+const QUOTE_COLUMNS: PdfColumn[] = [
+  { label: "Kutipan", width: 62 },
+  { label: "Pembicara", width: 20 },
+  { label: "Verifikasi", width: 16 },
+];
+
+export function briefingPdf(b: Briefing, now = new Date()) {
+  const blocks: PdfBlock[] = [
+    { kind: "title", text: BRIEFING_TITLE },
+    {
+      kind: "text",
+      text: `Periode ${formatRange(b.range)} (WIB), dibuat ${formatDateTime(b.generatedAt)}`,
+      muted: true,
+    },
+    { kind: "heading", text: "Ringkasan" },
+    { kind: "text", text: `${countLine(b)}.` },
+    { kind: "text", text: `Tone berita: ${toneLine(b)}.` },
+  ];
+  const part = (heading: string, rows: string[][], table: PdfBlock, empty: string) => {
+    blocks.push({ kind: "heading", text: heading });
+    blocks.push(rows.length ? table : { kind: "text", text: empty, muted: true });
+  };
+  const table = (columns: PdfColumn[], rows: string[][]): PdfBlock => ({
+    kind: "table",
+    columns,
+    rows,
+  });
+
+  const minister = eventRows(b.ministerEvents);
+  part("Kegiatan Menteri", minister, table(EVENT_COLUMNS, minister), "Tidak ada kegiatan.");
+  const stories = storyRows(b.topStories);
+  part("Berita Utama", stories, table(STORY_COLUMNS, stories), "Tidak ada berita.");
+  const quotes = quoteRows(b.keyQuotes);
+  part("Kutipan Kunci", quotes, table(QUOTE_COLUMNS, quotes), "Tidak ada quote.");
+
+  b.sections.forEach((s) => {
+    blocks.push({ kind: "heading", text: `Moda: ${s.mode}` });
+    if (s.topics.length) {
+      const topics = s.topics.map(([t, n]) => `${t} (${n})`).join(", ");
+      blocks.push({ kind: "text", text: `Topik: ${topics}`, muted: true });
+    }
+    if (s.events.length) blocks.push(table(EVENT_COLUMNS, eventRows(s.events)));
+    if (s.stories.length) blocks.push(table(STORY_COLUMNS, storyRows(s.stories)));
+    if (s.quotes.length) blocks.push(table(QUOTE_COLUMNS, quoteRows(s.quotes)));
+    blocks.push({ kind: "spacer" });
+  });
+
+  const agenda = eventRows(b.agenda);
+  part("Agenda Mendatang", agenda, table(EVENT_COLUMNS, agenda), "Belum ada agenda.");
+
+  const footer = `${BRIEFING_TITLE}, ${formatRange(b.range)}`;
+  return toPdf({ title: BRIEFING_TITLE, blocks, footer }, now);
+}
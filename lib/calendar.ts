@@ -0,0 +1,116 @@
+// =============================
+// Calendar views and the event feed (pure; client and server safe).
+// The month view shows whole Monday-to-Sunday weeks around the month; days
+// are Jakarta days. Feed parameters carry the dashboard filters into the
+// .ics URL so a subscribed calendar shows the same events as the tab.
+// =============================
+
+import {
+  addDays,
+  customRange,
+  jakartaDay,
+  monthStart,
+  weekStart,
+  type DateRange,
+} from "./daterange";
+import { EMPTY_TAG_FILTER, type TagFilter } from "./facets";
+import { filterEvents, searchFilter } from "./filters";
+import type { EventItem } from "./types";
+
+export type CalendarView = "month" | "week";
+
+// Days shown for the view containing `anchor` ("YYYY-MM-DD")
+export function calendarDays(view: CalendarView, anchor: string) {
+  const first = view === "month" ? weekStart(monthStart(anchor)) : weekStart(anchor);
+  const lastOfMonth = addDays(monthStart(anchor, 1), -1);
+  const last = view === "month" ? addDays(weekStart(lastOfMonth), 6) : addDays(first, 6);
+  const days: string[] = [];
+  for (let d = first; d <= last; d = addDays(d, 1)) days.push(d);
+  return days;
+}
+
+// The month or week itself, without the padding days of the month grid
+export function calendarRange(view: CalendarView, anchor: string): DateRange {
+  if (view === "week") return customRange(weekStart(anchor), addDays(weekStart(anchor), 6));
+  return customRange(monthStart(anchor), addDays(monthStart(anchor, 1), -1));
+}
+
+// Anchor `n` months or weeks away
+export const shiftAnchor = (view: CalendarView, anchor: string, n: number) =>
+  view === "month" ? monthStart(anchor, n) : addDays(weekStart(anchor), 7 * n);
+
+// Events per Jakarta day, earliest first within the day
+export function eventsByDay(items: EventItem[]) {
+  const byDay = new Map<string, EventItem[]>();
+  [...items]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .forEach((e) => {
+      const day = jakartaDay(e.date);
+      byDay.set(day, [...(byDay.get(day) ?? []), e]);
+    });
+  return byDay;
+}
+
+// Filters of the .ics feed; without from/to the feed is a rolling window
+export type FeedParams = {
+  // "YYYY-MM-DD", both inclusive
+  from?: string;
+  to?: string;
+  onlyMinister: boolean;
+  tags: TagFilter;
+  // Search box text, same syntax as the dashboard
+  q?: string;
+};
+
+// Rolling window of a subscription: recent past plus the upcoming agenda
+export const FEED_DAYS_BACK = 30;
+export const FEED_DAYS_AHEAD = 180;
+
+const DAY_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function feedSearchParams(p: FeedParams) {
+  const sp = new URLSearchParams();
+  if (p.from) sp.set("from", p.from);
+  if (p.to) sp.set("to", p.to);
+  if (p.onlyMinister) sp.set("minister", "1");
+  p.tags.include.forEach((t) => sp.append("tag", t));
+  p.tags.exclude.forEach((t) => sp.append("exclude", t));
+  if (p.tags.include.length > 1) sp.set("mode", p.tags.mode);
+  if (p.q?.trim()) sp.set("q", p.q.trim());
+  return sp;
+}
+
+// Unknown or malformed values fall back to "no filter"
+export function parseFeedParams(sp: URLSearchParams): FeedParams {
+  const day = (key: string) => {
+    const v = sp.get(key) ?? "";
+    return DAY_RE.test(v) ? v : undefined;
+  };
+  return {
+    from: day("from"),
+    to: day("to"),
+    onlyMinister: sp.get("minister") === "1",
+    tags: {
+      include: sp.getAll("tag").filter(Boolean),
+      exclude: sp.getAll("exclude").filter(Boolean),
+      mode: sp.get("mode") === "and" ? "and" : EMPTY_TAG_FILTER.mode,
+    },
+    q: sp.get("q") ?? undefined,
+  };
+}
+
+export function feedRange(p: FeedParams, now = Date.now()): DateRange {
+  const today = jakartaDay(now);
+  return customRange(
+    p.from ?? addDays(today, -FEED_DAYS_BACK),
+    p.to ?? addDays(today, FEED_DAYS_AHEAD)
+  );
+}
+
+// Events of the feed, oldest first
+export function filterFeedEvents(items: EventItem[], p: FeedParams, now = Date.now()) {
+  const search = searchFilter({ events: items, news: [], quotes: [] }, p.q ?? "");
+  return filterEvents(items, { ...p, ...search, range: feedRange(p, now) }).sort((a, b) =>
+    a.date.localeCompare(b.date)
+  );
+}
@@ -0,0 +1,84 @@
+import { describe, expect, it } from "vitest";
+import {
+  PLATFORMS,
+  TEMPLATES,
+  captionLength,
+  eventSubject,
+  pickHashtags,
+  renderCaption,
+  toHashtag,
+  type PlatformId,
+} from "./caption";
+import type { EventItem } from "./types";
+
+const platform = (id: PlatformId) => PLATFORMS.find((p) => p.id === id)!;
+const template = (id: string) => TEMPLATES.find((t) => t.id === id)!;
+
+const event: EventItem = {
+  id: "evt-1",
+  title: "Peresmian Terminal Baru Bandara Kertajati",
+  date: "2026-10-20T02:00:00.000Z",
+  location: "Majalengka",
+  attendedByMinister: true,
+  source: "dephub.go.id",
+  tags: ["Udara", "Integrasi Moda"],
+  summary: "Terminal melayani 5 juta penumpang per tahun.",
+  link: "https://dephub.go.id/agenda/1",
+};
+
+describe("hashtags", () => {
+  it("camel-cases tags and keeps the base hashtags first", () => {
+    expect(toHashtag("Integrasi Moda")).toBe("#IntegrasiModa");
+    expect(toHashtag("--")).toBe("");
+    expect(pickHashtags(["kemenhub", "Udara"], 3)).toEqual([
+      "#Kemenhub",
+      "#Transportasi",
+      "#Udara",
+    ]);
+  });
+});
+
+describe("renderCaption", () => {
+  it("always cites the date and source link", () => {
+    const { text, warnings } = renderCaption(
+      eventSubject(event),
+      template("kegiatan"),
+      platform("instagram")
+    );
+    expect(text).toContain("Menhub: Peresmian Terminal Baru Bandara Kertajati di Majalengka.");
+    expect(text).toContain("Sumber: dephub.go.id, 20 Oktober 2026\nhttps://dephub.go.id/agenda/1");
+    expect(text).toContain("#Kemenhub #Transportasi #Udara #IntegrasiModa");
+    expect(warnings).toEqual([]);
+  });
+
+  it("shortens the body to fit X but keeps the citation", () => {
+    const long = { ...event, summary: "Kalimat panjang tentang terminal. ".repeat(20) };
+    const x = platform("x");
+    const result = renderCaption(eventSubject(long), template("ringkas"), x);
+    expect(result.length).toBeLessThanOrEqual(x.maxLength);
+    expect(result.length).toBe(captionLength(result.text, x));
+    expect(result.text).toContain("...");
+    expect(result.text).toContain("20 Oktober 2026 - https://dephub.go.id/agenda/1");
+  });
+
+  it("counts every link as 23 characters on X", () => {
+    const text = "a https://example.com/very/long/path/to/article";
+    expect(captionLength(text, platform("x"))).toBe(25);
+  });
+
+  it("warns when the item has no link", () => {
+    const result = renderCaption(
+      eventSubject({ ...event, link: "#" }),
+      template("ringkas"),
+      platform("facebook")
+    );
+    expect(result.warnings).toContain("Tautan sumber belum tersedia");
+    expect(result.text).not.toContain("#\n");
+  });
+
+  it("bolds the title for WhatsApp without hashtags", () => {
+    const { text } = renderCaption(eventSubject(event), template("ringkas"), platform("whatsapp"));
+    expect(text.startsWith("*Peresmian Terminal Baru Bandara Kertajati*")).toBe(true);
+    expect(text).not.toContain("#Kemenhub");
+  });
+});
@@ -0,0 +1,246 @@
+// =============================
+// Platform-aware caption generator (client and server safe).
+// A template shapes the body; the platform profile adds the source citation
+// (date + link, per the editorial guideline), picks hashtags and enforces the
+// character limit by shortening the body, never the citation.
+// =============================
+
+import type { EventItem, NewsItem, QuoteItem } from "./types";
+
+export type PlatformId = "instagram" | "x" | "facebook" | "whatsapp";
+
+export type PlatformProfile = {
+  id: PlatformId;
+  label: string;
+  maxLength: number;
+  hashtagLimit: number;
+  // Counted length of every URL (X wraps links with t.co)
+  urlLength?: number;
+  // Placeholders: {source} {date} {link}
+  citation: string;
+  boldTitle?: boolean;
+};
+
+export const PLATFORMS: PlatformProfile[] = [
+  {
+    id: "instagram",
+    label: "Instagram",
+    maxLength: 2200,
+    hashtagLimit: 8,
+    citation: "Sumber: {source}, {date}\n{link}",
+  },
+  {
+    id: "x",
+    label: "X",
+    maxLength: 280,
+    hashtagLimit: 2,
+    urlLength: 23,
+    citation: "{date} - {link}",
+  },
+  {
+    id: "facebook",
+    label: "Facebook",
+    maxLength: 63206,
+    hashtagLimit: 3,
+    citation: "Sumber: {source}, {date} - {link}",
+  },
+  {
+    id: "whatsapp",
+    label: "WhatsApp broadcast",
+    maxLength: 65536,
+    hashtagLimit: 0,
+    citation: "Sumber: {source}, {date}\n{link}",
+    boldTitle: true,
+  },
+];
+
+export type SubjectKind = "event" | "news" | "quote";
+
+// Common shape of whatever item the caption is about
+export type CaptionSubject = {
+  kind: SubjectKind;
+  id: string;
+  title: string;
+  summary: string;
+  date: string;
+  source: string;
+  link: string;
+  location: string;
+  speaker: string;
+  tags: string[];
+};
+
+export type CaptionTemplate = {
+  id: string;
+  label: string;
+  kinds: SubjectKind[];
+  // Placeholders: {title} {summary} {location} {speaker}
+  body: string;
+};
+
+export const TEMPLATES: CaptionTemplate[] = [
+  {
+    id: "ringkas",
+    label: "Ringkas",
+    kinds: ["event", "news"],
+    body: "{title}\n\n{summary}",
+  },
+  {
+    id: "kegiatan",
+    label: "Kegiatan Menhub",
+    kinds: ["event"],
+    body: "Menhub: {title} di {location}.\n\n{summary}",
+  },
+  {
+    id: "klasik",
+    label: "Klasik (Menhub: judul - info)",
+    kinds: ["event", "news"],
+    body: "Menhub: {title} - {summary}.",
+  },
+  {
+    id: "kutipan",
+    label: "Kutipan",
+    kinds: ["quote"],
+    body: "\"{title}\"\n- {speaker}\n\n{summary}",
+  },
+];
+
+export const BASE_HASHTAGS = ["Kemenhub", "Transportasi"];
+
+export const eventSubject = (e: EventItem): CaptionSubject => ({
+  kind: "event",
+  id: e.id,
+  title: e.title,
+  summary: e.summary ?? "",
+  date: e.date,
+  source: e.source,
+  link: e.link,
+  location: e.location,
+  speaker: "",
+  tags: e.tags ?? [],
+});
+
+export const newsSubject = (n: NewsItem): CaptionSubject => ({
+  kind: "news",
+  id: n.id,
+  title: n.title,
+  summary: n.summary ?? "",
+  date: n.publishedAt,
+  source: n.source,
+  link: n.link,
+  location: "",
+  speaker: "",
+  tags: n.entities ?? [],
+});
+
+export const quoteSubject = (q: QuoteItem): CaptionSubject => ({
+  kind: "quote",
+  id: q.id,
+  title: q.text,
+  summary: q.context ?? "",
+  date: q.date,
+  source: q.sources?.[0]?.outlet || q.speaker,
+  link: q.link,
+  location: "",
+  speaker: q.speaker,
+  tags: q.tags ?? [],
+});
+
+// "Integrasi Moda" -> "#IntegrasiModa"
+export function toHashtag(tag: string) {
+  const word = tag
+    .split(/[^A-Za-z0-9]+/)
+    .filter(Boolean)
+    .map((w) => w.charAt(0).toUpperCase() + w.slice(1))
+    .join("");
+  return word ? `#${word}` : "";
+}
+
+export function pickHashtags(tags: string[], limit: number) {
+  const all = [...BASE_HASHTAGS, ...tags].map(toHashtag).filter(Boolean);
+  return [...new Set(all)].slice(0, limit);
+}
+
+export function captionLength(text: string, platform: PlatformProfile) {
+  if (!platform.urlLength) return text.length;
+  return text.replace(/https?:\/\/\S+/g, "x".repeat(platform.urlLength)).length;
+}
+
+const formatCaptionDate = (iso: string) =>
+  new Date(iso).toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "long",
+    year: "numeric",
+    timeZone: "Asia/Jakarta",
+  });
+
+const fill = (tpl: string, vars: Record<string, string>) =>
+  tpl
+    .replace(/\{(\w+)\}/g, (_, k: string) => vars[k] ?? "")
+    .split("\n")
+    // Drop lines left empty or dangling by a missing placeholder
+    .filter((line, i, lines) => line.trim() || (i > 0 && lines[i - 1].trim()))
+    .join("\n")
+    .trim();
+
+function shorten(s: string, by: number) {
+  const target = Math.max(0, s.length - by - 3);
+  if (target < 10) return "";
+  const cut = s.slice(0, target);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > target * 0.6 ? cut.slice(0, space) : cut).trimEnd()}...`;
+}
+
+export type RenderedCaption = {
+  text: string;
+  length: number;
+  maxLength: number;
+  warnings: string[];
+};
+
+export function renderCaption(
+  subject: CaptionSubject,
+  template: CaptionTemplate,
+  platform: PlatformProfile
+): RenderedCaption {
+  const warnings: string[] = [];
+  const hasLink = subject.link && subject.link !== "#";
+  if (!hasLink) warnings.push("Tautan sumber belum tersedia");
+
+  const citation = fill(platform.citation, {
+    source: subject.source,
+    date: formatCaptionDate(subject.date),
+    link: hasLink ? subject.link : "",
+  }).replace(/\s+-\s*$/, "");
+  let hashtags = pickHashtags(subject.tags, platform.hashtagLimit).join(" ");
+
+  const vars = {
+    title: subject.title,
+    summary: subject.summary.replace(/\.$/, ""),
+    location: subject.location,
+    speaker: subject.speaker,
+  };
+  const compose = () => {
+    const title =
+      platform.boldTitle && subject.kind !== "quote" ? `*${vars.title}*` : vars.title;
+    return [fill(template.body, { ...vars, title }), citation, hashtags]
+      .filter(Boolean)
+      .join("\n\n");
+  };
+
+  let text = compose();
+  // Shorten the summary first, then the title; the citation always stays
+  for (const key of ["summary", "title"] as const) {
+    const over = captionLength(text, platform) - platform.maxLength;
+    if (over <= 0) break;
+    vars[key] = shorten(vars[key], over);
+    text = compose();
+  }
+  if (captionLength(text, platform) > platform.maxLength && hashtags) {
+    hashtags = "";
+    text = compose();
+  }
+  const length = captionLength(text, platform);
+  if (length > platform.maxLength) warnings.push(`Melebihi batas ${platform.label}`);
+  return { text, length, maxLength: platform.maxLength, warnings };
+}
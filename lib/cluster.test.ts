@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import { canonicalLink, clusterNews } from "./cluster";
+import type { NewsItem } from "./types";
+
+const news = (id: string, title: string, source: string, publishedAt: string, link = "#") =>
+  ({ id, title, source, publishedAt, link }) satisfies NewsItem;
+
+describe("canonicalLink", () => {
+  it("ignores tracking params, mobile hosts, fragments and trailing slashes", () => {
+    expect(canonicalLink("https://m.detik.com/berita/123/?utm_source=x&id=5#top")).toBe(
+      "detik.com/berita/123?id=5"
+    );
+    expect(canonicalLink("bukan url")).toBe("bukan url");
+  });
+});
+
+describe("clusterNews", () => {
+  it("groups similar reports and keeps the earliest as primary", () => {
+    const clusters = clusterNews([
+      news("a", "Tol Cisumdawu dibuka untuk mudik Lebaran", "Kompas", "2026-10-19T03:00:00Z"),
+      news("b", "Tol Cisumdawu resmi dibuka untuk mudik", "Detik", "2026-10-19T01:00:00Z"),
+      news("c", "Tarif KRL naik mulai November", "Antara", "2026-10-19T02:00:00Z"),
+    ]);
+    expect(clusters).toHaveLength(2);
+    const tol = clusters.find((c) => c.id === "b");
+    expect(tol?.others.map((n) => n.id)).toEqual(["a"]);
+    expect(tol?.outlets).toEqual(["Detik", "Kompas"]);
+    expect(tol?.latestAt).toBe("2026-10-19T03:00:00Z");
+    // Newest story first
+    expect(clusters[0].id).toBe("b");
+  });
+
+  it("joins reports sharing a canonical link even far apart in time", () => {
+    const clusters = clusterNews([
+      news("a", "Judul pertama", "Antara", "2026-10-01T00:00:00Z", "https://antaranews.com/x/"),
+      news("b", "Judul berbeda", "Antara", "2026-10-19T00:00:00Z", "https://www.antaranews.com/x"),
+    ]);
+    expect(clusters).toHaveLength(1);
+  });
+
+  it("keeps similar reports apart outside the time window", () => {
+    const clusters = clusterNews(
+      [
+        news("a", "Kapal tenggelam di Selat Sunda", "Kompas", "2026-10-01T00:00:00Z"),
+        news("b", "Kapal tenggelam di Selat Sunda", "Detik", "2026-10-05T00:00:00Z"),
+      ],
+      { windowHours: 48 }
+    );
+    expect(clusters).toHaveLength(2);
+  });
+
+  it("links stories transitively", () => {
+    const clusters = clusterNews(
+      [
+        news("a", "banjir rob pelabuhan tanjung emas", "A", "2026-10-19T00:00:00Z"),
+        news("b", "banjir rob pelabuhan semarang ditutup", "B", "2026-10-19T01:00:00Z"),
+        news("c", "pelabuhan semarang ditutup sementara", "C", "2026-10-19T02:00:00Z"),
+      ],
+      { threshold: 0.4 }
+    );
+    expect(clusters).toHaveLength(1);
+    expect(clusters[0].outlets).toEqual(["A", "B", "C"]);
+  });
+});
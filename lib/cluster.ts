@@ -0,0 +1,110 @@
+// =============================
+// Cross-source news deduplication and story clustering (client and server safe).
+// Two items belong to the same story when they share a canonical link, or when
+// their wording is similar enough and they were published close together.
+// Clustering is single-linkage, so A~B and B~C puts A, B and C together.
+// =============================
+
+import { tokenize } from "./tokenize";
+import type { NewsItem } from "./types";
+
+export type NewsCluster = {
+  // Id of the primary item
+  id: string;
+  // Earliest report of the story
+  primary: NewsItem;
+  // Other coverage, newest first
+  others: NewsItem[];
+  // Distinct outlets covering the story (primary included)
+  outlets: string[];
+  latestAt: string;
+};
+
+export type ClusterOptions = {
+  // Jaccard similarity (0..1) on title or title+summary words
+  threshold?: number;
+  // Max time between two reports of the same story
+  windowHours?: number;
+};
+
+// Strip tracking params, fragments and trailing slashes so syndicated links compare equal
+export function canonicalLink(link: string) {
+  try {
+    const u = new URL(link);
+    [...u.searchParams.keys()]
+      .filter((k) => k.startsWith("utm_") || k === "amp" || k === "page")
+      .forEach((k) => u.searchParams.delete(k));
+    u.hash = "";
+    const host = u.hostname.replace(/^(www|m|amp)\./, "");
+    return `${host}${u.pathname.replace(/\/+$/, "")}${u.search}`;
+  } catch {
+    return link;
+  }
+}
+
+function jaccard(a: Set<string>, b: Set<string>) {
+  if (a.size === 0 || b.size === 0) return 0;
+  let inter = 0;
+  a.forEach((w) => {
+    if (b.has(w)) inter++;
+  });
+  return inter / (a.size + b.size - inter);
+}
+
+export function clusterNews(items: NewsItem[], opts: ClusterOptions = {}): NewsCluster[] {
+  const threshold = opts.threshold ?? 0.4;
+  const windowMs = (opts.windowHours ?? 48) * 60 * 60 * 1000;
+
+  const prepared = items.map((n) => ({
+    item: n,
+    time: +new Date(n.publishedAt),
+    link: n.link && n.link !== "#" ? canonicalLink(n.link) : "",
+    title: new Set(tokenize(n.title)),
+    all: new Set(tokenize(`${n.title} ${n.summary ?? ""}`)),
+  }));
+
+  // Union-find over item indexes
+  const parent = prepared.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const union = (a: number, b: number) => {
+    parent[find(a)] = find(b);
+  };
+
+  for (let i = 0; i < prepared.length; i++) {
+    for (let j = i + 1; j < prepared.length; j++) {
+      const a = prepared[i];
+      const b = prepared[j];
+      if (a.link && a.link === b.link) {
+        union(i, j);
+        continue;
+      }
+      if (Math.abs(a.time - b.time) > windowMs) continue;
+      const score = Math.max(jaccard(a.title, b.title), jaccard(a.all, b.all));
+      if (score >= threshold) union(i, j);
+    }
+  }
+
+  const groups = new Map<number, typeof prepared>();
+  prepared.forEach((p, i) => {
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), p]);
+  });
+
+  return [...groups.values()]
+    .map((group) => {
+      const byTime = [...group].sort((a, b) => a.time - b.time);
+      const primary = byTime[0].item;
+      const others = byTime
+        .slice(1)
+        .map((p) => p.item)
+        .reverse();
+      return {
+        id: primary.id,
+        primary,
+        others,
+        outlets: [...new Set(byTime.map((p) => p.item.source))],
+        latestAt: byTime[byTime.length - 1].item.publishedAt,
+      };
+    })
+    .sort((a, b) => +new Date(b.latestAt) - +new Date(a.latestAt));
+}
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { toCsv } from "./csv";
+
+const row = (cells: Parameters<typeof toCsv>[1][number]) =>
+  toCsv(["a"], [cells]).replace("\uFEFF", "").split("\r\n")[1];
+
+describe("toCsv", () => {
+  it("quotes cells with commas, quotes and line breaks", () => {
+    expect(row(['Menhub, "tegas"', "baris\nbaru", 3, null])).toBe(
+      '"Menhub, ""tegas""","baris\nbaru",3,'
+    );
+  });
+
+  it("keeps text that starts like a formula from running", () => {
+    expect(row(["=HYPERLINK(\"http://x\")", "+62 21", "-", "@SUM(A1)"])).toBe(
+      `"'=HYPERLINK(""http://x"")",'+62 21,'-,'@SUM(A1)`
+    );
+    expect(row(["\tisi", "\risi"])).toBe(`'\tisi,"'\risi"`);
+  });
+
+  it("leaves negative numbers alone", () => {
+    expect(row([-5, "Rp -5"])).toBe("-5,Rp -5");
+  });
+});
@@ -0,0 +1,20 @@
+// =============================
+// CSV writer (pure; client and server safe).
+// RFC 4180 quoting with CRLF line ends; a BOM in front so Excel reads UTF-8.
+// Text that a spreadsheet would run as a formula gets a leading apostrophe.
+// =============================
+
+export type CsvCell = string | number | boolean | null | undefined;
+
+// Titles and quotes come from outside sources; "=HYPERLINK(...)" must stay text
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const cell = (v: CsvCell) => {
+  let s = v === null || v === undefined ? "" : String(v);
+  if (typeof v === "string" && FORMULA_START.test(s)) s = `'${s}`;
+  return /[",\r\n]/.test(s) ? `"${s.replace(/"/g, '""')}"` : s;
+};
+
+export function toCsv(header: string[], rows: CsvCell[][]) {
+  return "\uFEFF" + [header, ...rows].map((r) => r.map(cell).join(",")).join("\r\n") + "\r\n";
+}
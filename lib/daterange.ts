@@ -0,0 +1,171 @@
+// =============================
+// Date ranges for the dashboard filters (client and server safe).
+// Calendar presets ("minggu ini", "bulan lalu") and custom days are computed
+// in Jakarta time regardless of the browser's zone. Indonesia has no DST, so
+// WIB is a fixed UTC+7 offset.
+// =============================
+
+// ISO instants; `to` is exclusive
+export type DateRange = { from: string; to: string };
+
+export type RangePreset =
+  | "24h"
+  | "7d"
+  | "30d"
+  | "90d"
+  | "today"
+  | "this-week"
+  | "last-week"
+  | "this-month"
+  | "last-month"
+  | "next-7d"
+  | "next-30d"
+  | "next-week"
+  | "next-month"
+  | "custom";
+
+export const RANGE_PRESETS: Array<{ id: RangePreset; label: string }> = [
+  { id: "24h", label: "24 jam" },
+  { id: "7d", label: "7 hari" },
+  { id: "30d", label: "30 hari" },
+  { id: "90d", label: "90 hari" },
+  { id: "today", label: "Hari ini" },
+  { id: "this-week", label: "Minggu ini" },
+  { id: "last-week", label: "Minggu lalu" },
+  { id: "this-month", label: "Bulan ini" },
+  { id: "last-month", label: "Bulan lalu" },
+  // Upcoming agenda
+  { id: "next-7d", label: "7 hari ke depan" },
+  { id: "next-30d", label: "30 hari ke depan" },
+  { id: "next-week", label: "Minggu depan" },
+  { id: "next-month", label: "Bulan depan" },
+  { id: "custom", label: "Kustom..." },
+];
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+const WIB_OFFSET = 7 * HOUR;
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// Calendar day in Jakarta as "YYYY-MM-DD"
+export function jakartaDay(at: Date | string | number = Date.now()) {
+  const d = new Date(+new Date(at) + WIB_OFFSET);
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-${pad(d.getUTCDate())}`;
+}
+
+// Midnight WIB of a "YYYY-MM-DD" day, as epoch ms
+export const startOfJakartaDay = (day: string) => +new Date(`${day}T00:00:00+07:00`);
+
+// "YYYY-MM-DD" `n` days later (or earlier when negative)
+export const addDays = (day: string, n: number) => jakartaDay(startOfJakartaDay(day) + n * DAY);
+
+// First day of the month `offset` months from `day`
+export function monthStart(day: string, offset = 0) {
+  const [y, m] = day.split("-").map(Number);
+  const d = new Date(Date.UTC(y, m - 1 + offset, 1));
+  return `${d.getUTCFullYear()}-${pad(d.getUTCMonth() + 1)}-01`;
+}
+
+// Weeks start on Monday (Senin)
+export function weekStart(day: string) {
+  const weekday = new Date(`${day}T00:00:00Z`).getUTCDay();
+  return addDays(day, -((weekday + 6) % 7));
+}
+
+const span = (fromDay: string, toDayExclusive: string): DateRange => ({
+  from: new Date(startOfJakartaDay(fromDay)).toISOString(),
+  to: new Date(startOfJakartaDay(toDayExclusive)).toISOString(),
+});
+
+// Both days inclusive; swapped if given in reverse
+export function customRange(fromDay: string, toDay: string): DateRange {
+  const [a, b] = fromDay <= toDay ? [fromDay, toDay] : [toDay, fromDay];
+  return span(a, addDays(b, 1));
+}
+
+export function presetRange(preset: Exclude<RangePreset, "custom">, now = Date.now()): DateRange {
+  const rolling = (days: number) => ({
+    from: new Date(now - days * DAY).toISOString(),
+    to: new Date(now).toISOString(),
+  });
+  const ahead = (days: number) => ({
+    from: new Date(now).toISOString(),
+    to: new Date(now + days * DAY).toISOString(),
+  });
+  const today = jakartaDay(now);
+  switch (preset) {
+    case "24h":
+      return rolling(1);
+    case "7d":
+      return rolling(7);
+    case "30d":
+      return rolling(30);
+    case "90d":
+      return rolling(90);
+    case "today":
+      return span(today, addDays(today, 1));
+    case "this-week":
+      return span(weekStart(today), addDays(weekStart(today), 7));
+    case "last-week":
+      return span(addDays(weekStart(today), -7), weekStart(today));
+    case "this-month":
+      return span(monthStart(today), monthStart(today, 1));
+    case "last-month":
+      return span(monthStart(today, -1), monthStart(today));
+    case "next-7d":
+      return ahead(7);
+    case "next-30d":
+      return ahead(30);
+    case "next-week":
+      return span(addDays(weekStart(today), 7), addDays(weekStart(today), 14));
+    case "next-month":
+      return span(monthStart(today, 1), monthStart(today, 2));
+  }
+}
+
+// The period just before: the previous calendar month for whole months,
+// otherwise the same duration shifted back
+export function previousRange(range: DateRange): DateRange {
+  const fromDay = jakartaDay(range.from);
+  const toDay = jakartaDay(range.to);
+  const wholeMonths =
+    fromDay.endsWith("-01") &&
+    toDay.endsWith("-01") &&
+    startOfJakartaDay(fromDay) === +new Date(range.from) &&
+    startOfJakartaDay(toDay) === +new Date(range.to);
+  if (wholeMonths) {
+    const months =
+      (Number(toDay.slice(0, 4)) - Number(fromDay.slice(0, 4))) * 12 +
+      Number(toDay.slice(5, 7)) -
+      Number(fromDay.slice(5, 7));
+    return span(monthStart(fromDay, -months), fromDay);
+  }
+  const length = +new Date(range.to) - +new Date(range.from);
+  return {
+    from: new Date(+new Date(range.from) - length).toISOString(),
+    to: range.from,
+  };
+}
+
+// Every Jakarta day the range touches, oldest first
+export function daysInRange(range: DateRange) {
+  const last = jakartaDay(+new Date(range.to) - 1);
+  const days: string[] = [];
+  for (let d = jakartaDay(range.from); d <= last; d = addDays(d, 1)) days.push(d);
+  return days;
+}
+
+export const inRange = (iso: string, range: DateRange) => {
+  const t = +new Date(iso);
+  return t >= +new Date(range.from) && t < +new Date(range.to);
+};
+
+// "1 Okt - 31 Okt 2026" (days in Jakarta time, `to` shown inclusive)
+export function formatRange(range: DateRange) {
+  const last = new Date(+new Date(range.to) - 1);
+  const opts = { day: "numeric", month: "short", timeZone: "Asia/Jakarta" } as const;
+  const from = new Date(range.from).toLocaleDateString("id-ID", opts);
+  const to = last.toLocaleDateString("id-ID", { ...opts, year: "numeric" });
+  return `${from} - ${to}`;
+}
@@ -0,0 +1,152 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { DraftAction } from "./drafts";
+
+const ani = { id: "user-ani", name: "Ani" };
+const budi = { id: "user-budi", name: "Budi" };
+const citra = { id: "user-citra", name: "Citra" };
+
+async function load() {
+  vi.stubEnv("CC_DATA_DIR", mkdtempSync(path.join(tmpdir(), "cc-drafts-")));
+  vi.resetModules();
+  const mod = await import("./drafts");
+  // A fresh draft by Ani, already submitted for review
+  const submitted = async () => {
+    const created = await mod.createDraft({ text: "Menhub meninjau Merak", platform: "x" }, ani);
+    if (!created.ok) throw new Error(created.error);
+    await mod.transitionDraft(created.value.id, "submit", ani);
+    return created.value.id;
+  };
+  return { ...mod, submitted };
+}
+
+describe("createDraft", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("stores only the caption fields of the request", async () => {
+    const { createDraft } = await load();
+    const result = await createDraft(
+      {
+        text: "Teks",
+        platform: "x",
+        subject: { kind: "event", id: "evt-1", title: "Rapat" },
+        status: "approved",
+        approvedBy: "Budi",
+        postedAt: "2026-10-19T00:00:00.000Z",
+        versions: [],
+      } as Parameters<typeof createDraft>[0],
+      ani
+    );
+    if (!result.ok) throw new Error(result.error);
+    expect(result.value).toMatchObject({
+      status: "draft",
+      author: "Ani",
+      authorId: "user-ani",
+      subject: { kind: "event", id: "evt-1", title: "Rapat" },
+    });
+    expect(result.value).not.toHaveProperty("approvedBy");
+    expect(result.value).not.toHaveProperty("postedAt");
+    expect(result.value.versions).toHaveLength(1);
+  });
+
+  it("answers 400 for text that is not a string", async () => {
+    const { createDraft } = await load();
+    for (const text of [42, null, ["a"], { a: 1 }, "  "]) {
+      expect(await createDraft({ text, platform: "x" }, ani)).toMatchObject({
+        ok: false,
+        status: 400,
+      });
+    }
+    expect(await createDraft({ text: "a", platform: "x", subject: "evt-1" }, ani)).toMatchObject({
+      ok: false,
+      status: 400,
+    });
+  });
+});
+
+describe("editDraft", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("records the editor's account on the new version", async () => {
+    const { editDraft, submitted } = await load();
+    const id = await submitted();
+    const edited = await editDraft(id, "Teks baru", budi);
+    if (!edited.ok) throw new Error(edited.error);
+    expect(edited.value.status).toBe("draft");
+    expect(edited.value.versions.at(-1)).toMatchObject({ author: "Budi", authorId: budi.id });
+    expect(await editDraft(id, 7, budi)).toMatchObject({ ok: false, status: 400 });
+  });
+});
+
+describe("transitionDraft", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("keeps the author from approving by account, not by name", async () => {
+    const { drafts, submitted, transitionDraft } = await load();
+    const id = await submitted();
+
+    // Another display name on the same account is still the author
+    const renamed = await transitionDraft(id, "approve", { id: ani.id, name: "Ani S." });
+    expect(renamed).toMatchObject({ ok: false, status: 403 });
+    // A different account sharing the name may approve
+    const namesake = await transitionDraft(id, "approve", { id: "user-ani-2", name: "Ani" });
+    expect(namesake).toMatchObject({ ok: true, value: { status: "approved", approvedBy: "Ani" } });
+    expect((await drafts.get(id))?.status).toBe("approved");
+  });
+
+  it("keeps an editor from approving text they rewrote", async () => {
+    const { editDraft, submitted, transitionDraft } = await load();
+    const id = await submitted();
+    await editDraft(id, "Teks versi Budi", budi);
+    await transitionDraft(id, "submit", budi);
+
+    expect(await transitionDraft(id, "approve", budi)).toMatchObject({ ok: false, status: 403 });
+    expect(await transitionDraft(id, "approve", ani)).toMatchObject({ ok: false, status: 403 });
+    expect(await transitionDraft(id, "approve", citra)).toMatchObject({
+      ok: true,
+      value: { approvedBy: "Citra" },
+    });
+  });
+
+  it("falls back to names for drafts saved without account ids", async () => {
+    const { drafts, transitionDraft } = await load();
+    const at = "2026-10-19T00:00:00.000Z";
+    await drafts.put({
+      id: "draft-lama",
+      text: "Teks",
+      platform: "x",
+      author: "Budi",
+      status: "in-review",
+      versions: [{ text: "Teks", author: "Budi", at }],
+      transitions: [],
+      createdAt: at,
+      updatedAt: at,
+    });
+    const own = await transitionDraft("draft-lama", "approve", { id: "other", name: "Budi" });
+    expect(own).toMatchObject({ ok: false, status: 403 });
+    expect(await transitionDraft("draft-lama", "approve", ani)).toMatchObject({ ok: true });
+  });
+
+  it("rejects actions that only exist on the object prototype", async () => {
+    const { submitted, transitionDraft } = await load();
+    const id = await submitted();
+    for (const action of ["constructor", "toString", "__proto__"]) {
+      expect(await transitionDraft(id, action as DraftAction, budi)).toEqual({
+        ok: false,
+        status: 400,
+        error: "action tidak dikenal",
+      });
+    }
+  });
+});
@@ -0,0 +1,162 @@
+// =============================
+// Caption drafts with version history and an approval lifecycle (server only).
+//   draft -> in-review -> approved -> posted
+// A reviewer can send a draft back; editing an approved caption returns it to
+// draft, so "Siap diposting" always reflects the text an approver signed off.
+// =============================
+
+import { fail, ok, type Result } from "./result";
+import { createCollection, newId } from "./store";
+import type { AuditRef, CaptionDraft, DraftStatus, User } from "./types";
+
+export const drafts = createCollection<CaptionDraft>("drafts");
+
+export type DraftAction = "submit" | "approve" | "return" | "posted";
+
+// Allowed moves per action: from -> to
+const TRANSITIONS: Record<DraftAction, { from: DraftStatus[]; to: DraftStatus }> = {
+  submit: { from: ["draft"], to: "in-review" },
+  approve: { from: ["in-review"], to: "approved" },
+  return: { from: ["in-review", "approved"], to: "draft" },
+  posted: { from: ["approved"], to: "posted" },
+};
+
+// The POST body; status, versions and sign-off are never taken from it
+export type NewDraft = {
+  text?: unknown;
+  platform?: unknown;
+  template?: unknown;
+  subject?: unknown;
+};
+
+// Who writes or reviews: the signed-in user
+export type DraftActor = Pick<User, "id" | "name">;
+
+const SUBJECT_KINDS = ["event", "news", "quote"];
+
+function parseSubject(value: unknown): Result<CaptionDraft["subject"]> {
+  if (value === undefined || value === null) return ok(undefined);
+  const s = value as Record<string, unknown>;
+  if (
+    typeof s !== "object" ||
+    !SUBJECT_KINDS.includes(s.kind as string) ||
+    typeof s.id !== "string" ||
+    typeof s.title !== "string"
+  ) {
+    return fail(400, "subject harus { kind, id, title } event, berita atau kutipan");
+  }
+  return ok({ kind: s.kind as "event" | "news" | "quote", id: s.id, title: s.title });
+}
+
+const isText = (text: unknown): text is string => typeof text === "string" && !!text.trim();
+
+export async function createDraft(
+  input: NewDraft,
+  author: DraftActor
+): Promise<Result<CaptionDraft>> {
+  if (!isText(input.text)) return fail(400, "Teks caption kosong");
+  if (!author.name.trim()) return fail(400, "Nama penulis wajib diisi");
+  if (!isText(input.platform)) return fail(400, "Platform wajib diisi");
+  if (input.template !== undefined && typeof input.template !== "string") {
+    return fail(400, "template harus teks");
+  }
+  const subject = parseSubject(input.subject);
+  if (!subject.ok) return subject;
+  const now = new Date().toISOString();
+  const name = author.name.trim();
+  const draft: CaptionDraft = {
+    id: newId("draft"),
+    text: input.text,
+    platform: input.platform,
+    ...(input.template ? { template: input.template } : {}),
+    ...(subject.value ? { subject: subject.value } : {}),
+    author: name,
+    authorId: author.id,
+    status: "draft",
+    versions: [{ text: input.text, author: name, authorId: author.id, at: now }],
+    transitions: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  return ok(await drafts.put(draft));
+}
+
+// Everyone who wrote a version of the caption, the original author included.
+// Names can repeat or change, so accounts decide; older entries only have a name
+const wroteDraft = (d: CaptionDraft, user: DraftActor) =>
+  [{ author: d.author, authorId: d.authorId }, ...d.versions].some((v) =>
+    v.authorId ? v.authorId === user.id : v.author === user.name.trim()
+  );
+
+export async function editDraft(
+  id: string,
+  text: unknown,
+  editor: DraftActor
+): Promise<Result<CaptionDraft>> {
+  if (!isText(text)) return fail(400, "Teks caption kosong");
+  const author = editor.name;
+  if (!author.trim()) return fail(400, "Nama penulis wajib diisi");
+  // Checked and written under the lock so a concurrent approval can't slip in
+  return drafts.change(id, (d) => {
+    if (!d) return fail(404, `Draft ${id} tidak ditemukan`);
+    if (d.status === "posted") return fail(409, "Caption sudah diposting");
+    if (text === d.text) return ok(d);
+    const now = new Date().toISOString();
+    const reopened = d.status !== "draft";
+    return ok({
+      ...d,
+      text,
+      status: "draft",
+      versions: [...d.versions, { text, author: author.trim(), authorId: editor.id, at: now }],
+      transitions: reopened
+        ? [
+            ...d.transitions,
+            { from: d.status, to: "draft", by: author.trim(), at: now, note: "teks diubah" },
+          ]
+        : d.transitions,
+      approvedBy: undefined,
+      approvedAt: undefined,
+      updatedAt: now,
+    });
+  });
+}
+
+export async function transitionDraft(
+  id: string,
+  action: DraftAction,
+  user: DraftActor,
+  note?: string
+): Promise<Result<CaptionDraft>> {
+  // Own keys only: "constructor" or "toString" are not actions
+  if (!Object.hasOwn(TRANSITIONS, action)) return fail(400, "action tidak dikenal");
+  const rule = TRANSITIONS[action];
+  const by = user.name;
+  if (!by.trim()) return fail(400, "Nama wajib diisi");
+  return drafts.change(id, (d) => {
+    if (!d) return fail(404, `Draft ${id} tidak ditemukan`);
+    if (!rule.from.includes(d.status)) {
+      return fail(409, `Tidak bisa ${action} dari status ${d.status}`);
+    }
+    // Four-eyes rule: nobody approves a caption they wrote or edited
+    if (action === "approve" && wroteDraft(d, user)) {
+      return fail(403, "Penulis tidak boleh menyetujui caption sendiri");
+    }
+    const now = new Date().toISOString();
+    return ok({
+      ...d,
+      status: rule.to,
+      transitions: [
+        ...d.transitions,
+        { from: d.status, to: rule.to, by: by.trim(), at: now, ...(note ? { note } : {}) },
+      ],
+      ...(action === "approve" ? { approvedBy: by.trim(), approvedAt: now } : {}),
+      ...(action === "return" ? { approvedBy: undefined, approvedAt: undefined } : {}),
+      ...(action === "posted" ? { postedAt: now } : {}),
+      updatedAt: now,
+    });
+  });
+}
+
+// The item a caption is about, as referenced by the audit log
+export const draftSubject = (d: CaptionDraft): AuditRef | undefined =>
+  d.subject && { kind: d.subject.kind, id: d.subject.id, label: d.subject.title };
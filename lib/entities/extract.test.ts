@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import type { NewsItem } from "../types";
+import {
+  canonicalEntity,
+  entityTypeOf,
+  extractEntities,
+  groupEntities,
+  withExtractedEntities,
+} from "./extract";
+
+describe("extractEntities", () => {
+  it("returns canonical names in order of first mention", () => {
+    const text = "Menhub dan PT KAI meninjau arus mudik di Merak. Kemenhub siaga.";
+    expect(extractEntities(text)).toEqual([
+      "Menteri Perhubungan",
+      "KAI",
+      "Mudik",
+      "Pelabuhan Merak",
+      "Kementerian Perhubungan",
+    ]);
+  });
+
+  it("lets the longest alias claim its span", () => {
+    expect(extractEntities("Antrean di Pelabuhan Soekarno-Hatta")).toEqual([
+      "Pelabuhan Soekarno-Hatta Makassar",
+    ]);
+    expect(extractEntities("Penumpang tiba di Soekarno Hatta")).toEqual([
+      "Bandara Soekarno-Hatta",
+    ]);
+  });
+
+  it("matches capitalized aliases only when capitalized", () => {
+    expect(extractEntities("Kota Malang dan Medan")).toEqual(["Malang", "Medan"]);
+    expect(extractEntities("penumpang malang itu")).toEqual([]);
+    expect(extractEntities("kai")).toEqual([]);
+  });
+});
+
+describe("entity helpers", () => {
+  it("canonicalizes and types names, falling back to topics", () => {
+    expect(canonicalEntity(" kemenhub ")).toBe("Kementerian Perhubungan");
+    expect(canonicalEntity("Tol Baru")).toBe("Tol Baru");
+    expect(entityTypeOf("Menhub")).toBe("person");
+    expect(entityTypeOf("Tol Baru")).toBe("topic");
+  });
+
+  it("keeps existing entities first and skips duplicates", () => {
+    const item: NewsItem = {
+      id: "news-1",
+      title: "Menhub tinjau Merak",
+      source: "Antara",
+      publishedAt: "2026-10-19T02:00:00.000Z",
+      link: "https://antaranews.com/berita/1",
+      entities: ["menteri perhubungan", "Tol Baru"],
+    };
+    expect(withExtractedEntities(item).entities).toEqual([
+      "Menteri Perhubungan",
+      "Tol Baru",
+      "Pelabuhan Merak",
+    ]);
+  });
+
+  it("groups names by type and leaves out empty types", () => {
+    expect(groupEntities(["Menhub", "Tol Baru"])).toEqual([
+      { type: "person", label: "Tokoh", names: ["Menhub"] },
+      { type: "topic", label: "Topik", names: ["Tol Baru"] },
+    ]);
+  });
+});
@@ -0,0 +1,104 @@
+// =============================
+// Gazetteer entity extraction (pure; client and server safe).
+// The longest alias claims its span first, so "Wakil Menteri Perhubungan"
+// doesn't also yield the minister and "Pelabuhan Soekarno-Hatta" doesn't
+// yield the airport. Types are looked up by name, which keeps hand-entered
+// entities typed as well; names outside the gazetteer count as topics.
+// =============================
+
+import { tagKey } from "../taxonomy/synonyms";
+import type { EntityType, NewsItem } from "../types";
+import { GAZETTEER, type GazetteerEntry } from "./gazetteer";
+
+export const ENTITY_TYPES: Record<EntityType, string> = {
+  person: "Tokoh",
+  organization: "Organisasi",
+  place: "Lokasi",
+  topic: "Topik",
+};
+
+type Matcher = {
+  entry: GazetteerEntry;
+  length: number;
+  re: RegExp;
+  // Capitalized alias: the match must start with a capital too
+  capital: boolean;
+};
+
+const escapeRe = (s: string) => s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+function matcherFor(entry: GazetteerEntry, alias: string): Matcher {
+  const exact = !/[a-z]/.test(alias);
+  // Spaces and hyphens are interchangeable: "Soekarno Hatta" = "Soekarno-Hatta"
+  const body = alias.trim().split(/[\s-]+/).map(escapeRe).join("[\\s-]+");
+  return {
+    entry,
+    length: alias.length,
+    re: new RegExp(`(^|[^A-Za-z0-9])(${body})(?![A-Za-z0-9])`, exact ? "g" : "gi"),
+    capital: !exact && /^[A-Z]/.test(alias),
+  };
+}
+
+const MATCHERS = GAZETTEER.flatMap((e) => [e.name, ...e.aliases].map((a) => matcherFor(e, a)));
+MATCHERS.sort((a, b) => b.length - a.length);
+
+// Folded name or alias -> entry
+const ENTRY_BY_KEY = new Map<string, GazetteerEntry>();
+GAZETTEER.forEach((e) =>
+  [e.name, ...e.aliases].forEach((a) => {
+    if (!ENTRY_BY_KEY.has(tagKey(a))) ENTRY_BY_KEY.set(tagKey(a), e);
+  })
+);
+
+// "Kemenhub" -> "Kementerian Perhubungan"; unknown names are kept as given
+export const canonicalEntity = (name: string) =>
+  ENTRY_BY_KEY.get(tagKey(name))?.name ?? name.trim();
+
+// Canonical entity names in order of first mention
+export function extractEntities(text: string): string[] {
+  const taken = new Uint8Array(text.length);
+  const found: Array<{ name: string; at: number }> = [];
+  for (const m of MATCHERS) {
+    for (const hit of text.matchAll(m.re)) {
+      const start = (hit.index ?? 0) + hit[1].length;
+      const end = start + hit[2].length;
+      if (m.capital && !/[A-Z]/.test(text[start])) continue;
+      if (taken.subarray(start, end).some(Boolean)) continue;
+      taken.fill(1, start, end);
+      found.push({ name: m.entry.name, at: start });
+    }
+  }
+  const names: string[] = [];
+  found
+    .sort((a, b) => a.at - b.at)
+    .forEach(({ name }) => {
+      if (!names.includes(name)) names.push(name);
+    });
+  return names;
+}
+
+// Entities already on the item come first (in canonical spelling); extracted
+// ones are appended
+export function withExtractedEntities(item: NewsItem, keep: string[] = []): NewsItem {
+  const text = [item.title, item.summary, item.body].filter(Boolean).join("\n");
+  const entities: string[] = [];
+  [...keep, ...(item.entities ?? []), ...extractEntities(text)].forEach((raw) => {
+    const e = canonicalEntity(raw);
+    if (e && !entities.some((x) => tagKey(x) === tagKey(e))) entities.push(e);
+  });
+  return entities.length ? { ...item, entities } : item;
+}
+
+export const entityTypeOf = (name: string): EntityType =>
+  ENTRY_BY_KEY.get(tagKey(name))?.type ?? "topic";
+
+// Entities bucketed by type for display; empty types are left out
+export function groupEntities(names: string[]) {
+  return (Object.keys(ENTITY_TYPES) as EntityType[])
+    .map((type) => ({
+      type,
+      label: ENTITY_TYPES[type],
+      names: names.filter((n) => entityTypeOf(n) === type),
+    }))
+    .filter((g) => g.names.length > 0);
+}
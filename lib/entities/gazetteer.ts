@@ -0,0 +1,172 @@
+// =============================
+// Gazetteers for entity extraction (pure data; client and server safe).
+// One entry per real-world entity: the canonical name written on news items,
+// its type and the aliases outlets use. Aliases written in capitals only
+// ("KAI", "NTB") match case-sensitively and capitalized ones ("Medan",
+// "Malang") only when capitalized in the text, so they don't fire on ordinary
+// words; lowercase aliases match in any case.
+// Keep names in line with the quote speaker aliases (lib/quotes/extract.ts)
+// and the tag taxonomy labels (lib/taxonomy/manage.ts).
+// =============================
+
+import { PROVINCES as GEO_PROVINCES } from "../geo/gazetteer";
+import type { EntityType } from "../types";
+
+export type GazetteerEntry = {
+  name: string;
+  type: EntityType;
+  aliases: string[];
+};
+
+const entry = (type: EntityType) => (name: string, aliases: string[] = []): GazetteerEntry => ({
+  name,
+  type,
+  aliases,
+});
+
+const person = entry("person");
+const org = entry("organization");
+const place = entry("place");
+const topic = entry("topic");
+
+// Officials are tracked by office, not by name, so coverage survives reshuffles
+export const OFFICIALS: GazetteerEntry[] = [
+  person("Menteri Perhubungan", ["Menhub"]),
+  person("Wakil Menteri Perhubungan", ["Wamenhub"]),
+  person("Sekjen Kemenhub", [
+    "Sekretaris Jenderal Kemenhub",
+    "Sekretaris Jenderal Kementerian Perhubungan",
+  ]),
+  person("Dirjen Perhubungan Darat", ["Direktur Jenderal Perhubungan Darat", "Dirjen Hubdat"]),
+  person("Dirjen Perhubungan Laut", ["Direktur Jenderal Perhubungan Laut", "Dirjen Hubla"]),
+  person("Dirjen Perhubungan Udara", ["Direktur Jenderal Perhubungan Udara", "Dirjen Hubud"]),
+  person("Dirjen Perkeretaapian", ["Direktur Jenderal Perkeretaapian"]),
+];
+
+export const ORGANIZATIONS: GazetteerEntry[] = [
+  org("Kementerian Perhubungan", ["Kemenhub", "Kemhub", "Dephub"]),
+  org("Ditjen Perhubungan Darat", ["Direktorat Jenderal Perhubungan Darat", "Ditjen Hubdat"]),
+  org("Ditjen Perhubungan Laut", ["Direktorat Jenderal Perhubungan Laut", "Ditjen Hubla"]),
+  org("Ditjen Perhubungan Udara", ["Direktorat Jenderal Perhubungan Udara", "Ditjen Hubud"]),
+  org("Ditjen Perkeretaapian", ["Direktorat Jenderal Perkeretaapian", "DJKA"]),
+  org("KAI", ["PT KAI", "PT Kereta Api Indonesia", "Kereta Api Indonesia"]),
+  org("KAI Commuter", ["PT KCI", "KCI", "Kereta Commuter Indonesia"]),
+  org("KCIC", ["Kereta Cepat Indonesia China", "PT KCIC"]),
+  org("Pelni", ["PT Pelni", "Pelayaran Nasional Indonesia"]),
+  org("ASDP", ["PT ASDP", "ASDP Indonesia Ferry"]),
+  org("Pelindo", ["PT Pelindo", "Pelabuhan Indonesia"]),
+  org("Garuda Indonesia", ["Garuda", "PT Garuda Indonesia"]),
+  org("Citilink"),
+  org("Lion Air", ["Lion Air Group"]),
+  org("Angkasa Pura", ["Angkasa Pura I", "Angkasa Pura II", "InJourney Airports"]),
+  org("AirNav Indonesia", ["AirNav"]),
+  org("Damri", ["Perum Damri"]),
+  org("Transjakarta", ["PT Transjakarta"]),
+  org("KNKT", ["Komite Nasional Keselamatan Transportasi"]),
+  org("Basarnas", ["Badan SAR Nasional"]),
+  org("BMKG", ["Badan Meteorologi, Klimatologi, dan Geofisika"]),
+  org("Korlantas Polri", ["Korlantas"]),
+  org("DPR", ["Komisi V DPR", "Dewan Perwakilan Rakyat"]),
+];
+
+// Ports, airports, terminals and stations
+export const INFRASTRUCTURE: GazetteerEntry[] = [
+  place("Pelabuhan Tanjung Priok", ["Tanjung Priok"]),
+  place("Pelabuhan Tanjung Perak", ["Tanjung Perak"]),
+  place("Pelabuhan Merak", ["Merak"]),
+  place("Pelabuhan Bakauheni", ["Bakauheni"]),
+  place("Pelabuhan Ketapang", ["Ketapang"]),
+  place("Pelabuhan Gilimanuk", ["Gilimanuk"]),
+  place("Pelabuhan Patimban", ["Patimban"]),
+  place("Pelabuhan Soekarno-Hatta Makassar", ["Pelabuhan Soekarno-Hatta"]),
+  place("Pelabuhan Belawan", ["Belawan"]),
+  place("Bandara Soekarno-Hatta", ["Soekarno-Hatta", "Soetta", "Bandara Soetta"]),
+  place("Bandara Halim Perdanakusuma", ["Halim Perdanakusuma"]),
+  place("Bandara I Gusti Ngurah Rai", ["Bandara Ngurah Rai", "Ngurah Rai"]),
+  place("Bandara Juanda", ["Juanda"]),
+  place("Bandara Kualanamu", ["Kualanamu"]),
+  place("Bandara Sultan Hasanuddin", ["Sultan Hasanuddin"]),
+  place("Bandara Kertajati", ["Kertajati"]),
+  place("Bandara Yogyakarta International Airport", ["YIA", "Bandara YIA"]),
+  place("Bandara Sepinggan", ["Sepinggan", "Bandara SAMS Sepinggan"]),
+  place("Terminal Pulo Gebang", ["Pulo Gebang"]),
+  place("Terminal Kampung Rambutan", ["Kampung Rambutan"]),
+  place("Terminal Tirtonadi", ["Tirtonadi"]),
+  place("Terminal Purabaya", ["Purabaya", "Terminal Bungurasih", "Bungurasih"]),
+  place("Stasiun Gambir", ["Gambir"]),
+  place("Stasiun Pasar Senen", ["Pasar Senen"]),
+  place("Stasiun Manggarai", ["Manggarai"]),
+  place("Stasiun Halim", ["Stasiun Kereta Cepat Halim"]),
+  place("Stasiun Tegalluar", ["Tegalluar"]),
+];
+
+// Provinces with the abbreviations outlets use, shared with the map gazetteer
+export const PROVINCES: GazetteerEntry[] = GEO_PROVINCES.map((p) => place(p.name, p.aliases));
+
+export const CITIES: GazetteerEntry[] = [
+  place("Medan"),
+  place("Padang"),
+  place("Pekanbaru"),
+  place("Batam"),
+  place("Palembang"),
+  place("Bandar Lampung"),
+  place("Bogor"),
+  place("Depok"),
+  place("Tangerang"),
+  place("Bekasi"),
+  place("Cilegon"),
+  place("Bandung"),
+  place("Cirebon"),
+  place("Semarang"),
+  place("Surakarta", ["Solo"]),
+  place("Surabaya"),
+  place("Malang"),
+  place("Banyuwangi"),
+  place("Denpasar"),
+  place("Mataram"),
+  place("Labuan Bajo"),
+  place("Kupang"),
+  place("Pontianak"),
+  place("Banjarmasin"),
+  place("Balikpapan"),
+  place("Samarinda"),
+  place("Ibu Kota Nusantara", ["IKN"]),
+  place("Manado"),
+  place("Bitung"),
+  place("Palu"),
+  place("Makassar"),
+  place("Kendari"),
+  place("Ambon"),
+  place("Ternate"),
+  place("Sorong"),
+  place("Jayapura"),
+  place("Merauke"),
+];
+
+// Recurring themes; names match the tag taxonomy so filters line up
+export const TOPICS: GazetteerEntry[] = [
+  topic("Darat", ["angkutan darat", "angkutan jalan", "bus antarkota"]),
+  topic("Laut", ["pelayaran", "angkutan laut", "kapal penumpang", "kapal feri", "penyeberangan"]),
+  topic("Udara", ["penerbangan", "maskapai", "angkutan udara"]),
+  topic("Perkeretaapian", ["kereta api", "KRL", "LRT", "MRT"]),
+  topic("Kereta Cepat", ["kereta cepat", "Whoosh"]),
+  topic("Keselamatan", ["keselamatan transportasi", "keselamatan penerbangan", "keselamatan pelayaran"]),
+  topic("Kecelakaan", ["kecelakaan", "tabrakan"]),
+  topic("Mudik", ["arus mudik", "arus balik", "angkutan Lebaran", "Nataru"]),
+  topic("Tol Laut", ["tol laut"]),
+  topic("Integrasi Moda", ["integrasi antarmoda", "antarmoda"]),
+  topic("Bus Listrik", ["bus listrik", "kendaraan listrik"]),
+  topic("Emisi", ["emisi karbon", "dekarbonisasi"]),
+  topic("Kemacetan", ["kemacetan", "macet"]),
+  topic("Tarif", ["tarif", "harga tiket"]),
+  topic("Regulasi", ["peraturan menteri", "Permenhub", "regulasi"]),
+];
+
+export const GAZETTEER: GazetteerEntry[] = [
+  ...OFFICIALS,
+  ...ORGANIZATIONS,
+  ...INFRASTRUCTURE,
+  ...PROVINCES,
+  ...CITIES,
+  ...TOPICS,
+];
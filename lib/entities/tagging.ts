@@ -0,0 +1,27 @@
+// =============================
+// Entity tagging of stored and incoming news (server only).
+// Entities only accumulate: re-ingesting an article keeps whatever an editor
+// or an earlier run put on it.
+// =============================
+
+import { news } from "../store";
+import { withCanonicalTags } from "../taxonomy/manage";
+import type { NewsItem } from "../types";
+import { withExtractedEntities } from "./extract";
+
+// For ingest: extracted entities merged with those stored on the same article
+export async function tagNews(items: NewsItem[]) {
+  const stored = new Map((await news.all()).map((n) => [n.id, n.entities ?? []]));
+  return withCanonicalTags(items.map((n) => withExtractedEntities(n, stored.get(n.id))));
+}
+
+// Re-runs extraction over every stored article, e.g. after a gazetteer update
+export async function retagStoredNews() {
+  const all = await news.all();
+  const tagged = await withCanonicalTags(all.map((n) => withExtractedEntities(n)));
+  const changed = tagged.filter(
+    (n, i) => (n.entities ?? []).join("\n") !== (all[i].entities ?? []).join("\n")
+  );
+  if (changed.length) await news.upsert(changed);
+  return changed.length;
+}
@@ -0,0 +1,322 @@
+// =============================
+// Small PDF writer for reports (server only).
+// Lays out titles, headings, paragraphs and tables on A4 pages with the
+// built-in Helvetica fonts, so no font files are embedded. Text outside
+// WinAnsi (Latin-1 plus typographic quotes and dashes) prints as "?".
+// Tables repeat their header row on every page they continue on.
+// =============================
+
+import { deflateSync } from "zlib";
+
+export type PdfColumn = {
+  label: string;
+  // Share of the table width; shares are normalized
+  width: number;
+};
+
+export type PdfBlock =
+  | { kind: "title"; text: string }
+  | { kind: "heading"; text: string }
+  | { kind: "text"; text: string; muted?: boolean; bold?: boolean }
+  | { kind: "table"; columns: PdfColumn[]; rows: string[][] }
+  | { kind: "spacer"; height?: number };
+
+export type PdfDocument = {
+  title: string;
+  blocks: PdfBlock[];
+  // Left side of every page footer; the right side has the page number
+  footer?: string;
+  landscape?: boolean;
+};
+
+// Helvetica advance widths (1/1000 em) for ASCII 32-126, from the AFM
+// metrics; bold is approximated as slightly wider
+const HELVETICA = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556,
+  556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667,
+  611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667,
+  667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500,
+  222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const BOLD_FACTOR = 1.07;
+
+// Unicode characters WinAnsiEncoding places in 0x80-0x9F
+const WIN_ANSI: Record<string, number> = {
+  "\u20ac": 0x80,
+  "\u2026": 0x85,
+  "\u2018": 0x91,
+  "\u2019": 0x92,
+  "\u201c": 0x93,
+  "\u201d": 0x94,
+  "\u2022": 0x95,
+  "\u2013": 0x96,
+  "\u2014": 0x97,
+};
+
+const winAnsiCode = (ch: string) => {
+  const code = ch.charCodeAt(0);
+  if (code >= 32 && code < 127) return code;
+  if (code >= 0xa0 && code <= 0xff) return code;
+  return WIN_ANSI[ch] ?? 63; // "?"
+};
+
+function textWidth(text: string, size: number, bold = false) {
+  let units = 0;
+  for (const ch of text) {
+    const code = winAnsiCode(ch);
+    units += code >= 32 && code < 127 ? HELVETICA[code - 32] : 556;
+  }
+  return (units * size * (bold ? BOLD_FACTOR : 1)) / 1000;
+}
+
+// PDF string literal; non-ASCII bytes as octal escapes so the file stays ASCII
+function pdfString(text: string) {
+  let out = "(";
+  for (const ch of text.replace(/\s+/g, " ")) {
+    const code = winAnsiCode(ch);
+    if (code === 40 || code === 41 || code === 92) out += `\\${ch}`;
+    else if (code < 127) out += String.fromCharCode(code);
+    else out += `\\${code.toString(8).padStart(3, "0")}`;
+  }
+  return `${out})`;
+}
+
+// Greedy word wrap; words longer than a line are split
+export function wrapText(text: string, width: number, size: number, bold = false) {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = "";
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (textWidth(candidate, size, bold) <= width) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      line = "";
+      let rest = word;
+      while (textWidth(rest, size, bold) > width) {
+        let n = rest.length - 1;
+        while (n > 1 && textWidth(rest.slice(0, n), size, bold) > width) n--;
+        lines.push(rest.slice(0, n));
+        rest = rest.slice(n);
+      }
+      line = rest;
+    }
+    lines.push(line);
+  }
+  return lines;
+}
+
+const fmt = (n: number) => String(Math.round(n * 100) / 100);
+
+const MARGIN = 40;
+const FOOTER_SPACE = 28;
+const TABLE_SIZE = 8;
+const TABLE_PAD = 3;
+// Cells taller than this are cut with "..." so a row always fits a page
+const MAX_CELL_LINES = 14;
+
+type TextStyle = { bold?: boolean; gray?: number };
+
+// Page state and drawing operators; `pages` holds each page's content ops
+function createLayout(landscape: boolean) {
+  const [width, height] = landscape ? [842, 595] : [595, 842];
+  const contentWidth = width - 2 * MARGIN;
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = 0;
+
+  const newPage = () => {
+    ops = [];
+    pages.push(ops);
+    y = height - MARGIN;
+  };
+  // Starts a new page unless `h` still fits
+  const ensure = (h: number) => {
+    if (y - h < MARGIN + FOOTER_SPACE) newPage();
+  };
+  const text = (x: number, at: number, value: string, size: number, style: TextStyle) => {
+    const font = style.bold ? "F2" : "F1";
+    const pos = `${fmt(x)} ${fmt(at)} Td`;
+    ops.push(`${fmt(style.gray ?? 0)} g BT /${font} ${size} Tf ${pos} ${pdfString(value)} Tj ET`);
+  };
+  const rect = (x: number, at: number, w: number, h: number, gray: number) =>
+    ops.push(`${fmt(gray)} g ${fmt(x)} ${fmt(at)} ${fmt(w)} ${fmt(h)} re f`);
+  // Full-width horizontal line
+  const rule = (at: number, gray: number) => {
+    const [from, to] = [`${MARGIN} ${fmt(at)}`, `${fmt(MARGIN + contentWidth)} ${fmt(at)}`];
+    ops.push(`${fmt(gray)} G 0.5 w ${from} m ${to} l S`);
+  };
+
+  newPage();
+
+  return {
+    pages,
+    width,
+    height,
+    ensure,
+    moveDown: (h: number) => {
+      y -= h;
+    },
+
+    paragraph(value: string, size: number, style: TextStyle = {}) {
+      const leading = size * 1.35;
+      for (const line of wrapText(value, contentWidth, size, style.bold)) {
+        ensure(leading);
+        y -= leading;
+        text(MARGIN, y + leading * 0.25, line, size, style);
+      }
+    },
+
+    table(columns: PdfColumn[], rows: string[][]) {
+      const total = columns.reduce((n, c) => n + c.width, 0) || 1;
+      const widths = columns.map((c) => (c.width / total) * contentWidth);
+      const leading = TABLE_SIZE * 1.3;
+      const cellLines = (row: string[], bold: boolean) =>
+        widths.map((w, i) => {
+          const lines = wrapText(row[i] ?? "", w - 2 * TABLE_PAD, TABLE_SIZE, bold);
+          return lines.length > MAX_CELL_LINES
+            ? [...lines.slice(0, MAX_CELL_LINES - 1), `${lines[MAX_CELL_LINES - 1]}...`]
+            : lines;
+        });
+      const rowHeight = (cells: string[][]) =>
+        Math.max(...cells.map((c) => c.length)) * leading + 2 * TABLE_PAD;
+
+      const drawRow = (cells: string[][], header: boolean) => {
+        const h = rowHeight(cells);
+        if (header) rect(MARGIN, y - h, contentWidth, h, 0.9);
+        let x = MARGIN;
+        cells.forEach((lines, i) => {
+          lines.forEach((line, k) => {
+            const baseline = y - TABLE_PAD - (k + 1) * leading + leading * 0.25;
+            text(x + TABLE_PAD, baseline, line, TABLE_SIZE, { bold: header });
+          });
+          x += widths[i];
+        });
+        y -= h;
+        rule(y, 0.8);
+      };
+
+      const header = cellLines(columns.map((c) => c.label), true);
+      const bodies = rows.map((r) => cellLines(r, false));
+      ensure(rowHeight(header) + (bodies[0] ? rowHeight(bodies[0]) : 0));
+      drawRow(header, true);
+      for (const cells of bodies) {
+        if (y - rowHeight(cells) < MARGIN + FOOTER_SPACE) {
+          newPage();
+          drawRow(header, true);
+        }
+        drawRow(cells, false);
+      }
+    },
+
+    footer(left: string) {
+      pages.forEach((page, i) => {
+        const label = `Halaman ${i + 1} dari ${pages.length}`;
+        const at = MARGIN / 2;
+        page.push(`0.45 g BT /F1 7 Tf ${MARGIN} ${at} Td ${pdfString(left)} Tj ET`);
+        const x = width - MARGIN - textWidth(label, 7);
+        page.push(`0.45 g BT /F1 7 Tf ${fmt(x)} ${at} Td ${pdfString(label)} Tj ET`);
+      });
+    },
+  };
+}
+
+function layout(doc: PdfDocument) {
+  const page = createLayout(Boolean(doc.landscape));
+  for (const block of doc.blocks) {
+    switch (block.kind) {
+      case "title":
+        page.paragraph(block.text, 16, { bold: true });
+        page.moveDown(6);
+        break;
+      case "heading":
+        // Keep a heading together with at least a few lines of what follows
+        page.ensure(70);
+        page.moveDown(8);
+        page.paragraph(block.text, 12, { bold: true });
+        page.moveDown(4);
+        break;
+      case "text":
+        page.paragraph(block.text, 9, { bold: block.bold, gray: block.muted ? 0.4 : 0 });
+        break;
+      case "table":
+        page.table(block.columns, block.rows);
+        break;
+      case "spacer":
+        page.moveDown(block.height ?? 8);
+        break;
+    }
+  }
+  page.footer(doc.footer ?? doc.title);
+  return page;
+}
+
+// "D:20261019060000Z"
+const pdfDate = (d: Date) => `D:${d.toISOString().replace(/[-:T]/g, "").slice(0, 14)}Z`;
+
+export function toPdf(doc: PdfDocument, now = new Date()) {
+  const page = layout(doc);
+  const objects: string[] = [];
+  const add = (body: string) => objects.push(body);
+  const font = (name: string) =>
+    `<< /Type /Font /Subtype /Type1 /BaseFont /${name} /Encoding /WinAnsiEncoding >>`;
+
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content per page
+  const firstPage = 6;
+  const kids = page.pages.map((_, i) => `${firstPage + i * 2} 0 R`).join(" ");
+  add("<< /Type /Catalog /Pages 2 0 R >>");
+  add(`<< /Type /Pages /Kids [${kids}] /Count ${page.pages.length} >>`);
+  add(font("Helvetica"));
+  add(font("Helvetica-Bold"));
+  add(
+    `<< /Title ${pdfString(doc.title)} /Producer (Kemenhub Command Center) ` +
+      `/CreationDate (${pdfDate(now)}) >>`
+  );
+  // Object index -> its content stream
+  const streams = new Map<number, Buffer>();
+  page.pages.forEach((ops, i) => {
+    add(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${page.width} ${page.height}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> ` +
+        `/Contents ${firstPage + i * 2 + 1} 0 R >>`
+    );
+    const stream = deflateSync(Buffer.from(ops.join("\n"), "latin1"));
+    streams.set(objects.length, stream);
+    add(`<< /Length ${stream.length} /Filter /FlateDecode >>`);
+  });
+
+  const chunks: Buffer[] = [Buffer.from("%PDF-1.4\n%\xe2\xe3\xcf\xd3\n", "latin1")];
+  let size = chunks[0].length;
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(size);
+    const stream = streams.get(i);
+    const parts = stream
+      ? [
+          Buffer.from(`${i + 1} 0 obj\n${body}\nstream\n`),
+          stream,
+          Buffer.from("\nendstream\nendobj\n"),
+        ]
+      : [Buffer.from(`${i + 1} 0 obj\n${body}\nendobj\n`)];
+    parts.forEach((p) => {
+      chunks.push(p);
+      size += p.length;
+    });
+  });
+  const xref = [
+    "xref",
+    `0 ${objects.length + 1}`,
+    "0000000000 65535 f ",
+    ...offsets.map((o) => `${String(o).padStart(10, "0")} 00000 n `),
+    "trailer",
+    `<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>`,
+    "startxref",
+    String(size),
+    "%%EOF",
+    "",
+  ].join("\n");
+  chunks.push(Buffer.from(xref));
+  return Buffer.concat(chunks);
+}
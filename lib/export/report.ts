@@ -0,0 +1,196 @@
+// =============================
+// Export of the filtered dashboard lists (server only).
+// CSV and XLSX carry every field of every record, nested objects flattened
+// to dotted columns ("geo.province"). The PDF is a readable report with the
+// main columns under a header of filters and generation time; XLSX has the
+// same header as its first sheet. CSV is data only, so it stays importable.
+// =============================
+
+import { toCsv, type CsvCell } from "../csv";
+import { jakartaDay } from "../daterange";
+import { applyFilters, describeFilters, type DashboardFilters } from "../filters";
+import { formatDateTime, zoneForLocation } from "../format";
+import { VERIFICATION_LABEL, verificationOf } from "../quotes/verification";
+import { fail, ok, type Result } from "../result";
+import { TONE_LABEL, toneOf } from "../sentiment/lexicon";
+import { events, news, quotes } from "../store";
+import type { EventItem, NewsItem, QuoteItem } from "../types";
+import { toPdf, type PdfBlock } from "./pdf";
+import { toXlsx, type Sheet } from "./xlsx";
+
+export type ExportKind = "events" | "news" | "quotes";
+export type ExportFormat = "csv" | "xlsx" | "pdf";
+
+export const EXPORT_KINDS: Record<ExportKind, string> = {
+  events: "Event",
+  news: "Berita",
+  quotes: "Quote",
+};
+export const EXPORT_FORMATS: ExportFormat[] = ["csv", "xlsx", "pdf"];
+
+const CONTENT_TYPE: Record<ExportFormat, string> = {
+  csv: "text/csv; charset=utf-8",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  pdf: "application/pdf",
+};
+
+const REPORT_TITLE = "Ekspor Command Center Kemenhub";
+
+type Filtered = { events: EventItem[]; news: NewsItem[]; quotes: QuoteItem[] };
+
+// Arrays of plain values join with "; "; arrays of objects (quote sources,
+// draft versions) are kept as JSON so nothing is lost
+export function flattenRecord(value: object, prefix = "", out: Record<string, CsvCell> = {}) {
+  Object.entries(value).forEach(([key, v]) => {
+    const name = prefix ? `${prefix}.${key}` : key;
+    if (v === undefined) return;
+    if (Array.isArray(v)) {
+      out[name] = v.some((x) => typeof x === "object" && x !== null)
+        ? JSON.stringify(v)
+        : v.join("; ");
+    } else if (typeof v === "object" && v !== null) {
+      flattenRecord(v, name, out);
+    } else {
+      out[name] = v as CsvCell;
+    }
+  });
+  return out;
+}
+
+// Columns in order of first appearance across the records
+export function recordTable(items: object[]) {
+  const flat = items.map((it) => flattenRecord(it));
+  const header: string[] = [];
+  const seen = new Set<string>();
+  flat.forEach((r) =>
+    Object.keys(r).forEach((k) => {
+      if (!seen.has(k)) {
+        seen.add(k);
+        header.push(k);
+      }
+    })
+  );
+  return { header, rows: flat.map((r) => header.map((k) => r[k])) };
+}
+
+const stamp = (now: Date) => formatDateTime(now.toISOString());
+
+function pdfReport(data: Filtered, kinds: ExportKind[], filters: DashboardFilters, now: Date) {
+  const blocks: PdfBlock[] = [
+    { kind: "title", text: REPORT_TITLE },
+    { kind: "text", text: `Dibuat ${stamp(now)}`, muted: true },
+    ...describeFilters(filters).map(
+      ([label, value]): PdfBlock => ({ kind: "text", text: `${label}: ${value}` })
+    ),
+  ];
+  const section = (kind: ExportKind, count: number) =>
+    blocks.push({ kind: "heading", text: `${EXPORT_KINDS[kind]} (${count})` });
+
+  if (kinds.includes("events")) {
+    section("events", data.events.length);
+    blocks.push({
+      kind: "table",
+      columns: [
+        { label: "Waktu", width: 14 },
+        { label: "Judul", width: 34 },
+        { label: "Lokasi", width: 18 },
+        { label: "Menhub", width: 8 },
+        { label: "Sumber", width: 12 },
+        { label: "Tag", width: 14 },
+      ],
+      rows: data.events.map((e) => [
+        formatDateTime(e.date, zoneForLocation(e.location)),
+        e.title,
+        e.location,
+        e.attendedByMinister ? "Hadir" : "-",
+        e.source,
+        (e.tags ?? []).join(", "),
+      ]),
+    });
+  }
+  if (kinds.includes("news")) {
+    section("news", data.news.length);
+    blocks.push({
+      kind: "table",
+      columns: [
+        { label: "Terbit", width: 14 },
+        { label: "Judul", width: 44 },
+        { label: "Sumber", width: 12 },
+        { label: "Tone", width: 8 },
+        { label: "Entitas", width: 22 },
+      ],
+      rows: data.news.map((n) => [
+        formatDateTime(n.publishedAt),
+        n.title,
+        n.source,
+        TONE_LABEL[toneOf(n)],
+        (n.entities ?? []).slice(0, 6).join(", "),
+      ]),
+    });
+  }
+  if (kinds.includes("quotes")) {
+    section("quotes", data.quotes.length);
+    blocks.push({
+      kind: "table",
+      columns: [
+        { label: "Tanggal", width: 14 },
+        { label: "Pembicara", width: 16 },
+        { label: "Kutipan", width: 54 },
+        { label: "Verifikasi", width: 16 },
+      ],
+      rows: data.quotes.map((q) => [
+        formatDateTime(q.date),
+        q.speaker,
+        `"${q.text}"`,
+        VERIFICATION_LABEL[verificationOf(q)],
+      ]),
+    });
+  }
+  const footer = `${REPORT_TITLE}, dibuat ${stamp(now)}`;
+  return toPdf({ title: REPORT_TITLE, blocks, footer, landscape: true }, now);
+}
+
+function xlsxWorkbook(data: Filtered, kinds: ExportKind[], filters: DashboardFilters, now: Date) {
+  const info: Sheet = {
+    name: "Filter",
+    header: ["Keterangan", "Nilai"],
+    rows: [
+      ["Dibuat", stamp(now)],
+      ...describeFilters(filters),
+      ...kinds.map((k): CsvCell[] => [`Jumlah ${EXPORT_KINDS[k]}`, data[k].length]),
+    ],
+  };
+  const sheets = kinds.map((k): Sheet => ({ name: EXPORT_KINDS[k], ...recordTable(data[k]) }));
+  return toXlsx([info, ...sheets], now);
+}
+
+export type ExportFile = { body: Buffer | string; contentType: string; filename: string };
+
+export async function exportFiltered(
+  format: ExportFormat,
+  kinds: ExportKind[],
+  filters: DashboardFilters,
+  now = new Date()
+): Promise<Result<ExportFile>> {
+  if (!EXPORT_FORMATS.includes(format)) return fail(400, "format harus csv, xlsx atau pdf");
+  if (kinds.length === 0) return fail(400, "kind harus events, news atau quotes");
+  if (format === "csv" && kinds.length !== 1) {
+    return fail(400, "CSV hanya untuk satu jenis data; pilih kind=events, news atau quotes");
+  }
+  const data = applyFilters(
+    { events: await events.all(), news: await news.all(), quotes: await quotes.all() },
+    filters
+  );
+  const subject = kinds.length === 1 ? EXPORT_KINDS[kinds[0]].toLowerCase() : "dashboard";
+  const filename = `ekspor-${subject}_${jakartaDay(now)}.${format}`;
+
+  if (format === "csv") {
+    const { header, rows } = recordTable(data[kinds[0]]);
+    return ok({ body: toCsv(header, rows), contentType: CONTENT_TYPE.csv, filename });
+  }
+  const body =
+    format === "xlsx"
+      ? xlsxWorkbook(data, kinds, filters, now)
+      : pdfReport(data, kinds, filters, now);
+  return ok({ body, contentType: CONTENT_TYPE[format], filename });
+}
@@ -0,0 +1,130 @@
+// =============================
+// XLSX (Office Open XML spreadsheet) writer (server only).
+// One worksheet per table, header row in bold and frozen. Strings are written
+// inline so no shared-string table is needed; numbers and booleans keep
+// their cell types.
+// =============================
+
+import type { CsvCell } from "../csv";
+import { zip } from "./zip";
+
+export type Sheet = { name: string; header: string[]; rows: CsvCell[][] };
+
+const HEAD = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>`;
+const OOXML = "http://schemas.openxmlformats.org";
+const PACKAGE_RELS = `${OOXML}/package/2006/relationships`;
+const DOC_RELS = `${OOXML}/officeDocument/2006/relationships`;
+const SPREADSHEET = "application/vnd.openxmlformats-officedocument.spreadsheetml";
+
+// Characters XML 1.0 does not allow at all are dropped
+const xml = (s: string) =>
+  s
+    .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f]/g, "")
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+// 0 -> "A", 26 -> "AA"
+function columnName(i: number) {
+  let name = "";
+  for (let n = i + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+}
+
+function cellXml(v: CsvCell, ref: string, style = 0) {
+  const s = style ? ` s="${style}"` : "";
+  if (v === null || v === undefined || v === "") return "";
+  if (typeof v === "number" && Number.isFinite(v)) return `<c r="${ref}"${s}><v>${v}</v></c>`;
+  if (typeof v === "boolean") return `<c r="${ref}"${s} t="b"><v>${v ? 1 : 0}</v></c>`;
+  const text = `<t xml:space="preserve">${xml(String(v))}</t>`;
+  return `<c r="${ref}"${s} t="inlineStr"><is>${text}</is></c>`;
+}
+
+// Column widths from the longest value, capped for long text
+function columnWidths(sheet: Sheet) {
+  return sheet.header.map((h, i) => {
+    const longest = Math.max(h.length, ...sheet.rows.map((r) => String(r[i] ?? "").length));
+    return Math.min(60, Math.max(8, longest + 2));
+  });
+}
+
+function sheetXml(sheet: Sheet) {
+  const rows = [sheet.header, ...sheet.rows].map((row, r) => {
+    const cells = row.map((v, c) => cellXml(v, `${columnName(c)}${r + 1}`, r === 0 ? 1 : 0));
+    return `<row r="${r + 1}">${cells.join("")}</row>`;
+  });
+  const cols = columnWidths(sheet)
+    .map((w, i) => `<col min="${i + 1}" max="${i + 1}" width="${w}" customWidth="1"/>`)
+    .join("");
+  return (
+    `${HEAD}<worksheet xmlns="${OOXML}/spreadsheetml/2006/main">` +
+    `<sheetViews><sheetView workbookViewId="0">` +
+    `<pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/>` +
+    `</sheetView></sheetViews>` +
+    (cols ? `<cols>${cols}</cols>` : "") +
+    `<sheetData>${rows.join("")}</sheetData></worksheet>`
+  );
+}
+
+// Excel limits: 31 characters, none of []:*?/\
+const sheetName = (name: string) => name.replace(/[[\]:*?/\\]/g, " ").slice(0, 31) || "Sheet";
+
+const STYLES =
+  `${HEAD}<styleSheet xmlns="${OOXML}/spreadsheetml/2006/main">` +
+  `<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font>` +
+  `<font><b/><sz val="11"/><name val="Calibri"/></font></fonts>` +
+  `<fills count="2"><fill><patternFill patternType="none"/></fill>` +
+  `<fill><patternFill patternType="gray125"/></fill></fills>` +
+  `<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>` +
+  `<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>` +
+  `<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>` +
+  `<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>` +
+  `</styleSheet>`;
+
+const override = (part: string, type: string) =>
+  `<Override PartName="${part}" ContentType="${SPREADSHEET}.${type}+xml"/>`;
+const relationship = (id: number, type: string, target: string) =>
+  `<Relationship Id="rId${id}" Type="${DOC_RELS}/${type}" Target="${target}"/>`;
+
+export function toXlsx(sheets: Sheet[], now = new Date()) {
+  const names = sheets.map((s) => sheetName(s.name));
+  const contentTypes =
+    `${HEAD}<Types xmlns="${OOXML}/package/2006/content-types">` +
+    `<Default Extension="rels" ` +
+    `ContentType="application/vnd.openxmlformats-package.relationships+xml"/>` +
+    `<Default Extension="xml" ContentType="application/xml"/>` +
+    override("/xl/workbook.xml", "sheet.main") +
+    override("/xl/styles.xml", "styles") +
+    names.map((_, i) => override(`/xl/worksheets/sheet${i + 1}.xml`, "worksheet")).join("") +
+    `</Types>`;
+  const rootRels =
+    `${HEAD}<Relationships xmlns="${PACKAGE_RELS}">` +
+    relationship(1, "officeDocument", "xl/workbook.xml") +
+    `</Relationships>`;
+  const workbook =
+    `${HEAD}<workbook xmlns="${OOXML}/spreadsheetml/2006/main" xmlns:r="${DOC_RELS}"><sheets>` +
+    names
+      .map((n, i) => `<sheet name="${xml(n)}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+      .join("") +
+    `</sheets></workbook>`;
+  const workbookRels =
+    `${HEAD}<Relationships xmlns="${PACKAGE_RELS}">` +
+    names.map((_, i) => relationship(i + 1, "worksheet", `worksheets/sheet${i + 1}.xml`)).join("") +
+    relationship(names.length + 1, "styles", "styles.xml") +
+    `</Relationships>`;
+
+  return zip(
+    [
+      { name: "[Content_Types].xml", data: contentTypes },
+      { name: "_rels/.rels", data: rootRels },
+      { name: "xl/workbook.xml", data: workbook },
+      { name: "xl/_rels/workbook.xml.rels", data: workbookRels },
+      { name: "xl/styles.xml", data: STYLES },
+      ...sheets.map((s, i) => ({ name: `xl/worksheets/sheet${i + 1}.xml`, data: sheetXml(s) })),
+    ],
+    now
+  );
+}
@@ -0,0 +1,54 @@
+// =============================
+// Tag facets shared by events (tags), news (entities) and quotes (tags).
+// A filter includes tags with AND or OR semantics and can exclude tags; an
+// excluded tag always wins. Client and server safe.
+// =============================
+
+import type { CombinedItem } from "./types";
+
+export type TagMode = "and" | "or";
+
+export type TagFilter = { include: string[]; exclude: string[]; mode: TagMode };
+
+export const EMPTY_TAG_FILTER: TagFilter = { include: [], exclude: [], mode: "or" };
+
+export const isTagFilterActive = (f: TagFilter) => f.include.length > 0 || f.exclude.length > 0;
+
+// Tags of any item type: events and quotes carry tags, news carries entities
+export function tagsOf(item: CombinedItem): string[] {
+  if ("publishedAt" in item) return item.entities ?? [];
+  return item.tags ?? [];
+}
+
+export function matchesTags(tags: string[], f: TagFilter) {
+  if (f.exclude.some((t) => tags.includes(t))) return false;
+  if (f.include.length === 0) return true;
+  return f.mode === "and"
+    ? f.include.every((t) => tags.includes(t))
+    : f.include.some((t) => tags.includes(t));
+}
+
+// Items per tag, most frequent first
+export function tagFacets(items: CombinedItem[]): Array<[tag: string, count: number]> {
+  const counts = new Map<string, number>();
+  items.forEach((it) => new Set(tagsOf(it)).forEach((t) => counts.set(t, (counts.get(t) ?? 0) + 1)));
+  return [...counts.entries()].sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]));
+}
+
+// Cycles a tag through not selected -> included -> excluded -> not selected
+export function cycleTag(f: TagFilter, tag: string): TagFilter {
+  const without = (list: string[]) => list.filter((t) => t !== tag);
+  if (f.include.includes(tag)) {
+    return { ...f, include: without(f.include), exclude: [...f.exclude, tag] };
+  }
+  if (f.exclude.includes(tag)) return { ...f, exclude: without(f.exclude) };
+  return { ...f, include: [...f.include, tag] };
+}
+
+// "Laut + Darat, tanpa Green" for the filter bar
+export function describeTagFilter(f: TagFilter) {
+  const parts: string[] = [];
+  if (f.include.length) parts.push(f.include.join(f.mode === "and" ? " + " : " / "));
+  if (f.exclude.length) parts.push(`tanpa ${f.exclude.join(", ")}`);
+  return parts.join(", ");
+}
@@ -0,0 +1,159 @@
+// =============================
+// Dashboard list filters (pure; client and server safe).
+// The page applies them as the user types; server-side exports and reports
+// rebuild the same lists from `DashboardFilters`.
+// =============================
+
+import { formatRange, inRange, presetRange, type DateRange } from "./daterange";
+import {
+  EMPTY_TAG_FILTER,
+  describeTagFilter,
+  matchesTags,
+  tagsOf,
+  type TagFilter,
+} from "./facets";
+import {
+  compileQuery,
+  eventTarget,
+  newsTarget,
+  parseQuery,
+  quoteTarget,
+  type QueryPredicate,
+} from "./query";
+import { buildSearchIndex, compareByRelevance, runSearch, type SearchHits } from "./search";
+import { TONES, TONE_LABEL, toneOf } from "./sentiment/lexicon";
+import type { EventItem, NewsItem, QuoteItem, Tone } from "./types";
+
+// `match` is null without a search query; `hits` only orders the results
+export type SearchFilter = { match: QueryPredicate | null; hits: SearchHits | null };
+
+export function filterEvents(
+  data: EventItem[],
+  {
+    range,
+    onlyMinister,
+    tags,
+    match,
+    hits,
+  }: { range?: DateRange; onlyMinister: boolean; tags: TagFilter } & SearchFilter
+) {
+  // Without a range (calendar) every date passes, upcoming ones included
+  return data
+    .filter((e) => !range || inRange(e.date, range))
+    .filter((e) => (onlyMinister ? e.attendedByMinister : true))
+    .filter((e) => matchesTags(tagsOf(e), tags))
+    .filter((e) => !match || match(eventTarget(e)))
+    .sort(compareByRelevance<EventItem>(hits, "event", (e) => e.date));
+}
+
+export function filterNews(
+  data: NewsItem[],
+  {
+    range,
+    tags,
+    tone,
+    match,
+    hits,
+  }: { range: DateRange; tags: TagFilter; tone: Tone | "all" } & SearchFilter
+) {
+  return data
+    .filter((n) => inRange(n.publishedAt, range))
+    .filter((n) => tone === "all" || toneOf(n) === tone)
+    .filter((n) => matchesTags(tagsOf(n), tags))
+    .filter((n) => !match || match(newsTarget(n)))
+    .sort(compareByRelevance<NewsItem>(hits, "news", (n) => n.publishedAt));
+}
+
+export function filterQuotes(
+  data: QuoteItem[],
+  { range, tags, match, hits }: { range: DateRange; tags: TagFilter } & SearchFilter
+) {
+  return data
+    .filter((q) => inRange(q.date, range))
+    .filter((q) => matchesTags(tagsOf(q), tags))
+    .filter((q) => !match || match(quoteTarget(q)))
+    .sort(compareByRelevance<QuoteItem>(hits, "quote", (q) => q.date));
+}
+
+// Search predicate and ranking for a query over the given data, the same way
+// the page builds them from the search box
+export function searchFilter(
+  data: { events: EventItem[]; news: NewsItem[]; quotes: QuoteItem[] },
+  query: string
+): SearchFilter {
+  if (!query.trim()) return { match: null, hits: null };
+  const index = buildSearchIndex(data);
+  const parsed = parseQuery(query);
+  return {
+    match: compileQuery(parsed.ast, index),
+    hits: runSearch(index, parsed.rankText, { requireAll: false }),
+  };
+}
+
+// Everything the filter bar holds
+export type DashboardFilters = {
+  range: DateRange;
+  onlyMinister: boolean;
+  tags: TagFilter;
+  tone: Tone | "all";
+  query: string;
+};
+
+export function applyFilters(
+  data: { events: EventItem[]; news: NewsItem[]; quotes: QuoteItem[] },
+  f: DashboardFilters
+) {
+  const search = searchFilter(data, f.query);
+  return {
+    events: filterEvents(data.events, { ...f, ...search }),
+    news: filterNews(data.news, { ...f, ...search }),
+    quotes: filterQuotes(data.quotes, { ...f, ...search }),
+  };
+}
+
+// URL form of the filters, for server-side exports. Tag parameters match the
+// calendar feed (lib/calendar.ts); `from`/`to` are ISO instants.
+export function filterSearchParams(f: DashboardFilters) {
+  const sp = new URLSearchParams({ from: f.range.from, to: f.range.to });
+  if (f.onlyMinister) sp.set("minister", "1");
+  f.tags.include.forEach((t) => sp.append("tag", t));
+  f.tags.exclude.forEach((t) => sp.append("exclude", t));
+  if (f.tags.include.length > 1) sp.set("mode", f.tags.mode);
+  if (f.tone !== "all") sp.set("tone", f.tone);
+  if (f.query.trim()) sp.set("q", f.query.trim());
+  return sp;
+}
+
+// Missing or malformed values fall back to the dashboard defaults (last 7 days)
+export function parseFilterParams(sp: URLSearchParams, now = Date.now()): DashboardFilters {
+  const instant = (key: string) => {
+    const t = Date.parse(sp.get(key) ?? "");
+    return Number.isNaN(t) ? null : new Date(t).toISOString();
+  };
+  const from = instant("from");
+  // "from" alone runs up to now
+  const to = instant("to") ?? (from ? new Date(now).toISOString() : null);
+  const tone = sp.get("tone") as Tone | null;
+  return {
+    range: from && to && from < to ? { from, to } : presetRange("7d", now),
+    onlyMinister: sp.get("minister") === "1",
+    tags: {
+      include: sp.getAll("tag").filter(Boolean),
+      exclude: sp.getAll("exclude").filter(Boolean),
+      mode: sp.get("mode") === "and" ? "and" : EMPTY_TAG_FILTER.mode,
+    },
+    tone: tone && TONES.includes(tone) ? tone : "all",
+    query: sp.get("q") ?? "",
+  };
+}
+
+// Label/value lines for report headers
+export function describeFilters(f: DashboardFilters): Array<[label: string, value: string]> {
+  return [
+    ["Periode", `${formatRange(f.range)} (WIB)`],
+    ["Event", f.onlyMinister ? "Hanya yang dihadiri Menhub" : "Semua"],
+    ["Tag", describeTagFilter(f.tags) || "Semua"],
+    ["Tone berita", f.tone === "all" ? "Semua" : TONE_LABEL[f.tone]],
+    ["Pencarian", f.query.trim() || "-"],
+  ];
+}
@@ -0,0 +1,88 @@
+// Display formatting helpers (client and server safe)
+
+// "30 menit lalu" / "10 menit lagi" relative to now
+export function relativeTime(iso: string, now = Date.now()) {
+  const diff = +new Date(iso) - now;
+  const future = diff > 0;
+  const mins = Math.round(Math.abs(diff) / 60000);
+  let label: string;
+  if (mins < 1) return "baru saja";
+  if (mins < 60) label = `${mins} menit`;
+  else if (mins < 60 * 24) label = `${Math.round(mins / 60)} jam`;
+  else label = `${Math.round(mins / (60 * 24))} hari`;
+  return future ? `${label} lagi` : `${label} lalu`;
+}
+
+// =============================
+// Indonesian time zones. Everything renders in WIB (Asia/Jakarta) unless an
+// event's location is in central (WITA) or eastern (WIT) Indonesia, so the
+// dashboard reads the same for staff outside Jakarta.
+// =============================
+
+export type ZoneLabel = "WIB" | "WITA" | "WIT";
+
+export const TIME_ZONES: Record<ZoneLabel, string> = {
+  WIB: "Asia/Jakarta",
+  WITA: "Asia/Makassar",
+  WIT: "Asia/Jayapura",
+};
+
+// Provinces and main cities outside WIB, matched as whole words
+const ZONE_PLACES: Array<[ZoneLabel, string[]]> = [
+  [
+    "WIT",
+    [
+      "maluku", "papua", "ambon", "ternate", "tidore", "tual", "jayapura", "sorong",
+      "manokwari", "merauke", "timika", "biak", "nabire", "wamena", "fakfak",
+    ],
+  ],
+  [
+    "WITA",
+    [
+      "bali", "denpasar", "nusa tenggara", "ntb", "ntt", "mataram", "lombok", "kupang",
+      "labuan bajo", "bima", "sumba", "flores", "sulawesi", "sulsel", "sulut", "sulteng",
+      "sultra", "sulbar", "makassar", "manado", "palu", "kendari", "gorontalo", "mamuju",
+      "bitung", "parepare", "kalimantan selatan", "kalimantan timur", "kalimantan utara",
+      "kalsel", "kaltim", "kaltara", "banjarmasin", "banjarbaru", "balikpapan", "samarinda",
+      "tarakan", "bontang", "nusantara", "ikn",
+    ],
+  ],
+];
+
+export function zoneForLocation(location?: string): ZoneLabel {
+  const text = ` ${(location ?? "").toLowerCase().replace(/[^a-z]+/g, " ")} `;
+  for (const [zone, places] of ZONE_PLACES) {
+    if (places.some((p) => text.includes(` ${p} `))) return zone;
+  }
+  return "WIB";
+}
+
+// "19 Okt 2026 14.30 WIB"
+export function formatDateTime(iso: string, zone: ZoneLabel = "WIB") {
+  const text = new Date(iso).toLocaleString("id-ID", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: TIME_ZONES[zone],
+  });
+  return `${text.replace(",", "")} ${zone}`;
+}
+
+// "19 Okt 2026" in Jakarta (or the given zone)
+export const formatDay = (iso: string, zone: ZoneLabel = "WIB") =>
+  new Date(iso).toLocaleDateString("id-ID", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    timeZone: TIME_ZONES[zone],
+  });
+
+// "14.30" in Jakarta (or the given zone)
+export const formatTime = (iso: string, zone: ZoneLabel = "WIB") =>
+  new Date(iso).toLocaleTimeString("id-ID", {
+    hour: "2-digit",
+    minute: "2-digit",
+    timeZone: TIME_ZONES[zone],
+  });
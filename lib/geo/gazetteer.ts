@@ -0,0 +1,328 @@
+// =============================
+// Offline gazetteer of Indonesian provinces and kabupaten/kota (pure data;
+// client and server safe). Coordinates are approximate centres (province) or
+// town centres (kabupaten/kota), good enough for a national overview map.
+// Province ids are the BPS codes. `tile` places each province on the grid
+// cartogram used for the choropleth: [column, row], west to east.
+// Aliases cover newsroom abbreviations and the ports, airports and terminals
+// that agenda items name instead of the town.
+// =============================
+
+export type Province = {
+  id: string;
+  name: string;
+  // Short label for map tiles
+  abbr: string;
+  aliases: string[];
+  lat: number;
+  lon: number;
+  tile: [col: number, row: number];
+};
+
+export type Regency = {
+  name: string;
+  province: string;
+  lat: number;
+  lon: number;
+  aliases?: string[];
+};
+
+const prov = (
+  id: string,
+  name: string,
+  abbr: string,
+  aliases: string[],
+  [lat, lon]: [number, number],
+  tile: [number, number]
+): Province => ({ id, name, abbr, aliases, lat, lon, tile });
+
+export const PROVINCES: Province[] = [
+  prov("11", "Aceh", "ACEH", ["Nanggroe Aceh Darussalam", "NAD"], [4.4, 96.9], [0, 0]),
+  prov("12", "Sumatera Utara", "SUMUT", ["Sumut", "Sumatra Utara"], [2.2, 99.1], [1, 1]),
+  prov("13", "Sumatera Barat", "SUMBAR", ["Sumbar", "Sumatra Barat"], [-0.8, 100.5], [1, 2]),
+  prov("14", "Riau", "RIAU", [], [0.5, 101.8], [2, 1]),
+  prov("21", "Kepulauan Riau", "KEPRI", ["Kepri"], [0.9, 104.5], [3, 1]),
+  prov("15", "Jambi", "JAMBI", [], [-1.6, 103.0], [2, 2]),
+  prov("17", "Bengkulu", "BKL", [], [-3.6, 102.3], [1, 3]),
+  prov("16", "Sumatera Selatan", "SUMSEL", ["Sumsel", "Sumatra Selatan"], [-3.2, 104.2], [2, 3]),
+  prov(
+    "19",
+    "Bangka Belitung",
+    "BABEL",
+    ["Kepulauan Bangka Belitung", "Babel"],
+    [-2.6, 106.3],
+    [3, 3]
+  ),
+  prov("18", "Lampung", "LPG", [], [-4.9, 105.1], [2, 4]),
+  prov("36", "Banten", "BANTEN", [], [-6.4, 106.1], [3, 5]),
+  prov("31", "DKI Jakarta", "DKI", ["Jakarta", "DKI"], [-6.2, 106.85], [4, 4]),
+  prov("32", "Jawa Barat", "JABAR", ["Jabar"], [-6.9, 107.6], [4, 5]),
+  prov("33", "Jawa Tengah", "JATENG", ["Jateng"], [-7.2, 110.2], [5, 5]),
+  prov(
+    "34",
+    "DI Yogyakarta",
+    "DIY",
+    ["Daerah Istimewa Yogyakarta", "DIY", "Yogyakarta", "Jogja", "Yogya"],
+    [-7.8, 110.4],
+    [5, 6]
+  ),
+  prov("35", "Jawa Timur", "JATIM", ["Jatim"], [-7.6, 112.5], [6, 5]),
+  prov("51", "Bali", "BALI", [], [-8.4, 115.2], [7, 5]),
+  prov("52", "Nusa Tenggara Barat", "NTB", ["NTB"], [-8.65, 117.4], [8, 5]),
+  prov("53", "Nusa Tenggara Timur", "NTT", ["NTT"], [-8.9, 121.0], [9, 5]),
+  prov("61", "Kalimantan Barat", "KALBAR", ["Kalbar"], [-0.1, 111.1], [5, 2]),
+  prov("62", "Kalimantan Tengah", "KALTENG", ["Kalteng"], [-1.7, 113.4], [6, 2]),
+  prov("63", "Kalimantan Selatan", "KALSEL", ["Kalsel"], [-3.1, 115.3], [7, 3]),
+  prov("64", "Kalimantan Timur", "KALTIM", ["Kaltim"], [0.5, 116.4], [7, 2]),
+  prov("65", "Kalimantan Utara", "KALTARA", ["Kaltara"], [3.0, 116.2], [7, 1]),
+  prov("71", "Sulawesi Utara", "SULUT", ["Sulut"], [1.0, 124.3], [10, 1]),
+  prov("75", "Gorontalo", "GTLO", [], [0.7, 122.5], [9, 1]),
+  prov("72", "Sulawesi Tengah", "SULTENG", ["Sulteng"], [-1.4, 121.4], [9, 2]),
+  prov("76", "Sulawesi Barat", "SULBAR", ["Sulbar"], [-2.5, 119.3], [8, 3]),
+  prov("73", "Sulawesi Selatan", "SULSEL", ["Sulsel"], [-3.7, 120.0], [9, 3]),
+  prov("74", "Sulawesi Tenggara", "SULTRA", ["Sultra"], [-4.1, 122.2], [10, 3]),
+  prov("82", "Maluku Utara", "MALUT", ["Malut"], [1.6, 127.8], [11, 1]),
+  prov("81", "Maluku", "MALUKU", [], [-3.2, 130.1], [11, 3]),
+  prov("96", "Papua Barat Daya", "PBD", [], [-1.0, 132.0], [12, 2]),
+  prov("92", "Papua Barat", "PABAR", ["Pabar"], [-1.6, 133.2], [13, 2]),
+  prov("91", "Papua", "PAPUA", [], [-2.3, 138.5], [15, 2]),
+  prov("94", "Papua Tengah", "PTENG", [], [-3.6, 136.5], [14, 3]),
+  prov("95", "Papua Pegunungan", "PPEG", [], [-4.1, 139.0], [15, 3]),
+  prov("93", "Papua Selatan", "PSEL", [], [-7.0, 139.5], [15, 4]),
+];
+
+const reg = (
+  province: string,
+  name: string,
+  [lat, lon]: [number, number],
+  aliases?: string[]
+): Regency => ({ name, province, lat, lon, ...(aliases ? { aliases } : {}) });
+
+export const REGENCIES: Regency[] = [
+  // Aceh
+  reg("11", "Banda Aceh", [5.55, 95.32]),
+  reg("11", "Lhokseumawe", [5.18, 97.15]),
+  reg("11", "Sabang", [5.89, 95.32]),
+  reg("11", "Langsa", [4.47, 97.97]),
+  // Sumatera Utara
+  reg("12", "Medan", [3.59, 98.67], ["Belawan"]),
+  reg("12", "Deli Serdang", [3.53, 98.87], ["Kualanamu"]),
+  reg("12", "Pematangsiantar", [2.96, 99.06], ["Pematang Siantar"]),
+  reg("12", "Sibolga", [1.74, 98.78]),
+  reg("12", "Toba", [2.33, 99.07], ["Danau Toba", "Balige"]),
+  reg("12", "Gunungsitoli", [1.29, 97.61], ["Nias"]),
+  // Sumatera Barat
+  reg("13", "Padang", [-0.95, 100.35], ["Teluk Bayur", "Minangkabau"]),
+  reg("13", "Bukittinggi", [-0.3, 100.37]),
+  // Riau
+  reg("14", "Pekanbaru", [0.51, 101.45]),
+  reg("14", "Dumai", [1.67, 101.45]),
+  // Kepulauan Riau
+  reg("21", "Batam", [1.08, 104.03], ["Hang Nadim"]),
+  reg("21", "Tanjungpinang", [0.92, 104.45], ["Tanjung Pinang"]),
+  reg("21", "Bintan", [1.08, 104.5]),
+  reg("21", "Natuna", [3.95, 108.38], ["Ranai"]),
+  reg("21", "Karimun", [1.05, 103.4]),
+  // Jambi
+  reg("15", "Jambi", [-1.61, 103.61]),
+  // Sumatera Selatan
+  reg("16", "Palembang", [-2.98, 104.76]),
+  reg("16", "Lubuklinggau", [-3.3, 102.86], ["Lubuk Linggau"]),
+  // Bangka Belitung
+  reg("19", "Pangkalpinang", [-2.13, 106.11], ["Pangkal Pinang"]),
+  reg("19", "Belitung", [-2.87, 107.95], ["Tanjung Pandan"]),
+  // Bengkulu
+  reg("17", "Bengkulu", [-3.79, 102.26]),
+  // Lampung
+  reg("18", "Bandar Lampung", [-5.43, 105.26], ["Radin Inten"]),
+  reg("18", "Lampung Selatan", [-5.87, 105.75], ["Bakauheni"]),
+  // DKI Jakarta
+  reg("31", "Jakarta Pusat", [-6.18, 106.83], ["Gambir", "Monas", "Medan Merdeka", "Pasar Senen"]),
+  reg("31", "Jakarta Utara", [-6.12, 106.88], ["Tanjung Priok", "Ancol"]),
+  reg("31", "Jakarta Barat", [-6.17, 106.76]),
+  reg("31", "Jakarta Selatan", [-6.26, 106.81], ["Manggarai"]),
+  reg("31", "Jakarta Timur", [-6.23, 106.9], [
+    "Halim Perdanakusuma",
+    "Halim",
+    "Pulo Gebang",
+    "Kampung Rambutan",
+  ]),
+  reg("31", "Kepulauan Seribu", [-5.6, 106.5]),
+  // Jawa Barat
+  reg("32", "Bandung", [-6.91, 107.61], ["Tegalluar"]),
+  reg("32", "Bogor", [-6.6, 106.8]),
+  reg("32", "Depok", [-6.4, 106.82]),
+  reg("32", "Bekasi", [-6.24, 106.99]),
+  reg("32", "Cirebon", [-6.73, 108.55]),
+  reg("32", "Sukabumi", [-6.92, 106.93]),
+  reg("32", "Tasikmalaya", [-7.33, 108.22]),
+  reg("32", "Karawang", [-6.31, 107.3]),
+  reg("32", "Purwakarta", [-6.56, 107.44]),
+  reg("32", "Subang", [-6.57, 107.76], ["Patimban"]),
+  reg("32", "Majalengka", [-6.84, 108.23], ["Kertajati"]),
+  reg("32", "Indramayu", [-6.33, 108.32]),
+  reg("32", "Garut", [-7.22, 107.9]),
+  reg("32", "Cimahi", [-6.87, 107.54]),
+  reg("32", "Pangandaran", [-7.7, 108.65]),
+  // Banten
+  reg("36", "Serang", [-6.12, 106.15]),
+  reg("36", "Cilegon", [-6.0, 106.05], ["Merak"]),
+  reg("36", "Tangerang", [-6.18, 106.63], ["Soekarno-Hatta", "Soetta"]),
+  reg("36", "Tangerang Selatan", [-6.29, 106.72], ["Tangsel"]),
+  reg("36", "Lebak", [-6.56, 106.25]),
+  reg("36", "Pandeglang", [-6.31, 106.1]),
+  // Jawa Tengah
+  reg("33", "Semarang", [-6.97, 110.42], ["Tanjung Emas", "Ahmad Yani"]),
+  reg("33", "Surakarta", [-7.57, 110.82], ["Solo", "Tirtonadi", "Adi Soemarmo"]),
+  reg("33", "Tegal", [-6.87, 109.14]),
+  reg("33", "Pekalongan", [-6.89, 109.67]),
+  reg("33", "Magelang", [-7.47, 110.22]),
+  reg("33", "Cilacap", [-7.73, 109.0]),
+  reg("33", "Banyumas", [-7.42, 109.23], ["Purwokerto"]),
+  reg("33", "Kudus", [-6.8, 110.84]),
+  reg("33", "Salatiga", [-7.33, 110.51]),
+  reg("33", "Brebes", [-6.87, 109.04]),
+  reg("33", "Batang", [-6.91, 109.73]),
+  // DI Yogyakarta
+  reg("34", "Yogyakarta", [-7.8, 110.36], ["Jogja", "Yogya"]),
+  reg("34", "Kulon Progo", [-7.86, 110.16], ["YIA"]),
+  reg("34", "Sleman", [-7.72, 110.36]),
+  reg("34", "Bantul", [-7.89, 110.33]),
+  reg("34", "Gunungkidul", [-7.97, 110.61], ["Gunung Kidul"]),
+  // Jawa Timur
+  reg("35", "Surabaya", [-7.25, 112.75], ["Tanjung Perak"]),
+  reg("35", "Sidoarjo", [-7.45, 112.72], ["Juanda", "Purabaya", "Bungurasih"]),
+  reg("35", "Malang", [-7.98, 112.63]),
+  reg("35", "Banyuwangi", [-8.22, 114.37], ["Pelabuhan Ketapang"]),
+  reg("35", "Kediri", [-7.82, 112.01]),
+  reg("35", "Madiun", [-7.63, 111.52]),
+  reg("35", "Jember", [-8.17, 113.7]),
+  reg("35", "Probolinggo", [-7.75, 113.22]),
+  reg("35", "Pasuruan", [-7.64, 112.91]),
+  reg("35", "Blitar", [-8.1, 112.17]),
+  reg("35", "Gresik", [-7.16, 112.65]),
+  reg("35", "Lamongan", [-7.12, 112.42]),
+  reg("35", "Tuban", [-6.9, 112.05]),
+  reg("35", "Bangkalan", [-7.05, 112.74], ["Suramadu"]),
+  reg("35", "Sumenep", [-7.01, 113.86]),
+  reg("35", "Mojokerto", [-7.47, 112.43]),
+  // Bali
+  reg("51", "Denpasar", [-8.65, 115.22], ["Benoa"]),
+  reg("51", "Badung", [-8.58, 115.18], ["Ngurah Rai", "Kuta"]),
+  reg("51", "Jembrana", [-8.36, 114.63], ["Gilimanuk"]),
+  reg("51", "Buleleng", [-8.11, 115.09], ["Singaraja"]),
+  reg("51", "Karangasem", [-8.45, 115.61], ["Padang Bai", "Padangbai"]),
+  reg("51", "Klungkung", [-8.54, 115.4], ["Nusa Penida"]),
+  // Nusa Tenggara Barat
+  reg("52", "Mataram", [-8.58, 116.12], ["Pelabuhan Lembar"]),
+  reg("52", "Lombok Tengah", [-8.7, 116.27], ["Mandalika", "Praya"]),
+  reg("52", "Lombok Timur", [-8.53, 116.53], ["Kayangan"]),
+  reg("52", "Sumbawa", [-8.5, 117.42]),
+  reg("52", "Bima", [-8.46, 118.73]),
+  reg("52", "Dompu", [-8.54, 118.46]),
+  // Nusa Tenggara Timur
+  reg("53", "Kupang", [-10.17, 123.61], ["El Tari"]),
+  reg("53", "Manggarai Barat", [-8.5, 119.89], ["Labuan Bajo", "Komodo"]),
+  reg("53", "Ende", [-8.84, 121.66]),
+  reg("53", "Sikka", [-8.62, 122.21], ["Maumere"]),
+  reg("53", "Sumba Timur", [-9.66, 120.26], ["Waingapu"]),
+  reg("53", "Alor", [-8.25, 124.56]),
+  reg("53", "Rote Ndao", [-10.74, 123.12], ["Rote"]),
+  reg("53", "Flores Timur", [-8.33, 122.98], ["Larantuka"]),
+  // Kalimantan Barat
+  reg("61", "Pontianak", [-0.03, 109.34], ["Supadio"]),
+  reg("61", "Singkawang", [0.91, 108.98]),
+  reg("61", "Ketapang", [-1.85, 109.97]),
+  reg("61", "Sintang", [0.07, 111.5]),
+  reg("61", "Sambas", [1.36, 109.3]),
+  // Kalimantan Tengah
+  reg("62", "Palangka Raya", [-2.21, 113.92], ["Palangkaraya"]),
+  reg("62", "Kotawaringin Barat", [-2.68, 111.63], ["Pangkalan Bun"]),
+  reg("62", "Kotawaringin Timur", [-2.54, 112.95], ["Sampit"]),
+  // Kalimantan Selatan
+  reg("63", "Banjarmasin", [-3.32, 114.59], ["Trisakti"]),
+  reg("63", "Banjarbaru", [-3.44, 114.83], ["Syamsudin Noor"]),
+  reg("63", "Kotabaru", [-3.24, 116.22]),
+  // Kalimantan Timur
+  reg("64", "Samarinda", [-0.5, 117.15]),
+  reg("64", "Balikpapan", [-1.27, 116.83], ["Sepinggan"]),
+  reg("64", "Bontang", [0.13, 117.5]),
+  reg("64", "Ibu Kota Nusantara", [-0.97, 116.7], ["IKN"]),
+  reg("64", "Penajam Paser Utara", [-1.25, 116.7], ["Penajam"]),
+  reg("64", "Kutai Kartanegara", [-0.43, 116.98], ["Tenggarong"]),
+  reg("64", "Berau", [2.15, 117.49]),
+  // Kalimantan Utara
+  reg("65", "Tarakan", [3.3, 117.63]),
+  reg("65", "Bulungan", [2.84, 117.37], ["Tanjung Selor"]),
+  reg("65", "Nunukan", [4.14, 117.66]),
+  reg("65", "Malinau", [3.58, 116.63]),
+  // Sulawesi Utara
+  reg("71", "Manado", [1.47, 124.84], ["Sam Ratulangi"]),
+  reg("71", "Bitung", [1.44, 125.19]),
+  reg("71", "Tomohon", [1.32, 124.84]),
+  reg("71", "Kepulauan Sangihe", [3.61, 125.49], ["Sangihe", "Tahuna"]),
+  reg("71", "Kotamobagu", [0.73, 124.32]),
+  // Gorontalo
+  reg("75", "Gorontalo", [0.54, 123.06]),
+  // Sulawesi Tengah
+  reg("72", "Palu", [-0.9, 119.87]),
+  reg("72", "Poso", [-1.39, 120.75]),
+  reg("72", "Banggai", [-0.95, 122.79], ["Luwuk"]),
+  reg("72", "Morowali", [-2.55, 121.96]),
+  reg("72", "Tolitoli", [1.04, 120.82]),
+  // Sulawesi Barat
+  reg("76", "Mamuju", [-2.68, 118.89]),
+  reg("76", "Majene", [-3.54, 118.97]),
+  reg("76", "Polewali Mandar", [-3.41, 119.32]),
+  // Sulawesi Selatan
+  reg("73", "Makassar", [-5.14, 119.42], ["Pelabuhan Soekarno-Hatta", "Paotere"]),
+  reg("73", "Maros", [-5.01, 119.57], ["Sultan Hasanuddin"]),
+  reg("73", "Parepare", [-4.01, 119.63], ["Pare-Pare"]),
+  reg("73", "Palopo", [-2.99, 120.2]),
+  reg("73", "Bone", [-4.54, 120.33], ["Watampone"]),
+  reg("73", "Bulukumba", [-5.56, 120.19]),
+  reg("73", "Kepulauan Selayar", [-6.12, 120.46], ["Selayar"]),
+  reg("73", "Toraja Utara", [-2.96, 119.9], ["Toraja", "Rantepao"]),
+  reg("73", "Gowa", [-5.31, 119.74]),
+  // Sulawesi Tenggara
+  reg("74", "Kendari", [-3.97, 122.52]),
+  reg("74", "Baubau", [-5.47, 122.63], ["Bau-Bau"]),
+  reg("74", "Kolaka", [-4.05, 121.59]),
+  reg("74", "Wakatobi", [-5.32, 123.59]),
+  reg("74", "Muna", [-4.83, 122.73], ["Raha"]),
+  // Maluku
+  reg("81", "Ambon", [-3.7, 128.18], ["Pattimura"]),
+  reg("81", "Tual", [-5.63, 132.75]),
+  reg("81", "Kepulauan Aru", [-5.76, 134.22], ["Dobo"]),
+  reg("81", "Buru", [-3.25, 127.1], ["Namlea"]),
+  reg("81", "Kepulauan Tanimbar", [-7.98, 131.3], ["Saumlaki"]),
+  // Maluku Utara
+  reg("82", "Ternate", [0.79, 127.38]),
+  reg("82", "Tidore Kepulauan", [0.68, 127.4], ["Tidore", "Sofifi"]),
+  reg("82", "Halmahera Utara", [1.73, 128.0], ["Tobelo"]),
+  reg("82", "Pulau Morotai", [2.3, 128.4], ["Morotai"]),
+  // Papua Barat
+  reg("92", "Manokwari", [-0.86, 134.06]),
+  reg("92", "Fakfak", [-2.92, 132.3]),
+  reg("92", "Kaimana", [-3.66, 133.77]),
+  reg("92", "Teluk Bintuni", [-2.1, 133.5], ["Bintuni"]),
+  // Papua Barat Daya
+  reg("96", "Sorong", [-0.88, 131.25]),
+  reg("96", "Raja Ampat", [-0.43, 130.82], ["Waisai"]),
+  // Papua
+  reg("91", "Jayapura", [-2.53, 140.72], ["Sentani"]),
+  reg("91", "Biak Numfor", [-1.18, 136.08], ["Biak"]),
+  reg("91", "Sarmi", [-1.86, 138.74]),
+  reg("91", "Kepulauan Yapen", [-1.87, 136.24], ["Serui"]),
+  // Papua Tengah
+  reg("94", "Nabire", [-3.37, 135.5]),
+  reg("94", "Mimika", [-4.55, 136.89], ["Timika"]),
+  reg("94", "Paniai", [-3.92, 136.38], ["Enarotali"]),
+  // Papua Pegunungan
+  reg("95", "Jayawijaya", [-4.1, 138.95], ["Wamena"]),
+  reg("95", "Yahukimo", [-4.85, 139.48], ["Dekai"]),
+  // Papua Selatan
+  reg("93", "Merauke", [-8.49, 140.4], ["Mopah"]),
+  reg("93", "Boven Digoel", [-6.1, 140.3], ["Tanah Merah"]),
+  reg("93", "Asmat", [-5.54, 138.13], ["Agats"]),
+];
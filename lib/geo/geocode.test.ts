@@ -0,0 +1,67 @@
+import { describe, expect, it } from "vitest";
+import type { EventItem } from "../types";
+import { findProvince, geocodeLocation, geoOf } from "./geocode";
+
+describe("geocodeLocation", () => {
+  it("resolves a town to its kabupaten/kota", () => {
+    expect(geocodeLocation("Pelabuhan Makassar, Sulsel")).toEqual({
+      lat: -5.14,
+      lon: 119.42,
+      province: "Sulawesi Selatan",
+      place: "Makassar",
+    });
+  });
+
+  it("falls back to the province when no town is named", () => {
+    expect(geocodeLocation("Kantor Kemenhub, Jakarta")).toMatchObject({
+      province: "DKI Jakarta",
+    });
+    expect(geocodeLocation("Kantor Kemenhub, Jakarta")?.place).toBeUndefined();
+  });
+
+  it("lets the longest alias win and ignores administrative words", () => {
+    expect(geocodeLocation("Tanjung Priok, Jakarta Utara")?.place).toBe("Jakarta Utara");
+    expect(geocodeLocation("Kab. Bandung")?.place).toBe("Bandung");
+  });
+
+  it("uses a named province to settle same-named places", () => {
+    expect(geocodeLocation("Ketapang, Kalbar")).toMatchObject({
+      province: "Kalimantan Barat",
+      place: "Ketapang",
+    });
+    expect(geocodeLocation("Pelabuhan Ketapang")?.place).toBe("Banyuwangi");
+  });
+
+  it("returns null for unknown or empty text", () => {
+    expect(geocodeLocation("Ruang rapat lantai 3")).toBeNull();
+    expect(geocodeLocation("  ")).toBeNull();
+    expect(geocodeLocation(undefined)).toBeNull();
+  });
+});
+
+describe("findProvince", () => {
+  it("accepts the code, the name or an alias", () => {
+    expect(findProvince("32")?.name).toBe("Jawa Barat");
+    expect(findProvince("jabar")?.id).toBe("32");
+    expect(findProvince("Provinsi Jawa Barat")?.id).toBe("32");
+    expect(findProvince("Atlantis")).toBeUndefined();
+  });
+});
+
+describe("geoOf", () => {
+  const event: EventItem = {
+    id: "evt-1",
+    title: "Kunjungan kerja",
+    date: "2026-10-20T02:00:00.000Z",
+    location: "Bandung",
+    attendedByMinister: true,
+    source: "dephub.go.id",
+    link: "https://dephub.go.id/agenda/1",
+  };
+
+  it("prefers the stored position and geocodes otherwise", () => {
+    const manual = { lat: 1, lon: 2, province: "Jawa Barat", source: "manual" as const };
+    expect(geoOf({ ...event, geo: manual })).toBe(manual);
+    expect(geoOf(event)).toMatchObject({ place: "Bandung", source: "gazetteer" });
+  });
+});
@@ -0,0 +1,94 @@
+// =============================
+// Geocoding of free-text event locations against the bundled gazetteer
+// (pure; client and server safe). "Pelabuhan Makassar, Sulsel" resolves to
+// the kota; "Kantor Kemenhub, Jakarta" only to the province. The longest
+// alias wins a span, and a province named next to a town settles same-named
+// places ("Ketapang, Kalbar" vs Pelabuhan Ketapang in Banyuwangi).
+// =============================
+
+import { foldText } from "../tokenize";
+import type { EventItem, GeoPoint } from "../types";
+import { PROVINCES, REGENCIES, type Province, type Regency } from "./gazetteer";
+
+export type GeoMatch = Pick<GeoPoint, "lat" | "lon" | "province" | "place">;
+
+type Candidate =
+  | { regency: Regency; province: Province }
+  | { regency?: undefined; province: Province };
+
+export const provinceById = new Map(PROVINCES.map((p) => [p.id, p]));
+
+// Accepts the BPS code, the name or an alias
+export function findProvince(value: string) {
+  const key = normalize(value);
+  return PROVINCES.find(
+    (p) => p.id === value.trim() || [p.name, ...p.aliases].some((a) => normalize(a) === key)
+  );
+}
+
+// Administrative words are dropped so "Kabupaten Bandung", "Kota Bandung"
+// and "Kab. Bandung" all read as "bandung"
+const ADMIN_WORDS = new Set(["kabupaten", "kab", "kota", "kotamadya", "provinsi", "prov"]);
+
+function normalize(text: string) {
+  return foldText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w && !ADMIN_WORDS.has(w))
+    .join(" ");
+}
+
+// Normalized alias -> every place it may name
+const INDEX = new Map<string, Candidate[]>();
+const index = (alias: string, candidate: Candidate) => {
+  const key = normalize(alias);
+  if (key) INDEX.set(key, [...(INDEX.get(key) ?? []), candidate]);
+};
+PROVINCES.forEach((p) => [p.name, ...p.aliases].forEach((a) => index(a, { province: p })));
+REGENCIES.forEach((r) => {
+  const province = provinceById.get(r.province);
+  if (province) [r.name, ...(r.aliases ?? [])].forEach((a) => index(a, { regency: r, province }));
+});
+
+// Longest first, in words, so "Jakarta Utara" claims its span before "Jakarta"
+const ALIASES = [...INDEX.keys()]
+  .map((key) => key.split(" "))
+  .sort((a, b) => b.length - a.length || b.join(" ").length - a.join(" ").length);
+
+// Candidates in text order
+function scan(text: string): Candidate[] {
+  const words = normalize(text).split(" ");
+  const taken = new Uint8Array(words.length);
+  const found: Array<{ at: number; candidates: Candidate[] }> = [];
+  ALIASES.forEach((alias) => {
+    for (let i = 0; i + alias.length <= words.length; i++) {
+      const span = taken.subarray(i, i + alias.length);
+      if (span.some((t) => t) || alias.some((w, k) => words[i + k] !== w)) continue;
+      span.fill(1);
+      found.push({ at: i, candidates: INDEX.get(alias.join(" ")) ?? [] });
+    }
+  });
+  return found.sort((a, b) => a.at - b.at).flatMap((f) => f.candidates);
+}
+
+export function geocodeLocation(text: string | undefined): GeoMatch | null {
+  if (!text?.trim()) return null;
+  const candidates = scan(text);
+  const named = new Set(candidates.filter((c) => !c.regency).map((c) => c.province.id));
+  const towns = candidates.filter((c) => c.regency);
+  // A town in a province the text names beats one elsewhere; when the
+  // province rules out every town, the province is the safer answer
+  const town = named.size ? towns.find((c) => named.has(c.province.id)) : towns[0];
+  if (town?.regency) {
+    const { regency, province } = town;
+    return { lat: regency.lat, lon: regency.lon, province: province.name, place: regency.name };
+  }
+  const province = candidates.find((c) => !c.regency)?.province;
+  return province ? { lat: province.lat, lon: province.lon, province: province.name } : null;
+}
+
+// Stored position (manual or from ingest) or a fresh lookup
+export function geoOf(e: EventItem): GeoPoint | null {
+  if (e.geo) return e.geo;
+  const match = geocodeLocation(e.location);
+  return match ? { ...match, source: "gazetteer" } : null;
+}
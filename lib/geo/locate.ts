@@ -0,0 +1,84 @@
+// =============================
+// Event positions for the map (server only).
+// Ingest and re-geocoding fill `geo` from the gazetteer; an editor's manual
+// position is never replaced by either.
+// =============================
+
+import { fail, ok, type Result } from "../result";
+import { events } from "../store";
+import type { EventItem, GeoPoint } from "../types";
+import { REGENCIES } from "./gazetteer";
+import { findProvince, geocodeLocation } from "./geocode";
+
+const fromGazetteer = (e: EventItem): GeoPoint | undefined => {
+  const match = geocodeLocation(e.location);
+  return match ? { ...match, source: "gazetteer" } : undefined;
+};
+
+// For ingest: items whose stored copy was placed by hand keep that position
+// (upsert leaves undefined fields alone). Portal ids derive from the link, so
+// the id identifies the stored copy.
+export async function geocodeEvents(items: EventItem[]) {
+  const manual = new Set(
+    (await events.all()).filter((e) => e.geo?.source === "manual").map((e) => e.id)
+  );
+  return items.map((e) => ({ ...e, geo: manual.has(e.id) ? undefined : fromGazetteer(e) }));
+}
+
+// Re-runs the lookup over every stored event, e.g. after a gazetteer update
+export async function regeocodeStoredEvents() {
+  const changed = await events.updateMany((e) => {
+    if (e.geo?.source === "manual") return undefined;
+    const geo = fromGazetteer(e);
+    return JSON.stringify(geo) === JSON.stringify(e.geo) ? undefined : { ...e, geo };
+  });
+  const unresolved = (await events.all()).filter((e) => !e.geo).length;
+  return { updated: changed.length, unresolved };
+}
+
+export type LocationInput = {
+  // Name, abbreviation or BPS code; null goes back to the gazetteer lookup
+  province?: string | null;
+  // Kabupaten/kota within the province
+  place?: string;
+  by?: string;
+};
+
+export async function setEventLocation(
+  id: string,
+  input: LocationInput
+): Promise<Result<EventItem>> {
+  const missing = fail(404, `Event ${id} tidak ditemukan`);
+  if (input.province === null) {
+    return events.change(id, (e) => (e ? ok({ ...e, geo: fromGazetteer(e) }) : missing));
+  }
+  const province = findProvince(input.province ?? "");
+  if (!province) return fail(400, `Provinsi tidak dikenal: ${input.province ?? ""}`);
+  const placeName = input.place?.trim();
+  const regency = placeName
+    ? REGENCIES.find(
+        (r) => r.province === province.id && r.name.toLowerCase() === placeName.toLowerCase()
+      )
+    : undefined;
+  if (placeName && !regency) {
+    return fail(400, `${placeName} tidak ada di gazetteer ${province.name}`);
+  }
+  const by = input.by?.trim() ?? "";
+  if (!by) return fail(400, "Nama editor wajib diisi");
+  const { lat, lon } = regency ?? province;
+  return events.change(id, (e) => {
+    if (!e) return missing;
+    return ok({
+      ...e,
+      geo: {
+        lat,
+        lon,
+        province: province.name,
+        place: regency?.name,
+        source: "manual",
+        by,
+        at: new Date().toISOString(),
+      },
+    });
+  });
+}
@@ -0,0 +1,51 @@
+import { describe, expect, it } from "vitest";
+import { toIcs } from "./ics";
+import type { EventItem } from "./types";
+
+const event: EventItem = {
+  id: "evt-1",
+  title: "Rapat koordinasi; angkutan Nataru, 2026",
+  date: "2026-10-20T02:00:00.000Z",
+  location: "Jakarta",
+  attendedByMinister: true,
+  source: "dephub.go.id",
+  tags: ["Darat"],
+  summary: "Baris pertama\nBaris kedua",
+  link: "https://dephub.go.id/agenda/1",
+};
+
+const NOW = Date.parse("2026-10-19T00:00:00.000Z");
+
+describe("toIcs", () => {
+  it("writes one VEVENT per event with a one-hour slot in UTC", () => {
+    const ics = toIcs([event], { name: "Agenda Menhub", domain: "cc.test", now: NOW });
+    expect(ics.startsWith("BEGIN:VCALENDAR\r\n")).toBe(true);
+    expect(ics.endsWith("END:VCALENDAR\r\n")).toBe(true);
+    expect(ics).toContain("UID:evt-1@cc.test");
+    expect(ics).toContain("DTSTAMP:20261019T000000Z");
+    expect(ics).toContain("DTSTART:20261020T020000Z");
+    expect(ics).toContain("DTEND:20261020T030000Z");
+    expect(ics).toContain("CATEGORIES:Darat,Dihadiri Menteri");
+    expect(ics).toContain("URL:https://dephub.go.id/agenda/1");
+  });
+
+  it("escapes text values and folds long lines", () => {
+    const ics = toIcs([event], { name: "Agenda", now: NOW });
+    expect(ics).toContain("SUMMARY:[Menhub] Rapat koordinasi\\; angkutan Nataru\\, 2026");
+    const lines = ics.split("\r\n");
+    expect(lines.every((l) => new TextEncoder().encode(l).length <= 75)).toBe(true);
+    expect(ics.replace(/\r\n /g, "")).toContain(
+      "DESCRIPTION:Baris pertama\\nBaris kedua\\nSumber: dephub.go.id\\n" +
+        "https://dephub.go.id/agenda/1"
+    );
+  });
+
+  it("leaves out the URL of an event without a link", () => {
+    const ics = toIcs([{ ...event, link: "#", attendedByMinister: false }], {
+      name: "Agenda",
+      now: NOW,
+    });
+    expect(ics).not.toContain("URL:");
+    expect(ics).toContain("SUMMARY:Rapat koordinasi");
+  });
+});
@@ -0,0 +1,91 @@
+// =============================
+// iCalendar (RFC 5545) serialization of events (pure; client and server safe).
+// Events carry only a start time, so each gets a default one-hour slot.
+// Times are written in UTC; calendar apps show them in the reader's zone.
+// =============================
+
+import type { EventItem } from "./types";
+
+export const DEFAULT_DURATION_MINUTES = 60;
+
+const MINISTER_CATEGORY = "Dihadiri Menteri";
+
+// 20261019T020000Z
+const icsTime = (iso: string | number) =>
+  new Date(iso).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+
+// Backslash, semicolon, comma and newlines are escaped in TEXT values
+const icsText = (text: string) =>
+  text
+    .replace(/\\/g, "\\\\")
+    .replace(/;/g, "\\;")
+    .replace(/,/g, "\\,")
+    .replace(/\r?\n/g, "\\n");
+
+// Lines longer than 75 octets continue on the next line after a space
+function fold(line: string) {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = "";
+  let size = 0;
+  for (const ch of line) {
+    const n = encoder.encode(ch).length;
+    if (size + n > (parts.length ? 74 : 75)) {
+      parts.push(current);
+      current = "";
+      size = 0;
+    }
+    current += ch;
+    size += n;
+  }
+  parts.push(current);
+  return parts.join("\r\n ");
+}
+
+function vevent(e: EventItem, stamp: string, domain: string) {
+  const start = +new Date(e.date);
+  const categories = [...(e.tags ?? []), ...(e.attendedByMinister ? [MINISTER_CATEGORY] : [])];
+  const description = [e.summary, `Sumber: ${e.source}`, e.link !== "#" ? e.link : ""]
+    .filter(Boolean)
+    .join("\n");
+  return [
+    "BEGIN:VEVENT",
+    `UID:${e.id}@${domain}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${icsTime(start)}`,
+    `DTEND:${icsTime(start + DEFAULT_DURATION_MINUTES * 60 * 1000)}`,
+    // The Minister's events stand out in a crowded calendar
+    `SUMMARY:${icsText(`${e.attendedByMinister ? "[Menhub] " : ""}${e.title}`)}`,
+    e.location && `LOCATION:${icsText(e.location)}`,
+    `DESCRIPTION:${icsText(description)}`,
+    /^https?:\/\//.test(e.link) && `URL:${e.link}`,
+    categories.length > 0 && `CATEGORIES:${categories.map(icsText).join(",")}`,
+    "END:VEVENT",
+  ].filter((line): line is string => Boolean(line));
+}
+
+export function toIcs(
+  items: EventItem[],
+  {
+    name,
+    domain = "kemenhub-cc",
+    now = Date.now(),
+  }: { name: string; domain?: string; now?: number }
+) {
+  const stamp = icsTime(now);
+  const lines = [
+    "BEGIN:VCALENDAR",
+    "VERSION:2.0",
+    "PRODID:-//Kemenhub Command Center//Agenda//ID",
+    "CALSCALE:GREGORIAN",
+    "METHOD:PUBLISH",
+    `X-WR-CALNAME:${icsText(name)}`,
+    "X-WR-TIMEZONE:Asia/Jakarta",
+    // Hint for subscribed calendars to poll hourly
+    "REFRESH-INTERVAL;VALUE=DURATION:PT1H",
+    "X-PUBLISHED-TTL:PT1H",
+    ...items.flatMap((e) => vevent(e, stamp, domain)),
+    "END:VCALENDAR",
+  ];
+  return `${lines.map(fold).join("\r\n")}\r\n`;
+}
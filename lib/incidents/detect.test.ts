@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import type { IncidentConfig, NewsItem, QuoteItem } from "../types";
+import { DEFAULT_INCIDENT_CONFIG, detectIncidents } from "./detect";
+
+const NOW = Date.parse("2026-10-19T12:00:00.000Z");
+const HOUR = 60 * 60 * 1000;
+
+// Window of 6 hours against four baseline buckets
+const cfg: IncidentConfig = { ...DEFAULT_INCIDENT_CONFIG, windowHours: 6, baselineDays: 1 };
+
+let seq = 0;
+const news = (title: string, hoursAgo: number, entities?: string[]): NewsItem => ({
+  id: `news-${++seq}`,
+  title,
+  source: "Antara",
+  publishedAt: new Date(NOW - hoursAgo * HOUR).toISOString(),
+  link: `https://antaranews.com/berita/${seq}`,
+  entities,
+});
+
+const sinking = (n: number, hoursAgo = 1, entities?: string[]) =>
+  Array.from({ length: n }, () => news("Kapal penumpang tenggelam", hoursAgo, entities));
+
+const detect = (items: NewsItem[], config = cfg, quotes: QuoteItem[] = []) =>
+  detectIncidents({ events: [], news: items, quotes }, config, NOW);
+
+const keyword = (report: ReturnType<typeof detect>, term: string) =>
+  report.keywords.find((k) => k.term === term)!;
+
+describe("detectIncidents", () => {
+  it("spikes when the count reaches minCount and z reaches the threshold", () => {
+    const report = detect(sinking(3));
+    expect(keyword(report, "tenggelam")).toMatchObject({
+      count: 3,
+      mean: 0,
+      sd: 0,
+      z: 3,
+      spike: true,
+    });
+    expect(report.incident?.terms).toEqual(["tenggelam"]);
+    expect(report.crisis).toBe(true);
+  });
+
+  it("needs minCount items in the window, whatever the z-score", () => {
+    const report = detect(sinking(2));
+    expect(keyword(report, "tenggelam")).toMatchObject({ count: 2, z: 2, spike: false });
+    expect(report.incident).toBeNull();
+    expect(report.crisis).toBe(false);
+  });
+
+  it("does not spike on a keyword that is always this busy", () => {
+    const items = [0.5, 7, 13, 19, 25].flatMap((h) => sinking(3, h));
+    expect(keyword(detect(items), "tenggelam")).toMatchObject({ count: 3, mean: 3, spike: false });
+  });
+
+  it("raises the bar with a higher threshold", () => {
+    const report = detect(sinking(3), { ...cfg, zThreshold: 4 });
+    expect(keyword(report, "tenggelam").spike).toBe(false);
+  });
+
+  it("reports an incident without the crisis layout when crisis mode is off", () => {
+    const report = detect(sinking(3), { ...cfg, crisisMode: "off" });
+    expect(report.incident).not.toBeNull();
+    expect(report.crisis).toBe(false);
+  });
+
+  it("tracks entities within incident coverage and gathers statements", () => {
+    const quote: QuoteItem = {
+      id: "q-1",
+      text: "Tim SAR terus mencari korban kapal yang tenggelam",
+      speaker: "Menhub",
+      date: new Date(NOW - 2 * HOUR).toISOString(),
+      link: "https://dephub.go.id/siaran/1",
+    };
+    const report = detect(
+      [...sinking(3, 1, ["Selat Sunda"]), news("Tarif tol naik", 1, ["Selat Sunda"])],
+      cfg,
+      [quote]
+    );
+    expect(report.entities.map((e) => e.term)).toEqual(["Selat Sunda"]);
+    expect(report.entities[0].count).toBe(3);
+    expect(report.incident?.items).toHaveLength(3);
+    expect(report.incident?.statements.map((s) => s.id)).toEqual(["q-1"]);
+    expect(report.incident?.timeline[0].id).toBe("q-1");
+  });
+});
@@ -0,0 +1,250 @@
+// =============================
+// Incident spike detection (pure; client and server safe).
+// News volume per incident keyword is counted in the current window and in
+// equally long baseline buckets before it; a keyword spikes when its count
+// reaches `minCount` and its z-score against the buckets reaches
+// `zThreshold`. Entities are tracked the same way within incident coverage
+// only (news matching any keyword), which points at where it happened
+// ("Selat Sunda") without every busy news day looking like a crisis.
+// =============================
+
+import type { DateRange } from "../daterange";
+import { stem, tokenize } from "../tokenize";
+import type { EventItem, IncidentConfig, NewsItem, QuoteItem } from "../types";
+
+export const DEFAULT_INCIDENT_CONFIG: IncidentConfig = {
+  id: "incident-config",
+  keywords: [
+    "kecelakaan",
+    "tenggelam",
+    "tergelincir",
+    "anjlok",
+    "tabrakan",
+    "terbakar",
+    "kandas",
+    "jatuh",
+  ],
+  windowHours: 6,
+  baselineDays: 7,
+  minCount: 3,
+  zThreshold: 3,
+  timelineHours: 48,
+  crisisMode: "auto",
+};
+
+export type VolumeStat = {
+  kind: "keyword" | "entity";
+  term: string;
+  count: number;
+  // Mean and standard deviation over the baseline buckets
+  mean: number;
+  sd: number;
+  z: number;
+  spike: boolean;
+  // News in the current window, newest first
+  itemIds: string[];
+};
+
+export type TimelineEntry = {
+  kind: "news" | "event" | "quote";
+  id: string;
+  at: string;
+  title: string;
+  source: string;
+  link: string;
+};
+
+export type Incident = {
+  // Spiking keywords and entities
+  terms: string[];
+  // Coverage matching the spiking keywords within the timeline, newest first
+  items: TimelineEntry[];
+  // Quotes and events on the same keywords or entities, newest first
+  statements: TimelineEntry[];
+  // Items and statements together, oldest first
+  timeline: TimelineEntry[];
+};
+
+export type IncidentReport = {
+  generatedAt: string;
+  window: DateRange;
+  config: IncidentConfig;
+  // Every keyword, highest z first
+  keywords: VolumeStat[];
+  // Spiking entities only
+  entities: VolumeStat[];
+  // Set when something spikes, even with crisis mode off
+  incident: Incident | null;
+  // Whether the dashboard should switch to the crisis layout
+  crisis: boolean;
+};
+
+const HOUR = 60 * 60 * 1000;
+// Keeps a flat baseline (sd 0) from turning one extra item into a huge z-score
+const MIN_SD = 1;
+
+// Stems of a keyword phrase; an item matches when it has all of them
+const keywordStems = (k: string) => tokenize(k).map(stem);
+
+const stemsOf = (text: string) => new Set(tokenize(text).map(stem));
+
+const hasAll = (stems: Set<string>, needed: string[]) =>
+  needed.length > 0 && needed.every((s) => stems.has(s));
+
+function stats(buckets: number[], count: number) {
+  const mean = buckets.reduce((n, c) => n + c, 0) / (buckets.length || 1);
+  const variance = buckets.reduce((n, c) => n + (c - mean) ** 2, 0) / (buckets.length || 1);
+  const sd = Math.sqrt(variance);
+  const round = (n: number) => Math.round(n * 100) / 100;
+  return { mean: round(mean), sd: round(sd), z: round((count - mean) / Math.max(sd, MIN_SD)) };
+}
+
+// Bucket 0 is the current window, 1.. go back in time; -1 is outside
+function bucketOf(iso: string, now: number, windowMs: number, buckets: number) {
+  const age = now - +new Date(iso);
+  if (age < 0) return -1;
+  const i = Math.floor(age / windowMs);
+  return i <= buckets ? i : -1;
+}
+
+function volume(
+  kind: VolumeStat["kind"],
+  term: string,
+  hits: NewsItem[],
+  cfg: IncidentConfig,
+  now: number
+): VolumeStat {
+  const windowMs = cfg.windowHours * HOUR;
+  const baseline = Math.max(1, Math.floor((cfg.baselineDays * 24) / cfg.windowHours));
+  const counts = new Array<number>(baseline + 1).fill(0);
+  const current: NewsItem[] = [];
+  hits.forEach((n) => {
+    const b = bucketOf(n.publishedAt, now, windowMs, baseline);
+    if (b < 0) return;
+    counts[b]++;
+    if (b === 0) current.push(n);
+  });
+  const count = counts[0];
+  const s = stats(counts.slice(1), count);
+  return {
+    kind,
+    term,
+    count,
+    ...s,
+    spike: count >= cfg.minCount && s.z >= cfg.zThreshold,
+    itemIds: current
+      .sort((a, b) => +new Date(b.publishedAt) - +new Date(a.publishedAt))
+      .map((n) => n.id),
+  };
+}
+
+const newsEntry = (n: NewsItem): TimelineEntry => ({
+  kind: "news",
+  id: n.id,
+  at: n.publishedAt,
+  title: n.title,
+  source: n.source,
+  link: n.link,
+});
+
+const newestFirst = (a: TimelineEntry, b: TimelineEntry) => +new Date(b.at) - +new Date(a.at);
+
+export function detectIncidents(
+  data: { events: EventItem[]; news: NewsItem[]; quotes: QuoteItem[] },
+  cfg: IncidentConfig,
+  now = Date.now()
+): IncidentReport {
+  const keywords = cfg.keywords.map((k) => ({ term: k, stems: keywordStems(k) }));
+  const newsStems = new Map(
+    data.news.map((n) => [n.id, stemsOf(`${n.title} ${n.summary ?? ""}`)])
+  );
+  const matching = (stems: string[]) =>
+    data.news.filter((n) => hasAll(newsStems.get(n.id)!, stems));
+
+  const keywordStats = keywords
+    .map((k) => volume("keyword", k.term, matching(k.stems), cfg, now))
+    .sort((a, b) => b.z - a.z || b.count - a.count);
+
+  // Entity volume within incident coverage
+  const incidentNews = data.news.filter((n) =>
+    keywords.some((k) => hasAll(newsStems.get(n.id)!, k.stems))
+  );
+  // Topic entities like "Kecelakaan" would only repeat a keyword
+  const entityNames = [...new Set(incidentNews.flatMap((n) => n.entities ?? []))].filter(
+    (e) => !keywords.some((k) => hasAll(stemsOf(e), k.stems))
+  );
+  const entityStats = entityNames
+    .map((e) =>
+      volume("entity", e, incidentNews.filter((n) => (n.entities ?? []).includes(e)), cfg, now)
+    )
+    .filter((s) => s.spike)
+    .sort((a, b) => b.z - a.z || b.count - a.count);
+
+  const window = {
+    from: new Date(now - cfg.windowHours * HOUR).toISOString(),
+    to: new Date(now).toISOString(),
+  };
+  const report = {
+    generatedAt: new Date(now).toISOString(),
+    window,
+    config: cfg,
+    keywords: keywordStats,
+    entities: entityStats,
+  };
+
+  const spiking = keywords.filter((k) => keywordStats.some((s) => s.term === k.term && s.spike));
+  if (!spiking.length) return { ...report, incident: null, crisis: false };
+
+  const since = now - cfg.timelineHours * HOUR;
+  const recent = (iso: string) => +new Date(iso) >= since && +new Date(iso) <= now;
+  const onTopic = (text: string, entities: string[] = []) => {
+    const stems = stemsOf(text);
+    return (
+      spiking.some((k) => hasAll(stems, k.stems)) ||
+      entityStats.some((e) => entities.includes(e.term))
+    );
+  };
+
+  const items = data.news
+    .filter((n) => recent(n.publishedAt))
+    .filter((n) => spiking.some((k) => hasAll(newsStems.get(n.id)!, k.stems)))
+    .map(newsEntry)
+    .sort(newestFirst);
+  const statements = [
+    ...data.quotes
+      .filter((q) => recent(q.date) && onTopic(`${q.text} ${q.context ?? ""}`, q.tags))
+      .map(
+        (q): TimelineEntry => ({
+          kind: "quote",
+          id: q.id,
+          at: q.date,
+          title: `"${q.text}"`,
+          source: q.speaker,
+          link: q.link,
+        })
+      ),
+    ...data.events
+      .filter((e) => recent(e.date) && onTopic(`${e.title} ${e.summary ?? ""}`, e.tags))
+      .map(
+        (e): TimelineEntry => ({
+          kind: "event",
+          id: e.id,
+          at: e.date,
+          title: e.title,
+          source: e.source,
+          link: e.link,
+        })
+      ),
+  ].sort(newestFirst);
+
+  return {
+    ...report,
+    incident: {
+      terms: [...spiking.map((k) => k.term), ...entityStats.map((e) => e.term)],
+      items,
+      statements,
+      timeline: [...items, ...statements].sort((a, b) => newestFirst(b, a)),
+    },
+    crisis: cfg.crisisMode === "auto",
+  };
+}
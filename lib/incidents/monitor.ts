@@ -0,0 +1,89 @@
+// =============================
+// Incident monitor settings and report (server only).
+// The detector config is a single record; until an editor saves it the
+// defaults from lib/incidents/detect.ts apply.
+// =============================
+
+import { fail, ok, type Result } from "../result";
+import { createCollection, events, news, quotes } from "../store";
+import type { IncidentConfig } from "../types";
+import { DEFAULT_INCIDENT_CONFIG, detectIncidents, type IncidentReport } from "./detect";
+
+const configs = createCollection<IncidentConfig>("incident-config");
+
+export type IncidentConfigInput = {
+  keywords?: unknown;
+  windowHours?: unknown;
+  baselineDays?: unknown;
+  minCount?: unknown;
+  zThreshold?: unknown;
+  timelineHours?: unknown;
+  crisisMode?: unknown;
+  by?: string;
+};
+
+// Field limits: [min, max, label]
+const LIMITS = {
+  windowHours: [1, 72, "Jendela"],
+  baselineDays: [1, 90, "Baseline"],
+  minCount: [1, 1000, "Jumlah minimum"],
+  zThreshold: [0.5, 20, "Ambang z"],
+  timelineHours: [1, 336, "Rentang timeline"],
+} as const;
+
+export async function getIncidentConfig(): Promise<IncidentConfig> {
+  return (await configs.get(DEFAULT_INCIDENT_CONFIG.id)) ?? DEFAULT_INCIDENT_CONFIG;
+}
+
+const keywordList = (value: unknown) =>
+  (Array.isArray(value) ? value : String(value ?? "").split(/[,\n]/))
+    .map((k) => String(k).trim().toLowerCase())
+    .filter((k, i, all) => k && all.indexOf(k) === i);
+
+// Validated fields of `input` over `next`
+function applyConfig(next: IncidentConfig, input: IncidentConfigInput): Result<IncidentConfig> {
+  if (input.keywords !== undefined) {
+    next.keywords = keywordList(input.keywords);
+    if (!next.keywords.length) return fail(400, "Isi minimal satu kata kunci");
+  }
+  for (const field of Object.keys(LIMITS) as Array<keyof typeof LIMITS>) {
+    if (input[field] === undefined) continue;
+    const [min, max, label] = LIMITS[field];
+    const value = Number(input[field]);
+    if (!Number.isFinite(value) || value < min || value > max) {
+      return fail(400, `${label} harus antara ${min} dan ${max}`);
+    }
+    next[field] = field === "zThreshold" ? value : Math.round(value);
+  }
+  if (input.crisisMode !== undefined) {
+    if (input.crisisMode !== "auto" && input.crisisMode !== "off") {
+      return fail(400, "crisisMode harus auto atau off");
+    }
+    next.crisisMode = input.crisisMode;
+  }
+  if (next.windowHours > next.baselineDays * 24) {
+    return fail(400, "Jendela tidak boleh lebih panjang dari baseline");
+  }
+  next.updatedAt = new Date().toISOString();
+  next.updatedBy = input.by?.trim() || undefined;
+  return ok(next);
+}
+
+export async function updateIncidentConfig(
+  input: IncidentConfigInput
+): Promise<Result<IncidentConfig>> {
+  // Partial edits merge over the stored record, so read and write share the lock
+  return configs.change(DEFAULT_INCIDENT_CONFIG.id, (stored) =>
+    applyConfig({ ...(stored ?? DEFAULT_INCIDENT_CONFIG) }, input)
+  );
+}
+
+export async function incidentReport(now = Date.now()): Promise<IncidentReport> {
+  const [cfg, e, n, q] = await Promise.all([
+    getIncidentConfig(),
+    events.all(),
+    news.all(),
+    quotes.all(),
+  ]);
+  return detectIncidents({ events: e, news: n, quotes: q }, cfg, now);
+}
@@ -0,0 +1,55 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { normalizeDate } from "./dates";
+
+describe("normalizeDate", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it("reads RFC 822 dates with a numeric zone", () => {
+    expect(normalizeDate("Mon, 19 Oct 2026 08:15:00 +0700")).toBe("2026-10-19T01:15:00.000Z");
+    expect(normalizeDate("Mon, 19 Oct 2026 01:15:00 GMT")).toBe("2026-10-19T01:15:00.000Z");
+  });
+
+  it("reads ISO 8601", () => {
+    expect(normalizeDate("2026-10-19T10:05:00+07:00")).toBe("2026-10-19T03:05:00.000Z");
+    expect(normalizeDate("2026-10-16T07:00:00Z")).toBe("2026-10-16T07:00:00.000Z");
+  });
+
+  it("reads Indonesian day and month names", () => {
+    expect(normalizeDate("Sen, 19 Okt 2026 09:30:00 WIB")).toBe("2026-10-19T02:30:00.000Z");
+    expect(normalizeDate("Senin, 17 Agustus 2026 10.00 WIB")).toBe("2026-08-17T03:00:00.000Z");
+    expect(normalizeDate("5 Mei 2026")).toBe("2026-05-04T17:00:00.000Z");
+    expect(normalizeDate("20/10/2026 09.30")).toBe("2026-10-20T02:30:00.000Z");
+  });
+
+  it("applies WIB, WITA and WIT offsets", () => {
+    expect(normalizeDate("20 Oktober 2026 09:00 WIB")).toBe("2026-10-20T02:00:00.000Z");
+    expect(normalizeDate("20 Oktober 2026 09:00 WITA")).toBe("2026-10-20T01:00:00.000Z");
+    expect(normalizeDate("20 Oktober 2026 09:00 WIT")).toBe("2026-10-20T00:00:00.000Z");
+  });
+
+  it("assumes WIB when a local date has no zone", () => {
+    expect(normalizeDate("20 Oktober 2026 09:00")).toBe("2026-10-20T02:00:00.000Z");
+  });
+
+  it("assumes WIB for ISO dates without an offset, whatever the server zone", () => {
+    for (const tz of ["UTC", "America/New_York", "Asia/Tokyo"]) {
+      vi.stubEnv("TZ", tz);
+      expect(normalizeDate("2026-10-20")).toBe("2026-10-19T17:00:00.000Z");
+      expect(normalizeDate("2026-10-20T09:30")).toBe("2026-10-20T02:30:00.000Z");
+      expect(normalizeDate("2026-10-20 09:30:15")).toBe("2026-10-20T02:30:15.000Z");
+    }
+  });
+
+  it("ignores month names inherited from Object.prototype", () => {
+    expect(normalizeDate("20 constructor 2026")).toBeUndefined();
+  });
+
+  it("gives up on text it cannot read", () => {
+    expect(normalizeDate("kemarin sore")).toBeUndefined();
+    expect(normalizeDate("")).toBeUndefined();
+    expect(normalizeDate(undefined)).toBeUndefined();
+    expect(normalizeDate("2026-13-45")).toBeUndefined();
+  });
+});
@@ -0,0 +1,76 @@
+// Date normalization for ingested content.
+// Handles RFC 822 / ISO 8601 plus Indonesian day/month names and WIB/WITA/WIT zones.
+
+const MONTHS: Record<string, number> = {
+  jan: 0, januari: 0, january: 0,
+  feb: 1, februari: 1, february: 1, peb: 1, pebruari: 1,
+  mar: 2, maret: 2, march: 2,
+  apr: 3, april: 3,
+  mei: 4, may: 4,
+  jun: 5, juni: 5, june: 5,
+  jul: 6, juli: 6, july: 6,
+  agu: 7, agt: 7, agus: 7, agustus: 7, aug: 7, august: 7,
+  sep: 8, sept: 8, september: 8,
+  okt: 9, oktober: 9, oct: 9, october: 9,
+  nov: 10, nopember: 10, november: 10,
+  des: 11, desember: 11, dec: 11, december: 11,
+};
+
+const ZONES: Record<string, string> = { WIB: "+07:00", WITA: "+08:00", WIT: "+09:00" };
+
+const pad = (n: number) => String(n).padStart(2, "0");
+
+// "Senin, 20 Oktober 2026 09:30 WIB" / "20 Okt 2026" / "20/10/2026 09.30"
+function parseLocal(raw: string) {
+  const s = raw.replace(/^[a-z]+,\s*/i, "").trim();
+  const zoneMatch = s.match(/\b(WIB|WITA|WIT)\b/i);
+  const numericZone = s.match(/\s([+-])(\d{2}):?(\d{2})$/);
+  // Local sources without a zone are assumed to be in WIB
+  const offset = zoneMatch
+    ? ZONES[zoneMatch[1].toUpperCase()]
+    : numericZone
+    ? `${numericZone[1]}${numericZone[2]}:${numericZone[3]}`
+    : /\b(GMT|UTC|Z)$/i.test(s)
+    ? "+00:00"
+    : "+07:00";
+  const time = s.match(/(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?/);
+  const hh = time ? Number(time[1]) : 0;
+  const mm = time ? Number(time[2]) : 0;
+  const ss = time && time[3] ? Number(time[3]) : 0;
+
+  let y: number | undefined;
+  let m: number | undefined;
+  let d: number | undefined;
+  const named = s.match(/(\d{1,2})\s+([a-z]+)\.?\s+(\d{4})/i);
+  const numeric = s.match(/(\d{1,2})[/-](\d{1,2})[/-](\d{4})/);
+  if (named && Object.hasOwn(MONTHS, named[2].toLowerCase())) {
+    d = Number(named[1]);
+    m = MONTHS[named[2].toLowerCase()];
+    y = Number(named[3]);
+  } else if (numeric) {
+    d = Number(numeric[1]);
+    m = Number(numeric[2]) - 1;
+    y = Number(numeric[3]);
+  }
+  if (y === undefined || m === undefined || d === undefined) return undefined;
+  const iso = `${y}-${pad(m + 1)}-${pad(d)}T${pad(hh)}:${pad(mm)}:${pad(ss)}${offset}`;
+  const date = new Date(iso);
+  return isNaN(+date) ? undefined : date;
+}
+
+// "2026-10-20" / "2026-10-20T09:30" without an offset; JavaScript would read
+// these as UTC or as the server's local time
+const ISO_NO_ZONE = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?))?$/;
+
+// Returns an ISO string, or undefined when the value cannot be understood
+export function normalizeDate(raw: string | undefined | null) {
+  if (!raw) return undefined;
+  const trimmed = raw.trim();
+  if (/^\d{4}-\d{2}-\d{2}/.test(trimmed)) {
+    // Like local dates, ISO values without a zone are assumed to be in WIB
+    const bare = trimmed.match(ISO_NO_ZONE);
+    const iso = new Date(bare ? `${bare[1]}T${bare[2] ?? "00:00"}${ZONES.WIB}` : trimmed);
+    return isNaN(+iso) ? undefined : iso.toISOString();
+  }
+  return parseLocal(trimmed)?.toISOString();
+}
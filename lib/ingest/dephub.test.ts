@@ -0,0 +1,111 @@
+import { readFileSync } from "fs";
+import path from "path";
+import { describe, expect, it } from "vitest";
+import {
+  datelineLocation,
+  detectMinisterAttendance,
+  eventIdFor,
+  parsePortalPage,
+  portalPages,
+  type PortalPage,
+} from "./dephub";
+
+const page = (id: string) => portalPages.find((p) => p.id === id) as PortalPage;
+
+const fixture = (id: string) =>
+  readFileSync(path.join(process.cwd(), "fixtures", "dephub", `${id}.html`), "utf8");
+
+describe("parsePortalPage: agenda", () => {
+  const { items, failures } = parsePortalPage(fixture("agenda"), page("agenda"));
+
+  it("reads every dated entry with absolute links", () => {
+    expect(items.map((e) => e.link)).toEqual([
+      "https://dephub.go.id/agenda/detail/2201",
+      "https://dephub.go.id/agenda/detail/2202",
+      "https://dephub.go.id/agenda/detail/2203",
+    ]);
+    expect(items[0]).toMatchObject({
+      id: eventIdFor("https://dephub.go.id/agenda/detail/2201"),
+      title: "Rapat Koordinasi Kesiapan Angkutan Libur Panjang",
+      location: "Kantor Kemenhub, Jakarta",
+      source: "dephub.go.id",
+    });
+  });
+
+  it("converts WIB and WITA times to UTC", () => {
+    expect(items.map((e) => e.date)).toEqual([
+      "2026-10-19T02:00:00.000Z",
+      "2026-10-20T07:00:00.000Z",
+      "2026-10-22T02:00:00.000Z",
+    ]);
+  });
+
+  it("does not count an event the Minister was represented at", () => {
+    expect(items.map((e) => e.attendedByMinister)).toEqual([true, true, false]);
+  });
+
+  it("reports the entry without a date", () => {
+    expect(failures).toEqual(['agenda#4: tanggal tidak terbaca "Menyusul" (Agenda tanpa tanggal)']);
+  });
+});
+
+describe("parsePortalPage: siaran pers", () => {
+  const { items, failures } = parsePortalPage(fixture("siaran-pers"), page("siaran-pers"));
+
+  it("takes the location from the dateline when the layout has none", () => {
+    expect(items.map((e) => [e.title, e.location, e.date])).toEqual([
+      ["Menhub Resmikan Terminal Tipe A Mamuju", "Mamuju", "2026-10-17T17:00:00.000Z"],
+      [
+        "Kemenhub Gelar Uji Petik Kelaikan Bus Jelang Libur Panjang",
+        "Jakarta",
+        "2026-10-16T17:00:00.000Z",
+      ],
+    ]);
+    expect(items[1].link).toBe(
+      "https://dephub.go.id/post/read/kemenhub-gelar-uji-petik-kelaikan-bus"
+    );
+    expect(items[1].summary).toContain("(ramp check) & pemeriksaan");
+  });
+
+  it("reports the entry without a title", () => {
+    expect(failures).toEqual(["siaran-pers#3: judul tidak ditemukan"]);
+  });
+});
+
+describe("parsePortalPage: broken pages", () => {
+  it("reports a page without any entries as a layout change", () => {
+    const { items, failures } = parsePortalPage("<html><body></body></html>", page("agenda"));
+    expect(items).toEqual([]);
+    expect(failures).toEqual([
+      'agenda: tidak ada entri ".agenda-item" - struktur halaman berubah?',
+    ]);
+  });
+
+  it("rejects links that are not http(s)", () => {
+    const html = `<div class="agenda-item">
+      <h3 class="agenda-title"><a href="javascript:alert(1)">Rapat</a></h3>
+      <span class="agenda-date">19 Oktober 2026</span></div>`;
+    const { items, failures } = parsePortalPage(html, page("agenda"));
+    expect(items).toEqual([]);
+    expect(failures).toEqual(['agenda#1: tautan tidak valid "javascript:alert(1)" (Rapat)']);
+  });
+});
+
+describe("detectMinisterAttendance", () => {
+  it("needs the Minister named and nobody standing in", () => {
+    expect(detectMinisterAttendance("Menhub meninjau Pelabuhan Merak")).toBe(true);
+    expect(detectMinisterAttendance("Menteri Perhubungan membuka seminar")).toBe(true);
+    expect(detectMinisterAttendance("Dirjen hadir mewakili Menhub")).toBe(false);
+    expect(detectMinisterAttendance("Menteri Perhubungan berhalangan hadir")).toBe(false);
+    expect(detectMinisterAttendance("Sambutan tertulis Menteri Perhubungan dibacakan")).toBe(false);
+    expect(detectMinisterAttendance("Dirjen Perhubungan Darat meninjau terminal")).toBe(false);
+  });
+});
+
+describe("datelineLocation", () => {
+  it("reads the city from a press release dateline", () => {
+    expect(datelineLocation("MAKASSAR (19/10) - Menhub ...")).toBe("Makassar");
+    expect(datelineLocation("TANJUNG PRIOK, Kemenhub ...")).toBe("Tanjung Priok");
+    expect(datelineLocation("Menhub meninjau ...")).toBeUndefined();
+  });
+});
@@ -0,0 +1,186 @@
+// =============================
+// dephub.go.id agenda and siaran pers parser -> EventItem.
+// Page layouts are described by selectors so a markup change on the portal
+// only needs a layout edit. Entries that cannot be parsed are returned as
+// failures for the ingestor status instead of being dropped silently.
+// =============================
+
+import { createHash } from "crypto";
+import { parse, type HTMLElement } from "node-html-parser";
+import { geocodeEvents } from "../geo/locate";
+import { events } from "../store";
+import { withCanonicalTags } from "../taxonomy/manage";
+import type { EventItem } from "../types";
+import { normalizeDate } from "./dates";
+import { loadSource } from "./sources";
+import { isHttpUrl, stripHtml, truncate } from "./text";
+
+export type PageLayout = {
+  // One match per agenda entry / press release
+  item: string;
+  title: string;
+  // Defaults to the first <a> inside the title element
+  link?: string;
+  date: string;
+  location?: string;
+  summary?: string;
+};
+
+export type PortalPage = {
+  id: string;
+  url: string;
+  layout: PageLayout;
+};
+
+export type ParsedPortalPage = {
+  items: EventItem[];
+  // "<page>#<n>: <reason>" for every entry that was skipped
+  failures: string[];
+};
+
+export const PORTAL_SOURCE = "dephub.go.id";
+
+export const portalPages: PortalPage[] = [
+  {
+    id: "agenda",
+    url: "https://dephub.go.id/agenda",
+    layout: {
+      item: ".agenda-item",
+      title: ".agenda-title",
+      date: ".agenda-date",
+      location: ".agenda-location",
+      summary: ".agenda-desc",
+    },
+  },
+  {
+    id: "siaran-pers",
+    url: "https://dephub.go.id/post/index/siaran-pers",
+    layout: {
+      item: "article.post-item",
+      title: ".post-title",
+      date: ".post-meta .date",
+      summary: ".post-excerpt",
+    },
+  },
+];
+
+const MINISTER = String.raw`(?:Menhub|Menteri Perhubungan)`;
+// Someone stands in for the Minister: the event happened without them
+const STAND_IN = new RegExp(
+  String.raw`(?:mewakili|atas nama|sambutan tertulis)\s+${MINISTER}|${MINISTER}\s+(?:berhalangan|diwakili)`,
+  "i"
+);
+const PRESENT = new RegExp(String.raw`\b${MINISTER}\b`, "i");
+
+export function detectMinisterAttendance(text: string) {
+  if (STAND_IN.test(text)) return false;
+  return PRESENT.test(text);
+}
+
+// Press releases open with a dateline: "JAKARTA - ..." / "MAKASSAR (19/10) - ..."
+export function datelineLocation(text: string) {
+  const m = text.match(/^\s*([A-Z][A-Z .]{2,30}?)\s*(?:\([^)]*\))?\s*[-,]\s/);
+  if (!m) return undefined;
+  return m[1]
+    .trim()
+    .toLowerCase()
+    .replace(/\b[a-z]/g, (c) => c.toUpperCase());
+}
+
+export const eventIdFor = (link: string) =>
+  `evt-${createHash("sha1").update(link).digest("hex").slice(0, 12)}`;
+
+const textOf = (el: HTMLElement | null) => (el ? stripHtml(el.innerHTML) : "");
+
+function parseEntry(
+  el: HTMLElement,
+  layout: PageLayout,
+  baseUrl: string
+): EventItem | string {
+  const titleEl = el.querySelector(layout.title);
+  const title = textOf(titleEl);
+  if (!title) return "judul tidak ditemukan";
+
+  const linkEl = layout.link
+    ? el.querySelector(layout.link)
+    : titleEl?.querySelector("a") ?? (titleEl?.tagName === "A" ? titleEl : null);
+  const href = linkEl?.getAttribute("href");
+  if (!href) return `tautan tidak ditemukan (${title})`;
+  let link: string;
+  try {
+    link = new URL(href, baseUrl).toString();
+  } catch {
+    return `tautan tidak valid "${href}" (${title})`;
+  }
+  if (!isHttpUrl(link)) return `tautan tidak valid "${href}" (${title})`;
+
+  const rawDate = textOf(el.querySelector(layout.date));
+  const date = normalizeDate(rawDate);
+  if (!date) return `tanggal tidak terbaca "${rawDate}" (${title})`;
+
+  const summary = layout.summary ? textOf(el.querySelector(layout.summary)) : "";
+  const location =
+    (layout.location ? textOf(el.querySelector(layout.location)) : "") ||
+    datelineLocation(summary) ||
+    "Tidak diketahui";
+
+  return {
+    id: eventIdFor(link),
+    title,
+    date,
+    location,
+    attendedByMinister: detectMinisterAttendance(`${title} ${summary}`),
+    source: PORTAL_SOURCE,
+    link,
+    ...(summary ? { summary: truncate(summary, 400) } : {}),
+  };
+}
+
+export function parsePortalPage(html: string, page: PortalPage): ParsedPortalPage {
+  const root = parse(html);
+  const entries = root.querySelectorAll(page.layout.item);
+  if (entries.length === 0) {
+    return {
+      items: [],
+      failures: [`${page.id}: tidak ada entri "${page.layout.item}" - struktur halaman berubah?`],
+    };
+  }
+  const items: EventItem[] = [];
+  const failures: string[] = [];
+  entries.forEach((el, i) => {
+    const parsed = parseEntry(el, page.layout, page.url);
+    if (typeof parsed === "string") failures.push(`${page.id}#${i + 1}: ${parsed}`);
+    else items.push(parsed);
+  });
+  return { items, failures };
+}
+
+export type PortalIngestResult = {
+  page: string;
+  fetched: number;
+  inserted: number;
+  updated: number;
+  failures: string[];
+  error?: string;
+};
+
+export async function ingestPortalPages(pages: PortalPage[] = portalPages) {
+  const results: PortalIngestResult[] = [];
+  for (const page of pages) {
+    const base = { page: page.id, fetched: 0, inserted: 0, updated: 0, failures: [] };
+    try {
+      const html = await loadSource("dephub", page, "html");
+      const { items, failures } = parsePortalPage(html, page);
+      const { inserted, updated } = await events.upsert(
+        await withCanonicalTags(await geocodeEvents(items)),
+        (it) => it.link
+      );
+      // A page that yields nothing at all is an error, not a partial parse
+      const error = items.length === 0 && failures.length ? failures[0] : undefined;
+      results.push({ ...base, fetched: items.length, inserted, updated, failures, error });
+    } catch (err) {
+      results.push({ ...base, error: (err as Error).message });
+    }
+  }
+  return results;
+}
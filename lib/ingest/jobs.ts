@@ -0,0 +1,93 @@
+// =============================
+// Scheduled ingest jobs. Each job wraps one ingestor and reports counts + errors.
+// Intervals can be overridden per job with CC_INTERVAL_<ID> (minutes); daily
+// jobs run at a fixed WIB time instead.
+// =============================
+
+import { BRIEFING_AT, runDailyBriefing } from "../briefing/daily";
+import { extractFromNews } from "../quotes/queue";
+import { withWatches } from "../watch/notify";
+import { ingestPortalPages } from "./dephub";
+import { ingestNewsFeeds } from "./rss";
+
+export type JobOutcome = {
+  fetched: number;
+  inserted: number;
+  updated: number;
+  skipped: number;
+  // Per-source problems; any entry marks the run as failed
+  errors: string[];
+  // Entries that could not be parsed; reported but the run still succeeds
+  warnings: string[];
+};
+
+export type IngestJob = {
+  id: string;
+  label: string;
+  intervalMinutes: number;
+  // "HH:MM" in WIB; the job then runs once a day at that time
+  dailyAt?: string;
+  run: () => Promise<JobOutcome>;
+};
+
+const interval = (id: string, fallback: number) => {
+  const v = Number(process.env[`CC_INTERVAL_${id.toUpperCase()}`]);
+  return v > 0 ? v : fallback;
+};
+
+export const ingestJobs: IngestJob[] = [
+  {
+    id: "agenda",
+    label: "Agenda Resmi",
+    intervalMinutes: interval("agenda", 30),
+    run: async () => {
+      const results = await withWatches(ingestPortalPages);
+      return {
+        fetched: results.reduce((n, r) => n + r.fetched, 0),
+        inserted: results.reduce((n, r) => n + r.inserted, 0),
+        updated: results.reduce((n, r) => n + r.updated, 0),
+        skipped: results.reduce((n, r) => n + r.failures.length, 0),
+        errors: results.filter((r) => r.error).map((r) => `${r.page}: ${r.error}`),
+        warnings: results.flatMap((r) => (r.error ? [] : r.failures)),
+      };
+    },
+  },
+  {
+    id: "news",
+    label: "Portal Berita",
+    intervalMinutes: interval("news", 30),
+    run: async () => {
+      const results = await withWatches(ingestNewsFeeds);
+      // New articles may carry quotes for the review queue
+      await extractFromNews();
+      return {
+        fetched: results.reduce((n, r) => n + r.fetched, 0),
+        inserted: results.reduce((n, r) => n + r.inserted, 0),
+        updated: results.reduce((n, r) => n + r.updated, 0),
+        skipped: results.reduce((n, r) => n + r.skipped, 0),
+        errors: results.filter((r) => r.error).map((r) => `${r.source}: ${r.error}`),
+        warnings: [],
+      };
+    },
+  },
+  {
+    // Not an ingestor, but scheduled and monitored the same way; runs after
+    // the half-hourly news and agenda ingest so the brief is ready by 06:00 WIB
+    id: "briefing",
+    label: "Laporan Harian",
+    intervalMinutes: 24 * 60,
+    dailyAt: BRIEFING_AT,
+    run: async () => {
+      const { briefing, inserted } = await runDailyBriefing();
+      const { events, news, quotes } = briefing.counts;
+      return {
+        fetched: events + news + quotes,
+        inserted: inserted ? 1 : 0,
+        updated: inserted ? 0 : 1,
+        skipped: 0,
+        errors: [],
+        warnings: [],
+      };
+    },
+  },
+];
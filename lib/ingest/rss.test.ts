@@ -0,0 +1,108 @@
+import { mkdtempSync, readFileSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { newsIdFor, parseFeed } from "./rss";
+
+const fixture = (id: string) =>
+  readFileSync(path.join(process.cwd(), "fixtures", "feeds", `${id}.xml`), "utf8");
+
+const rss = (items: string) =>
+  `<?xml version="1.0"?><rss version="2.0"><channel><title>T</title>${items}</channel></rss>`;
+
+describe("parseFeed", () => {
+  it("reads RSS 2.0 items and skips entries without a readable date", () => {
+    const { items, skipped } = parseFeed(fixture("antara"), "Antara");
+    expect(skipped).toBe(1);
+    expect(items.map((i) => i.title)).toEqual([
+      "Menhub minta operator kapal perketat manifes penumpang jelang libur panjang",
+      "Kemenhub siapkan 1.200 bus untuk mudik gratis akhir tahun",
+    ]);
+    const [first, second] = items;
+    expect(first).toMatchObject({
+      id: newsIdFor(first.link),
+      source: "Antara",
+      publishedAt: "2026-10-19T01:15:00.000Z",
+      link:
+        "https://www.antaranews.com/berita/4100001/menhub-minta-operator-kapal-perketat-manifes",
+    });
+    // HTML stripped from the description, entities decoded
+    expect(first.summary).toMatch(/^Jakarta \(ANTARA\) - Menteri Perhubungan/);
+    expect(second.summary).toContain("mudik gratis & angkutan barang");
+  });
+
+  it("reads CDATA titles and Indonesian WIB dates", () => {
+    const { items } = parseFeed(fixture("kompas"), "Kompas");
+    expect(items[0].title).toBe(
+      "Menhub Minta Manifes Penumpang Kapal Diperketat Jelang Libur Panjang"
+    );
+    expect(items[0].publishedAt).toBe("2026-10-19T02:30:00.000Z");
+  });
+
+  it("reads Atom entries with the alternate link and falls back to <updated>", () => {
+    const { items, skipped } = parseFeed(fixture("tempo"), "Tempo");
+    expect(skipped).toBe(0);
+    expect(items.map((i) => [i.link, i.publishedAt])).toEqual([
+      [
+        "https://www.tempo.co/ekonomi/menhub-operator-kapal-wajib-perketat-manifes-1100001",
+        "2026-10-19T03:05:00.000Z",
+      ],
+      [
+        "https://www.tempo.co/ekonomi/uji-coba-bus-listrik-diperluas-1100002",
+        "2026-10-16T07:00:00.000Z",
+      ],
+    ]);
+    expect(items[1].body).toBeTruthy();
+  });
+
+  it("gives every fixture item a stable id", () => {
+    for (const id of ["antara", "bisnis", "detik", "kompas", "tempo"]) {
+      const first = parseFeed(fixture(id), id).items.map((i) => i.id);
+      expect(parseFeed(fixture(id), id).items.map((i) => i.id)).toEqual(first);
+    }
+  });
+
+  it("drops links that are not http(s)", () => {
+    const date = "<pubDate>Mon, 19 Oct 2026 08:15:00 +0700</pubDate>";
+    const { items, skipped } = parseFeed(
+      rss(
+        `<item><title>A</title><link>javascript:alert(1)</link>${date}</item>` +
+          `<item><title>B</title><link>data:text/html,x</link>${date}</item>` +
+          `<item><title>C</title><link>/relatif</link>${date}</item>` +
+          `<item><title>D</title><link>https://contoh.id/d</link>${date}</item>`
+      ),
+      "Contoh"
+    );
+    expect(items.map((i) => i.title)).toEqual(["D"]);
+    expect(skipped).toBe(3);
+  });
+
+  it("rejects documents that are not feeds", () => {
+    expect(() => parseFeed("<html><body>bukan feed</body></html>", "X")).toThrow(
+      "Bukan feed RSS 2.0 atau Atom"
+    );
+  });
+});
+
+describe("ingestFeed", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("upserts by link, so running a feed twice adds nothing new", async () => {
+    vi.stubEnv("CC_DATA_DIR", mkdtempSync(path.join(tmpdir(), "cc-rss-")));
+    vi.stubEnv("CC_FIXTURE_DIR", path.join(process.cwd(), "fixtures"));
+    vi.resetModules();
+    const { ingestFeed } = await import("./rss");
+    const { news } = await import("../store");
+    const src = { id: "kompas", name: "Kompas", url: "https://example.invalid/rss" };
+
+    const before = (await news.all()).length;
+    const first = await ingestFeed(src);
+    expect(first).toMatchObject({ fetched: 2, inserted: 2, updated: 0, skipped: 0 });
+    const second = await ingestFeed(src);
+    expect(second).toMatchObject({ fetched: 2, inserted: 0, updated: 2 });
+    expect((await news.all()).length).toBe(before + 2);
+  });
+});
@@ -0,0 +1,126 @@
+// =============================
+// Ingest job runner and health tracking (server only).
+// Run state is persisted in the "ingestors" collection; the timer is started
+// once per server process from instrumentation.ts.
+// =============================
+
+import { jakartaDay, startOfJakartaDay } from "../daterange";
+import { createCollection } from "../store";
+import type { IngestorHealth, IngestorStatus } from "../types";
+import { ingestJobs, type IngestJob } from "./jobs";
+
+// Consecutive failures before a source is reported as down (red)
+export const FAILURE_THRESHOLD = Number(process.env.CC_FAILURE_THRESHOLD) || 3;
+
+const TICK_MS = 30 * 1000;
+
+type IngestorState = Omit<
+  IngestorStatus,
+  "label" | "intervalMinutes" | "dailyAt" | "health" | "running"
+>;
+
+const states = createCollection<IngestorState>("ingestors");
+
+// Jobs currently executing in this process
+const running = new Set<string>();
+
+const addMinutes = (iso: string, minutes: number) =>
+  new Date(+new Date(iso) + minutes * 60 * 1000).toISOString();
+
+// First "HH:MM" WIB strictly after `iso`
+export function nextDailyRun(iso: string, at: string) {
+  const [h, m] = at.split(":").map(Number);
+  const today = startOfJakartaDay(jakartaDay(iso)) + (h * 60 + m) * 60 * 1000;
+  const next = today > +new Date(iso) ? today : today + 24 * 60 * 60 * 1000;
+  return new Date(next).toISOString();
+}
+
+const nextRunAfter = (job: IngestJob, startedAt: string) =>
+  job.dailyAt ? nextDailyRun(startedAt, job.dailyAt) : addMinutes(startedAt, job.intervalMinutes);
+
+function healthOf(state: IngestorState | undefined, isRunning: boolean): IngestorHealth {
+  if (isRunning) return "running";
+  if (!state?.lastRunAt) return "never";
+  if (state.consecutiveFailures >= FAILURE_THRESHOLD) return "down";
+  if (state.consecutiveFailures > 0) return "failing";
+  return "ok";
+}
+
+function toStatus(job: IngestJob, state: IngestorState | undefined): IngestorStatus {
+  const isRunning = running.has(job.id);
+  return {
+    consecutiveFailures: 0,
+    ...state,
+    id: job.id,
+    label: job.label,
+    intervalMinutes: job.intervalMinutes,
+    dailyAt: job.dailyAt,
+    running: isRunning,
+    health: healthOf(state, isRunning),
+  };
+}
+
+export async function listIngestorStatus(): Promise<IngestorStatus[]> {
+  const all = await states.all();
+  return ingestJobs.map((job) => toStatus(job, all.find((s) => s.id === job.id)));
+}
+
+export const findJob = (id: string) => ingestJobs.find((j) => j.id === id);
+
+// Runs a job now and records the outcome; concurrent calls for the same job are ignored
+export async function runJob(job: IngestJob): Promise<IngestorStatus> {
+  if (running.has(job.id)) return toStatus(job, await states.get(job.id));
+  running.add(job.id);
+  const startedAt = new Date().toISOString();
+  const t0 = Date.now();
+  let counts: IngestorState["lastCounts"];
+  let error: string | undefined;
+  let warnings: string[] = [];
+  try {
+    const outcome = await job.run();
+    const { errors, warnings: w, ...rest } = outcome;
+    counts = rest;
+    warnings = w;
+    if (errors.length) error = errors.join("; ");
+  } catch (err) {
+    error = (err as Error).message || String(err);
+  } finally {
+    running.delete(job.id);
+  }
+  const prev = await states.get(job.id);
+  const next: IngestorState = {
+    id: job.id,
+    lastRunAt: startedAt,
+    lastDurationMs: Date.now() - t0,
+    lastCounts: counts,
+    lastError: error,
+    lastWarnings: warnings.length ? warnings : undefined,
+    lastSuccessAt: error ? prev?.lastSuccessAt : startedAt,
+    consecutiveFailures: error ? (prev?.consecutiveFailures ?? 0) + 1 : 0,
+    nextRunAt: nextRunAfter(job, startedAt),
+  };
+  // Replace (not merge) so a cleared error doesn't survive
+  await states.put(next);
+  return toStatus(job, next);
+}
+
+async function tick() {
+  const all = await states.all();
+  const now = Date.now();
+  for (const job of ingestJobs) {
+    const state = all.find((s) => s.id === job.id);
+    const due = !state?.nextRunAt || +new Date(state.nextRunAt) <= now;
+    if (due && !running.has(job.id)) await runJob(job);
+  }
+}
+
+// Dev reloads re-evaluate modules, so the timer handle lives on globalThis
+const g = globalThis as typeof globalThis & { __ccScheduler?: NodeJS.Timeout };
+
+export function startScheduler() {
+  if (g.__ccScheduler || process.env.CC_SCHEDULER === "off") return;
+  const loop = () =>
+    tick().catch((err) => console.error("[scheduler] tick failed:", err));
+  g.__ccScheduler = setInterval(loop, TICK_MS);
+  loop();
+}
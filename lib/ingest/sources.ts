@@ -0,0 +1,42 @@
+// =============================
+// Ingestion sources (konfigurasi). Feed URLs are examples; adjust per deployment.
+// Set CC_FIXTURE_DIR to read every source from saved files instead of the network,
+// e.g. CC_FIXTURE_DIR=fixtures for offline runs.
+// =============================
+
+import { promises as fs } from "fs";
+import path from "path";
+
+export type FeedSource = {
+  id: string;
+  // Label stored as NewsItem.source
+  name: string;
+  url: string;
+};
+
+export const newsFeeds: FeedSource[] = [
+  { id: "antara", name: "Antara", url: "https://www.antaranews.com/rss/terkini.xml" },
+  { id: "kompas", name: "Kompas", url: "https://rss.kompas.com/api/feed/social" },
+  { id: "tempo", name: "Tempo", url: "https://rss.tempo.co/bisnis" },
+  { id: "bisnis", name: "Bisnis", url: "https://www.bisnis.com/rss" },
+  { id: "detik", name: "Detik", url: "https://finance.detik.com/rss" },
+];
+
+// Fetches a source body, or reads <CC_FIXTURE_DIR>/<kind>/<id>.<ext> when offline
+export async function loadSource(
+  kind: string,
+  src: { id: string; url: string },
+  ext: string
+) {
+  const fixtureDir = process.env.CC_FIXTURE_DIR;
+  if (fixtureDir) {
+    return fs.readFile(path.resolve(fixtureDir, kind, `${src.id}.${ext}`), "utf8");
+  }
+  const res = await fetch(src.url, {
+    headers: { "user-agent": "kemenhub-cc-ingestor/0.1" },
+    cache: "no-store",
+    signal: AbortSignal.timeout(15000),
+  });
+  if (!res.ok) throw new Error(`${src.url} - HTTP ${res.status}`);
+  return res.text();
+}
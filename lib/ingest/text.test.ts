@@ -0,0 +1,23 @@
+import { describe, expect, it } from "vitest";
+import { decodeEntities, stripHtml } from "./text";
+
+describe("decodeEntities", () => {
+  it("decodes named and numeric entities", () => {
+    expect(decodeEntities("Tol &amp; Jalan &#8211; &#x41;&quot;")).toBe('Tol & Jalan \u2013 A"');
+    expect(decodeEntities("&LT;b&GT;")).toBe("<b>");
+  });
+
+  it("leaves unknown names and Object.prototype keys as written", () => {
+    expect(decodeEntities("&constructor; &toString; &foo;")).toBe(
+      "&constructor; &toString; &foo;"
+    );
+  });
+});
+
+describe("stripHtml", () => {
+  it("drops tags and scripts and collapses whitespace", () => {
+    expect(stripHtml("<p>Menhub&nbsp;tiba</p><script>x()</script><br/>di Merak")).toBe(
+      "Menhub tiba di Merak"
+    );
+  });
+});
@@ -0,0 +1,62 @@
+// Text helpers shared by the ingestors
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: "&",
+  lt: "<",
+  gt: ">",
+  quot: '"',
+  apos: "'",
+  nbsp: " ",
+  ndash: "-",
+  mdash: "-",
+  lsquo: "'",
+  rsquo: "'",
+  ldquo: '"',
+  rdquo: '"',
+  hellip: "...",
+};
+
+export function decodeEntities(s: string) {
+  return s.replace(/&(#x[0-9a-f]+|#[0-9]+|[a-z]+);/gi, (m, code: string) => {
+    if (code[0] === "#") {
+      const n =
+        code[1] === "x" || code[1] === "X"
+          ? parseInt(code.slice(2), 16)
+          : parseInt(code.slice(1), 10);
+      return isNaN(n) ? m : String.fromCodePoint(n);
+    }
+    const name = code.toLowerCase();
+    // Own keys only: "&constructor;" is not an entity
+    return Object.hasOwn(NAMED_ENTITIES, name) ? NAMED_ENTITIES[name] : m;
+  });
+}
+
+// HTML fragment -> single-line plain text
+export function stripHtml(html: string) {
+  return decodeEntities(
+    html
+      .replace(/<(script|style)[\s\S]*?<\/\1>/gi, " ")
+      .replace(/<br\s*\/?>|<\/p>/gi, " ")
+      .replace(/<[^>]+>/g, " ")
+  )
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+export function truncate(s: string, max: number) {
+  if (s.length <= max) return s;
+  const cut = s.slice(0, max);
+  const space = cut.lastIndexOf(" ");
+  return `${(space > max * 0.6 ? cut.slice(0, space) : cut).trimEnd()}...`;
+}
+
+// Only http(s) links are kept from untrusted sources; a "javascript:" link
+// would otherwise end up in an <a href> of the dashboard or the briefing
+export function isHttpUrl(link: string) {
+  try {
+    const { protocol } = new URL(link);
+    return protocol === "http:" || protocol === "https:";
+  } catch {
+    return false;
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, expect, it } from "vitest";
+import { parseQuery, suggestQuery } from "./query";
+
+const messages = (input: string) => parseQuery(input).errors.map((e) => e.message);
+
+describe("parseQuery", () => {
+  it("parses known fields next to words", () => {
+    const { ast, errors } = parseQuery('source:Kompas minister:ya "Integrasi Moda"');
+    expect(errors).toEqual([]);
+    expect(ast).toMatchObject({
+      type: "and",
+      children: [
+        { type: "field", field: "source", value: "Kompas" },
+        { type: "field", field: "minister", value: "ya" },
+        { type: "phrase", value: "Integrasi Moda" },
+      ],
+    });
+  });
+
+  it("treats prototype keys as unknown fields", () => {
+    expect(messages("constructor:x")[0]).toMatch(/^Field tidak dikenal: constructor:/);
+    expect(messages("Constructor:x")[0]).toMatch(/^Field tidak dikenal: constructor:/);
+  });
+
+  it("accepts only yes/no values for minister", () => {
+    expect(messages("minister:tidak")).toEqual([]);
+    expect(messages("minister:constructor")).toEqual(["minister: harus yes atau no"]);
+    expect(messages("minister:hasOwnProperty")).toEqual(["minister: harus yes atau no"]);
+  });
+});
+
+describe("suggestQuery", () => {
+  const vocab = { source: ["Kompas", "Tempo", "Antara"], tag: ["Integrasi Moda"] };
+
+  it("suggests field values that contain the typed text", () => {
+    expect(suggestQuery("banjir source:t", vocab).map((s) => s.value)).toEqual([
+      "banjir source:Tempo ",
+      "banjir source:Antara ",
+    ]);
+    expect(suggestQuery("tag:integ", vocab)[0].value).toBe('tag:"Integrasi Moda" ');
+  });
+
+  it("suggests field names for a partial word", () => {
+    expect(suggestQuery("so", vocab).map((s) => s.label)).toEqual(["source:"]);
+  });
+
+  it("returns nothing for prototype-named fields instead of throwing", () => {
+    for (const input of ["constructor:", "constructor:x", "toString:", "hasOwnProperty:"]) {
+      expect(suggestQuery(input, vocab)).toEqual([]);
+    }
+  });
+});
@@ -0,0 +1,355 @@
+// =============================
+// Structured search queries for the header box (client and server safe).
+//   source:Kompas tag:"Integrasi Moda" location:Makassar minister:yes
+//   after:2026-10-01 before:2026-11-01 -word "exact phrase" (a OR b)
+// Terms are ANDed; OR binds tighter than the implicit AND and parentheses
+// group. The query compiles to one predicate over QueryTarget, which the
+// dashboard filter functions apply next to the time, tag and Menhub filters.
+// =============================
+
+import { startOfJakartaDay } from "./daterange";
+import { docHasWord, searchKey, type SearchIndex } from "./search";
+import { foldText, tokenize } from "./tokenize";
+import type { EventItem, NewsItem, QuoteItem } from "./types";
+
+export const QUERY_FIELDS = {
+  source: "Media atau sumber",
+  tag: "Tag atau entitas",
+  location: "Lokasi",
+  minister: "Dihadiri/menyebut Menhub (yes/no)",
+  after: "Sejak tanggal (YYYY-MM-DD)",
+  before: "Sebelum tanggal (YYYY-MM-DD)",
+} as const;
+
+export type QueryField = keyof typeof QUERY_FIELDS;
+
+export type QueryNode =
+  | { type: "and" | "or"; children: QueryNode[] }
+  | { type: "not"; child: QueryNode }
+  | { type: "word"; value: string; typing: boolean }
+  | { type: "phrase"; value: string }
+  | { type: "field"; field: QueryField; value: string };
+
+export type QueryError = { message: string; start: number; end: number };
+
+export type ParsedQuery = {
+  ast: QueryNode | null;
+  errors: QueryError[];
+  // Positive words and phrases, for relevance ranking and highlighting
+  rankText: string;
+};
+
+// =============================
+// Lexer
+// =============================
+
+type Token =
+  | { kind: "lparen" | "rparen" | "or" | "minus"; start: number; end: number }
+  | { kind: "word" | "phrase"; value: string; start: number; end: number }
+  | { kind: "field"; field: string; value: string; start: number; end: number };
+
+const isSpace = (c: string) => /\s/.test(c);
+
+function lex(input: string, errors: QueryError[]): Token[] {
+  const tokens: Token[] = [];
+  // Reads "..." starting at the opening quote; returns [value, end]
+  const quoted = (at: number): [string, number] => {
+    const close = input.indexOf('"', at + 1);
+    if (close < 0) {
+      errors.push({ message: "Tanda kutip belum ditutup", start: at, end: input.length });
+      return [input.slice(at + 1), input.length];
+    }
+    return [input.slice(at + 1, close), close + 1];
+  };
+
+  let i = 0;
+  while (i < input.length) {
+    const c = input[i];
+    if (isSpace(c)) {
+      i++;
+    } else if (c === "(" || c === ")") {
+      tokens.push({ kind: c === "(" ? "lparen" : "rparen", start: i, end: i + 1 });
+      i++;
+    } else if (c === "-" && i + 1 < input.length && !isSpace(input[i + 1])) {
+      tokens.push({ kind: "minus", start: i, end: i + 1 });
+      i++;
+    } else if (c === '"') {
+      const [value, end] = quoted(i);
+      tokens.push({ kind: "phrase", value, start: i, end });
+      i = end;
+    } else {
+      let j = i;
+      while (j < input.length && !isSpace(input[j]) && !'()"'.includes(input[j])) j++;
+      const word = input.slice(i, j);
+      const field = word.match(/^([A-Za-z]+):(.*)$/);
+      if (field && !field[2] && input[j] === '"') {
+        const [value, end] = quoted(j);
+        tokens.push({ kind: "field", field: field[1].toLowerCase(), value, start: i, end });
+        j = end;
+      } else if (field) {
+        tokens.push({ kind: "field", field: field[1].toLowerCase(), value: field[2], start: i, end: j });
+      } else if (word === "OR") {
+        tokens.push({ kind: "or", start: i, end: j });
+      } else {
+        tokens.push({ kind: "word", value: word, start: i, end: j });
+      }
+      i = j;
+    }
+  }
+  return tokens;
+}
+
+// =============================
+// Parser
+// =============================
+
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+const MINISTER_VALUES: Record<string, boolean> = { yes: true, ya: true, no: false, tidak: false };
+
+export function parseQuery(input: string): ParsedQuery {
+  const errors: QueryError[] = [];
+  const tokens = lex(input, errors);
+  let pos = 0;
+  const rank: string[] = [];
+  const peek = () => tokens[pos];
+
+  const fieldNode = (t: Extract<Token, { kind: "field" }>): QueryNode | null => {
+    const fail = (message: string) => {
+      errors.push({ message, start: t.start, end: t.end });
+      return null;
+    };
+    // Own keys only, so "constructor:" is an unknown field
+    if (!Object.hasOwn(QUERY_FIELDS, t.field)) {
+      return fail(`Field tidak dikenal: ${t.field}: (pakai ${Object.keys(QUERY_FIELDS).join(", ")})`);
+    }
+    const field = t.field as QueryField;
+    const value = t.value.trim();
+    if (!value) return fail(`${field}: belum diisi`);
+    if (field === "minister" && !Object.hasOwn(MINISTER_VALUES, value.toLowerCase())) {
+      return fail("minister: harus yes atau no");
+    }
+    if ((field === "after" || field === "before") && (!DATE_RE.test(value) || isNaN(+new Date(value)))) {
+      return fail(`${field}: tanggal harus YYYY-MM-DD`);
+    }
+    return { type: "field", field, value };
+  };
+
+  function parseUnary(negated: boolean): QueryNode | null {
+    const t = peek();
+    if (!t) return null;
+    pos++;
+    switch (t.kind) {
+      case "minus": {
+        const child = parseUnary(!negated);
+        if (!child) {
+          errors.push({ message: "Tanda - harus diikuti kata", start: t.start, end: t.end });
+          return null;
+        }
+        return { type: "not", child };
+      }
+      case "lparen": {
+        const group = parseAnd(true);
+        if (peek()?.kind === "rparen") pos++;
+        else errors.push({ message: "Kurung belum ditutup", start: t.start, end: t.end });
+        if (!group) errors.push({ message: "Kurung kosong", start: t.start, end: t.end });
+        return group;
+      }
+      case "rparen":
+        errors.push({ message: "Kurung tutup tanpa pasangan", start: t.start, end: t.end });
+        return null;
+      case "or":
+        errors.push({ message: "OR harus di antara dua kata", start: t.start, end: t.end });
+        return null;
+      case "phrase":
+        if (!t.value.trim()) return null;
+        if (!negated) rank.push(t.value);
+        return { type: "phrase", value: t.value };
+      case "word":
+        // Stopwords and punctuation alone never filter anything
+        if (!tokenize(t.value).length) return null;
+        if (!negated) rank.push(t.value);
+        return {
+          type: "word",
+          value: t.value,
+          // Last word with no trailing space is still being typed
+          typing: t.end === input.length,
+        };
+      case "field":
+        return fieldNode(t);
+    }
+  }
+
+  function parseOr(): QueryNode | null {
+    const alts: QueryNode[] = [];
+    const first = parseUnary(false);
+    if (first) alts.push(first);
+    while (peek()?.kind === "or") {
+      const or = tokens[pos++];
+      const next = peek();
+      if (!next || next.kind === "rparen" || next.kind === "or") {
+        errors.push({ message: "OR harus di antara dua kata", start: or.start, end: or.end });
+        break;
+      }
+      const alt = parseUnary(false);
+      if (alt) alts.push(alt);
+    }
+    if (alts.length <= 1) return alts[0] ?? null;
+    return { type: "or", children: alts };
+  }
+
+  function parseAnd(inGroup: boolean): QueryNode | null {
+    const children: QueryNode[] = [];
+    while (pos < tokens.length && !(inGroup && peek().kind === "rparen")) {
+      const node = parseOr();
+      if (node) children.push(node);
+    }
+    if (children.length <= 1) return children[0] ?? null;
+    return { type: "and", children };
+  }
+
+  const ast = parseAnd(false);
+  return { ast, errors, rankText: rank.join(" ") + (/\s$/.test(input) ? " " : "") };
+}
+
+// =============================
+// Evaluation
+// =============================
+
+// Uniform view of an event, news item or quote
+export type QueryTarget = {
+  key: string;
+  sources: string[];
+  tags: string[];
+  location: string;
+  minister: boolean;
+  date: string;
+  // All searchable text, for phrases
+  text: string;
+};
+
+const MENHUB_RE = /\bmenhub\b|menteri perhubungan/i;
+
+export const eventTarget = (e: EventItem): QueryTarget => ({
+  key: searchKey("event", e.id),
+  sources: [e.source],
+  tags: e.tags ?? [],
+  location: e.location,
+  minister: e.attendedByMinister,
+  date: e.date,
+  text: [e.title, e.location, e.summary, e.source].join(" "),
+});
+
+export const newsTarget = (n: NewsItem): QueryTarget => {
+  const text = [n.title, n.summary, n.source].join(" ");
+  return {
+    key: searchKey("news", n.id),
+    sources: [n.source],
+    tags: n.entities ?? [],
+    // News has no location field; a place counts when it is mentioned
+    location: text,
+    minister: MENHUB_RE.test(text),
+    date: n.publishedAt,
+    text,
+  };
+};
+
+export const quoteTarget = (q: QuoteItem): QueryTarget => {
+  const text = [q.text, q.speaker, q.context].join(" ");
+  return {
+    key: searchKey("quote", q.id),
+    sources: (q.sources ?? []).map((s) => s.outlet ?? "").filter(Boolean),
+    tags: q.tags ?? [],
+    location: q.context ?? "",
+    minister: MENHUB_RE.test(q.speaker),
+    date: q.date,
+    text,
+  };
+};
+
+// Word-boundary match on folded text
+const containsPhrase = (text: string, phrase: string) => {
+  const norm = (s: string) => ` ${foldText(s).replace(/[^a-z0-9]+/g, " ").trim()} `;
+  return norm(text).includes(norm(phrase));
+};
+
+export type QueryPredicate = (t: QueryTarget) => boolean;
+
+export function compileQuery(ast: QueryNode | null, index: SearchIndex): QueryPredicate | null {
+  if (!ast) return null;
+  const compile = (node: QueryNode): QueryPredicate => {
+    switch (node.type) {
+      case "and": {
+        const parts = node.children.map(compile);
+        return (t) => parts.every((p) => p(t));
+      }
+      case "or": {
+        const parts = node.children.map(compile);
+        return (t) => parts.some((p) => p(t));
+      }
+      case "not": {
+        const inner = compile(node.child);
+        return (t) => !inner(t);
+      }
+      case "word":
+        return (t) =>
+          docHasWord(index, t.key, node.value, node.typing) || containsPhrase(t.text, node.value);
+      case "phrase":
+        return (t) => containsPhrase(t.text, node.value);
+      case "field": {
+        const want = foldText(node.value);
+        switch (node.field) {
+          case "source":
+            return (t) => t.sources.some((s) => foldText(s).includes(want));
+          case "tag":
+            return (t) => t.tags.some((tag) => foldText(tag) === want);
+          case "location":
+            return (t) => containsPhrase(t.location, node.value);
+          case "minister":
+            return (t) => t.minister === MINISTER_VALUES[want];
+          // Dates in the query are calendar days in Jakarta time
+          case "after":
+            return (t) => +new Date(t.date) >= startOfJakartaDay(node.value);
+          case "before":
+            return (t) => +new Date(t.date) < startOfJakartaDay(node.value);
+        }
+      }
+    }
+  };
+  return compile(ast);
+}
+
+// =============================
+// Autocomplete
+// =============================
+
+export type QueryVocabulary = Partial<Record<QueryField, string[]>>;
+
+export type QuerySuggestion = { label: string; hint?: string; value: string };
+
+const quoteIfNeeded = (v: string) => (/[\s()"]/.test(v) ? `"${v.replace(/"/g, "")}"` : v);
+
+// Suggestions for the token at the end of the input; `value` is the full new input
+export function suggestQuery(input: string, vocab: QueryVocabulary, limit = 8): QuerySuggestion[] {
+  const m = input.match(/(^|[\s(])(-?)([^\s()]*)$/);
+  if (!m) return [];
+  const [, , neg, token] = m;
+  const head = input.slice(0, input.length - token.length - neg.length) + neg;
+  const field = token.match(/^([A-Za-z]+):"?(.*)$/);
+
+  if (field) {
+    const name = field[1].toLowerCase() as QueryField;
+    const partial = foldText(field[2]);
+    // Own keys only: "constructor:" must not pick up Object.prototype.constructor
+    const values = Object.hasOwn(vocab, name) ? vocab[name] ?? [] : [];
+    return values
+      .filter((v) => foldText(v).includes(partial) && foldText(v) !== partial)
+      .sort((a, b) => +!foldText(a).startsWith(partial) - +!foldText(b).startsWith(partial))
+      .slice(0, limit)
+      .map((v) => ({ label: `${name}:${v}`, value: `${head}${name}:${quoteIfNeeded(v)} ` }));
+  }
+  if (!token) return [];
+  const partial = token.toLowerCase();
+  return (Object.keys(QUERY_FIELDS) as QueryField[])
+    .filter((f) => f.startsWith(partial))
+    .map((f) => ({ label: `${f}:`, hint: QUERY_FIELDS[f], value: `${head}${f}:` }));
+}
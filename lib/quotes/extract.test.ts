@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import type { NewsItem } from "../types";
+import {
+  candidateIdFor,
+  extractDirectSpeech,
+  extractQuoteCandidates,
+  normalizeSpeaker,
+} from "./extract";
+
+describe("extractDirectSpeech", () => {
+  it("reads a quote attributed after the closing mark", () => {
+    const body =
+      '"Keselamatan penumpang adalah prioritas utama kami," kata Menhub di Jakarta, Senin.';
+    expect(extractDirectSpeech(body)).toEqual([
+      {
+        text: "Keselamatan penumpang adalah prioritas utama kami",
+        speaker: "Menteri Perhubungan",
+        clause: "di Jakarta, Senin",
+      },
+    ]);
+  });
+
+  it("reads a quote introduced by a reporting verb, with curly marks", () => {
+    const body =
+      "Arus mudik meningkat. Dirjen Perhubungan Darat menegaskan, " +
+      "\u201CSeluruh armada bus wajib lulus uji kelaikan.\u201D";
+    expect(extractDirectSpeech(body)).toEqual([
+      {
+        text: "Seluruh armada bus wajib lulus uji kelaikan.",
+        speaker: "Dirjen Perhubungan Darat",
+      },
+    ]);
+  });
+
+  it("skips short or unattributed quotes", () => {
+    expect(extractDirectSpeech('Warga menyebutnya "jalan tikus" sejak lama.')).toEqual([]);
+    expect(extractDirectSpeech('"Ini kalimat panjang tanpa pembicara sama sekali."')).toEqual([]);
+  });
+});
+
+describe("normalizeSpeaker", () => {
+  it("maps short forms and leaves other names and prototype keys alone", () => {
+    expect(normalizeSpeaker(" Menhub, ")).toBe("Menteri Perhubungan");
+    expect(normalizeSpeaker("Budi Santoso")).toBe("Budi Santoso");
+    expect(normalizeSpeaker("constructor")).toBe("constructor");
+  });
+});
+
+describe("extractQuoteCandidates", () => {
+  it("builds pending candidates with a stable id and source context", () => {
+    const item: NewsItem = {
+      id: "news-1",
+      title: "Menhub tinjau Merak",
+      source: "Antara",
+      publishedAt: "2026-10-19T02:00:00.000Z",
+      link: "https://antaranews.com/berita/1",
+      body: '"Antrean kendaraan harus terurai sebelum malam," ujar Menhub saat meninjau Merak.',
+    };
+    const [candidate] = extractQuoteCandidates(item, "2026-10-19T03:00:00.000Z");
+    expect(candidate).toMatchObject({
+      id: candidateIdFor(item.link, "Antrean kendaraan harus terurai sebelum malam"),
+      status: "pending",
+      speaker: "Menteri Perhubungan",
+      date: item.publishedAt,
+      context: "Saat meninjau Merak (Antara: Menhub tinjau Merak)",
+      newsId: "news-1",
+    });
+    expect(extractQuoteCandidates(item)[0].id).toBe(candidate.id);
+  });
+});
@@ -0,0 +1,110 @@
+// =============================
+// Direct-speech extraction from Indonesian news text (pure).
+// Recognizes the two shapes used by most outlets:
+//   "...," kata/ujar/tegas Menhub di Jakarta.
+//   Menhub menegaskan, "..."
+// =============================
+
+import { createHash } from "crypto";
+import type { NewsItem, QuoteCandidate } from "../types";
+
+// Attribution verbs after the quote, optionally with -nya ("katanya")
+const AFTER_VERBS =
+  "kata|ujar|ucap|tegas|jelas|ungkap|tutur|imbuh|tambah|papar|terang|sebut|pungkas";
+// Reporting verbs before the quote
+const BEFORE_VERBS =
+  "mengatakan|menegaskan|menyatakan|mengungkapkan|menjelaskan|menuturkan|menambahkan|menyampaikan";
+// Words that end the speaker name and start the situational clause
+const CLAUSE_START =
+  /\s+(?=(?:di|saat|dalam|pada|usai|seusai|ketika|kepada|selepas|sebelum|setelah)\b)/i;
+
+const MIN_QUOTE_LENGTH = 20;
+
+// Common short forms -> canonical speaker name
+const SPEAKER_ALIASES: Record<string, string> = {
+  menhub: "Menteri Perhubungan",
+  "menteri perhubungan": "Menteri Perhubungan",
+  wamenhub: "Wakil Menteri Perhubungan",
+};
+
+export function normalizeSpeaker(raw: string) {
+  const s = raw.replace(/\s+/g, " ").replace(/[\s,.;:]+$/, "").trim();
+  const key = s.toLowerCase();
+  return Object.hasOwn(SPEAKER_ALIASES, key) ? SPEAKER_ALIASES[key] : s;
+}
+
+export const candidateIdFor = (link: string, text: string) =>
+  `qc-${createHash("sha1").update(`${link}\n${text}`).digest("hex").slice(0, 12)}`;
+
+export type ExtractedQuote = { text: string; speaker: string; clause?: string };
+
+const QUOTE_SPAN = /["\u201C]([^"\u201C\u201D]+)["\u201D]/g;
+
+export function extractDirectSpeech(body: string): ExtractedQuote[] {
+  const found: ExtractedQuote[] = [];
+  for (const m of body.matchAll(QUOTE_SPAN)) {
+    const text = m[1].trim().replace(/[,\s]+$/, "");
+    if (text.length < MIN_QUOTE_LENGTH) continue;
+    const start = m.index ?? 0;
+    const end = start + m[0].length;
+
+    // "...," kata Menhub di Jakarta, Senin.
+    const after = body
+      .slice(end)
+      .match(new RegExp(String.raw`^\s*,?\s*(?:${AFTER_VERBS})(?:nya)?\s+([^."\u201C]+)`, "i"));
+    if (after) {
+      const [speaker, ...rest] = after[1].split(CLAUSE_START);
+      const commaAt = speaker.indexOf(",");
+      const name = commaAt >= 0 ? speaker.slice(0, commaAt) : speaker;
+      const clause = [commaAt >= 0 ? speaker.slice(commaAt + 1) : "", ...rest]
+        .join(" ")
+        .replace(/\s+/g, " ")
+        .trim();
+      if (name.trim()) {
+        found.push({
+          text,
+          speaker: normalizeSpeaker(name),
+          ...(clause ? { clause } : {}),
+        });
+        continue;
+      }
+    }
+
+    // Menhub menegaskan, "..."
+    const sentenceStart = Math.max(
+      body.lastIndexOf(". ", start),
+      body.lastIndexOf("\u201D", start - 1),
+      body.lastIndexOf('"', start - 1)
+    );
+    const before = body
+      .slice(sentenceStart < 0 ? 0 : sentenceStart + 1, start)
+      .match(new RegExp(String.raw`([A-Z][^.,"]*?)\s+(?:${BEFORE_VERBS})(?:\s+bahwa)?\s*[,:]?\s*$`));
+    if (before) {
+      found.push({ text, speaker: normalizeSpeaker(before[1]) });
+    }
+  }
+  return found;
+}
+
+const capitalize = (s: string) => s.charAt(0).toUpperCase() + s.slice(1);
+
+export function extractQuoteCandidates(
+  item: NewsItem,
+  now = new Date().toISOString()
+): QuoteCandidate[] {
+  const body = item.body || item.summary || "";
+  return extractDirectSpeech(body).map((q) => ({
+    id: candidateIdFor(item.link, q.text),
+    status: "pending",
+    text: q.text,
+    speaker: q.speaker,
+    date: item.publishedAt,
+    context: q.clause
+      ? `${capitalize(q.clause)} (${item.source}: ${item.title})`
+      : `${item.source}: ${item.title}`,
+    link: item.link,
+    source: item.source,
+    newsId: item.id,
+    extractedAt: now,
+  }));
+}
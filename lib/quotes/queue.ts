@@ -0,0 +1,97 @@
+// =============================
+// Quote review queue (server only).
+// Extracted candidates wait here until an editor accepts (optionally with
+// edits) or rejects them; accepting creates the QuoteItem shown in the Quotes tab.
+// =============================
+
+import { fail, ok, type Result } from "../result";
+import { createCollection, news, newId, quotes } from "../store";
+import { withCanonicalTags } from "../taxonomy/manage";
+import type { NewsItem, QuoteCandidate, QuoteItem } from "../types";
+import { extractQuoteCandidates } from "./extract";
+
+export const candidates = createCollection<QuoteCandidate>("quote-candidates");
+
+export type CandidateEdits = Partial<Pick<QuoteCandidate, "text" | "speaker" | "context">> & {
+  tags?: string[];
+};
+
+// Adds candidates for quotes not seen before; reviewed ones are never reset
+export async function extractFromNews(items?: NewsItem[]) {
+  const source = items ?? (await news.all());
+  const known = new Set((await candidates.all()).map((c) => c.id));
+  const fresh = source
+    .flatMap((n) => extractQuoteCandidates(n))
+    .filter((c) => {
+      if (known.has(c.id)) return false;
+      known.add(c.id);
+      return true;
+    });
+  if (fresh.length) await candidates.upsert(fresh);
+  return fresh.length;
+}
+
+function pending(id: string, c: QuoteCandidate | undefined): Result<QuoteCandidate> {
+  if (!c) return fail(404, `Kandidat ${id} tidak ditemukan`);
+  if (c.status !== "pending") return fail(409, `Kandidat sudah ${c.status}`);
+  return ok(c);
+}
+
+const applyEdits = (c: QuoteCandidate, edits: CandidateEdits): QuoteCandidate => ({
+  ...c,
+  text: edits.text?.trim() || c.text,
+  speaker: edits.speaker?.trim() || c.speaker,
+  context: edits.context?.trim() ?? c.context,
+});
+
+export async function saveCandidate(
+  id: string,
+  edits: CandidateEdits
+): Promise<Result<QuoteCandidate>> {
+  return candidates.change(id, (current) => {
+    const found = pending(id, current);
+    return found.ok ? ok(applyEdits(found.value, edits)) : found;
+  });
+}
+
+export async function acceptCandidate(
+  id: string,
+  edits: CandidateEdits = {}
+): Promise<Result<{ candidate: QuoteCandidate; quote: QuoteItem }>> {
+  let quote: QuoteItem | undefined;
+  // The quote is stored while the candidate is still locked as pending, so a
+  // second accept of the same candidate fails instead of adding a duplicate
+  const candidate = await candidates.change(id, async (current) => {
+    const found = pending(id, current);
+    if (!found.ok) return found;
+    const c = applyEdits(found.value, edits);
+    quote = {
+      id: newId("q"),
+      text: c.text,
+      speaker: c.speaker,
+      date: c.date,
+      context: c.context,
+      link: c.link,
+      ...(edits.tags?.length ? { tags: edits.tags } : {}),
+      sources: [{ link: c.link, outlet: c.source, addedAt: new Date().toISOString() }],
+      verification: "one-source",
+    };
+    await quotes.upsert(await withCanonicalTags([quote]));
+    return ok({
+      ...c,
+      status: "accepted",
+      reviewedAt: new Date().toISOString(),
+      quoteId: quote.id,
+    });
+  });
+  if (!candidate.ok) return candidate;
+  return ok({ candidate: candidate.value, quote: quote as QuoteItem });
+}
+
+export async function rejectCandidate(id: string): Promise<Result<QuoteCandidate>> {
+  return candidates.change(id, (current) => {
+    const found = pending(id, current);
+    if (!found.ok) return found;
+    return ok({ ...found.value, status: "rejected", reviewedAt: new Date().toISOString() });
+  });
+}
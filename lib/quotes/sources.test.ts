@@ -0,0 +1,39 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+
+async function load() {
+  vi.stubEnv("CC_DATA_DIR", mkdtempSync(path.join(tmpdir(), "cc-sources-")));
+  vi.resetModules();
+  return import("./sources");
+}
+
+describe("addQuoteSource", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("stores http(s) sources with the host as the default outlet", async () => {
+    const { addQuoteSource } = await load();
+    const result = await addQuoteSource("q-01", " https://www.antaranews.com/berita/1 ", "");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.sources?.at(-1)).toMatchObject({
+      link: "https://www.antaranews.com/berita/1",
+      outlet: "www.antaranews.com",
+    });
+  });
+
+  it("refuses links that are not http(s)", async () => {
+    const { addQuoteSource } = await load();
+    for (const link of ["javascript:alert(1)", "mailto:humas@dephub.go.id", "data:,x", 42]) {
+      expect(await addQuoteSource("q-01", link, "Humas")).toEqual({
+        ok: false,
+        status: 400,
+        error: "Tautan sumber harus URL http(s)",
+      });
+    }
+  });
+});
@@ -0,0 +1,64 @@
+// =============================
+// Supporting sources and sign-off for stored quotes (server only).
+// =============================
+
+import { isHttpUrl } from "../ingest/text";
+import { fail, ok, type Result } from "../result";
+import { quotes } from "../store";
+import type { QuoteItem } from "../types";
+import { canVerify, quoteSources, REQUIRED_SOURCES, verificationOf } from "./verification";
+
+// Checks and edits the stored quote under the collection's lock and stores the
+// result with the status recomputed; losing a source drops an earlier sign-off
+function edit(id: string, fn: (q: QuoteItem) => Result<QuoteItem>) {
+  return quotes.change(id, (q) => {
+    if (!q) return fail(404, `Kutipan ${id} tidak ditemukan`);
+    const edited = fn(q);
+    if (!edited.ok) return edited;
+    const next = canVerify(edited.value)
+      ? edited.value
+      : { ...edited.value, verifiedBy: undefined, verifiedAt: undefined };
+    return ok({ ...next, verification: verificationOf(next) });
+  });
+}
+
+// Only http(s) sources: the link is shown as an anchor and its host tells outlets apart
+export async function addQuoteSource(id: string, link: unknown, outlet: unknown) {
+  if (typeof link !== "string" || !isHttpUrl(link.trim())) {
+    return fail(400, "Tautan sumber harus URL http(s)");
+  }
+  const url = new URL(link.trim());
+  return edit(id, (q) => {
+    const sources = quoteSources(q);
+    if (sources.some((s) => s.link === url.toString())) {
+      return fail(409, "Sumber sudah tercatat");
+    }
+    return ok({
+      ...q,
+      sources: [
+        ...sources,
+        {
+          link: url.toString(),
+          outlet: (typeof outlet === "string" && outlet.trim()) || url.hostname,
+          addedAt: new Date().toISOString(),
+        },
+      ],
+    });
+  });
+}
+
+export async function removeQuoteSource(id: string, link: string) {
+  return edit(id, (q) => ok({ ...q, sources: quoteSources(q).filter((s) => s.link !== link) }));
+}
+
+export async function verifyQuote(id: string, by: string) {
+  if (!by.trim()) {
+    return fail(400, "Nama verifikator wajib diisi");
+  }
+  return edit(id, (q) => {
+    if (!canVerify(q)) {
+      return fail(409, `Butuh minimal ${REQUIRED_SOURCES} sumber dari media berbeda untuk verifikasi`);
+    }
+    return ok({ ...q, verifiedBy: by.trim(), verifiedAt: new Date().toISOString() });
+  });
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import type { QuoteItem, QuoteSource } from "../types";
+import { canVerify, distinctSourceCount, sourceOutlet, verificationOf } from "./verification";
+
+const source = (link: string, outlet = ""): QuoteSource => ({
+  link,
+  outlet,
+  addedAt: "2026-10-19T00:00:00.000Z",
+});
+
+const quote = (sources: QuoteSource[], verifiedBy?: string): QuoteItem => ({
+  id: "q-1",
+  text: "Keselamatan penumpang adalah prioritas",
+  speaker: "Menhub",
+  date: "2026-10-19T00:00:00.000Z",
+  context: "",
+  link: sources[0]?.link ?? "#",
+  sources,
+  verification: "unverified",
+  ...(verifiedBy ? { verifiedBy } : {}),
+});
+
+describe("distinctSourceCount", () => {
+  it("counts each outlet once", () => {
+    expect(
+      distinctSourceCount([
+        source("https://www.kompas.com/a/1", "Kompas"),
+        source("https://m.kompas.com/b/2", "Kompas.com"),
+        source("https://kompas.com/a/1?utm_source=x"),
+      ])
+    ).toBe(1);
+    expect(
+      distinctSourceCount([
+        source("https://www.kompas.com/a/1"),
+        source("https://news.detik.com/berita/d-1"),
+      ])
+    ).toBe(2);
+  });
+
+  it("names the outlet by host", () => {
+    expect(sourceOutlet("https://www.antaranews.com/berita/1#top")).toBe("antaranews.com");
+  });
+});
+
+describe("verificationOf", () => {
+  it("needs two outlets and a sign-off", () => {
+    const sameSite = [source("https://kompas.com/a/1"), source("https://kompas.com/b/2")];
+    expect(canVerify(quote(sameSite))).toBe(false);
+    expect(verificationOf(quote(sameSite, "Ani"))).toBe("one-source");
+
+    const twoSites = [sameSite[0], source("https://www.tempo.co/x/1")];
+    expect(canVerify(quote(twoSites))).toBe(true);
+    expect(verificationOf(quote(twoSites))).toBe("one-source");
+    expect(verificationOf(quote(twoSites, "Ani"))).toBe("verified");
+    expect(verificationOf(quote([]))).toBe("unverified");
+  });
+});
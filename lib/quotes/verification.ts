@@ -0,0 +1,40 @@
+// =============================
+// Quote verification rules (client and server safe).
+// A quote is "verified" only when at least two distinct outlets back it AND
+// an editor has signed off; fewer sources mean "one-source" / "unverified".
+// =============================
+
+import { canonicalLink } from "../cluster";
+import type { QuoteItem, QuoteSource, VerificationStatus } from "../types";
+
+export const REQUIRED_SOURCES = 2;
+
+export const VERIFICATION_LABEL: Record<VerificationStatus, string> = {
+  unverified: "Belum terverifikasi",
+  "one-source": "1 sumber",
+  verified: "Terverifikasi",
+};
+
+export function quoteSources(q: QuoteItem): QuoteSource[] {
+  if (q.sources) return q.sources;
+  return q.link && q.link !== "#" ? [{ link: q.link, outlet: "", addedAt: q.date }] : [];
+}
+
+// The site that published a source: the host of its canonical link, so
+// "www.kompas.com" and "m.kompas.com" are one outlet
+export const sourceOutlet = (link: string) => canonicalLink(link).split("/")[0];
+
+// Sources count once per outlet: two articles of the same site are one source.
+// Typed outlet names vary ("Kompas", "Kompas.com"), so the host decides.
+export function distinctSourceCount(sources: QuoteSource[]) {
+  return new Set(sources.map((s) => sourceOutlet(s.link))).size;
+}
+
+export function verificationOf(q: QuoteItem): VerificationStatus {
+  const count = distinctSourceCount(quoteSources(q));
+  if (count >= REQUIRED_SOURCES && q.verifiedBy) return "verified";
+  return count >= 1 ? "one-source" : "unverified";
+}
+
+export const canVerify = (q: QuoteItem) =>
+  distinctSourceCount(quoteSources(q)) >= REQUIRED_SOURCES;
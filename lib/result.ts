@@ -0,0 +1,9 @@
+// Outcome of a server-side operation that API routes turn into a JSON response
+export type Result<T> =
+  | { ok: true; value: T }
+  | { ok: false; status: number; error: string };
+
+export const ok = <T,>(value: T) => ({ ok: true, value }) as const;
+
+export const fail = (status: number, error: string) =>
+  ({ ok: false, status, error }) as const;
@@ -0,0 +1,207 @@
+// =============================
+// Ranked full-text search shared by events, news and quotes (client and server safe).
+// Documents and queries are tokenized and stemmed the same way, so
+// "perhubungan" finds "hubungan" and word order does not matter. Every query
+// term must match; hits are scored per field weight with a saturating,
+// IDF-weighted term frequency (BM25 without length normalization).
+// =============================
+
+import { stem, tokenize } from "./tokenize";
+import type { EventItem, NewsItem, QuoteItem } from "./types";
+
+export type SearchKind = "event" | "news" | "quote";
+
+export type SearchHit = {
+  score: number;
+  // Document stems that matched, for highlighting
+  terms: string[];
+};
+
+// Keyed by searchKey(kind, id)
+export type SearchHits = Map<string, SearchHit>;
+
+type IndexedDoc = {
+  // Weighted term frequency per stem
+  tf: Map<string, number>;
+  // Raw word -> stem, for prefix matches while typing
+  words: Map<string, string>;
+};
+
+export type SearchIndex = {
+  docs: Map<string, IndexedDoc>;
+  df: Map<string, number>;
+};
+
+export const searchKey = (kind: SearchKind, id: string) => `${kind}:${id}`;
+
+type Field = [text: string | undefined, weight: number];
+
+const eventFields = (e: EventItem): Field[] => [
+  [e.title, 3],
+  [(e.tags ?? []).join(" "), 2],
+  [e.location, 1.5],
+  [e.summary, 1],
+  [e.source, 1],
+];
+
+const newsFields = (n: NewsItem): Field[] => [
+  [n.title, 3],
+  [(n.entities ?? []).join(" "), 2],
+  [n.summary, 1],
+  [n.source, 1],
+];
+
+const quoteFields = (q: QuoteItem): Field[] => [
+  [q.text, 3],
+  [q.speaker, 2],
+  [(q.tags ?? []).join(" "), 2],
+  [q.context, 1],
+];
+
+function indexFields(fields: Field[]): IndexedDoc {
+  const tf = new Map<string, number>();
+  const words = new Map<string, string>();
+  for (const [text, weight] of fields) {
+    if (!text) continue;
+    for (const w of tokenize(text)) {
+      const s = stem(w);
+      words.set(w, s);
+      tf.set(s, (tf.get(s) ?? 0) + weight);
+    }
+  }
+  return { tf, words };
+}
+
+export function buildSearchIndex({
+  events = [],
+  news = [],
+  quotes = [],
+}: {
+  events?: EventItem[];
+  news?: NewsItem[];
+  quotes?: QuoteItem[];
+}): SearchIndex {
+  const docs = new Map<string, IndexedDoc>();
+  events.forEach((e) => docs.set(searchKey("event", e.id), indexFields(eventFields(e))));
+  news.forEach((n) => docs.set(searchKey("news", n.id), indexFields(newsFields(n))));
+  quotes.forEach((q) => docs.set(searchKey("quote", q.id), indexFields(quoteFields(q))));
+
+  const df = new Map<string, number>();
+  docs.forEach(({ tf }) => tf.forEach((_, s) => df.set(s, (df.get(s) ?? 0) + 1)));
+  return { docs, df };
+}
+
+type QueryTerm = { stem: string; prefix?: string };
+
+// The last word also matches as a prefix while it is being typed ("pelab")
+function queryTerms(query: string): QueryTerm[] {
+  const words = tokenize(query);
+  const seen = new Set<string>();
+  return words.flatMap((w, i) => {
+    const s = stem(w);
+    if (seen.has(s)) return [];
+    seen.add(s);
+    const typing = i === words.length - 1 && !/\s$/.test(query) && w.length >= 3;
+    return [{ stem: s, ...(typing ? { prefix: w } : {}) }];
+  });
+}
+
+// Stems in the document matched by one query term
+function stemsFor(doc: IndexedDoc, t: QueryTerm) {
+  const found = new Set<string>();
+  if (doc.tf.has(t.stem)) found.add(t.stem);
+  if (t.prefix) {
+    const prefix = t.prefix;
+    doc.words.forEach((s, w) => {
+      if (w.startsWith(prefix)) found.add(s);
+    });
+  }
+  return found;
+}
+
+const SATURATION = 1.5;
+
+// Whether a document contains a word (by stem, or by prefix while typing)
+export function docHasWord(index: SearchIndex, key: string, word: string, typing = false) {
+  const doc = index.docs.get(key);
+  const w = tokenize(word)[0];
+  if (!doc || !w) return false;
+  const t: QueryTerm = { stem: stem(w), ...(typing && w.length >= 3 ? { prefix: w } : {}) };
+  return stemsFor(doc, t).size > 0;
+}
+
+// null when the query has no searchable words: callers skip the text filter.
+// With `requireAll: false` every document matching any word is scored, for
+// ranking results already filtered elsewhere (OR groups).
+export function runSearch(
+  index: SearchIndex,
+  query: string,
+  { requireAll = true }: { requireAll?: boolean } = {}
+): SearchHits | null {
+  const terms = queryTerms(query);
+  if (terms.length === 0) return null;
+  const n = index.docs.size;
+  const idf = (s: string) => {
+    const df = index.df.get(s) ?? 0;
+    return Math.log(1 + (n - df + 0.5) / (df + 0.5));
+  };
+
+  const hits: SearchHits = new Map();
+  index.docs.forEach((doc, key) => {
+    let score = 0;
+    const matched: string[] = [];
+    for (const t of terms) {
+      const stems = stemsFor(doc, t);
+      if (stems.size === 0) {
+        if (requireAll) return;
+        continue;
+      }
+      let best = 0;
+      stems.forEach((s) => {
+        const w = doc.tf.get(s) ?? 0;
+        best = Math.max(best, idf(s) * (w / (w + SATURATION)));
+        matched.push(s);
+      });
+      score += best;
+    }
+    if (score > 0) hits.set(key, { score, terms: matched });
+  });
+  return hits;
+}
+
+// Relevance first while searching, newest first otherwise
+export function compareByRelevance<T extends { id: string }>(
+  hits: SearchHits | null,
+  kind: SearchKind,
+  dateOf: (item: T) => string
+) {
+  const score = (item: T) => hits?.get(searchKey(kind, item.id))?.score ?? 0;
+  return (a: T, b: T) =>
+    score(b) - score(a) || +new Date(dateOf(b)) - +new Date(dateOf(a));
+}
+
+// Every matched stem across hits, for highlighting
+export function matchedTerms(hits: SearchHits | null) {
+  if (!hits) return [];
+  const all = new Set<string>();
+  hits.forEach((h) => h.terms.forEach((t) => all.add(t)));
+  return [...all];
+}
+
+export type HighlightSegment = { text: string; match: boolean };
+
+// Splits text into runs, marking words whose stem is in `terms`
+export function highlightSegments(text: string, terms: string[]): HighlightSegment[] {
+  if (!text || terms.length === 0) return [{ text, match: false }];
+  const wanted = new Set(terms);
+  const segments: HighlightSegment[] = [];
+  for (const part of text.split(/([A-Za-z0-9\u00C0-\u024F]+)/)) {
+    if (!part) continue;
+    const word = tokenize(part)[0];
+    const match = !!word && wanted.has(stem(word));
+    const last = segments[segments.length - 1];
+    if (last && last.match === match) last.text += part;
+    else segments.push({ text: part, match });
+  }
+  return segments;
+}
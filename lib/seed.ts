@@ -0,0 +1,133 @@
+// =============================
+// Seed data (mock) written to the store the first time a collection is read.
+// Dates are relative to the moment the store is created.
+// =============================
+
+import type { EventItem, NewsItem, QuoteItem } from "./types";
+
+const daysAgo = (n: number) => {
+  const d = new Date();
+  d.setDate(d.getDate() - n);
+  return d;
+};
+
+export const seedEvents = (): EventItem[] => [
+  {
+    id: "evt-001",
+    title: "Rapat Koordinasi Keselamatan Pelayaran",
+    date: daysAgo(0).toISOString(),
+    location: "Kemenhub, Jakarta",
+    attendedByMinister: true,
+    source: "dephub.go.id",
+    tags: ["Keselamatan", "Laut"],
+    summary:
+      "Menhub memimpin rakor dan menekankan zero accident di jalur pelayaran utama.",
+    link: "#",
+  },
+  {
+    id: "evt-002",
+    title: "Peresmian Terminal Tipe A",
+    date: daysAgo(2).toISOString(),
+    location: "Makassar, Sulsel",
+    attendedByMinister: true,
+    source: "IG @kemenhub151",
+    tags: ["Darat", "Infrastruktur"],
+    summary:
+      "Peresmian terminal baru untuk meningkatkan konektivitas antarkota di Sulawesi.",
+    link: "https://www.dephub.go.id/",
+  },
+  {
+    id: "evt-003",
+    title: "Diskusi Publik: Green Transportation",
+    date: daysAgo(5).toISOString(),
+    location: "Bandung, Jabar",
+    attendedByMinister: false,
+    source: "Siarkanews",
+    tags: ["Green", "Kebijakan"],
+    summary:
+      "Staf ahli Kemenhub mewakili Menhub membahas roadmap transportasi rendah emisi.",
+    link: "#",
+  },
+  {
+    id: "evt-004",
+    title: "Uji Coba Operasional Angkutan Lanjutan Kereta Cepat",
+    // Upcoming agenda item
+    date: daysAgo(-3).toISOString(),
+    location: "Stasiun Tegalluar, Bandung",
+    attendedByMinister: true,
+    source: "dephub.go.id",
+    tags: ["Perkeretaapian", "Integrasi Moda"],
+    summary:
+      "Menhub dijadwalkan meninjau uji coba feeder dari stasiun kereta cepat ke pusat kota.",
+    link: "#",
+  },
+];
+
+export const seedNews = (): NewsItem[] => [
+  {
+    id: "news-101",
+    title:
+      "Menhub Dorong Integrasi Moda untuk Kurangi Kemacetan di Metropolitan",
+    source: "Antara",
+    publishedAt: daysAgo(0).toISOString(),
+    link: "https://www.antaranews.com/",
+    summary:
+      "Dalam keterangan pers, Menhub menyoroti pentingnya integrasi antarmoda dan tiket terusan.",
+    entities: ["Menteri Perhubungan", "Integrasi Moda", "Kemacetan"],
+  },
+  {
+    id: "news-102",
+    title: "Kemenhub Keluarkan Aturan Baru Keselamatan Penerbangan",
+    source: "Kompas",
+    publishedAt: daysAgo(1).toISOString(),
+    link: "#",
+    summary:
+      "Regulasi baru menekankan audit berkala dan peningkatan pelatihan bagi maskapai.",
+    entities: ["Kemenhub", "Penerbangan", "Regulasi"],
+  },
+  {
+    id: "news-103",
+    title: "Uji Coba Bus Listrik di 3 Kota Besar Diperluas",
+    source: "Tempo",
+    publishedAt: daysAgo(4).toISOString(),
+    link: "#",
+    summary:
+      "Pilot project bus listrik memasuki fase pengembangan infrastruktur pengisian daya.",
+    entities: ["Bus Listrik", "Perkotaan", "Emisi"],
+  },
+];
+
+export const seedQuotes = (): QuoteItem[] => [
+  {
+    id: "q-01",
+    text:
+      "Keselamatan adalah prioritas utama - tidak boleh ada kompromi di darat, laut, maupun udara.",
+    speaker: "Menteri Perhubungan",
+    date: daysAgo(0).toISOString(),
+    context:
+      "Pernyataan di rapat koordinasi keselamatan pelayaran, Jakarta.",
+    link: "#",
+    tags: ["Keselamatan", "Kebijakan"],
+  },
+  {
+    id: "q-02",
+    text:
+      "Integrasi antarmoda bukan pilihan, melainkan kebutuhan kota-kota besar Indonesia.",
+    speaker: "Menteri Perhubungan",
+    date: daysAgo(1).toISOString(),
+    context:
+      "Keterangan pers mengenai integrasi moda di wilayah metropolitan.",
+    link: "https://www.dephub.go.id/",
+    tags: ["Integrasi Moda", "Perkotaan"],
+  },
+  {
+    id: "q-03",
+    text:
+      "Transisi ke transportasi rendah emisi harus disertai skema pendanaan yang berkelanjutan.",
+    speaker: "Menteri Perhubungan",
+    date: daysAgo(6).toISOString(),
+    context: "Diskusi publik tentang green transportation.",
+    link: "#",
+    tags: ["Green", "Pendanaan"],
+  },
+];
@@ -0,0 +1,56 @@
+import { describe, expect, it } from "vitest";
+import type { NewsItem } from "../types";
+import { classifyTone, toneOf, withSentiment } from "./lexicon";
+
+const news = (title: string, summary?: string): NewsItem => ({
+  id: "news-1",
+  title,
+  source: "Antara",
+  publishedAt: "2026-10-19T02:00:00.000Z",
+  link: "https://antaranews.com/berita/1",
+  summary,
+});
+
+describe("classifyTone", () => {
+  it("labels clearly positive and critical coverage", () => {
+    expect(classifyTone("Arus mudik lancar, penumpang puas dan nyaman").label).toBe("positive");
+    expect(classifyTone("Kecelakaan kereta, tiga korban tewas").label).toBe("negative");
+    expect(classifyTone("Menhub berhasil mempercepat pembangunan").label).toBe("positive");
+  });
+
+  it("stays neutral without lexicon words or when they cancel out", () => {
+    expect(classifyTone("Menhub meninjau Pelabuhan Merak")).toEqual({
+      score: 0,
+      label: "neutral",
+    });
+    expect(classifyTone("Jadwal kapal", "Tarif murah, namun antre panjang.").label).toBe(
+      "neutral"
+    );
+  });
+
+  it("flips words after a negator", () => {
+    expect(classifyTone("Libur panjang tanpa kecelakaan dan tidak macet").label).toBe("positive");
+    expect(classifyTone("Layanan bandara tidak nyaman dan kurang aman").label).toBe("negative");
+  });
+
+  it("weighs the title above the body", () => {
+    const body = "Penumpang puas.";
+    const inTitle = classifyTone("Kereta anjlok", body).score;
+    const inBody = classifyTone("Kereta", `Kereta anjlok. ${body}`).score;
+    expect(inTitle).toBeLessThan(inBody);
+  });
+});
+
+describe("toneOf", () => {
+  it("prefers the editor's label over the computed tone", () => {
+    const item = withSentiment(news("Kecelakaan kapal, korban tewas"));
+    expect(item.sentiment?.label).toBe("negative");
+    expect(toneOf(item)).toBe("negative");
+    const overridden = { ...item, toneOverride: { label: "neutral" as const, by: "Ani", at: "" } };
+    expect(toneOf(overridden)).toBe("neutral");
+  });
+
+  it("scores records stored before tone was computed", () => {
+    expect(toneOf(news("Pelayanan terminal sukses dan tertib"))).toBe("positive");
+  });
+});
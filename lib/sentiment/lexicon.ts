@@ -0,0 +1,83 @@
+// =============================
+// Lexicon-based tone of news coverage (pure; client and server safe).
+// Words are compared by stem, so "penundaan" and "tertunda" both count as
+// "tunda". A negator up to two words before flips the polarity ("tidak
+// lancar", "tanpa kecelakaan"). Title words weigh double.
+// =============================
+
+import { foldText, stem } from "../tokenize";
+import type { NewsItem, Tone } from "../types";
+
+export const TONE_LABEL: Record<Tone, string> = {
+  positive: "Positif",
+  neutral: "Netral",
+  negative: "Kritis",
+};
+
+export const TONES = Object.keys(TONE_LABEL) as Tone[];
+
+const POSITIVE = [
+  "sukses", "lancar", "apresiasi", "dukung", "puji", "aman", "nyaman", "efisien", "inovasi",
+  "terobosan", "rekor", "prestasi", "raih", "untung", "unggul", "optimistis", "optimis",
+  "positif", "mudah", "murah", "hemat", "modern", "tumbuh", "manfaat", "bantuan", "gratis",
+  "diskon", "puas", "tertib",
+];
+
+const NEGATIVE = [
+  "kecelakaan", "tewas", "korban", "tenggelam", "tergelincir", "anjlok", "macet", "kritik",
+  "mengkritik", "keluhan", "mengeluh", "protes", "mogok", "tunda", "batal", "rusak", "gagal",
+  "lambat", "buruk", "mahal", "langgar", "korupsi", "suap", "tolak", "kecewa", "kekecewaan",
+  "rugi", "bahaya", "kacau", "semrawut", "darurat", "hilang", "padam", "antre", "sorot",
+  "polemik", "gugat", "insiden", "kebakaran", "terbakar", "lumpuh", "ganggu", "ricuh",
+  "hambat", "telantar", "menelantarkan", "pungli", "sesak",
+];
+
+// Surface forms whose stem is too common to use ("berhasil" -> "hasil")
+const POSITIVE_EXACT = ["berhasil", "keberhasilan", "mempercepat", "percepatan", "membaik"];
+
+const NEGATORS = new Set(["tidak", "tak", "bukan", "belum", "tanpa", "kurang", "minim"]);
+
+const polarity = new Map<string, number>();
+POSITIVE.forEach((w) => polarity.set(stem(w), 1));
+NEGATIVE.forEach((w) => polarity.set(stem(w), -1));
+
+const exactPolarity = new Map<string, number>(POSITIVE_EXACT.map((w) => [w, 1]));
+
+// Score below/above these is labeled critical/positive
+export const TONE_THRESHOLD = 0.2;
+
+const words = (text: string) => foldText(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+function tally(text: string, weight: number) {
+  let sum = 0;
+  let mass = 0;
+  const list = words(text);
+  list.forEach((w, i) => {
+    const p = exactPolarity.get(w) ?? polarity.get(stem(w));
+    if (!p) return;
+    const negated = list.slice(Math.max(0, i - 2), i).some((x) => NEGATORS.has(x));
+    sum += (negated ? -p : p) * weight;
+    mass += weight;
+  });
+  return { sum, mass };
+}
+
+// Score in (-1, 1); few matching words keep it close to neutral
+export function classifyTone(title: string, text = ""): { score: number; label: Tone } {
+  const head = tally(title, 2);
+  const rest = tally(text, 1);
+  const score = Math.round(((head.sum + rest.sum) / (head.mass + rest.mass + 3)) * 100) / 100;
+  const label =
+    score >= TONE_THRESHOLD ? "positive" : score <= -TONE_THRESHOLD ? "negative" : "neutral";
+  return { score, label };
+}
+
+export const classifyNews = (n: NewsItem) =>
+  classifyTone(n.title, [n.summary, n.body].filter(Boolean).join("\n"));
+
+// Computed tone stored on the item; an editor's override is a separate field
+export const withSentiment = (n: NewsItem): NewsItem => ({ ...n, sentiment: classifyNews(n) });
+
+// The editor's label wins; records ingested before scoring are scored on the fly
+export const toneOf = (n: NewsItem): Tone =>
+  n.toneOverride?.label ?? (n.sentiment ?? classifyNews(n)).label;
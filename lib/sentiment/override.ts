@@ -0,0 +1,32 @@
+// =============================
+// Editor overrides of news tone (server only).
+// The override lives beside the computed `sentiment`, so re-ingest and
+// re-scoring never touch an editor's call.
+// =============================
+
+import { fail, ok, type Result } from "../result";
+import { news } from "../store";
+import type { NewsItem, Tone } from "../types";
+import { TONES } from "./lexicon";
+
+const isTone = (t: unknown): t is Tone => TONES.includes(t as Tone);
+
+// `label` null goes back to the computed tone
+export async function overrideTone(
+  id: string,
+  label: unknown,
+  by: string
+): Promise<Result<NewsItem>> {
+  if (label !== null && !isTone(label)) {
+    return fail(400, "label harus positive, neutral atau negative");
+  }
+  if (label !== null && !by.trim()) return fail(400, "Nama editor wajib diisi");
+  return news.change(id, (n) => {
+    if (!n) return fail(404, `Berita ${id} tidak ditemukan`);
+    if (label === null) return ok({ ...n, toneOverride: undefined });
+    return ok({
+      ...n,
+      toneOverride: { label, by: by.trim(), at: new Date().toISOString() },
+    });
+  });
+}
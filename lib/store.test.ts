@@ -0,0 +1,129 @@
+import { appendFileSync, mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { fail, ok } from "./result";
+
+type Item = { id: string; n: number };
+
+// DATA_DIR is read when the module loads, so every test gets a fresh copy
+async function load() {
+  vi.stubEnv("CC_DATA_DIR", mkdtempSync(path.join(tmpdir(), "cc-store-")));
+  vi.resetModules();
+  return import("./store");
+}
+
+describe("store", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("seeds a missing collection once under concurrent first reads", async () => {
+    const { createCollection } = await load();
+    const seed = vi.fn(() => [{ id: "a", n: 1 }]);
+    const col = createCollection<Item>("seeded", seed);
+    const reads = await Promise.all([col.all(), col.all(), col.get("a"), col.all()]);
+    expect(reads[0]).toEqual([{ id: "a", n: 1 }]);
+    expect(reads[2]).toEqual({ id: "a", n: 1 });
+    expect(seed).toHaveBeenCalledTimes(1);
+  });
+
+  it("change writes nothing when the callback fails", async () => {
+    const { createCollection } = await load();
+    const col = createCollection<Item>("items", () => [{ id: "a", n: 1 }]);
+    const result = await col.change("a", () => fail(409, "tidak boleh"));
+    expect(result).toEqual({ ok: false, status: 409, error: "tidak boleh" });
+    expect(await col.all()).toEqual([{ id: "a", n: 1 }]);
+  });
+
+  it("change serializes read-validate-write, so no update is lost", async () => {
+    const { createCollection } = await load();
+    const col = createCollection<Item>("items", () => [{ id: "a", n: 0 }]);
+    const bump = () =>
+      col.change("a", async (item) => {
+        if (!item) return fail(404, "hilang");
+        await new Promise((r) => setTimeout(r, 1));
+        return ok({ ...item, n: item.n + 1 });
+      });
+    await Promise.all([bump(), bump(), bump(), bump()]);
+    expect(await col.get("a")).toEqual({ id: "a", n: 4 });
+  });
+
+  it("change inserts a record that is not stored yet", async () => {
+    const { createCollection } = await load();
+    const col = createCollection<Item>("items");
+    const result = await col.change("b", (item, all) =>
+      item ? fail(409, "ada") : ok({ id: "ignored", n: all.length })
+    );
+    expect(result).toEqual({ ok: true, value: { id: "b", n: 0 } });
+    expect(await col.all()).toEqual([{ id: "b", n: 0 }]);
+  });
+
+  it("updateMany returns only the records that changed", async () => {
+    const { createCollection } = await load();
+    const col = createCollection<Item>("items", () => [
+      { id: "a", n: 1 },
+      { id: "b", n: 2 },
+    ]);
+    const changed = await col.updateMany((it) => (it.n > 1 ? { ...it, n: it.n * 10 } : undefined));
+    expect(changed).toEqual([{ id: "b", n: 20 }]);
+    expect(await col.all()).toEqual([
+      { id: "a", n: 1 },
+      { id: "b", n: 20 },
+    ]);
+  });
+
+  it("appends log records as lines and reads them back in order", async () => {
+    const { createLog } = await load();
+    const log = createLog<Item>("log");
+    expect(await log.all()).toEqual([]);
+    await Promise.all([1, 2, 3].map((n) => log.append({ id: `e${n}`, n })));
+    expect(await log.all()).toEqual([
+      { id: "e1", n: 1 },
+      { id: "e2", n: 2 },
+      { id: "e3", n: 3 },
+    ]);
+  });
+
+  it("leaves out a log line that was cut short", async () => {
+    const { createLog } = await load();
+    const log = createLog<Item>("log");
+    await log.append({ id: "e1", n: 1 });
+    const file = path.join(process.env.CC_DATA_DIR as string, "log.jsonl");
+    appendFileSync(file, '{"id":"e2","n"');
+    expect(await log.all()).toEqual([{ id: "e1", n: 1 }]);
+    await log.append({ id: "e3", n: 3 });
+    expect(await log.all()).toEqual([
+      { id: "e1", n: 1 },
+      { id: "e3", n: 3 },
+    ]);
+  });
+
+  it("removeWhere drops every match and counts them", async () => {
+    const { createCollection } = await load();
+    const col = createCollection<Item>("items", () => [
+      { id: "a", n: 1 },
+      { id: "b", n: 2 },
+      { id: "c", n: 3 },
+    ]);
+    expect(await col.removeWhere((it) => it.n % 2 === 1)).toBe(2);
+    expect(await col.all()).toEqual([{ id: "b", n: 2 }]);
+    expect(await col.removeWhere(() => false)).toBe(0);
+  });
+
+  it("changeAll writes the whole list or nothing", async () => {
+    const { createCollection } = await load();
+    const col = createCollection<Item>("items", () => [
+      { id: "a", n: 1 },
+      { id: "b", n: 2 },
+    ]);
+    expect(await col.changeAll(() => fail(409, "bentrok"))).toMatchObject({ ok: false });
+    expect(await col.all()).toHaveLength(2);
+    await Promise.all([
+      col.changeAll((all) => ok(all.filter((it) => it.id !== "a"))),
+      col.changeAll((all) => ok(all.map((it) => ({ ...it, n: it.n * 10 })))),
+    ]);
+    expect(await col.all()).toEqual([{ id: "b", n: 20 }]);
+  });
+});
@@ -0,0 +1,273 @@
+// =============================
+// File-based persistent store (server only).
+// Each collection is a JSON array in DATA_DIR/<name>.json, written atomically.
+// Append-only logs are JSON lines in DATA_DIR/<name>.jsonl.
+// =============================
+
+import { promises as fs } from "fs";
+import path from "path";
+import { ok, type Result } from "./result";
+import { seedEvents, seedNews, seedQuotes } from "./seed";
+import type { EventItem, NewsItem, QuoteItem } from "./types";
+
+const DATA_DIR = process.env.CC_DATA_DIR || path.join(process.cwd(), "data");
+
+// Writes are serialized per collection so concurrent requests don't clobber each other
+const locks = new Map<string, Promise<unknown>>();
+
+function withLock<T>(name: string, fn: () => Promise<T>) {
+  const prev = locks.get(name) ?? Promise.resolve();
+  const next = prev.then(fn, fn);
+  locks.set(name, next.catch(() => undefined));
+  return next;
+}
+
+const missing = (err: unknown) => (err as NodeJS.ErrnoException).code === "ENOENT";
+
+async function readRaw<T>(name: string): Promise<T[]> {
+  const raw = await fs.readFile(path.join(DATA_DIR, `${name}.json`), "utf8");
+  return JSON.parse(raw) as T[];
+}
+
+// Read with the collection's lock held; a missing file is seeded
+async function readLocked<T>(name: string, seed?: () => T[]): Promise<T[]> {
+  try {
+    return await readRaw<T>(name);
+  } catch (err) {
+    if (!missing(err)) throw err;
+    const initial = seed ? seed() : [];
+    if (seed) await writeFile(name, initial);
+    return initial;
+  }
+}
+
+// Reads need no lock; only seeding a missing file takes it, so concurrent
+// first reads seed once
+async function readFile<T>(name: string, seed?: () => T[]): Promise<T[]> {
+  try {
+    return await readRaw<T>(name);
+  } catch (err) {
+    if (!missing(err)) throw err;
+    return withLock(name, () => readLocked(name, seed));
+  }
+}
+
+// Unique per write, so overlapping writes never rename each other's temp file
+let tmpCounter = 0;
+
+async function writeFile<T>(name: string, items: T[]) {
+  await fs.mkdir(DATA_DIR, { recursive: true });
+  const file = path.join(DATA_DIR, `${name}.json`);
+  const tmp = `${file}.${process.pid}.${++tmpCounter}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(items, null, 2), "utf8");
+  await fs.rename(tmp, file);
+}
+
+// Drop undefined keys so a partial record doesn't erase stored fields on merge
+const definedOnly = <T extends object>(item: T) =>
+  Object.fromEntries(
+    Object.entries(item).filter(([, v]) => v !== undefined)
+  ) as Partial<T>;
+
+export type Collection<T extends { id: string }> = {
+  all: () => Promise<T[]>;
+  get: (id: string) => Promise<T | undefined>;
+  // Insert or merge records; `key` decides identity (defaults to id)
+  upsert: (
+    items: T[],
+    key?: (item: T) => string
+  ) => Promise<{ inserted: number; updated: number }>;
+  // Insert or fully replace one record by id (no merge)
+  put: (item: T) => Promise<T>;
+  update: (id: string, fn: (item: T) => T) => Promise<T | undefined>;
+  remove: (id: string) => Promise<boolean>;
+  // Read-validate-write of one record under the lock: `fn` gets the stored
+  // record (undefined if there is none) and every record, and returns the
+  // record to store or a failure that writes nothing
+  change: (
+    id: string,
+    fn: (item: T | undefined, all: T[]) => Result<T> | Promise<Result<T>>
+  ) => Promise<Result<T>>;
+  // Applies `fn` to every record under the lock; undefined keeps a record as
+  // is. Returns the records that changed
+  updateMany: (fn: (item: T) => T | undefined) => Promise<T[]>;
+  // Check-then-remove of one record under the lock: `fn` gets the stored
+  // record and every record and returns it to remove, or a failure that keeps it
+  removeChecked: (
+    id: string,
+    fn: (item: T | undefined, all: T[]) => Result<T>
+  ) => Promise<Result<T>>;
+  // Removes every record matching `fn` in one write; returns how many
+  removeWhere: (fn: (item: T) => boolean) => Promise<number>;
+  // Multi-record read-validate-write under the lock: `fn` gets every record
+  // and returns the full new list, or a failure that writes nothing
+  changeAll: (fn: (all: T[]) => Result<T[]>) => Promise<Result<T[]>>;
+};
+
+export function createCollection<T extends { id: string }>(
+  name: string,
+  seed?: () => T[]
+): Collection<T> {
+  return {
+    all: () => readFile<T>(name, seed),
+    get: async (id) => (await readFile<T>(name, seed)).find((it) => it.id === id),
+    upsert: (items, key = (it) => it.id) =>
+      withLock(name, async () => {
+        const current = await readLocked<T>(name, seed);
+        const index = new Map(current.map((it, i) => [key(it), i]));
+        let inserted = 0;
+        let updated = 0;
+        items.forEach((it) => {
+          const i = index.get(key(it));
+          if (i === undefined) {
+            index.set(key(it), current.length);
+            current.push(it);
+            inserted++;
+          } else {
+            // Merge over the stored record and keep its id so references stay valid
+            current[i] = { ...current[i], ...definedOnly(it), id: current[i].id };
+            updated++;
+          }
+        });
+        await writeFile(name, current);
+        return { inserted, updated };
+      }),
+    put: (item) =>
+      withLock(name, async () => {
+        const current = await readLocked<T>(name, seed);
+        const i = current.findIndex((it) => it.id === item.id);
+        if (i === -1) current.push(item);
+        else current[i] = item;
+        await writeFile(name, current);
+        return item;
+      }),
+    update: (id, fn) =>
+      withLock(name, async () => {
+        const current = await readLocked<T>(name, seed);
+        const i = current.findIndex((it) => it.id === id);
+        if (i === -1) return undefined;
+        current[i] = { ...fn(current[i]), id };
+        await writeFile(name, current);
+        return current[i];
+      }),
+    remove: (id) =>
+      withLock(name, async () => {
+        const current = await readLocked<T>(name, seed);
+        const next = current.filter((it) => it.id !== id);
+        if (next.length === current.length) return false;
+        await writeFile(name, next);
+        return true;
+      }),
+    change: (id, fn) =>
+      withLock(name, async () => {
+        const current = await readLocked<T>(name, seed);
+        const i = current.findIndex((it) => it.id === id);
+        const result = await fn(i === -1 ? undefined : current[i], current);
+        if (!result.ok) return result;
+        const item = { ...result.value, id };
+        if (i === -1) current.push(item);
+        else current[i] = item;
+        await writeFile(name, current);
+        return ok(item);
+      }),
+    updateMany: (fn) =>
+      withLock(name, async () => {
+        const current = await readLocked<T>(name, seed);
+        const changed: T[] = [];
+        current.forEach((it, i) => {
+          const next = fn(it);
+          if (next === undefined) return;
+          current[i] = { ...next, id: it.id };
+          changed.push(current[i]);
+        });
+        if (changed.length) await writeFile(name, current);
+        return changed;
+      }),
+    removeChecked: (id, fn) =>
+      withLock(name, async () => {
+        const current = await readLocked<T>(name, seed);
+        const i = current.findIndex((it) => it.id === id);
+        const result = fn(i === -1 ? undefined : current[i], current);
+        if (!result.ok) return result;
+        if (i !== -1) await writeFile(name, current.filter((_, j) => j !== i));
+        return result;
+      }),
+    removeWhere: (fn) =>
+      withLock(name, async () => {
+        const current = await readLocked<T>(name, seed);
+        const next = current.filter((it) => !fn(it));
+        if (next.length !== current.length) await writeFile(name, next);
+        return current.length - next.length;
+      }),
+    changeAll: (fn) =>
+      withLock(name, async () => {
+        const result = fn(await readLocked<T>(name, seed));
+        if (result.ok) await writeFile(name, result.value);
+        return result;
+      }),
+  };
+}
+
+export type AppendLog<T> = {
+  all: () => Promise<T[]>;
+  append: (item: T) => Promise<T>;
+};
+
+async function endsWithNewline(file: string) {
+  let handle: fs.FileHandle;
+  try {
+    handle = await fs.open(file, "r");
+  } catch (err) {
+    if (missing(err)) return true;
+    throw err;
+  }
+  try {
+    const { size } = await handle.stat();
+    if (size === 0) return true;
+    const last = Buffer.alloc(1);
+    await handle.read(last, 0, 1, size - 1);
+    return last[0] === 0x0a;
+  } finally {
+    await handle.close();
+  }
+}
+
+// One record per line; appending never rewrites earlier lines, so nothing
+// written to a log can be changed through it. A record cut short by a crash
+// is skipped on read, and the next append starts on a line of its own.
+export function createLog<T>(name: string): AppendLog<T> {
+  const file = path.join(DATA_DIR, `${name}.jsonl`);
+  return {
+    all: async () => {
+      let raw: string;
+      try {
+        raw = await fs.readFile(file, "utf8");
+      } catch (err) {
+        if (missing(err)) return [];
+        throw err;
+      }
+      return raw.split("\n").flatMap((line) => {
+        if (!line) return [];
+        try {
+          return [JSON.parse(line) as T];
+        } catch {
+          return [];
+        }
+      });
+    },
+    append: (item) =>
+      withLock(`${name}.jsonl`, async () => {
+        await fs.mkdir(DATA_DIR, { recursive: true });
+        const start = (await endsWithNewline(file)) ? "" : "\n";
+        await fs.appendFile(file, `${start}${JSON.stringify(item)}\n`, "utf8");
+        return item;
+      }),
+  };
+}
+
+export const events = createCollection<EventItem>("events", seedEvents);
+export const news = createCollection<NewsItem>("news", seedNews);
+export const quotes = createCollection<QuoteItem>("quotes", seedQuotes);
+
+export const newId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
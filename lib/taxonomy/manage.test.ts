@@ -0,0 +1,95 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { EventItem } from "../types";
+
+async function load() {
+  vi.stubEnv("CC_DATA_DIR", mkdtempSync(path.join(tmpdir(), "cc-taxonomy-")));
+  vi.resetModules();
+  const mod = await import("./manage");
+  const store = await import("../store");
+  return { ...mod, events: store.events };
+}
+
+const event = (id: string, tags: string[]): EventItem => ({
+  id,
+  title: `Acara ${id}`,
+  date: "2026-10-20",
+  location: "Jakarta",
+  attendedByMinister: false,
+  source: "test",
+  tags,
+  link: "https://dephub.go.id/",
+});
+
+describe("taxonomy", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.resetModules();
+  });
+
+  it("merges a tag into another and rewrites stored items", async () => {
+    const { createTag, events, mergeTags, taxonomy } = await load();
+    const kapal = await createTag({ label: "Kapal", category: "mode", synonyms: ["Armada"] });
+    if (!kapal.ok) throw new Error(kapal.error);
+    await events.put(event("ev-merge", ["Kapal", "Armada", "Keselamatan"]));
+
+    const result = await mergeTags(kapal.value.id, "tag-laut");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.item.synonyms).toEqual(expect.arrayContaining(["Kapal", "Armada"]));
+    expect(result.value.rewritten.events).toBe(1);
+    expect(result.value.changes).toContainEqual(
+      expect.objectContaining({ kind: "event", id: "ev-merge", after: ["Laut", "Keselamatan"] }),
+    );
+    expect(await taxonomy.get(kapal.value.id)).toBeUndefined();
+    expect((await events.get("ev-merge"))?.tags).toEqual(["Laut", "Keselamatan"]);
+  });
+
+  it("refuses merges with a missing side or into itself", async () => {
+    const { mergeTags, taxonomy } = await load();
+    const count = (await taxonomy.all()).length;
+    expect(await mergeTags("tag-laut", "tag-laut")).toMatchObject({ ok: false, status: 400 });
+    expect(await mergeTags("tag-laut", "tag-hilang")).toMatchObject({ ok: false, status: 404 });
+    expect(await mergeTags("tag-hilang", "tag-laut")).toMatchObject({ ok: false, status: 404 });
+    expect(await mergeTags("tag-laut", 5)).toMatchObject({ ok: false, status: 400 });
+    expect(await taxonomy.all()).toHaveLength(count);
+  });
+
+  it("keeps the merged synonyms when the target is edited at the same time", async () => {
+    const { mergeTags, taxonomy, updateTag } = await load();
+    const [merged, updated] = await Promise.all([
+      mergeTags("tag-green", "tag-kebijakan"),
+      updateTag("tag-kebijakan", { category: "region" }),
+    ]);
+    expect(merged.ok && updated.ok).toBe(true);
+    const target = await taxonomy.get("tag-kebijakan");
+    expect(target?.category).toBe("region");
+    expect(target?.synonyms).toEqual(expect.arrayContaining(["Regulasi", "Green"]));
+    expect(await taxonomy.get("tag-green")).toBeUndefined();
+  });
+
+  it("lets only one of two concurrent creates claim a name", async () => {
+    const { createTag, taxonomy } = await load();
+    const results = await Promise.all([
+      createTag({ label: "Bandara", category: "policy" }),
+      createTag({ label: "bandara", category: "region" }),
+    ]);
+    expect(results.map((r) => (r.ok ? 201 : r.status)).sort()).toEqual([201, 409]);
+    const names = (await taxonomy.all()).map((e) => e.label.toLowerCase());
+    expect(names.filter((n) => n === "bandara")).toHaveLength(1);
+  });
+
+  it("renames a tag and keeps the old label as a synonym", async () => {
+    const { events, renameTag } = await load();
+    await events.put(event("ev-rename", ["Perkotaan"]));
+    const result = await renameTag("tag-perkotaan", "Kawasan Kota");
+    expect(result.ok).toBe(true);
+    if (!result.ok) return;
+    expect(result.value.item.synonyms).toContain("Perkotaan");
+    expect((await events.get("ev-rename"))?.tags).toEqual(["Kawasan Kota"]);
+    expect(await renameTag("tag-perkotaan", 42)).toMatchObject({ ok: false, status: 400 });
+    expect(await renameTag("tag-perkotaan", "Udara")).toMatchObject({ ok: false, status: 409 });
+  });
+});
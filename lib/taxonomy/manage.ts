@@ -0,0 +1,250 @@
+// =============================
+// Persisted tag taxonomy (server only).
+// Rename and merge rewrite the tags on stored events and quotes and the
+// entities on stored news, so filters and facets never see stale spellings.
+// Ingest runs new items through the synonym rules (withCanonicalTags).
+// =============================
+
+import { fail, ok, type Result } from "../result";
+import { createCollection, events, news, newId, quotes, type Collection } from "../store";
+import type { CombinedItem, EventItem, NewsItem, QuoteItem, TagCategory, TagEntry } from "../types";
+import { TAG_CATEGORIES, canonicalizeTags, entryFor, synonymMap, tagKey } from "./synonyms";
+
+function seedTaxonomy(): TagEntry[] {
+  const now = new Date().toISOString();
+  const entry = (label: string, category: TagCategory, synonyms: string[] = []): TagEntry => ({
+    id: `tag-${tagKey(label).replace(/[^a-z0-9]+/g, "-")}`,
+    label,
+    category,
+    synonyms,
+    createdAt: now,
+    updatedAt: now,
+  });
+  return [
+    entry("Darat", "mode", ["Angkutan Darat", "Perhubungan Darat"]),
+    entry("Laut", "mode", ["Maritim", "Pelayaran", "Angkutan Laut"]),
+    entry("Udara", "mode", ["Penerbangan", "Angkutan Udara"]),
+    entry("Perkeretaapian", "mode", ["Kereta", "Kereta Api"]),
+    entry("Keselamatan", "policy", ["Safety"]),
+    entry("Infrastruktur", "policy"),
+    entry("Kebijakan", "policy", ["Regulasi"]),
+    entry("Green", "policy", ["Transportasi Hijau", "Dekarbonisasi"]),
+    entry("Integrasi Moda", "policy", ["Antarmoda"]),
+    entry("Perkotaan", "region", ["Urban"]),
+  ];
+}
+
+export const taxonomy = createCollection<TagEntry>("taxonomy", seedTaxonomy);
+
+const isCategory = (c: unknown): c is TagCategory =>
+  typeof c === "string" && Object.hasOwn(TAG_CATEGORIES, c);
+
+function cleanSynonyms(list: unknown, label: string) {
+  const names = (Array.isArray(list) ? list : []).map((s) => String(s).trim()).filter(Boolean);
+  return [...new Set(names)].filter((s) => tagKey(s) !== tagKey(label));
+}
+
+// A label or synonym may belong to only one entry
+function conflict(entries: TagEntry[], names: string[], exceptId?: string) {
+  for (const name of names) {
+    const owner = entryFor(name, entries);
+    if (owner && owner.id !== exceptId) return `"${name}" sudah dipakai oleh tag ${owner.label}`;
+  }
+  return null;
+}
+
+// =============================
+// Item rewriting
+// =============================
+
+// One item whose tag list (entities on news) a taxonomy change rewrote
+export type TagRewrite = {
+  kind: "event" | "news" | "quote";
+  id: string;
+  title: string;
+  field: "tags" | "entities";
+  before: string[];
+  after: string[];
+};
+
+async function rewriteCollection<T extends { id: string }>(
+  col: Collection<T>,
+  describe: Pick<TagRewrite, "kind" | "field"> & { title: (item: T) => string },
+  get: (item: T) => string[] | undefined,
+  set: (item: T, tags: string[]) => T,
+  fn: (tags: string[]) => string[]
+): Promise<TagRewrite[]> {
+  const rewrites: TagRewrite[] = [];
+  await col.updateMany((item) => {
+    const current = get(item);
+    if (!current?.length) return undefined;
+    const next = fn(current);
+    if (next.join("\n") === current.join("\n")) return undefined;
+    const { kind, field, title } = describe;
+    rewrites.push({ kind, id: item.id, title: title(item), field, before: current, after: next });
+    return set(item, next);
+  });
+  return rewrites;
+}
+
+// Applies `fn` to every stored tag list; returns the items that changed
+export async function rewriteItemTags(fn: (tags: string[]) => string[]) {
+  return [
+    ...(await rewriteCollection<EventItem>(
+      events,
+      { kind: "event", field: "tags", title: (e) => e.title },
+      (e) => e.tags,
+      (e, tags) => ({ ...e, tags }),
+      fn
+    )),
+    ...(await rewriteCollection<NewsItem>(
+      news,
+      { kind: "news", field: "entities", title: (n) => n.title },
+      (n) => n.entities,
+      (n, entities) => ({ ...n, entities }),
+      fn
+    )),
+    ...(await rewriteCollection<QuoteItem>(
+      quotes,
+      { kind: "quote", field: "tags", title: (q) => q.text },
+      (q) => q.tags,
+      (q, tags) => ({ ...q, tags }),
+      fn
+    )),
+  ];
+}
+
+// How many items changed, per kind
+export const rewriteCounts = (changes: TagRewrite[]) => ({
+  events: changes.filter((c) => c.kind === "event").length,
+  news: changes.filter((c) => c.kind === "news").length,
+  quotes: changes.filter((c) => c.kind === "quote").length,
+});
+
+export type RewriteCounts = ReturnType<typeof rewriteCounts>;
+
+// Counts for the response, and every changed item for the audit log
+export type RewriteResult = { rewritten: RewriteCounts; changes: TagRewrite[] };
+
+async function rewriteWith(map: Map<string, string>): Promise<RewriteResult> {
+  const changes = await rewriteItemTags((tags) => canonicalizeTags(tags, map));
+  return { rewritten: rewriteCounts(changes), changes };
+}
+
+// Synonym rules over stored items, e.g. after adding a synonym
+export async function applyTaxonomy() {
+  return rewriteWith(synonymMap(await taxonomy.all()));
+}
+
+// For ingest paths: runs tags/entities of new items through the synonym rules
+export async function withCanonicalTags<T extends CombinedItem>(items: T[]): Promise<T[]> {
+  const map = synonymMap(await taxonomy.all());
+  return items.map((it): T => {
+    const item: CombinedItem = it;
+    if ("publishedAt" in item) {
+      return item.entities ? ({ ...item, entities: canonicalizeTags(item.entities, map) } as T) : it;
+    }
+    return item.tags ? ({ ...item, tags: canonicalizeTags(item.tags, map) } as T) : it;
+  });
+}
+
+// =============================
+// Operations
+// =============================
+
+// Request bodies are untrusted JSON, so every field is checked before use
+export type TagInput = { label?: unknown; category?: unknown; synonyms?: unknown };
+
+export async function createTag(input: TagInput): Promise<Result<TagEntry>> {
+  const label = typeof input.label === "string" ? input.label.trim() : "";
+  if (!label) return fail(400, "Nama tag wajib diisi");
+  const category = input.category;
+  if (!isCategory(category)) return fail(400, "Kategori tidak dikenal");
+  const synonyms = cleanSynonyms(input.synonyms, label);
+  // The conflict check and the insert share the lock, so two creates can't
+  // both claim the same name
+  const id = newId("tag");
+  return taxonomy.change(id, (_, all) => {
+    const clash = conflict(all, [label, ...synonyms]);
+    if (clash) return fail(409, clash);
+    const now = new Date().toISOString();
+    return ok({ id, label, category, synonyms, createdAt: now, updatedAt: now });
+  });
+}
+
+export async function updateTag(id: string, input: TagInput): Promise<Result<TagEntry>> {
+  if (input.category !== undefined && !isCategory(input.category)) {
+    return fail(400, "Kategori tidak dikenal");
+  }
+  return taxonomy.change(id, (entry, all) => {
+    if (!entry) return fail(404, `Tag ${id} tidak ditemukan`);
+    const synonyms =
+      input.synonyms === undefined ? entry.synonyms : cleanSynonyms(input.synonyms, entry.label);
+    const clash = conflict(all, synonyms, id);
+    if (clash) return fail(409, clash);
+    return ok({
+      ...entry,
+      category: isCategory(input.category) ? input.category : entry.category,
+      synonyms,
+      updatedAt: new Date().toISOString(),
+    });
+  });
+}
+
+// The old label stays as a synonym so later ingests map to the new one
+export async function renameTag(
+  id: string,
+  to: unknown
+): Promise<Result<{ item: TagEntry } & RewriteResult>> {
+  const label = typeof to === "string" ? to.trim() : "";
+  if (!label) return fail(400, "Nama baru wajib diisi");
+  const result = await taxonomy.change(id, (entry, all) => {
+    if (!entry) return fail(404, `Tag ${id} tidak ditemukan`);
+    const clash = conflict(all, [label], id);
+    if (clash) return fail(409, clash);
+    return ok({
+      ...entry,
+      label,
+      synonyms: cleanSynonyms([...entry.synonyms, entry.label], label),
+      updatedAt: new Date().toISOString(),
+    });
+  });
+  if (!result.ok) return result;
+  const item = result.value;
+  return ok({ item, ...(await rewriteWith(synonymMap([item]))) });
+}
+
+// Folds `id` into `intoId`: its label and synonyms become synonyms of the target.
+// Both entries are read and written in one locked write, so a concurrent edit
+// of the target can't be lost and the source can't vanish without the merge
+export async function mergeTags(
+  id: string,
+  intoId: unknown
+): Promise<Result<{ item: TagEntry } & RewriteResult>> {
+  if (typeof intoId !== "string" || !intoId) return fail(400, "Tag tujuan wajib diisi");
+  if (id === intoId) return fail(400, "Tidak bisa menggabungkan tag dengan dirinya sendiri");
+  const result = await taxonomy.changeAll((all) => {
+    const source = all.find((e) => e.id === id);
+    const target = all.find((e) => e.id === intoId);
+    if (!source) return fail(404, `Tag ${id} tidak ditemukan`);
+    if (!target) return fail(404, `Tag tujuan ${intoId} tidak ditemukan`);
+    const item: TagEntry = {
+      ...target,
+      synonyms: cleanSynonyms(
+        [...target.synonyms, source.label, ...source.synonyms],
+        target.label
+      ),
+      updatedAt: new Date().toISOString(),
+    };
+    return ok(all.filter((e) => e.id !== id).map((e) => (e.id === intoId ? item : e)));
+  });
+  if (!result.ok) return result;
+  const item = result.value.find((e) => e.id === intoId) as TagEntry;
+  return ok({ item, ...(await rewriteWith(synonymMap([item]))) });
+}
+
+// Removes the entry only; items keep the tag as free text
+export async function deleteTag(id: string): Promise<Result<{ id: string }>> {
+  if (!(await taxonomy.remove(id))) return fail(404, `Tag ${id} tidak ditemukan`);
+  return ok({ id });
+}
@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import type { TagEntry } from "../types";
+import { canonicalizeTags, entryFor, synonymMap } from "./synonyms";
+
+const entry = (label: string, synonyms: string[]): TagEntry => ({
+  id: `tag-${label.toLowerCase()}`,
+  label,
+  category: "mode",
+  synonyms,
+  createdAt: "2026-10-19T00:00:00.000Z",
+  updatedAt: "2026-10-19T00:00:00.000Z",
+});
+
+const entries = [entry("Udara", ["Penerbangan", "Angkutan Udara"]), entry("Laut", ["Maritim"])];
+
+describe("synonym rules", () => {
+  it("maps synonyms to the label regardless of case, accents and spacing", () => {
+    const map = synonymMap(entries);
+    expect(canonicalizeTags(["penerbangan", " ANGKUTAN  udara ", "Mar\u00edtim"], map)).toEqual([
+      "Udara",
+      "Laut",
+    ]);
+  });
+
+  it("keeps unknown tags and drops duplicates and blanks", () => {
+    const map = synonymMap(entries);
+    expect(canonicalizeTags(["Bandara", "Udara", "udara", "  "], map)).toEqual([
+      "Bandara",
+      "Udara",
+    ]);
+    expect(canonicalizeTags(["constructor"], map)).toEqual(["constructor"]);
+  });
+
+  it("finds the entry owning a label or synonym", () => {
+    expect(entryFor("maritim", entries)?.label).toBe("Laut");
+    expect(entryFor("Udara", entries)?.id).toBe("tag-udara");
+    expect(entryFor("Darat", entries)).toBeUndefined();
+  });
+});
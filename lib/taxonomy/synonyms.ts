@@ -0,0 +1,42 @@
+// =============================
+// Synonym rules for the tag taxonomy (pure; client and server safe).
+// Labels and synonyms are compared case- and accent-insensitively.
+// =============================
+
+import { foldText } from "../tokenize";
+import type { TagCategory, TagEntry } from "../types";
+
+export const TAG_CATEGORIES: Record<TagCategory, string> = {
+  mode: "Moda",
+  policy: "Tema kebijakan",
+  region: "Wilayah",
+  other: "Lainnya",
+};
+
+export const tagKey = (tag: string) => foldText(tag).replace(/\s+/g, " ").trim();
+
+// Folded label or synonym -> canonical label
+export function synonymMap(entries: TagEntry[]) {
+  const map = new Map<string, string>();
+  entries.forEach((e) => {
+    map.set(tagKey(e.label), e.label);
+    e.synonyms.forEach((s) => map.set(tagKey(s), e.label));
+  });
+  return map;
+}
+
+// Maps every tag to its canonical label and drops duplicates; unknown tags are kept
+export function canonicalizeTags(tags: string[], map: Map<string, string>) {
+  const out: string[] = [];
+  tags.forEach((t) => {
+    const label = map.get(tagKey(t)) ?? t.trim();
+    if (label && !out.includes(label)) out.push(label);
+  });
+  return out;
+}
+
+// Entry a tag belongs to, if any
+export function entryFor(tag: string, entries: TagEntry[]) {
+  const key = tagKey(tag);
+  return entries.find((e) => tagKey(e.label) === key || e.synonyms.some((s) => tagKey(s) === key));
+}
@@ -0,0 +1,42 @@
+import { describe, expect, it } from "vitest";
+import { foldText, stem, tokenize } from "./tokenize";
+
+describe("tokenize", () => {
+  it("folds case and diacritics and drops stopwords", () => {
+    expect(foldText("Caf\u00e9 KERETA")).toBe("cafe kereta");
+    expect(tokenize("Menhub meninjau jalan tol di Bekasi, yang baru dibuka.")).toEqual([
+      "menhub",
+      "meninjau",
+      "jalan",
+      "tol",
+      "bekasi",
+      "dibuka",
+    ]);
+  });
+});
+
+describe("stem", () => {
+  const same = (words: string[], root: string) =>
+    words.forEach((w) => expect(stem(w), w).toBe(root));
+
+  it("reduces derived forms to a shared root", () => {
+    same(["perhubungan", "hubungan", "menghubungkan"], "hubung");
+    same(["perbaikan", "memperbaiki"], "baik");
+    same(["keselamatan"], "selamat");
+    same(["berangkat", "keberangkatan"], "angkat");
+  });
+
+  it("does not cut roots that only look affixed", () => {
+    same(["penerbangan", "terbang", "diterbangkan"], "terbang");
+    same(["mengatakan", "dikatakan", "perkataan", "kata"], "kata");
+    same(["pemerintah", "perintah", "memerintahkan", "pemerintahnya"], "perintah");
+    same(["masalah"], "masalah");
+    same(["jumlah"], "jumlah");
+  });
+
+  it("keeps stems of at least four letters", () => {
+    same(["berapi"], "berapi");
+    expect(stem("kereta")).toBe("kereta");
+    expect(stem("menteri")).toBe("menteri");
+  });
+});
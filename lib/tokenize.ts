@@ -0,0 +1,98 @@
+// =============================
+// Word tokenization for Indonesian news text (client and server safe).
+// =============================
+
+export const STOPWORDS = new Set([
+  "ada", "adalah", "agar", "akan", "antara", "atas", "atau", "bagi", "bahwa",
+  "baru", "belum", "bisa", "dalam", "dan", "dari", "dengan", "di", "dia", "hal",
+  "hari", "harus", "hingga", "ia", "ini", "itu", "jadi", "jika", "juga", "kami",
+  "kata", "ke", "kepada", "kita", "lagi", "lain", "lalu", "masih", "mereka",
+  "namun", "oleh", "pada", "para", "saat", "sampai", "sebagai", "secara",
+  "sejak", "selama", "serta", "sudah", "tak", "telah", "tentang", "tersebut",
+  "tidak", "untuk", "usai", "yaitu", "yang",
+]);
+
+// Lowercase without diacritics
+export const foldText = (text: string) =>
+  text.toLowerCase().normalize("NFKD").replace(/[\u0300-\u036f]/g, "");
+
+// Lowercased words without punctuation or stopwords
+export function tokenize(text: string) {
+  return foldText(text)
+    .split(/[^a-z0-9]+/)
+    .filter((w) => w.length > 1 && !STOPWORDS.has(w));
+}
+
+// =============================
+// Light Indonesian stemmer: strips inflectional and derivational affixes, so
+// "perhubungan", "hubungan" and "menghubungkan" all reduce to "hubung".
+// Stems shorter than MIN_STEM are not accepted, and ROOTS lists words whose
+// start or end only looks like an affix; without them unrelated words would
+// share a stem ("penerbangan" -> "bang", "pemerintah" -> "rin").
+// =============================
+
+const MIN_STEM = 4;
+
+// Roots that stemming must not cut further (ter-bang, pe-rintah, jum-lah),
+// and k- roots that meng- hides (mengatakan <- kata, mengirim <- kirim)
+const ROOTS = new Set([
+  "jumlah", "kata", "kirim", "langkah", "masalah", "perintah", "sekolah", "terbang",
+  "terima", "terus",
+]);
+
+// Particles (-lah, -kah, -pun), then possessives (-nya, -ku, -mu)
+const stripInflection = (w: string) =>
+  w.replace(/^(.{3,}?)(lah|kah|pun)$/, "$1").replace(/^(.{3,}?)(nya|ku|mu)$/, "$1");
+
+// pe-/ke- nouns take -an (perbaikan <- baik), verbs take -kan or -i
+function stripDerivation(w: string) {
+  const m = w.match(/^(pe|ke)/) ? w.match(/^(.{4,}?)(an)$/) : w.match(/^(.{4,}?)(kan|an|i)$/);
+  return m ? { word: m[1], suffix: m[2] } : { word: w, suffix: "" };
+}
+
+// me-/pe- assimilate with the root's first letter: menulis <- tulis,
+// memukul <- pukul, menyapu <- sapu, mengganti <- ganti
+function stripNasal(w: string, p: "me" | "pe") {
+  const rest = w.slice(2);
+  let m: RegExpMatchArray | null;
+  if (p === "me" && (m = rest.match(/^m(per.*)$/))) return m[1];
+  // meng- + vowel is ambiguous (mengambil <- ambil, mengirim <- kirim); keep the
+  // vowel unless ROOTS knows the k- root
+  if ((m = rest.match(/^ng([aiueo].*)$/)) && ROOTS.has(`k${m[1]}`)) return `k${m[1]}`;
+  if ((m = rest.match(/^ng([aiueogh].*)$/))) return m[1];
+  if ((m = rest.match(/^ny([aiueo].*)$/))) return `s${m[1]}`;
+  if ((m = rest.match(/^m([bfv].*)$/))) return m[1];
+  if ((m = rest.match(/^m([aiueo].*)$/))) return `p${m[1]}`;
+  if ((m = rest.match(/^n([cdjz].*)$/))) return m[1];
+  if ((m = rest.match(/^n([aiueo].*)$/))) return `t${m[1]}`;
+  if ((m = rest.match(/^([lrwy][aiueo].*)$/))) return m[1];
+  if (p === "pe" && (m = rest.match(/^r(.*)$/))) return m[1];
+  return null;
+}
+
+function stripPrefix(w: string, suffix: string) {
+  if (w.startsWith("di")) return w.slice(2);
+  if (w.startsWith("ber")) return w.slice(3);
+  if (w.startsWith("ter")) return w.slice(3);
+  if (w.startsWith("me")) return stripNasal(w, "me");
+  if (w.startsWith("pe")) return stripNasal(w, "pe");
+  // ke- only as the ke-...-an confix (kecelakaan), not in "kereta"
+  if (w.startsWith("ke") && suffix === "an") return w.slice(2);
+  return null;
+}
+
+export function stem(word: string) {
+  if (word.length <= MIN_STEM || /\d/.test(word) || ROOTS.has(word)) return word;
+  const inflected = stripInflection(word);
+  if (ROOTS.has(inflected)) return inflected;
+  const { word: base, suffix } = stripDerivation(inflected);
+  let w = base;
+  // At most two prefixes: diper-, memper-, keber-...
+  for (let i = 0; i < 2 && !ROOTS.has(w); i++) {
+    const next = stripPrefix(w, suffix);
+    if (!next || next.length < MIN_STEM) break;
+    w = next;
+  }
+  // Bare -i without a verb prefix is part of the word (menteri)
+  return suffix === "i" && w === base ? inflected : w;
+}
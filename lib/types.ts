@@ -0,0 +1,299 @@
+// =============================
+// Shared record types for the command center.
+// Used by both the API route handlers and the client UI.
+// =============================
+
+import type { RangePreset } from "./daterange";
+import type { TagFilter } from "./facets";
+
+export type EventItem = {
+  id: string;
+  title: string;
+  date: string;
+  location: string;
+  attendedByMinister: boolean;
+  source: string;
+  tags?: string[];
+  summary?: string;
+  link: string;
+  // Map position resolved from `location` (lib/geo) or set by an editor
+  geo?: GeoPoint;
+};
+
+export type GeoPoint = {
+  lat: number;
+  lon: number;
+  // Province name as in the gazetteer
+  province: string;
+  // Kabupaten/kota when the location names one
+  place?: string;
+  // "manual" positions are never replaced by re-ingest or re-geocoding
+  source: "gazetteer" | "manual";
+  by?: string;
+  at?: string;
+};
+
+export type NewsItem = {
+  id: string;
+  title: string;
+  source: string;
+  publishedAt: string;
+  link: string;
+  summary?: string;
+  // Full article text when the feed provides it (used for quote extraction)
+  body?: string;
+  // Canonical entity names; see lib/entities for how they are typed
+  entities?: string[];
+  // Lexicon tone (lib/sentiment), recomputed on every ingest
+  sentiment?: { score: number; label: Tone };
+  // Editor's label; wins over `sentiment` and is never touched by ingest
+  toneOverride?: { label: Tone; by: string; at: string };
+};
+
+// Coverage tone; "negative" is shown as critical ("Kritis")
+export type Tone = "positive" | "neutral" | "negative";
+
+// Entity kinds recognized by the gazetteer extractor (lib/entities)
+export type EntityType = "person" | "organization" | "place" | "topic";
+
+// Verification per the editorial guideline: direct quotes need 2 sources
+export type VerificationStatus = "unverified" | "one-source" | "verified";
+
+export type QuoteSource = {
+  link: string;
+  outlet: string;
+  addedAt: string;
+};
+
+export type QuoteItem = {
+  id: string;
+  text: string;
+  speaker: string;
+  date: string;
+  context?: string;
+  // Primary source link
+  link: string;
+  tags?: string[];
+  // Supporting sources; records without it fall back to `link`
+  sources?: QuoteSource[];
+  verification?: VerificationStatus;
+  verifiedBy?: string;
+  verifiedAt?: string;
+};
+
+// Direct speech found in a news article, waiting for an editor's decision
+export type QuoteCandidateStatus = "pending" | "accepted" | "rejected";
+
+export type QuoteCandidate = {
+  id: string;
+  status: QuoteCandidateStatus;
+  text: string;
+  speaker: string;
+  date: string;
+  context?: string;
+  link: string;
+  source: string;
+  newsId: string;
+  extractedAt: string;
+  reviewedAt?: string;
+  // Set once accepted: the QuoteItem created from this candidate
+  quoteId?: string;
+};
+
+// Caption drafts: draft -> in-review -> approved -> posted
+export type DraftStatus = "draft" | "in-review" | "approved" | "posted";
+
+export type CaptionVersion = {
+  text: string;
+  author: string;
+  // User id of the writer; versions saved before sign-in only have the name
+  authorId?: string;
+  at: string;
+};
+
+export type DraftTransition = {
+  from: DraftStatus;
+  to: DraftStatus;
+  by: string;
+  at: string;
+  note?: string;
+};
+
+export type CaptionDraft = {
+  id: string;
+  // Current text (same as the last version)
+  text: string;
+  platform: string;
+  template?: string;
+  // Item the caption is about
+  subject?: { kind: "event" | "news" | "quote"; id: string; title: string };
+  author: string;
+  // User id of the author; drafts saved before sign-in only have the name
+  authorId?: string;
+  status: DraftStatus;
+  versions: CaptionVersion[];
+  transitions: DraftTransition[];
+  approvedBy?: string;
+  approvedAt?: string;
+  postedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Union helper to avoid any
+export type CombinedItem = EventItem | NewsItem | QuoteItem;
+
+// One taxonomy covers event/quote tags and news entities alike
+export type TagCategory = "mode" | "policy" | "region" | "other";
+
+export type TagEntry = {
+  id: string;
+  // Canonical spelling written on items
+  label: string;
+  category: TagCategory;
+  // Variants rewritten to `label` at ingest ("Maritim" -> "Laut")
+  synonyms: string[];
+  createdAt: string;
+  updatedAt: string;
+};
+
+// Health of one scheduled ingestor, as exposed by /api/ingestors
+export type IngestorHealth = "never" | "running" | "ok" | "failing" | "down";
+
+export type IngestorStatus = {
+  id: string;
+  label: string;
+  intervalMinutes: number;
+  // "HH:MM" WIB for jobs that run once a day
+  dailyAt?: string;
+  health: IngestorHealth;
+  running: boolean;
+  lastRunAt?: string;
+  lastDurationMs?: number;
+  lastCounts?: { fetched: number; inserted: number; updated: number; skipped: number };
+  lastError?: string;
+  // Entries the last run could not parse
+  lastWarnings?: string[];
+  lastSuccessAt?: string;
+  consecutiveFailures: number;
+  nextRunAt?: string;
+};
+
+// Rolling period a watch looks at, resolved when new items arrive; "all" has no limit
+export type WatchPeriod = Exclude<RangePreset, "custom"> | "all";
+
+// Saved filter bar state that raises notifications for newly ingested matches
+export type Watch = {
+  id: string;
+  name: string;
+  query: string;
+  tags: TagFilter;
+  period: WatchPeriod;
+  onlyMinister: boolean;
+  tone: Tone | "all";
+  // Matches are also POSTed here as JSON when set
+  webhookUrl?: string;
+  enabled: boolean;
+  createdBy?: string;
+  createdAt: string;
+  updatedAt: string;
+};
+
+// One item a watch matched when it was ingested
+export type WatchMatch = {
+  id: string;
+  watchId: string;
+  kind: "event" | "news" | "quote";
+  itemId: string;
+  title: string;
+  // Event, publication or quote date
+  date: string;
+  link: string;
+  matchedAt: string;
+  // Accounts that opened the match; every user has their own unread state
+  readBy?: string[];
+  // Shared flag from before read state was per account; read for everyone
+  read?: boolean;
+  // Delivery to the watch's webhook, when it has one
+  webhook?: { ok: boolean; at: string; error?: string };
+};
+
+// Thresholds and keywords of the incident spike detector (lib/incidents)
+export type IncidentConfig = {
+  id: string;
+  // Words or phrases; matched by stem, so "kecelakaan" also finds "celaka"
+  keywords: string[];
+  // Length of the current window and of each baseline bucket
+  windowHours: number;
+  // How far back the baseline buckets reach
+  baselineDays: number;
+  // A spike needs at least this many items in the window...
+  minCount: number;
+  // ...and a z-score against the baseline buckets of at least this
+  zThreshold: number;
+  // How far back the crisis timeline and pinned items reach
+  timelineHours: number;
+  // "off" keeps the normal layout even while spikes are flagged
+  crisisMode: "auto" | "off";
+  updatedAt?: string;
+  updatedBy?: string;
+};
+
+// Access levels, lowest first; each role may do everything the roles before it may
+export type Role = "viewer" | "editor" | "approver" | "admin";
+
+// Dashboard account (lib/auth); never sent to the browser as is
+export type User = {
+  id: string;
+  // Login name, lowercase
+  username: string;
+  // Display name, recorded as author/reviewer on drafts, quotes and settings
+  name: string;
+  role: Role;
+  // scrypt hash, see lib/auth/password.ts
+  passwordHash: string;
+  enabled: boolean;
+  // Bumped on password change, role change or "logout everywhere"; older
+  // session cookies stop working
+  sessionVersion: number;
+  // Secret in the personal calendar subscription URL
+  feedToken: string;
+  createdAt: string;
+  updatedAt: string;
+  lastLoginAt?: string;
+};
+
+// What an audit entry is about; `id` "*" marks bulk runs over every item of the kind
+export type AuditRef = {
+  kind:
+    | "event"
+    | "news"
+    | "quote"
+    | "candidate"
+    | "draft"
+    | "tag"
+    | "watch"
+    | "source"
+    | "setting"
+    | "user"
+    | "briefing";
+  id: string;
+  // Title, label or name at the time of the action
+  label?: string;
+};
+
+// One editorial action (lib/audit); entries are only ever appended
+export type AuditEntry = {
+  id: string;
+  at: string;
+  actor: { id: string; name: string; role: Role };
+  // "<kind>.<verb>", e.g. "quote.verify"; labels in lib/audit/actions.ts
+  action: string;
+  target: AuditRef;
+  // Item a caption or draft is about, so the action shows in that item's history
+  subject?: AuditRef;
+  // Changed fields only, before and after the action
+  before?: Record<string, unknown>;
+  after?: Record<string, unknown>;
+  note?: string;
+};
@@ -0,0 +1,28 @@
+import { describe, expect, it } from "vitest";
+import { parseEvent, parseNews, parseQuote } from "./validate";
+
+const event = {
+  title: "Peresmian Terminal",
+  date: "2026-10-20T02:00:00.000Z",
+  location: "Bekasi",
+  source: "dephub.go.id",
+};
+const news = { title: "Tarif KRL", source: "antaranews.com", publishedAt: "2026-10-20" };
+const quote = { text: "Layanan harus aman.", speaker: "Menhub", date: "2026-10-20" };
+
+describe("validate", () => {
+  it("accepts http(s) links and defaults a missing one to #", () => {
+    const parsed = parseEvent({ ...event, link: " https://dephub.go.id/a " }, "evt-1");
+    expect(parsed).toMatchObject({ ok: true, value: { link: "https://dephub.go.id/a" } });
+    expect(parseNews(news, "news-1")).toMatchObject({ ok: true, value: { link: "#" } });
+  });
+
+  it("rejects links that are not http(s)", () => {
+    for (const link of ["javascript:alert(1)", "data:text/html,x", "ftp://x.test/a", "dephub"]) {
+      const errors = ["link harus URL http(s)"];
+      expect(parseEvent({ ...event, link }, "evt-1")).toEqual({ ok: false, errors });
+      expect(parseNews({ ...news, link }, "news-1")).toEqual({ ok: false, errors });
+      expect(parseQuote({ ...quote, link }, "q-1")).toEqual({ ok: false, errors });
+    }
+  });
+});
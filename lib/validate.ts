@@ -0,0 +1,96 @@
+// =============================
+// Minimal runtime validation for records posted to the API.
+// Each parser returns the normalized record or a list of problems.
+// =============================
+
+import { isHttpUrl } from "./ingest/text";
+import type { EventItem, NewsItem, QuoteItem } from "./types";
+
+type Parsed<T> = { ok: true; value: T } | { ok: false; errors: string[] };
+
+type Body = Record<string, unknown>;
+
+const str = (b: Body, key: string, errors: string[], required = true) => {
+  const v = b[key];
+  if (typeof v === "string" && v.trim()) return v.trim();
+  if (required) errors.push(`${key} wajib diisi`);
+  return undefined;
+};
+
+// Optional source link; "#" when missing. Only http(s) is accepted, since the
+// link is rendered as an anchor in the dashboard and in briefings
+const link = (b: Body, errors: string[]) => {
+  const v = str(b, "link", errors, false);
+  if (v === undefined) return "#";
+  if (!isHttpUrl(v)) errors.push("link harus URL http(s)");
+  return v;
+};
+
+const isoDate = (b: Body, key: string, errors: string[]) => {
+  const v = str(b, key, errors);
+  if (!v) return "";
+  const d = new Date(v);
+  if (isNaN(+d)) {
+    errors.push(`${key} bukan tanggal yang valid`);
+    return "";
+  }
+  return d.toISOString();
+};
+
+const strList = (b: Body, key: string) => {
+  const v = b[key];
+  if (!Array.isArray(v)) return undefined;
+  const list = v.filter((x): x is string => typeof x === "string" && !!x.trim());
+  return list.map((x) => x.trim());
+};
+
+const asBody = (input: unknown): Body =>
+  input && typeof input === "object" ? (input as Body) : {};
+
+export function parseEvent(input: unknown, id: string): Parsed<EventItem> {
+  const b = asBody(input);
+  const errors: string[] = [];
+  const value: EventItem = {
+    id,
+    title: str(b, "title", errors) ?? "",
+    date: isoDate(b, "date", errors),
+    location: str(b, "location", errors) ?? "",
+    attendedByMinister: b.attendedByMinister === true,
+    source: str(b, "source", errors) ?? "",
+    tags: strList(b, "tags"),
+    summary: str(b, "summary", errors, false),
+    link: link(b, errors),
+  };
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+export function parseNews(input: unknown, id: string): Parsed<NewsItem> {
+  const b = asBody(input);
+  const errors: string[] = [];
+  const value: NewsItem = {
+    id,
+    title: str(b, "title", errors) ?? "",
+    source: str(b, "source", errors) ?? "",
+    publishedAt: isoDate(b, "publishedAt", errors),
+    link: link(b, errors),
+    summary: str(b, "summary", errors, false),
+    body: str(b, "body", errors, false),
+    entities: strList(b, "entities"),
+  };
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
+
+export function parseQuote(input: unknown, id: string): Parsed<QuoteItem> {
+  const b = asBody(input);
+  const errors: string[] = [];
+  const value: QuoteItem = {
+    id,
+    text: str(b, "text", errors) ?? "",
+    speaker: str(b, "speaker", errors) ?? "",
+    date: isoDate(b, "date", errors),
+    context: str(b, "context", errors, false),
+    link: link(b, errors),
+    tags: strList(b, "tags"),
+  };
+  return errors.length ? { ok: false, errors } : { ok: true, value };
+}
@@ -0,0 +1,189 @@
+// =============================
+// Saved watches and their match history (server only).
+// Matches are recorded by lib/watch/notify.ts when items are ingested. Read
+// state is per account: a watch's unread count is the matches the signed-in
+// user has not opened yet.
+// =============================
+
+import { EMPTY_TAG_FILTER, type TagFilter } from "../facets";
+import { fail, ok, type Result } from "../result";
+import { TONES } from "../sentiment/lexicon";
+import { createCollection, newId } from "../store";
+import type { Tone, Watch, WatchMatch } from "../types";
+import { isWatchPeriod } from "./match";
+
+export const watches = createCollection<Watch>("watches");
+export const watchMatches = createCollection<WatchMatch>("watch-matches");
+
+// Request bodies are untrusted JSON, so every field is checked before use
+export type WatchInput = {
+  name?: unknown;
+  query?: unknown;
+  tags?: unknown;
+  period?: unknown;
+  onlyMinister?: unknown;
+  tone?: unknown;
+  webhookUrl?: unknown;
+  enabled?: unknown;
+  by?: string;
+};
+
+export type WatchSummary = Watch & { unread: number; total: number; lastMatchAt?: string };
+
+const names = (list: unknown) =>
+  [...new Set((Array.isArray(list) ? list : []).map((t) => String(t).trim()).filter(Boolean))];
+
+function cleanTags(input: unknown): TagFilter {
+  if (!input || typeof input !== "object") return EMPTY_TAG_FILTER;
+  const tags = input as Partial<Record<keyof TagFilter, unknown>>;
+  return {
+    include: names(tags.include),
+    exclude: names(tags.exclude),
+    mode: tags.mode === "and" ? "and" : "or",
+  };
+}
+
+function cleanWebhook(url: unknown): Result<string | undefined> {
+  if (url !== null && typeof url !== "string") return fail(400, "Webhook harus URL http(s)");
+  const value = url?.trim();
+  if (!value) return ok(undefined);
+  try {
+    const u = new URL(value);
+    if (u.protocol === "http:" || u.protocol === "https:") return ok(u.toString());
+  } catch {
+    // reported below
+  }
+  return fail(400, "Webhook harus URL http(s)");
+}
+
+// Fields of `input` over `base`; a watch needs a name and at least one criterion
+function applyInput(base: Watch, input: WatchInput): Result<Watch> {
+  for (const field of ["name", "query"] as const) {
+    if (input[field] !== undefined && typeof input[field] !== "string") {
+      return fail(400, `${field} harus berupa teks`);
+    }
+  }
+  for (const field of ["onlyMinister", "enabled"] as const) {
+    if (input[field] !== undefined && typeof input[field] !== "boolean") {
+      return fail(400, `${field} harus true atau false`);
+    }
+  }
+  if (input.period !== undefined && !isWatchPeriod(input.period)) {
+    return fail(400, "Periode tidak dikenal");
+  }
+  const tone = input.tone;
+  if (tone !== undefined && tone !== "all" && !TONES.includes(tone as Tone)) {
+    return fail(400, "Tone tidak dikenal");
+  }
+  const webhook =
+    input.webhookUrl === undefined ? ok(base.webhookUrl) : cleanWebhook(input.webhookUrl);
+  if (!webhook.ok) return webhook;
+  const next: Watch = {
+    ...base,
+    name: typeof input.name === "string" ? input.name.trim() : base.name,
+    query: typeof input.query === "string" ? input.query.trim() : base.query,
+    tags: input.tags === undefined ? base.tags : cleanTags(input.tags),
+    period: (input.period as Watch["period"] | undefined) ?? base.period,
+    onlyMinister: typeof input.onlyMinister === "boolean" ? input.onlyMinister : base.onlyMinister,
+    tone: (tone as Watch["tone"] | undefined) ?? base.tone,
+    webhookUrl: webhook.value,
+    enabled: typeof input.enabled === "boolean" ? input.enabled : base.enabled,
+  };
+  if (!next.name) return fail(400, "Nama watch wajib diisi");
+  const hasCriteria =
+    next.query ||
+    next.tags.include.length ||
+    next.tags.exclude.length ||
+    next.onlyMinister ||
+    next.tone !== "all";
+  if (!hasCriteria) return fail(400, "Isi pencarian, tag, tone atau filter Menteri");
+  return ok(next);
+}
+
+export async function createWatch(input: WatchInput): Promise<Result<Watch>> {
+  const now = new Date().toISOString();
+  const base: Watch = {
+    id: newId("watch"),
+    name: "",
+    query: "",
+    tags: EMPTY_TAG_FILTER,
+    period: "all",
+    onlyMinister: false,
+    tone: "all",
+    enabled: true,
+    createdBy: input.by?.trim() || undefined,
+    createdAt: now,
+    updatedAt: now,
+  };
+  const next = applyInput(base, input);
+  if (!next.ok) return next;
+  return ok(await watches.put(next.value));
+}
+
+export async function updateWatch(id: string, input: WatchInput): Promise<Result<Watch>> {
+  return watches.change(id, (current) => {
+    if (!current) return fail(404, `Watch ${id} tidak ditemukan`);
+    const next = applyInput(current, input);
+    return next.ok ? ok({ ...next.value, updatedAt: new Date().toISOString() }) : next;
+  });
+}
+
+// Removes the watch together with its match history
+export async function deleteWatch(id: string): Promise<Result<{ removed: number }>> {
+  if (!(await watches.remove(id))) return fail(404, `Watch ${id} tidak ditemukan`);
+  return ok({ removed: await watchMatches.removeWhere((m) => m.watchId === id) });
+}
+
+// Matches recorded before read state was per account carry a shared flag
+const readBy = (m: WatchMatch, userId: string) =>
+  Boolean(m.read) || Boolean(m.readBy?.includes(userId));
+
+// A match as one account sees it
+export type MatchView = WatchMatch & { read: boolean };
+
+export async function listWatches(userId: string): Promise<WatchSummary[]> {
+  const matches = await watchMatches.all();
+  return (await watches.all())
+    .map((w) => {
+      const own = matches.filter((m) => m.watchId === w.id);
+      return {
+        ...w,
+        unread: own.filter((m) => !readBy(m, userId)).length,
+        total: own.length,
+        lastMatchAt: own.reduce<string | undefined>(
+          (last, m) => (!last || m.matchedAt > last ? m.matchedAt : last),
+          undefined
+        ),
+      };
+    })
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// Newest first; all watches when `watchId` is not given
+export async function listMatches(
+  userId: string,
+  opts: { watchId?: string; unread?: boolean; limit?: number } = {}
+): Promise<MatchView[]> {
+  return (await watchMatches.all())
+    .map((m): MatchView => ({ ...m, read: readBy(m, userId) }))
+    .filter((m) => !opts.watchId || m.watchId === opts.watchId)
+    .filter((m) => !opts.unread || !m.read)
+    .sort((a, b) => b.matchedAt.localeCompare(a.matchedAt) || b.date.localeCompare(a.date))
+    .slice(0, opts.limit ?? Infinity);
+}
+
+// Marks the given matches, or every match of `watchId`, or everything, as
+// read for `userId` only
+export async function markMatchesRead(
+  userId: string,
+  opts: { ids?: string[]; watchId?: string }
+) {
+  const marked = await watchMatches.updateMany((m) =>
+    !readBy(m, userId) &&
+    (!opts.ids || opts.ids.includes(m.id)) &&
+    (!opts.watchId || m.watchId === opts.watchId)
+      ? { ...m, readBy: [...(m.readBy ?? []), userId] }
+      : undefined
+  );
+  return marked.length;
+}
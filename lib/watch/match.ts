@@ -0,0 +1,84 @@
+// =============================
+// Watch matching (pure; client and server safe).
+// A watch is the filter bar saved under a name: a new item matches when the
+// dashboard would list it with those filters at the moment it arrives.
+// =============================
+
+import { RANGE_PRESETS, presetRange, type DateRange } from "../daterange";
+import { describeTagFilter } from "../facets";
+import { applyFilters, type DashboardFilters } from "../filters";
+import { TONE_LABEL } from "../sentiment/lexicon";
+import type { EventItem, NewsItem, QuoteItem, Watch, WatchMatch, WatchPeriod } from "../types";
+
+export const ALL_TIME: DateRange = {
+  from: new Date(0).toISOString(),
+  to: "9999-12-31T00:00:00.000Z",
+};
+
+export const WATCH_PERIODS: Array<{ id: WatchPeriod; label: string }> = [
+  { id: "all", label: "Semua waktu" },
+  ...RANGE_PRESETS.filter((p): p is { id: Exclude<WatchPeriod, "all">; label: string } =>
+    p.id !== "custom"
+  ),
+];
+
+export const isWatchPeriod = (p: unknown): p is WatchPeriod =>
+  WATCH_PERIODS.some((w) => w.id === p);
+
+export function watchFilters(w: Watch, now = Date.now()): DashboardFilters {
+  return {
+    range: w.period === "all" ? ALL_TIME : presetRange(w.period, now),
+    onlyMinister: w.onlyMinister,
+    tags: w.tags,
+    tone: w.tone,
+    query: w.query,
+  };
+}
+
+export type WatchHit = Pick<WatchMatch, "kind" | "itemId" | "title" | "date" | "link">;
+
+// Items of `data` the watch matches, in kind order
+export function matchWatch(
+  w: Watch,
+  data: { events: EventItem[]; news: NewsItem[]; quotes: QuoteItem[] },
+  now = Date.now()
+): WatchHit[] {
+  const found = applyFilters(data, watchFilters(w, now));
+  return [
+    ...found.events.map(
+      (e): WatchHit => ({ kind: "event", itemId: e.id, title: e.title, date: e.date, link: e.link })
+    ),
+    ...found.news.map(
+      (n): WatchHit => ({
+        kind: "news",
+        itemId: n.id,
+        title: n.title,
+        date: n.publishedAt,
+        link: n.link,
+      })
+    ),
+    ...found.quotes.map(
+      (q): WatchHit => ({
+        kind: "quote",
+        itemId: q.id,
+        title: `"${q.text}" - ${q.speaker}`,
+        date: q.date,
+        link: q.link,
+      })
+    ),
+  ];
+}
+
+// `"tarif ojol" - Darat - 7 hari - Menhub` for lists
+export function describeWatch(
+  w: Pick<Watch, "query" | "tags" | "period" | "onlyMinister" | "tone">
+) {
+  const parts: string[] = [];
+  if (w.query.trim()) parts.push(`"${w.query.trim()}"`);
+  const tags = describeTagFilter(w.tags);
+  if (tags) parts.push(tags);
+  parts.push(WATCH_PERIODS.find((p) => p.id === w.period)?.label ?? w.period);
+  if (w.onlyMinister) parts.push("event Menhub");
+  if (w.tone !== "all") parts.push(`berita ${TONE_LABEL[w.tone]}`);
+  return parts.join(" - ");
+}
@@ -0,0 +1,117 @@
+import { mkdtempSync } from "fs";
+import { tmpdir } from "os";
+import path from "path";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import type { EventItem } from "../types";
+
+const event: EventItem = {
+  id: "evt-1",
+  title: "Menhub meninjau Pelabuhan Merak",
+  date: "2026-10-19T02:00:00.000Z",
+  location: "Pelabuhan Merak, Banten",
+  attendedByMinister: true,
+  source: "dephub.go.id",
+  link: "https://dephub.go.id/agenda/detail/1",
+};
+
+async function load() {
+  vi.stubEnv("CC_DATA_DIR", mkdtempSync(path.join(tmpdir(), "cc-watch-")));
+  vi.resetModules();
+  const manage = await import("./manage");
+  const notify = await import("./notify");
+  for (const name of ["Cepat", "Lambat", "Rusak"]) {
+    const hook = `https://${name.toLowerCase()}.test/hook`;
+    const created = await manage.createWatch({ name, onlyMinister: true, webhookUrl: hook });
+    if (!created.ok) throw new Error(created.error);
+  }
+  return { ...manage, ...notify };
+}
+
+describe("evaluateWatches", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it("posts webhooks side by side and records every match", async () => {
+    const { evaluateWatches, watchMatches, watches } = await load();
+    let inFlight = 0;
+    let maxInFlight = 0;
+    vi.stubGlobal(
+      "fetch",
+      vi.fn(async (url: string) => {
+        inFlight++;
+        maxInFlight = Math.max(maxInFlight, inFlight);
+        await new Promise((r) => setTimeout(r, url.includes("lambat") ? 20 : 5));
+        inFlight--;
+        if (url.includes("rusak")) throw new Error("ECONNREFUSED");
+        return new Response(null, { status: 204 });
+      })
+    );
+
+    expect(await evaluateWatches({ events: [event] })).toBe(3);
+    expect(maxInFlight).toBe(3);
+
+    const names = new Map((await watches.all()).map((w) => [w.id, w.name]));
+    const byName = Object.fromEntries(
+      (await watchMatches.all()).map((m) => [names.get(m.watchId), m.webhook])
+    );
+    expect(byName.Cepat).toMatchObject({ ok: true });
+    expect(byName.Lambat).toMatchObject({ ok: true });
+    expect(byName.Rusak).toMatchObject({ ok: false, error: "ECONNREFUSED" });
+
+    // The same item does not notify twice
+    expect(await evaluateWatches({ events: [event] })).toBe(0);
+  });
+
+  it("deleteWatch removes the watch's whole match history", async () => {
+    const { deleteWatch, evaluateWatches, watchMatches, watches } = await load();
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 204 })));
+    await evaluateWatches({ events: [event, { ...event, id: "evt-2", link: `${event.link}2` }] });
+    const [first] = await watches.all();
+
+    expect(await deleteWatch(first.id)).toEqual({ ok: true, value: { removed: 2 } });
+    expect((await watchMatches.all()).some((m) => m.watchId === first.id)).toBe(false);
+    expect(await watchMatches.all()).toHaveLength(4);
+  });
+});
+
+describe("watch matches", () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.resetModules();
+  });
+
+  it("keeps read state per account", async () => {
+    const { evaluateWatches, listMatches, listWatches, markMatchesRead } = await load();
+    vi.stubGlobal("fetch", vi.fn(async () => new Response(null, { status: 204 })));
+    await evaluateWatches({ events: [event] });
+
+    expect(await markMatchesRead("usr-ani", {})).toBe(3);
+    expect(await markMatchesRead("usr-ani", {})).toBe(0);
+    expect(await listMatches("usr-ani", { unread: true })).toHaveLength(0);
+    expect(await listMatches("usr-budi", { unread: true })).toHaveLength(3);
+    expect((await listWatches("usr-budi")).map((w) => w.unread)).toEqual([1, 1, 1]);
+
+    const [first] = await listWatches("usr-budi");
+    expect(await markMatchesRead("usr-budi", { watchId: first.id })).toBe(1);
+    expect((await listWatches("usr-budi")).map((w) => w.unread).sort()).toEqual([0, 1, 1]);
+  });
+
+  it("rejects fields of the wrong type", async () => {
+    const { createWatch, updateWatch, watches } = await load();
+    expect(await createWatch({ name: 5, query: "banjir" })).toMatchObject({ status: 400 });
+    expect(await createWatch({ name: "Banjir", query: ["x"] })).toMatchObject({ status: 400 });
+    expect(await createWatch({ name: "Banjir", query: "banjir", enabled: "ya" })).toMatchObject({
+      status: 400,
+    });
+    expect(await createWatch({ name: "Banjir", query: "x", webhookUrl: 1 })).toMatchObject({
+      status: 400,
+    });
+    const [first] = await watches.all();
+    expect(await updateWatch(first.id, { tags: "Laut" })).toMatchObject({ ok: true });
+    expect(await updateWatch(first.id, { name: { x: 1 } })).toMatchObject({ status: 400 });
+  });
+});
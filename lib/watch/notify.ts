@@ -0,0 +1,108 @@
+// =============================
+// Watch evaluation on ingest (server only).
+// Ingest jobs and the create routes hand over the items they just added; each
+// enabled watch records its matches as unread notifications and, when it has
+// a webhook, POSTs them there. A failing webhook never fails the ingest or
+// the request that added the item.
+// =============================
+
+import { events, news, newId, quotes } from "../store";
+import type { EventItem, NewsItem, QuoteItem, Watch, WatchMatch } from "../types";
+import { watches, watchMatches } from "./manage";
+import { matchWatch } from "./match";
+
+export type NewItems = { events?: EventItem[]; news?: NewsItem[]; quotes?: QuoteItem[] };
+
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+const matchKey = (m: Pick<WatchMatch, "watchId" | "kind" | "itemId">) =>
+  `${m.watchId}:${m.kind}:${m.itemId}`;
+
+async function postWebhook(
+  url: string,
+  w: Watch,
+  matches: WatchMatch[]
+): Promise<WatchMatch["webhook"]> {
+  const at = new Date().toISOString();
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "content-type": "application/json" },
+      body: JSON.stringify({
+        watch: { id: w.id, name: w.name },
+        matches: matches.map(({ kind, itemId, title, date, link, matchedAt }) => ({
+          kind,
+          itemId,
+          title,
+          date,
+          link,
+          matchedAt,
+        })),
+      }),
+      cache: "no-store",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    });
+    return res.ok ? { ok: true, at } : { ok: false, at, error: `HTTP ${res.status}` };
+  } catch (err) {
+    return { ok: false, at, error: (err as Error).message || String(err) };
+  }
+}
+
+// Records matches of the new items; returns how many were recorded
+export async function evaluateWatches(items: NewItems, now = new Date()) {
+  const data = { events: items.events ?? [], news: items.news ?? [], quotes: items.quotes ?? [] };
+  if (!data.events.length && !data.news.length && !data.quotes.length) return 0;
+  const active = (await watches.all()).filter((w) => w.enabled);
+  if (!active.length) return 0;
+
+  // An item re-ingested under the same id does not notify twice
+  const known = new Set((await watchMatches.all()).map(matchKey));
+  const matchedAt = now.toISOString();
+  const freshFor = (w: Watch) =>
+    matchWatch(w, data, +now)
+      .map(
+        (hit): WatchMatch => ({ ...hit, id: newId("match"), watchId: w.id, matchedAt, readBy: [] })
+      )
+      .filter((m) => !known.has(matchKey(m)));
+  const perWatch = active
+    .map((w) => ({ w, fresh: freshFor(w) }))
+    .filter(({ fresh }) => fresh.length);
+  // Webhooks go out side by side, so one slow endpoint doesn't hold up the rest
+  const recorded = await Promise.all(
+    perWatch.map(async ({ w, fresh }) => {
+      const webhook = w.webhookUrl ? await postWebhook(w.webhookUrl, w, fresh) : undefined;
+      return fresh.map((m) => (webhook ? { ...m, webhook } : m));
+    })
+  );
+  const all = recorded.flat();
+  if (all.length) await watchMatches.upsert(all);
+  return all.length;
+}
+
+// For callers that already stored the items: a failing evaluation is logged,
+// it never fails the ingest run or the request that added them
+export async function notifyWatches(items: NewItems) {
+  try {
+    await evaluateWatches(items);
+  } catch (err) {
+    console.error("[watch] evaluation failed:", err);
+  }
+}
+
+const idsOf = async () => ({
+  events: new Set((await events.all()).map((e) => e.id)),
+  news: new Set((await news.all()).map((n) => n.id)),
+  quotes: new Set((await quotes.all()).map((q) => q.id)),
+});
+
+// Runs an ingest step and evaluates watches over the items it added
+export async function withWatches<T>(run: () => Promise<T>): Promise<T> {
+  const before = await idsOf();
+  const result = await run();
+  await notifyWatches({
+    events: (await events.all()).filter((e) => !before.events.has(e.id)),
+    news: (await news.all()).filter((n) => !before.news.has(n.id)),
+    quotes: (await quotes.all()).filter((q) => !before.quotes.has(q.id)),
+  });
+  return result;
+}
@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server";
+import { SESSION_COOKIE, verifySession } from "@/lib/auth/session";
+
+// =============================
+// Sign-in gate for every page and API route. Only the signature and expiry of
+// the session cookie are checked here; every API route also checks that the
+// user is still enabled and the session not revoked (lib/auth/guard.ts).
+// =============================
+
+// Reachable without a session
+const PUBLIC_PATHS = ["/login", "/api/auth/login", "/api/auth/setup", "/api/auth/session"];
+
+export async function middleware(req: NextRequest) {
+  const { pathname, searchParams } = req.nextUrl;
+  if (PUBLIC_PATHS.includes(pathname)) return NextResponse.next();
+  // Calendar apps cannot sign in; the feed checks its personal token itself
+  if (pathname === "/api/events/ics" && searchParams.has("token")) return NextResponse.next();
+
+  if (await verifySession(req.cookies.get(SESSION_COOKIE)?.value)) return NextResponse.next();
+
+  if (pathname.startsWith("/api/")) {
+    return NextResponse.json({ error: "Silakan login terlebih dahulu" }, { status: 401 });
+  }
+  const login = new URL("/login", req.url);
+  if (pathname !== "/") login.searchParams.set("next", `${pathname}${req.nextUrl.search}`);
+  return NextResponse.redirect(login);
+}
+
+export const config = {
+  matcher: ["/((?!_next/static|_next/image|favicon.ico).*)"],
+};